@@ -0,0 +1,217 @@
+import * as admin from 'firebase-admin';
+import * as functions from 'firebase-functions';
+import { AccountDeletionRepository, AccountDeletionTrigger } from '../data/accountDeletionRepository';
+import { StorageBucket } from '../data/storageLinks';
+
+export interface AccountDeletionOptions {
+  /** Documents deleted per batch; Firestore allows 500 writes per batch */
+  batchSize: number;
+}
+
+export const DEFAULT_ACCOUNT_DELETION_OPTIONS: AccountDeletionOptions = {
+  batchSize: 400
+};
+
+export type AccountDeletionResult =
+  | { status: 'deleted'; receiptId: string; deletedCounts: Record<string, number> }
+  | { status: 'nothingToDelete' };
+
+/**
+ * One place a user's data lives: deleting it and checking that nothing is left. `record`
+ * is called with each batch deleted.
+ */
+interface DeletionStep {
+  name: string;
+  delete(record: (count: number) => Promise<void>): Promise<void>;
+  hasData(): Promise<boolean>;
+}
+
+// The per-user documents of firestore.rules, each deleted with all of its subcollections
+const USER_DOCUMENT_COLLECTIONS = [
+  'users',
+  'user_settings',
+  'daily_logs',
+  'health_data',
+  'cycle_tracking',
+  'temperature_data',
+  'symptoms'
+];
+
+/**
+ * Deletes everything stored about a user: their documents in every per-user collection with
+ * all subcollections, their report shares, their scheduled notifications, their jobs and
+ * failures in insight runs and their Cloud Storage objects. Progress is kept per step, so a deletion that is interrupted resumes where
+ * it stopped, and every location is checked empty before a receipt is written.
+ */
+export class AccountDeleter {
+  private readonly deletions: AccountDeletionRepository;
+
+  constructor(
+    private readonly db: admin.firestore.Firestore,
+    private readonly bucket: StorageBucket,
+    private readonly options: AccountDeletionOptions = DEFAULT_ACCOUNT_DELETION_OPTIONS
+  ) {
+    this.deletions = new AccountDeletionRepository(db);
+  }
+
+  async delete(userId: string, trigger: AccountDeletionTrigger, now: Date = new Date()): Promise<AccountDeletionResult> {
+    const steps = this.steps(userId);
+    let job = await this.deletions.getJob(userId);
+    if (!job) {
+      // Deleting the Auth user after a requested deletion lands here with nothing left
+      if (!await this.anyData(steps)) {return { status: 'nothingToDelete' };}
+      job = await this.deletions.createJob(userId, trigger, now);
+    }
+
+    const completedSteps = [...job.completedSteps];
+    const deletedCounts = { ...job.deletedCounts };
+    for (const step of steps) {
+      if (completedSteps.includes(step.name)) {continue;}
+
+      await step.delete(async count => {
+        deletedCounts[step.name] = (deletedCounts[step.name] ?? 0) + count;
+        await this.deletions.addDeleted(userId, step.name, count);
+      });
+      completedSteps.push(step.name);
+      await this.deletions.setCompletedSteps(userId, completedSteps);
+    }
+
+    const remaining: string[] = [];
+    for (const step of steps) {
+      if (await step.hasData()) {remaining.push(step.name);}
+    }
+    if (remaining.length > 0) {
+      // Written while deleting, e.g. by an app still syncing; the next attempt starts over
+      await this.deletions.setCompletedSteps(userId, completedSteps.filter(step => !remaining.includes(step)));
+      throw new Error(`Data left after account deletion: ${remaining.join(', ')}`);
+    }
+
+    const receiptId = await this.deletions.complete(userId, {
+      trigger: job.trigger,
+      startedAt: job.startedAt,
+      completedAt: admin.firestore.Timestamp.fromDate(now),
+      deletedCounts,
+      verified: true
+    });
+    functions.logger.info('Account data deleted', { receiptId, deletedCounts });
+    return { status: 'deleted', receiptId, deletedCounts };
+  }
+
+  private steps(userId: string): DeletionStep[] {
+    const shares = this.db.collection('sharedReports').where('userId', '==', userId);
+    const notifications = this.db.collection('scheduledNotifications').where('userId', '==', userId);
+    const insightJobs = this.db.collectionGroup('jobs').where('userId', '==', userId);
+    const failedInsightRuns = this.db.collection('insightRuns').where('failedUserIds', 'array-contains', userId);
+    const storagePrefix = `users/${userId}/`;
+
+    return [
+      {
+        name: 'sharedReports',
+        delete: record => this.deleteQuery(shares, record),
+        hasData: async () => !(await shares.limit(1).get()).empty
+      },
+      {
+        name: 'scheduledNotifications',
+        delete: record => this.deleteQuery(notifications, record),
+        hasData: async () => !(await notifications.limit(1).get()).empty
+      },
+      {
+        name: 'insightRunJobs',
+        delete: record => this.deleteQuery(insightJobs, record),
+        hasData: async () => !(await insightJobs.limit(1).get()).empty
+      },
+      {
+        // The runs are kept for their totals; counts the runs the uid was removed from
+        name: 'insightRunFailures',
+        delete: record => this.removeFromFailedUserIds(failedInsightRuns, userId, record),
+        hasData: async () => !(await failedInsightRuns.limit(1).get()).empty
+      },
+      ...USER_DOCUMENT_COLLECTIONS.map((collection): DeletionStep => {
+        const ref = this.db.collection(collection).doc(userId);
+        return {
+          name: collection,
+          delete: record => this.deleteDocument(ref, record),
+          hasData: async () => (await ref.get()).exists || (await ref.listCollections()).length > 0
+        };
+      }),
+      {
+        name: 'storage',
+        delete: record => this.deleteStorageObjects(storagePrefix, record),
+        hasData: async () => {
+          const [files] = await this.bucket.getFiles({ prefix: storagePrefix, maxResults: 1, autoPaginate: false });
+          return files.length > 0;
+        }
+      }
+    ];
+  }
+
+  private async anyData(steps: DeletionStep[]): Promise<boolean> {
+    for (const step of steps) {
+      if (await step.hasData()) {return true;}
+    }
+    return false;
+  }
+
+  /**
+   * Delete a document with its subcollections; documents that only hold subcollections
+   * (like daily_logs/{uid}) have nothing of their own to delete
+   */
+  private async deleteDocument(
+    ref: admin.firestore.DocumentReference,
+    record: (count: number) => Promise<void>
+  ): Promise<void> {
+    for (const collection of await ref.listCollections()) {
+      await this.deleteQuery(collection, record);
+    }
+    if ((await ref.get()).exists) {
+      await ref.delete();
+      await record(1);
+    }
+  }
+
+  /**
+   * Delete every document a query matches, a batch at a time, subcollections first
+   */
+  private async deleteQuery(query: admin.firestore.Query, record: (count: number) => Promise<void>): Promise<void> {
+    for (;;) {
+      const snapshot = await query.limit(this.options.batchSize).get();
+      if (snapshot.empty) {return;}
+
+      for (const doc of snapshot.docs) {
+        for (const collection of await doc.ref.listCollections()) {
+          await this.deleteQuery(collection, record);
+        }
+      }
+      const batch = this.db.batch();
+      snapshot.docs.forEach(doc => batch.delete(doc.ref));
+      await batch.commit();
+      await record(snapshot.size);
+    }
+  }
+
+  private async removeFromFailedUserIds(
+    runs: admin.firestore.Query,
+    userId: string,
+    record: (count: number) => Promise<void>
+  ): Promise<void> {
+    for (;;) {
+      const snapshot = await runs.limit(this.options.batchSize).get();
+      if (snapshot.empty) {return;}
+
+      const batch = this.db.batch();
+      snapshot.docs.forEach(doc => batch.update(doc.ref, { failedUserIds: admin.firestore.FieldValue.arrayRemove(userId) }));
+      await batch.commit();
+      await record(snapshot.size);
+    }
+  }
+
+  private async deleteStorageObjects(prefix: string, record: (count: number) => Promise<void>): Promise<void> {
+    for (;;) {
+      const [files] = await this.bucket.getFiles({ prefix, maxResults: this.options.batchSize, autoPaginate: false });
+      if (files.length === 0) {return;}
+
+      await Promise.all(files.map(file => file.delete({ ignoreNotFound: true })));
+      await record(files.length);
+    }
+  }
+}
@@ -0,0 +1,39 @@
+import { Cycle } from '../types';
+import { toEpochDay } from '../utils/dateUtils';
+
+export interface CycleBounds {
+  startEpochDay: number;
+  /** First day of the following cycle; undefined while the cycle is open */
+  nextStartEpochDay?: number;
+}
+
+/**
+ * Calendar span of a cycle in epoch days
+ */
+export function getCycleBounds(cycle: Cycle): CycleBounds {
+  const startEpochDay = toEpochDay(cycle.startDate);
+
+  if (cycle.cycleLength) {
+    return { startEpochDay, nextStartEpochDay: startEpochDay + cycle.cycleLength };
+  }
+  if (cycle.endDate) {
+    return { startEpochDay, nextStartEpochDay: toEpochDay(cycle.endDate) + 1 };
+  }
+  return { startEpochDay };
+}
+
+/**
+ * Whether an epoch day falls inside the cycle
+ */
+export function isDayInCycle(epochDay: number, bounds: CycleBounds): boolean {
+  return epochDay >= bounds.startEpochDay &&
+    (bounds.nextStartEpochDay === undefined || epochDay < bounds.nextStartEpochDay);
+}
+
+/**
+ * Ovulation day implied by a luteal phase ending the day before the next period
+ * (a 14-day luteal phase puts ovulation on day 14 of a 28-day cycle)
+ */
+export function projectOvulationEpochDay(nextStartEpochDay: number, lutealPhaseLength: number): number {
+  return nextStartEpochDay - lutealPhaseLength - 1;
+}
@@ -0,0 +1,174 @@
+import { Cycle, CyclePhase, CyclePreferences, DailyLog } from '../types';
+import { DEFAULT_CYCLE_PREFERENCES } from '../data/userSettingsRepository';
+import { toEpochDay } from '../utils/dateUtils';
+import { getCycleBounds, projectOvulationEpochDay } from './cycleBounds';
+
+export interface CyclePhaseOptions {
+  /** Days before and after ovulation labelled OVULATORY */
+  ovulatoryDaysBefore: number;
+  ovulatoryDaysAfter: number;
+  /** Final luteal days before the period counted as late luteal */
+  lateLutealDays: number;
+  /** Days before the period counted as premenstrual */
+  premenstrualDays: number;
+}
+
+export const DEFAULT_PHASE_OPTIONS: CyclePhaseOptions = {
+  ovulatoryDaysBefore: 1,
+  ovulatoryDaysAfter: 1,
+  lateLutealDays: 5,
+  premenstrualDays: 7
+};
+
+/**
+ * confirmed: from Cycle.confirmedOvulationDate; projected: from a prediction or the luteal length
+ */
+export type OvulationBasis = 'confirmed' | 'projected';
+
+export interface PhaseAnnotation {
+  epochDay: number;
+  cycleId: string;
+  /** 1-based day of the cycle */
+  cycleDay: number;
+  phase: CyclePhase;
+  ovulationBasis: OvulationBasis;
+  /** Observed for completed cycles, projected for the open one; zero or less once the period is late */
+  daysUntilNextPeriod: number;
+  lateLuteal: boolean;
+  premenstrual: boolean;
+}
+
+interface CyclePhasePlan {
+  cycle: Cycle;
+  startEpochDay: number;
+  nextStartEpochDay: number;
+  /** Open cycles are labelled past their projected end, since the next period has not been logged */
+  open: boolean;
+  periodEndEpochDay: number;
+  ovulationEpochDay: number;
+  ovulationBasis: OvulationBasis;
+}
+
+/**
+ * Labels calendar days with their cycle phase
+ */
+export class CyclePhaseAnnotator {
+  private readonly plans: CyclePhasePlan[];
+
+  constructor(
+    cycles: Cycle[],
+    private readonly preferences: CyclePreferences = DEFAULT_CYCLE_PREFERENCES,
+    private readonly options: CyclePhaseOptions = DEFAULT_PHASE_OPTIONS
+  ) {
+    this.plans = [...cycles]
+      .sort((a, b) => a.startDate.seconds - b.startDate.seconds)
+      .map(cycle => this.planCycle(cycle));
+  }
+
+  /**
+   * Phase of a calendar day, or undefined if it falls outside the known cycles
+   */
+  annotateDay(epochDay: number): PhaseAnnotation | undefined {
+    const plan = this.findPlan(epochDay);
+    if (!plan) {return undefined;}
+
+    const daysUntilNextPeriod = plan.nextStartEpochDay - epochDay;
+    const phase = this.phaseOf(epochDay, plan);
+
+    return {
+      epochDay,
+      cycleId: plan.cycle.id,
+      cycleDay: epochDay - plan.startEpochDay + 1,
+      phase,
+      ovulationBasis: plan.ovulationBasis,
+      daysUntilNextPeriod,
+      lateLuteal: phase === CyclePhase.LUTEAL && daysUntilNextPeriod <= this.options.lateLutealDays,
+      premenstrual: daysUntilNextPeriod >= 1 && daysUntilNextPeriod <= this.options.premenstrualDays
+    };
+  }
+
+  /**
+   * Ovulation day of a known cycle, confirmed or projected
+   */
+  ovulationOf(cycleId: string): { epochDay: number; basis: OvulationBasis } | undefined {
+    const plan = this.plans.find(candidate => candidate.cycle.id === cycleId);
+    return plan ? { epochDay: plan.ovulationEpochDay, basis: plan.ovulationBasis } : undefined;
+  }
+
+  /**
+   * Annotate each log by id; logs outside the known cycles are left out
+   */
+  annotateLogs(dailyLogs: DailyLog[]): Map<string, PhaseAnnotation> {
+    const annotations = new Map<string, PhaseAnnotation>();
+    dailyLogs.forEach(log => {
+      const annotation = this.annotateDay(toEpochDay(log.date));
+      if (annotation) {annotations.set(log.id, annotation);}
+    });
+    return annotations;
+  }
+
+  private planCycle(cycle: Cycle): CyclePhasePlan {
+    const bounds = getCycleBounds(cycle);
+    const startEpochDay = bounds.startEpochDay;
+    const open = bounds.nextStartEpochDay === undefined;
+
+    let nextStartEpochDay = bounds.nextStartEpochDay;
+    if (nextStartEpochDay === undefined) {
+      nextStartEpochDay = cycle.predictedNextStartDate
+        ? toEpochDay(cycle.predictedNextStartDate)
+        : startEpochDay + this.preferences.averageCycleLength;
+    }
+
+    const periodLength = cycle.periodLength ?? this.preferences.periodDuration;
+
+    let ovulationEpochDay: number;
+    let ovulationBasis: OvulationBasis = 'projected';
+    if (cycle.confirmedOvulationDate) {
+      ovulationEpochDay = toEpochDay(cycle.confirmedOvulationDate);
+      ovulationBasis = 'confirmed';
+    } else if (cycle.predictedOvulationDate) {
+      ovulationEpochDay = toEpochDay(cycle.predictedOvulationDate);
+    } else {
+      ovulationEpochDay = projectOvulationEpochDay(nextStartEpochDay, this.preferences.averageLutealPhaseLength);
+    }
+
+    return {
+      cycle,
+      startEpochDay,
+      nextStartEpochDay,
+      open,
+      periodEndEpochDay: startEpochDay + periodLength - 1,
+      ovulationEpochDay,
+      ovulationBasis
+    };
+  }
+
+  private phaseOf(epochDay: number, plan: CyclePhasePlan): CyclePhase {
+    if (epochDay <= plan.periodEndEpochDay) {return CyclePhase.MENSTRUAL;}
+    if (epochDay < plan.ovulationEpochDay - this.options.ovulatoryDaysBefore) {return CyclePhase.FOLLICULAR;}
+    if (epochDay <= plan.ovulationEpochDay + this.options.ovulatoryDaysAfter) {return CyclePhase.OVULATORY;}
+    return CyclePhase.LUTEAL;
+  }
+
+  /**
+   * Binary search for the latest cycle starting on or before the day
+   */
+  private findPlan(epochDay: number): CyclePhasePlan | undefined {
+    let low = 0;
+    let high = this.plans.length - 1;
+    let found: CyclePhasePlan | undefined;
+
+    while (low <= high) {
+      const middle = Math.floor((low + high) / 2);
+      if (this.plans[middle].startEpochDay <= epochDay) {
+        found = this.plans[middle];
+        low = middle + 1;
+      } else {
+        high = middle - 1;
+      }
+    }
+
+    if (!found || (!found.open && epochDay >= found.nextStartEpochDay)) {return undefined;}
+    return found;
+  }
+}
@@ -0,0 +1,177 @@
+import * as admin from 'firebase-admin';
+import { Cycle, CyclePreferences } from '../types';
+import { DEFAULT_TIME_ZONE, epochDayToTimestamp, localDateTime, toEpochDay } from '../utils/dateUtils';
+import {
+  clamp,
+  median,
+  roundTo,
+  scaledMedianAbsoluteDeviation,
+  weightedMean,
+  weightedStandardDeviation
+} from '../utils/statistics';
+import { projectOvulationEpochDay } from './cycleBounds';
+
+export interface CyclePredictionOptions {
+  /** Most recent completed cycles considered */
+  maxHistory: number;
+  /** Weight multiplier per step back in history (1 = unweighted) */
+  recencyDecay: number;
+  /** Cycles further than this many robust SDs from the median are rejected */
+  outlierThreshold: number;
+  /** Never reject cycles within this many days of the median */
+  minOutlierDistance: number;
+  /** With fewer completed cycles, blend in CyclePreferences.averageCycleLength */
+  minHistory: number;
+  /** Weight of the preference length when blending, in "cycles" */
+  preferenceWeight: number;
+  /** Spread assumed when history cannot support its own estimate */
+  defaultStandardDeviation: number;
+  minStandardDeviation: number;
+  /** z-score for the reported interval (1.645 = 90%) */
+  intervalZ: number;
+}
+
+export const DEFAULT_PREDICTION_OPTIONS: CyclePredictionOptions = {
+  maxHistory: 12,
+  recencyDecay: 0.85,
+  outlierThreshold: 3,
+  minOutlierDistance: 7,
+  minHistory: 3,
+  preferenceWeight: 2,
+  defaultStandardDeviation: 3,
+  minStandardDeviation: 1,
+  intervalZ: 1.645
+};
+
+export interface CyclePrediction {
+  /** The open cycle the prediction belongs to */
+  cycleId: string;
+  currentCycleStart: admin.firestore.Timestamp;
+  predictedNextStartDate: admin.firestore.Timestamp;
+  earliestNextStartDate: admin.firestore.Timestamp;
+  latestNextStartDate: admin.firestore.Timestamp;
+  uncertaintyDays: number;
+  predictedOvulationDate: admin.firestore.Timestamp;
+  expectedCycleLength: number;
+  standardDeviation: number;
+  cyclesUsed: number;
+  outliersRejected: number;
+  usedPreferences: boolean;
+  /** The whole prediction interval lies in the past (period late or not logged) */
+  overdue: boolean;
+  confidence: number;
+}
+
+/**
+ * Forecasts the next period start from cycle history
+ */
+export class CyclePredictor {
+  constructor(private readonly options: CyclePredictionOptions = DEFAULT_PREDICTION_OPTIONS) {}
+
+  /**
+   * Predict the end of the current (open) cycle. Returns null when there is no open cycle.
+   * Whether the prediction is overdue is judged against today in the user's time zone.
+   */
+  predict(
+    cycles: Cycle[],
+    preferences: CyclePreferences,
+    now: Date = new Date(),
+    timeZone: string = DEFAULT_TIME_ZONE
+  ): CyclePrediction | null {
+    const sorted = [...cycles].sort((a, b) => b.startDate.seconds - a.startDate.seconds);
+    const current = sorted[0];
+    if (!current || current.endDate || current.cycleLength) {return null;}
+
+    const history = sorted.slice(1)
+      .filter(cycle => cycle.cycleLength && cycle.cycleLength > 0)
+      .slice(0, this.options.maxHistory);
+
+    const { kept, rejected } = this.rejectOutliers(history.map(cycle => cycle.cycleLength as number));
+    const weights = kept.map((_, index) => Math.pow(this.options.recencyDecay, index));
+    const usedPreferences = kept.length < this.options.minHistory;
+
+    let expectedLength = weightedMean(kept, weights);
+    let standardDeviation = kept.length >= 2
+      ? Math.max(weightedStandardDeviation(kept, weights), this.options.minStandardDeviation)
+      : this.options.defaultStandardDeviation;
+
+    if (usedPreferences) {
+      const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+      expectedLength = (expectedLength * totalWeight + preferences.averageCycleLength * this.options.preferenceWeight) /
+        (totalWeight + this.options.preferenceWeight);
+      standardDeviation = Math.max(standardDeviation, this.options.defaultStandardDeviation);
+    }
+
+    // Predictive spread includes the uncertainty of the estimated mean itself
+    const predictiveSd = standardDeviation * Math.sqrt(1 + 1 / Math.max(kept.length, 1));
+    const uncertaintyDays = Math.max(1, Math.ceil(this.options.intervalZ * predictiveSd));
+
+    const startDay = toEpochDay(current.startDate);
+    const nextStartDay = startDay + Math.round(expectedLength);
+
+    const lutealLengths = history
+      .filter(cycle => cycle.lutealPhaseLength && cycle.lutealPhaseLength > 0)
+      .map(cycle => cycle.lutealPhaseLength as number);
+    const lutealLength = lutealLengths.length > 0
+      ? Math.round(median(lutealLengths))
+      : preferences.averageLutealPhaseLength;
+
+    const todayEpochDay = localDateTime(now.getTime(), timeZone).epochDay;
+
+    return {
+      cycleId: current.id,
+      currentCycleStart: current.startDate,
+      predictedNextStartDate: epochDayToTimestamp(nextStartDay),
+      earliestNextStartDate: epochDayToTimestamp(nextStartDay - uncertaintyDays),
+      latestNextStartDate: epochDayToTimestamp(nextStartDay + uncertaintyDays),
+      uncertaintyDays,
+      predictedOvulationDate: epochDayToTimestamp(projectOvulationEpochDay(nextStartDay, lutealLength)),
+      expectedCycleLength: roundTo(expectedLength, 1),
+      standardDeviation: roundTo(standardDeviation, 2),
+      cyclesUsed: kept.length,
+      outliersRejected: rejected.length,
+      usedPreferences,
+      overdue: nextStartDay + uncertaintyDays < todayEpochDay,
+      confidence: this.calculateConfidence(standardDeviation, kept.length)
+    };
+  }
+
+  /**
+   * Copy the prediction onto its cycle
+   */
+  applyPrediction(cycle: Cycle, prediction: CyclePrediction): Cycle {
+    return {
+      ...cycle,
+      predictedNextStartDate: prediction.predictedNextStartDate,
+      predictionUncertaintyDays: prediction.uncertaintyDays,
+      predictedOvulationDate: prediction.predictedOvulationDate
+    };
+  }
+
+  /**
+   * Drop cycle lengths far from the median (e.g. a missed period logged as one long cycle)
+   */
+  private rejectOutliers(lengths: number[]): { kept: number[]; rejected: number[] } {
+    if (lengths.length < 4) {return { kept: lengths, rejected: [] };}
+
+    const center = median(lengths);
+    const limit = Math.max(
+      this.options.outlierThreshold * scaledMedianAbsoluteDeviation(lengths),
+      this.options.minOutlierDistance
+    );
+
+    return {
+      kept: lengths.filter(length => Math.abs(length - center) <= limit),
+      rejected: lengths.filter(length => Math.abs(length - center) > limit)
+    };
+  }
+
+  /**
+   * Confidence falls with cycle-to-cycle spread and with short histories
+   */
+  private calculateConfidence(standardDeviation: number, cyclesUsed: number): number {
+    const spreadFactor = 1 / (1 + Math.pow(standardDeviation / 4, 2));
+    const historyFactor = (cyclesUsed + 1) / (cyclesUsed + 2);
+    return roundTo(clamp(spreadFactor * historyFactor, 0.1, 0.95), 2);
+  }
+}
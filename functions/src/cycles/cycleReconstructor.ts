@@ -0,0 +1,159 @@
+import { Cycle, DailyLog, PeriodFlow } from '../types';
+import { epochDayToIsoDate, epochDayToTimestamp, toEpochDay } from '../utils/dateUtils';
+
+export interface BleedingEpisode {
+  startEpochDay: number;
+  endEpochDay: number;
+  /** Days with LIGHT, MEDIUM or HEAVY flow */
+  bleedingDays: number;
+  logIds: string[];
+}
+
+export interface CycleReconstructionOptions {
+  /** Unlogged days tolerated inside one bleeding episode */
+  maxGapDays: number;
+  /** Bleeding that starts sooner than this after the previous period is not a new cycle */
+  minCycleLength: number;
+  /** Longer intervals are assumed to hide an unlogged period and get no cycleLength */
+  maxCycleLength: number;
+}
+
+export const DEFAULT_RECONSTRUCTION_OPTIONS: CycleReconstructionOptions = {
+  maxGapDays: 1,
+  minCycleLength: 15,
+  maxCycleLength: 90
+};
+
+export interface CycleReconstructionResult {
+  /** Derived cycles, newest first; the most recent one is open (no endDate) */
+  cycles: Cycle[];
+  /** Episodes that started a cycle, oldest first */
+  periods: BleedingEpisode[];
+  /** Bleeding episodes too close to the previous period to start a cycle */
+  intermenstrualEpisodes: BleedingEpisode[];
+  /** SPOTTING logs that were not attached to a period */
+  ignoredSpottingLogIds: string[];
+  /**
+   * With a window, the first day a period can start and be seen whole; a period logged
+   * before it may have started before the window, so it starts no cycle
+   */
+  completeFromEpochDay?: number;
+}
+
+const BLEEDING_FLOWS: string[] = [PeriodFlow.LIGHT, PeriodFlow.MEDIUM, PeriodFlow.HEAVY];
+
+/**
+ * Stable document id for a derived cycle, keyed by its start date
+ */
+export function derivedCycleId(startEpochDay: number): string {
+  return `derived-${epochDayToIsoDate(startEpochDay)}`;
+}
+
+/**
+ * Rebuilds cycles from period-flow logs for users who never record cycle documents
+ */
+export class CycleReconstructor {
+  constructor(private readonly options: CycleReconstructionOptions = DEFAULT_RECONSTRUCTION_OPTIONS) {}
+
+  /**
+   * Reconstruct cycles from a user's daily logs (any order). When the logs are read from
+   * `windowStartEpochDay` on, a period at the window edge starts no cycle: its first days may
+   * lie before the window, and its start (the cycle id) would move as the window slides.
+   */
+  reconstruct(userId: string, dailyLogs: DailyLog[], windowStartEpochDay?: number): CycleReconstructionResult {
+    const { episodes, ignoredSpottingLogIds } = this.groupBleedingEpisodes(dailyLogs);
+    const completeFromEpochDay = windowStartEpochDay !== undefined
+      ? windowStartEpochDay + this.options.maxGapDays + 1
+      : undefined;
+
+    const periods: BleedingEpisode[] = [];
+    const intermenstrualEpisodes: BleedingEpisode[] = [];
+    let previousStartEpochDay: number | undefined;
+
+    episodes.forEach(episode => {
+      if (previousStartEpochDay !== undefined && episode.startEpochDay - previousStartEpochDay < this.options.minCycleLength) {
+        intermenstrualEpisodes.push(episode);
+        return;
+      }
+
+      // A cut-off period still marks bleeding shortly after it as intermenstrual
+      previousStartEpochDay = episode.startEpochDay;
+      if (completeFromEpochDay === undefined || episode.startEpochDay >= completeFromEpochDay) {
+        periods.push(episode);
+      }
+    });
+
+    const cycles: Cycle[] = periods.map((period, index) => {
+      const cycle: Cycle = {
+        id: derivedCycleId(period.startEpochDay),
+        userId,
+        startDate: epochDayToTimestamp(period.startEpochDay),
+        periodLength: period.endEpochDay - period.startEpochDay + 1,
+        source: 'derived'
+      };
+
+      const next = periods[index + 1];
+      if (next) {
+        const length = next.startEpochDay - period.startEpochDay;
+        cycle.endDate = epochDayToTimestamp(next.startEpochDay - 1);
+        if (length <= this.options.maxCycleLength) {
+          cycle.cycleLength = length;
+        }
+      }
+
+      return cycle;
+    });
+
+    return {
+      cycles: cycles.reverse(),
+      periods,
+      intermenstrualEpisodes,
+      ignoredSpottingLogIds,
+      ...(completeFromEpochDay !== undefined ? { completeFromEpochDay } : {})
+    };
+  }
+
+  /**
+   * Group flow logs into bleeding episodes. SPOTTING only extends the tail of an
+   * episode that is already in progress; it never starts one on its own.
+   */
+  groupBleedingEpisodes(dailyLogs: DailyLog[]): { episodes: BleedingEpisode[]; ignoredSpottingLogIds: string[] } {
+    const flowLogs = dailyLogs
+      .filter(log => log.periodFlow && log.periodFlow !== PeriodFlow.NONE)
+      .sort((a, b) => a.date.seconds - b.date.seconds);
+
+    const episodes: BleedingEpisode[] = [];
+    const ignoredSpottingLogIds: string[] = [];
+    let current: BleedingEpisode | null = null;
+
+    for (const log of flowLogs) {
+      const day = toEpochDay(log.date);
+      const isBleeding = BLEEDING_FLOWS.includes(log.periodFlow as string);
+      const continuesCurrent = current !== null && day - current.endEpochDay <= this.options.maxGapDays + 1;
+
+      if (continuesCurrent && current) {
+        current.endEpochDay = Math.max(current.endEpochDay, day);
+        current.logIds.push(log.id);
+        if (isBleeding) {current.bleedingDays++;}
+        continue;
+      }
+
+      if (!isBleeding) {
+        ignoredSpottingLogIds.push(log.id);
+        continue;
+      }
+
+      if (current) {episodes.push(current);}
+      current = {
+        startEpochDay: day,
+        endEpochDay: day,
+        bleedingDays: 1,
+        logIds: [log.id]
+      };
+    }
+
+    if (current) {episodes.push(current);}
+
+    return { episodes, ignoredSpottingLogIds };
+  }
+}
@@ -0,0 +1,267 @@
+import { CervicalMucus, Cycle, DailyLog, OPKResult, OvulationSignal } from '../types';
+import { epochDayToTimestamp, toEpochDay } from '../utils/dateUtils';
+import { median } from '../utils/statistics';
+import { toCelsius } from '../utils/temperature';
+import { getCycleBounds, isDayInCycle } from './cycleBounds';
+
+export interface OvulationDetectionOptions {
+  /** Readings before the rise that set the coverline (the "6" in 3-over-6) */
+  coverlineReadings: number;
+  /** Consecutive readings that must sit above the coverline (the "3" in 3-over-6) */
+  highReadings: number;
+  /** Rise of the last high reading above the coverline, in °C */
+  minThermalShiftCelsius: number;
+  /** Largest gap between consecutive high readings, in days */
+  maxReadingGapDays: number;
+  /** A drier mucus observation must follow the peak day within this many days */
+  peakConfirmationDays: number;
+  /** Estimates from different signals this close together agree */
+  agreementWindowDays: number;
+}
+
+export const DEFAULT_OVULATION_OPTIONS: OvulationDetectionOptions = {
+  coverlineReadings: 6,
+  highReadings: 3,
+  minThermalShiftCelsius: 0.2,
+  maxReadingGapDays: 2,
+  peakConfirmationDays: 3,
+  agreementWindowDays: 2
+};
+
+export interface ThermalShift {
+  /** First reading above the coverline */
+  shiftEpochDay: number;
+  /** Highest of the readings before the rise, in °C */
+  coverlineCelsius: number;
+  ovulationEpochDay: number;
+  logIds: string[];
+}
+
+export interface LhSurge {
+  firstPositiveEpochDay: number;
+  /** Last POSITIVE or PEAK result of the surge */
+  peakEpochDay: number;
+  ovulationEpochDay: number;
+  logIds: string[];
+}
+
+export interface MucusPeak {
+  /** Last day of egg-white or watery mucus before it dries up */
+  peakEpochDay: number;
+  ovulationEpochDay: number;
+  logIds: string[];
+}
+
+/**
+ * confirmed: a BBT shift, or OPK and mucus agreeing; probable: a single prospective signal
+ */
+export type OvulationStatus = 'confirmed' | 'probable' | 'notDetected';
+
+export interface OvulationDetection {
+  cycleId: string;
+  status: OvulationStatus;
+  ovulationEpochDay?: number;
+  agreeingSignals: OvulationSignal[];
+  lutealPhaseLength?: number;
+  thermalShift?: ThermalShift;
+  lhSurge?: LhSurge;
+  mucusPeak?: MucusPeak;
+}
+
+const POSITIVE_OPK_RESULTS: string[] = [OPKResult.POSITIVE, OPKResult.PEAK];
+const PEAK_MUCUS_TYPES: string[] = [CervicalMucus.EGG_WHITE, CervicalMucus.WATERY];
+
+/**
+ * Detects ovulation per cycle from BBT, OPK and cervical mucus observations
+ */
+export class OvulationDetector {
+  constructor(private readonly options: OvulationDetectionOptions = DEFAULT_OVULATION_OPTIONS) {}
+
+  /**
+   * Run detection for every cycle; logs may be in any order
+   */
+  detectAll(cycles: Cycle[], dailyLogs: DailyLog[]): OvulationDetection[] {
+    const sortedLogs = [...dailyLogs].sort((a, b) => a.date.seconds - b.date.seconds);
+    return cycles.map(cycle => this.detect(cycle, sortedLogs));
+  }
+
+  /**
+   * Detect ovulation within one cycle. `dailyLogs` must be sorted oldest first.
+   */
+  detect(cycle: Cycle, dailyLogs: DailyLog[]): OvulationDetection {
+    const bounds = getCycleBounds(cycle);
+    const cycleLogs = dailyLogs.filter(log => isDayInCycle(toEpochDay(log.date), bounds));
+
+    const thermalShift = this.findThermalShift(cycleLogs);
+    const lhSurge = this.pickBeforeShift(this.findLhSurges(cycleLogs), thermalShift);
+    const mucusPeak = this.pickBeforeShift(this.findMucusPeaks(cycleLogs), thermalShift);
+
+    const detection: OvulationDetection = {
+      cycleId: cycle.id,
+      status: 'notDetected',
+      agreeingSignals: [],
+      thermalShift,
+      lhSurge,
+      mucusPeak
+    };
+
+    const estimates: Array<{ signal: OvulationSignal; epochDay: number }> = [];
+    if (thermalShift) {estimates.push({ signal: 'BBT', epochDay: thermalShift.ovulationEpochDay });}
+    if (lhSurge) {estimates.push({ signal: 'OPK', epochDay: lhSurge.ovulationEpochDay });}
+    if (mucusPeak) {estimates.push({ signal: 'CERVICAL_MUCUS', epochDay: mucusPeak.ovulationEpochDay });}
+    if (estimates.length === 0) {return detection;}
+
+    // The thermal shift is the only retrospective proof, so it is the reference when present;
+    // otherwise two prospective signals must agree
+    const reference = estimates[0];
+    const agreeing = estimates.filter(estimate =>
+      Math.abs(estimate.epochDay - reference.epochDay) <= this.options.agreementWindowDays
+    );
+
+    if (thermalShift || agreeing.length >= 2) {
+      detection.status = 'confirmed';
+      detection.agreeingSignals = agreeing.map(estimate => estimate.signal);
+      detection.ovulationEpochDay = Math.round(median(agreeing.map(estimate => estimate.epochDay)));
+
+      if (bounds.nextStartEpochDay !== undefined) {
+        const lutealPhaseLength = bounds.nextStartEpochDay - detection.ovulationEpochDay - 1;
+        if (lutealPhaseLength > 0) {detection.lutealPhaseLength = lutealPhaseLength;}
+      }
+    } else {
+      detection.status = 'probable';
+      detection.agreeingSignals = [reference.signal];
+      detection.ovulationEpochDay = reference.epochDay;
+    }
+
+    return detection;
+  }
+
+  /**
+   * Copy a confirmed detection onto its cycle
+   */
+  applyDetection(cycle: Cycle, detection: OvulationDetection): Cycle {
+    if (detection.status !== 'confirmed' || detection.ovulationEpochDay === undefined) {return cycle;}
+
+    const updated: Cycle = {
+      ...cycle,
+      confirmedOvulationDate: epochDayToTimestamp(detection.ovulationEpochDay),
+      ovulationSignals: detection.agreeingSignals
+    };
+    if (detection.lutealPhaseLength !== undefined) {
+      updated.lutealPhaseLength = detection.lutealPhaseLength;
+    }
+
+    return updated;
+  }
+
+  /**
+   * 3-over-6 rule: three consecutive readings above the highest of the previous six,
+   * the third at least 0.2°C above it. If the third falls short, a fourth reading above
+   * the coverline is required. Ovulation is taken as the day before the first high reading.
+   */
+  findThermalShift(cycleLogs: DailyLog[]): ThermalShift | undefined {
+    const readings = cycleLogs
+      .filter(log => log.bbt && log.bbt > 0)
+      .map(log => ({ epochDay: toEpochDay(log.date), celsius: toCelsius(log.bbt as number), logId: log.id }));
+
+    const { coverlineReadings, highReadings, minThermalShiftCelsius, maxReadingGapDays } = this.options;
+
+    for (let i = coverlineReadings; i + highReadings <= readings.length; i++) {
+      const coverline = Math.max(...readings.slice(i - coverlineReadings, i).map(reading => reading.celsius));
+      let high = readings.slice(i, i + highReadings);
+
+      const isConsecutive = high.every((reading, index) =>
+        index === 0 || reading.epochDay - high[index - 1].epochDay <= maxReadingGapDays
+      );
+      if (!isConsecutive || !high.every(reading => reading.celsius > coverline)) {continue;}
+
+      // Allow for rounding in °F-entered readings
+      const lastHigh = high[high.length - 1];
+      if (lastHigh.celsius - coverline < minThermalShiftCelsius - 0.001) {
+        const extra = readings[i + highReadings];
+        if (!extra || extra.celsius <= coverline || extra.epochDay - lastHigh.epochDay > maxReadingGapDays) {continue;}
+        high = [...high, extra];
+      }
+
+      return {
+        shiftEpochDay: high[0].epochDay,
+        coverlineCelsius: coverline,
+        ovulationEpochDay: high[0].epochDay - 1,
+        logIds: high.map(reading => reading.logId)
+      };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Runs of POSITIVE/PEAK results (one unlogged day tolerated). Ovulation is expected
+   * the day after the last positive result of the surge.
+   */
+  findLhSurges(cycleLogs: DailyLog[]): LhSurge[] {
+    const surges: LhSurge[] = [];
+    let current: LhSurge | null = null;
+
+    for (const log of cycleLogs.filter(entry => entry.opkResult && entry.opkResult !== OPKResult.INVALID)) {
+      const day = toEpochDay(log.date);
+      const isPositive = POSITIVE_OPK_RESULTS.includes(log.opkResult as string);
+
+      if (!isPositive) {
+        if (current) {
+          surges.push(current);
+          current = null;
+        }
+        continue;
+      }
+
+      if (current && day - current.peakEpochDay <= 2) {
+        current.peakEpochDay = day;
+        current.ovulationEpochDay = day + 1;
+        current.logIds.push(log.id);
+      } else {
+        if (current) {surges.push(current);}
+        current = { firstPositiveEpochDay: day, peakEpochDay: day, ovulationEpochDay: day + 1, logIds: [log.id] };
+      }
+    }
+
+    if (current) {surges.push(current);}
+    return surges;
+  }
+
+  /**
+   * Peak day: the last egg-white or watery observation, confirmed by a drier observation
+   * within the next few days. Ovulation is expected on the peak day.
+   */
+  findMucusPeaks(cycleLogs: DailyLog[]): MucusPeak[] {
+    const observations = cycleLogs.filter(log => log.cervicalMucus);
+    const peaks: MucusPeak[] = [];
+
+    observations.forEach((log, index) => {
+      if (!PEAK_MUCUS_TYPES.includes(log.cervicalMucus as string)) {return;}
+
+      const next = observations[index + 1];
+      const day = toEpochDay(log.date);
+      if (!next || PEAK_MUCUS_TYPES.includes(next.cervicalMucus as string)) {return;}
+      if (toEpochDay(next.date) - day > this.options.peakConfirmationDays) {return;}
+
+      peaks.push({ peakEpochDay: day, ovulationEpochDay: day, logIds: [log.id, next.id] });
+    });
+
+    return peaks;
+  }
+
+  /**
+   * With a thermal shift, use the latest candidate that precedes it (surge followed by the
+   * shift); without one, the latest candidate in the cycle
+   */
+  private pickBeforeShift<T extends { ovulationEpochDay: number }>(
+    candidates: T[],
+    thermalShift: ThermalShift | undefined
+  ): T | undefined {
+    const eligible = thermalShift
+      ? candidates.filter(candidate =>
+        candidate.ovulationEpochDay <= thermalShift.shiftEpochDay + this.options.agreementWindowDays)
+      : candidates;
+    return eligible[eligible.length - 1];
+  }
+}
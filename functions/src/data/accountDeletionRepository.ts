@@ -0,0 +1,96 @@
+import * as admin from 'firebase-admin';
+
+/**
+ * authDelete: the Firebase Auth user was deleted; request: the user asked through deleteAccount
+ */
+export type AccountDeletionTrigger = 'authDelete' | 'request';
+
+/**
+ * Progress of an account deletion, kept until it completes so an interrupted one resumes
+ * where it stopped
+ */
+export interface AccountDeletionJob {
+  trigger: AccountDeletionTrigger;
+  startedAt: admin.firestore.Timestamp;
+  completedSteps: string[];
+  /** Documents or objects deleted so far, per step */
+  deletedCounts: Record<string, number>;
+}
+
+/**
+ * What a completed deletion removed, kept for compliance. It holds nothing that identifies
+ * the user: no uid, email or hash of either.
+ */
+export interface AccountDeletionReceipt {
+  trigger: AccountDeletionTrigger;
+  startedAt: admin.firestore.Timestamp;
+  completedAt: admin.firestore.Timestamp;
+  deletedCounts: Record<string, number>;
+  /** Every location was checked empty after deleting */
+  verified: true;
+}
+
+/**
+ * Deletion jobs in accountDeletions/{uid} and receipts in deletionReceipts/{receiptId}
+ */
+export class AccountDeletionRepository {
+  constructor(private readonly db: admin.firestore.Firestore) {}
+
+  async getJob(userId: string): Promise<AccountDeletionJob | null> {
+    const snapshot = await this.jobRef(userId).get();
+    if (!snapshot.exists) {return null;}
+
+    const data = snapshot.data() ?? {};
+    return {
+      trigger: data.trigger === 'request' ? 'request' : 'authDelete',
+      startedAt: data.startedAt instanceof admin.firestore.Timestamp ? data.startedAt : admin.firestore.Timestamp.fromMillis(0),
+      completedSteps: Array.isArray(data.completedSteps) ? data.completedSteps.filter((step): step is string => typeof step === 'string') : [],
+      deletedCounts: typeof data.deletedCounts === 'object' && data.deletedCounts !== null ? data.deletedCounts : {}
+    };
+  }
+
+  /**
+   * Whether a deletion has started and not completed; its job is written before anything is deleted
+   */
+  async isDeleting(userId: string): Promise<boolean> {
+    return (await this.jobRef(userId).get()).exists;
+  }
+
+  async createJob(userId: string, trigger: AccountDeletionTrigger, now: Date): Promise<AccountDeletionJob> {
+    const job: AccountDeletionJob = {
+      trigger,
+      startedAt: admin.firestore.Timestamp.fromDate(now),
+      completedSteps: [],
+      deletedCounts: {}
+    };
+    await this.jobRef(userId).set(job);
+    return job;
+  }
+
+  /**
+   * Count deletions of a step as they happen, so a resumed job's receipt still has them
+   */
+  async addDeleted(userId: string, step: string, count: number): Promise<void> {
+    await this.jobRef(userId).update({ [`deletedCounts.${step}`]: admin.firestore.FieldValue.increment(count) });
+  }
+
+  async setCompletedSteps(userId: string, completedSteps: string[]): Promise<void> {
+    await this.jobRef(userId).update({ completedSteps });
+  }
+
+  /**
+   * Write the receipt and drop the job, which is the last record holding the uid
+   */
+  async complete(userId: string, receipt: AccountDeletionReceipt): Promise<string> {
+    const receiptRef = this.db.collection('deletionReceipts').doc();
+    const batch = this.db.batch();
+    batch.set(receiptRef, receipt);
+    batch.delete(this.jobRef(userId));
+    await batch.commit();
+    return receiptRef.id;
+  }
+
+  private jobRef(userId: string): admin.firestore.DocumentReference {
+    return this.db.collection('accountDeletions').doc(userId);
+  }
+}
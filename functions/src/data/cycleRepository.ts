@@ -0,0 +1,244 @@
+import * as admin from 'firebase-admin';
+import { Cycle, OvulationSignal } from '../types';
+import {
+  DEFAULT_TIME_ZONE,
+  MS_PER_DAY,
+  epochDayToTimestamp,
+  isTimestampLike,
+  toEpochDay,
+  toLocalEpochDay
+} from '../utils/dateUtils';
+
+type RawData = Record<string, unknown>;
+
+const OVULATION_SIGNALS: OvulationSignal[] = ['BBT', 'OPK', 'CERVICAL_MUCUS'];
+
+/**
+ * Manual cycles starting within this many days of a derived cycle describe the same cycle
+ */
+export const MANUAL_CYCLE_MATCH_WINDOW_DAYS = 3;
+
+export interface DerivedCycleWriteResult {
+  written: number;
+  deleted: number;
+  skippedManual: number;
+}
+
+/**
+ * Decode a raw cycle document. The apps store dates as epoch days (CycleDto);
+ * older server-written documents use Firestore Timestamps, which are read as the calendar
+ * day in the user's time zone.
+ */
+export function decodeCycle(
+  userId: string,
+  cycleId: string,
+  data: RawData,
+  timeZone: string = DEFAULT_TIME_ZONE
+): Cycle | null {
+  const decodeDate = (value: unknown) => decodeCalendarDay(value, timeZone);
+  const startDate = decodeDate(data.startDate);
+  if (!startDate) {return null;}
+
+  const cycle: Cycle = {
+    id: cycleId,
+    userId,
+    startDate,
+    source: data.source === 'derived' ? 'derived' : 'manual'
+  };
+
+  const endDate = decodeDate(data.endDate);
+  if (endDate) {cycle.endDate = endDate;}
+
+  const predictedOvulationDate = decodeDate(data.predictedOvulationDate);
+  if (predictedOvulationDate) {cycle.predictedOvulationDate = predictedOvulationDate;}
+
+  const confirmedOvulationDate = decodeDate(data.confirmedOvulationDate);
+  if (confirmedOvulationDate) {cycle.confirmedOvulationDate = confirmedOvulationDate;}
+
+  if (isPositiveInteger(data.cycleLength)) {cycle.cycleLength = data.cycleLength;}
+  if (isPositiveInteger(data.lutealPhaseLength)) {cycle.lutealPhaseLength = data.lutealPhaseLength;}
+  if (isPositiveInteger(data.periodLength)) {cycle.periodLength = data.periodLength;}
+
+  const predictedNextStartDate = decodeDate(data.predictedNextStartDate);
+  if (predictedNextStartDate) {cycle.predictedNextStartDate = predictedNextStartDate;}
+  if (isPositiveInteger(data.predictionUncertaintyDays)) {
+    cycle.predictionUncertaintyDays = data.predictionUncertaintyDays;
+  }
+
+  if (Array.isArray(data.ovulationSignals)) {
+    cycle.ovulationSignals = data.ovulationSignals.filter((signal): signal is OvulationSignal =>
+      OVULATION_SIGNALS.includes(signal as OvulationSignal)
+    );
+  }
+
+  return cycle;
+}
+
+/**
+ * Encode a cycle in the app's CycleDto layout (dates as epoch days) so both apps can read it
+ */
+export function encodeCycle(cycle: Cycle): RawData {
+  const data: RawData = {
+    startDate: toEpochDay(cycle.startDate),
+    source: cycle.source ?? 'manual',
+    updatedAt: Math.floor(Date.now() / 1000)
+  };
+
+  if (cycle.endDate) {data.endDate = toEpochDay(cycle.endDate);}
+  if (cycle.predictedOvulationDate) {data.predictedOvulationDate = toEpochDay(cycle.predictedOvulationDate);}
+  if (cycle.confirmedOvulationDate) {data.confirmedOvulationDate = toEpochDay(cycle.confirmedOvulationDate);}
+  if (cycle.cycleLength !== undefined) {data.cycleLength = cycle.cycleLength;}
+  if (cycle.lutealPhaseLength !== undefined) {data.lutealPhaseLength = cycle.lutealPhaseLength;}
+  if (cycle.periodLength !== undefined) {data.periodLength = cycle.periodLength;}
+  if (cycle.predictedNextStartDate) {data.predictedNextStartDate = toEpochDay(cycle.predictedNextStartDate);}
+  if (cycle.predictionUncertaintyDays !== undefined) {data.predictionUncertaintyDays = cycle.predictionUncertaintyDays;}
+  if (cycle.ovulationSignals) {data.ovulationSignals = cycle.ovulationSignals;}
+
+  return data;
+}
+
+/**
+ * Reads and writes cycle documents under users/{uid}/cycles
+ */
+export class CycleRepository {
+  constructor(private readonly db: admin.firestore.Firestore) {}
+
+  /**
+   * Read all cycles starting on or after the calendar day containing `since` (in UTC, so pass
+   * midnight UTC of a local day), newest first
+   */
+  async getCyclesSince(userId: string, since: Date, timeZone: string = DEFAULT_TIME_ZONE): Promise<Cycle[]> {
+    const sinceEpochDay = Math.floor(since.getTime() / MS_PER_DAY);
+    const collection = this.cyclesCollection(userId);
+
+    // startDate is epoch days for app-written cycles and a Timestamp for older ones. Local
+    // midnight east of UTC falls on the previous UTC day, so Timestamps are filtered after decoding.
+    const [epochDaySnapshot, timestampSnapshot] = await Promise.all([
+      collection.where('startDate', '>=', sinceEpochDay).get(),
+      collection.where('startDate', '>=', epochDayToTimestamp(sinceEpochDay - 1)).get()
+    ]);
+
+    const cycles: Cycle[] = [];
+    [...epochDaySnapshot.docs, ...timestampSnapshot.docs].forEach(doc => {
+      const cycle = decodeCycle(userId, doc.id, doc.data(), timeZone);
+      if (cycle && toEpochDay(cycle.startDate) >= sinceEpochDay) {cycles.push(cycle);}
+    });
+
+    return cycles.sort((a, b) => b.startDate.seconds - a.startDate.seconds);
+  }
+
+  /**
+   * Write derived cycles and remove derived cycles that no longer match the logs.
+   * Manual cycles are never written or deleted here.
+   *
+   * @param completeFromEpochDay derived cycles starting before this day were derived from
+   *   logs now outside the window (CycleReconstructionResult.completeFromEpochDay) and are kept
+   */
+  async upsertDerivedCycles(
+    userId: string,
+    derivedCycles: Cycle[],
+    storedCycles: Cycle[],
+    completeFromEpochDay?: number
+  ): Promise<DerivedCycleWriteResult> {
+    const result: DerivedCycleWriteResult = { written: 0, deleted: 0, skippedManual: 0 };
+    const collection = this.cyclesCollection(userId);
+    const manualCycles = storedCycles.filter(cycle => cycle.source !== 'derived');
+    const batch = this.db.batch();
+
+    const keptIds = new Set<string>();
+    for (const cycle of derivedCycles) {
+      if (cycle.source !== 'derived') {continue;}
+
+      if (findMatchingCycle(cycle, manualCycles) || manualCycles.some(manual => manual.id === cycle.id)) {
+        result.skippedManual++;
+        continue;
+      }
+
+      keptIds.add(cycle.id);
+      batch.set(collection.doc(cycle.id), encodeCycle(cycle));
+      result.written++;
+    }
+
+    storedCycles
+      .filter(cycle => cycle.source === 'derived' && !keptIds.has(cycle.id))
+      .filter(cycle => completeFromEpochDay === undefined || toEpochDay(cycle.startDate) >= completeFromEpochDay)
+      .forEach(cycle => {
+        batch.delete(collection.doc(cycle.id));
+        result.deleted++;
+      });
+
+    if (result.written > 0 || result.deleted > 0) {
+      await batch.commit();
+    }
+
+    return result;
+  }
+
+  /**
+   * Store prediction fields on an existing (manual) cycle without touching anything else
+   */
+  async savePrediction(userId: string, cycle: Cycle): Promise<void> {
+    if (!cycle.predictedNextStartDate || !cycle.predictedOvulationDate) {return;}
+
+    await this.cyclesCollection(userId).doc(cycle.id).set({
+      predictedNextStartDate: toEpochDay(cycle.predictedNextStartDate),
+      predictionUncertaintyDays: cycle.predictionUncertaintyDays,
+      predictedOvulationDate: toEpochDay(cycle.predictedOvulationDate)
+    }, { merge: true });
+  }
+
+  /**
+   * Store detected ovulation on an existing (manual) cycle without touching anything else
+   */
+  async saveOvulation(userId: string, cycle: Cycle): Promise<void> {
+    if (!cycle.confirmedOvulationDate) {return;}
+
+    const update: RawData = {
+      confirmedOvulationDate: toEpochDay(cycle.confirmedOvulationDate),
+      ovulationSignals: cycle.ovulationSignals ?? []
+    };
+    if (cycle.lutealPhaseLength !== undefined) {update.lutealPhaseLength = cycle.lutealPhaseLength;}
+
+    await this.cyclesCollection(userId).doc(cycle.id).set(update, { merge: true });
+  }
+
+  private cyclesCollection(userId: string): admin.firestore.CollectionReference {
+    return this.db.collection('users').doc(userId).collection('cycles');
+  }
+}
+
+/**
+ * Find a cycle in `candidates` that starts within the manual match window of `cycle`
+ */
+export function findMatchingCycle(cycle: Cycle, candidates: Cycle[]): Cycle | undefined {
+  const startDay = toEpochDay(cycle.startDate);
+  return candidates.find(candidate =>
+    Math.abs(toEpochDay(candidate.startDate) - startDay) <= MANUAL_CYCLE_MATCH_WINDOW_DAYS
+  );
+}
+
+/**
+ * Combine stored cycles with freshly derived ones. Manual cycles always win; stored
+ * derived cycles are replaced by the new derivation. Returned newest first.
+ */
+export function mergeCycles(storedCycles: Cycle[], derivedCycles: Cycle[]): Cycle[] {
+  const manualCycles = storedCycles.filter(cycle => cycle.source !== 'derived');
+  const derived = derivedCycles.filter(cycle => !findMatchingCycle(cycle, manualCycles));
+
+  return [...manualCycles, ...derived]
+    .sort((a, b) => b.startDate.seconds - a.startDate.seconds);
+}
+
+function decodeCalendarDay(value: unknown, timeZone: string): admin.firestore.Timestamp | undefined {
+  if (typeof value === 'number' && Number.isInteger(value)) {
+    return epochDayToTimestamp(value);
+  }
+  if (isTimestampLike(value)) {
+    return epochDayToTimestamp(toLocalEpochDay(value, timeZone));
+  }
+  return undefined;
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
@@ -0,0 +1,382 @@
+import * as admin from 'firebase-admin';
+import {
+  DailyLog,
+  PeriodFlow,
+  Mood,
+  CervicalMucus,
+  OPKResult,
+  SYMPTOM_TYPES
+} from '../types';
+import {
+  DEFAULT_TIME_ZONE,
+  MS_PER_DAY,
+  TimestampLike,
+  epochDayToTimestamp,
+  isTimestampLike,
+  isoDateToEpochDay,
+  toEpochDay,
+  toLocalEpochDay
+} from '../utils/dateUtils';
+
+/**
+ * Highest DailyLog schema version this reader understands (see DailyLogDto.v)
+ */
+export const CURRENT_DAILY_LOG_SCHEMA_VERSION = 1;
+
+/**
+ * Where a log document was read from:
+ * - dailyLogs: users/{uid}/dailyLogs/{logId} (current path)
+ * - legacyDailyLogs: daily_logs/{uid}/logs/{logId} (read-only migration path)
+ */
+export type DailyLogSource = 'dailyLogs' | 'legacyDailyLogs';
+
+/**
+ * Document layouts found in the wild:
+ * - v1: dateEpochDays + epoch-second createdAt/updatedAt + v field
+ * - legacyTimestamp: Firestore Timestamp `date`, `createdAt` and `updatedAt`
+ */
+export type DailyLogSchema = 'v1' | 'legacyTimestamp';
+
+export interface DailyLogDecodeIssue {
+  logId: string;
+  source: DailyLogSource;
+  reason: string;
+  field?: string;
+}
+
+export type DailyLogDecodeResult =
+  | { ok: true; log: DailyLog; schema: DailyLogSchema; warnings: DailyLogDecodeIssue[] }
+  | { ok: false; issue: DailyLogDecodeIssue };
+
+export interface DailyLogReadResult {
+  /** Normalized logs, one per calendar day, newest first */
+  logs: DailyLog[];
+  /** Documents that could not be decoded at all */
+  skipped: DailyLogDecodeIssue[];
+  /** Field-level problems; the offending field was dropped but the log was kept */
+  warnings: DailyLogDecodeIssue[];
+  /** Logs discarded because another document covered the same day */
+  supersededCount: number;
+  schemaCounts: Record<DailyLogSchema, number>;
+}
+
+type RawData = Record<string, unknown>;
+
+/**
+ * Decode a raw DailyLog document of any known schema version into the normalized model.
+ * The normalized `date` is midnight UTC of the logged calendar day. Legacy Timestamp dates
+ * are instants, so their calendar day is taken in the user's time zone.
+ */
+export function decodeDailyLog(
+  userId: string,
+  logId: string,
+  data: RawData,
+  source: DailyLogSource,
+  timeZone: string = DEFAULT_TIME_ZONE
+): DailyLogDecodeResult {
+  const skip = (reason: string, field?: string): DailyLogDecodeResult => ({
+    ok: false,
+    issue: { logId, source, reason, ...(field ? { field } : {}) }
+  });
+
+  const warnings: DailyLogDecodeIssue[] = [];
+  const warn = (field: string, reason: string) => {
+    warnings.push({ logId, source, field, reason });
+  };
+
+  let schema: DailyLogSchema;
+  let epochDay: number;
+  let createdAt: admin.firestore.Timestamp | undefined;
+  let updatedAt: admin.firestore.Timestamp | undefined;
+
+  if (data.dateEpochDays !== undefined && data.dateEpochDays !== null) {
+    schema = 'v1';
+
+    const version = data.v ?? CURRENT_DAILY_LOG_SCHEMA_VERSION;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+      return skip(`Invalid schema version: ${String(version)}`, 'v');
+    }
+    if (version > CURRENT_DAILY_LOG_SCHEMA_VERSION) {
+      return skip(`Unsupported schema version: ${version}`, 'v');
+    }
+
+    if (typeof data.dateEpochDays !== 'number' || !Number.isInteger(data.dateEpochDays)) {
+      return skip('dateEpochDays is not an integer', 'dateEpochDays');
+    }
+    epochDay = data.dateEpochDays;
+
+    const idEpochDay = isoDateToEpochDay(logId);
+    if (idEpochDay !== null && idEpochDay !== epochDay) {
+      warn('dateEpochDays', `Disagrees with document id ${logId}, using dateEpochDays`);
+    }
+
+    createdAt = decodeEpochSeconds(data.createdAt);
+    updatedAt = decodeEpochSeconds(data.updatedAt);
+  } else if (isTimestampLike(data.date)) {
+    schema = 'legacyTimestamp';
+    epochDay = toLocalEpochDay(data.date, timeZone);
+    createdAt = decodeTimestamp(data.createdAt);
+    updatedAt = decodeTimestamp(data.updatedAt);
+  } else {
+    return skip('Document has neither dateEpochDays nor a Timestamp date', 'date');
+  }
+
+  // Reject obviously corrupt dates (before 1970 or more than a year in the future)
+  const todayEpochDay = Math.floor(Date.now() / MS_PER_DAY);
+  if (epochDay < 0 || epochDay > todayEpochDay + 366) {
+    return skip(`Date out of range: ${epochDay}`, 'date');
+  }
+
+  const date = epochDayToTimestamp(epochDay);
+  if (!createdAt) {
+    warn('createdAt', 'Missing or invalid createdAt, using log date');
+  }
+  if (!updatedAt) {
+    warn('updatedAt', 'Missing or invalid updatedAt, using createdAt');
+  }
+
+  const log: DailyLog = {
+    id: logId,
+    userId,
+    date,
+    createdAt: createdAt ?? date,
+    updatedAt: updatedAt ?? createdAt ?? date
+  };
+
+  const periodFlow = decodeEnum(PeriodFlow, data.periodFlow, 'periodFlow', warn);
+  if (periodFlow) {log.periodFlow = periodFlow;}
+
+  const mood = decodeEnum(Mood, data.mood, 'mood', warn);
+  if (mood) {log.mood = mood;}
+
+  const cervicalMucus = decodeEnum(CervicalMucus, data.cervicalMucus, 'cervicalMucus', warn);
+  if (cervicalMucus) {log.cervicalMucus = cervicalMucus;}
+
+  const opkResult = decodeEnum(OPKResult, data.opkResult, 'opkResult', warn);
+  if (opkResult) {log.opkResult = opkResult;}
+
+  const symptoms = decodeSymptoms(data.symptoms, warn);
+  if (symptoms) {log.symptoms = symptoms;}
+
+  if (data.bbt !== undefined && data.bbt !== null) {
+    if (typeof data.bbt === 'number' && Number.isFinite(data.bbt) && data.bbt > 0) {
+      log.bbt = data.bbt;
+    } else {
+      warn('bbt', `Invalid temperature: ${String(data.bbt)}`);
+    }
+  }
+
+  const sexualActivity = decodeSexualActivity(data.sexualActivity, warn);
+  if (sexualActivity) {log.sexualActivity = sexualActivity;}
+
+  if (typeof data.notes === 'string' && data.notes.length > 0) {
+    log.notes = data.notes;
+  }
+
+  return { ok: true, log, schema, warnings };
+}
+
+/**
+ * Reads a user's daily logs from every known location and schema version
+ */
+export class DailyLogRepository {
+  constructor(private readonly db: admin.firestore.Firestore) {}
+
+  /**
+   * Read all logs dated on or after the calendar day containing `since` (in UTC, so pass
+   * midnight UTC of a local day). Logs at the current path win over legacy copies of the same day.
+   */
+  async getLogsSince(
+    userId: string,
+    since: Date,
+    timeZone: string = DEFAULT_TIME_ZONE
+  ): Promise<DailyLogReadResult> {
+    const sinceEpochDay = Math.floor(since.getTime() / MS_PER_DAY);
+
+    const [currentDocs, legacyDocs] = await Promise.all([
+      this.queryCollection(
+        this.db.collection('users').doc(userId).collection('dailyLogs'),
+        sinceEpochDay
+      ),
+      this.queryCollection(
+        this.db.collection('daily_logs').doc(userId).collection('logs'),
+        sinceEpochDay
+      )
+    ]);
+
+    const result: DailyLogReadResult = {
+      logs: [],
+      skipped: [],
+      warnings: [],
+      supersededCount: 0,
+      schemaCounts: { v1: 0, legacyTimestamp: 0 }
+    };
+
+    const byDay = new Map<number, { log: DailyLog; source: DailyLogSource }>();
+    const sources: Array<[DailyLogSource, admin.firestore.QueryDocumentSnapshot[]]> = [
+      ['dailyLogs', currentDocs],
+      ['legacyDailyLogs', legacyDocs]
+    ];
+
+    for (const [source, docs] of sources) {
+      for (const doc of docs) {
+        const decoded = decodeDailyLog(userId, doc.id, doc.data(), source, timeZone);
+        if (!decoded.ok) {
+          result.skipped.push(decoded.issue);
+          continue;
+        }
+
+        result.warnings.push(...decoded.warnings);
+        result.schemaCounts[decoded.schema]++;
+
+        const day = toEpochDay(decoded.log.date);
+        if (day < sinceEpochDay) {continue;}
+
+        const existing = byDay.get(day);
+        if (!existing) {
+          byDay.set(day, { log: decoded.log, source });
+          continue;
+        }
+
+        result.supersededCount++;
+        if (existing.source === source && decoded.log.updatedAt.seconds > existing.log.updatedAt.seconds) {
+          byDay.set(day, { log: decoded.log, source });
+        }
+      }
+    }
+
+    result.logs = Array.from(byDay.values())
+      .map(entry => entry.log)
+      .sort((a, b) => b.date.seconds - a.date.seconds);
+
+    return result;
+  }
+
+  /**
+   * Read logs by document id, from the current path or else the legacy one. Ids that match
+   * no decodable log are left out.
+   */
+  async getLogsByIds(userId: string, logIds: string[], timeZone: string = DEFAULT_TIME_ZONE): Promise<DailyLog[]> {
+    const locations: Array<[DailyLogSource, admin.firestore.CollectionReference]> = [
+      ['dailyLogs', this.db.collection('users').doc(userId).collection('dailyLogs')],
+      ['legacyDailyLogs', this.db.collection('daily_logs').doc(userId).collection('logs')]
+    ];
+
+    const logs = await Promise.all(logIds.map(async logId => {
+      for (const [source, collection] of locations) {
+        const doc = await collection.doc(logId).get();
+        if (!doc.exists) {continue;}
+
+        const decoded = decodeDailyLog(userId, logId, doc.data() as RawData, source, timeZone);
+        return decoded.ok ? decoded.log : null;
+      }
+      return null;
+    }));
+
+    return logs.filter((log): log is DailyLog => log !== null);
+  }
+
+  /**
+   * Query one log collection for both v1 (dateEpochDays) and legacy (Timestamp date) documents
+   */
+  private async queryCollection(
+    collection: admin.firestore.CollectionReference,
+    sinceEpochDay: number
+  ): Promise<admin.firestore.QueryDocumentSnapshot[]> {
+    const [v1Snapshot, legacySnapshot] = await Promise.all([
+      collection.where('dateEpochDays', '>=', sinceEpochDay).get(),
+      // Local midnight east of UTC falls on the previous UTC day; decoded days are filtered after
+      collection.where('date', '>=', epochDayToTimestamp(sinceEpochDay - 1)).get()
+    ]);
+
+    // A document carrying both fields would match both queries
+    const docs = new Map<string, admin.firestore.QueryDocumentSnapshot>();
+    [...v1Snapshot.docs, ...legacySnapshot.docs].forEach(doc => docs.set(doc.id, doc));
+    return Array.from(docs.values());
+  }
+}
+
+/**
+ * Render a short human-readable summary of decode problems for logging
+ */
+export function summarizeDecodeIssues(issues: DailyLogDecodeIssue[]): string[] {
+  return issues.map(issue =>
+    `${issue.source}/${issue.logId}${issue.field ? ` [${issue.field}]` : ''}: ${issue.reason}`
+  );
+}
+
+function decodeEpochSeconds(value: unknown): admin.firestore.Timestamp | undefined {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    return undefined;
+  }
+  return admin.firestore.Timestamp.fromMillis(value * 1000);
+}
+
+function decodeTimestamp(value: unknown): admin.firestore.Timestamp | undefined {
+  if (!isTimestampLike(value)) {return undefined;}
+  return value as TimestampLike as admin.firestore.Timestamp;
+}
+
+function decodeEnum<T extends string>(
+  enumObject: Record<string, T>,
+  value: unknown,
+  field: string,
+  warn: (field: string, reason: string) => void
+): T | undefined {
+  if (value === undefined || value === null) {return undefined;}
+
+  const allowed = Object.values(enumObject) as string[];
+  if (typeof value === 'string' && allowed.includes(value)) {
+    return value as T;
+  }
+
+  warn(field, `Unknown value: ${String(value)}`);
+  return undefined;
+}
+
+function decodeSymptoms(
+  value: unknown,
+  warn: (field: string, reason: string) => void
+): string[] | undefined {
+  if (value === undefined || value === null) {return undefined;}
+
+  if (!Array.isArray(value)) {
+    warn('symptoms', 'Expected a list of symptoms');
+    return undefined;
+  }
+
+  const known = SYMPTOM_TYPES as readonly string[];
+  const symptoms = value.filter((symptom): symptom is string =>
+    typeof symptom === 'string' && known.includes(symptom)
+  );
+
+  if (symptoms.length !== value.length) {
+    const unknown = value.filter(symptom => !symptoms.includes(symptom as string));
+    warn('symptoms', `Unknown values: ${unknown.map(String).join(', ')}`);
+  }
+
+  return symptoms;
+}
+
+function decodeSexualActivity(
+  value: unknown,
+  warn: (field: string, reason: string) => void
+): DailyLog['sexualActivity'] {
+  if (value === undefined || value === null) {return undefined;}
+
+  const raw = value as RawData;
+  if (typeof value !== 'object' || typeof raw.occurred !== 'boolean') {
+    warn('sexualActivity', 'Expected an object with a boolean occurred flag');
+    return undefined;
+  }
+
+  // The apps store a single protection enum name; older documents stored a list
+  let protection: string[] = [];
+  if (typeof raw.protection === 'string') {
+    protection = [raw.protection];
+  } else if (Array.isArray(raw.protection)) {
+    protection = raw.protection.filter((item): item is string => typeof item === 'string');
+  }
+
+  return { occurred: raw.occurred, protection };
+}
@@ -0,0 +1,20 @@
+import * as admin from 'firebase-admin';
+import { DataCoverage } from '../insights/dataCoverage';
+
+/**
+ * The latest data coverage of a user, in users/{uid}/dataCoverage/current, for the apps to
+ * show what to log next
+ */
+export class DataCoverageRepository {
+  constructor(private readonly db: admin.firestore.Firestore) {}
+
+  /**
+   * Replace the stored coverage with that of the latest run
+   */
+  async save(userId: string, coverage: DataCoverage, now: Date): Promise<void> {
+    await this.db.collection('users').doc(userId).collection('dataCoverage').doc('current').set({
+      ...coverage,
+      updatedAt: admin.firestore.Timestamp.fromDate(now)
+    });
+  }
+}
@@ -0,0 +1,107 @@
+import * as admin from 'firebase-admin';
+
+type RawData = Record<string, unknown>;
+
+/**
+ * pending: requested, waiting for processDataExport; running: the archive is being written;
+ * ready: downloadUrl links to the archive; failed: no archive was written
+ */
+export type DataExportStatus = 'pending' | 'running' | 'ready' | 'failed';
+
+export interface DataExport {
+  id: string;
+  status: DataExportStatus;
+  requestedAt: admin.firestore.Timestamp;
+  completedAt?: admin.firestore.Timestamp;
+  downloadUrl?: string;
+  /** When downloadUrl stops working */
+  expiresAt?: admin.firestore.Timestamp;
+  /** Documents exported per archive file, by file name without extension */
+  documentCounts?: Record<string, number>;
+}
+
+export interface ReadyDataExport {
+  downloadUrl: string;
+  expiresAt: Date;
+  documentCounts: Record<string, number>;
+}
+
+export function decodeDataExport(id: string, data: RawData): DataExport {
+  const timestamp = (value: unknown) => value instanceof admin.firestore.Timestamp ? value : undefined;
+  const completedAt = timestamp(data.completedAt);
+  const expiresAt = timestamp(data.expiresAt);
+
+  return {
+    id,
+    status: (['pending', 'running', 'ready', 'failed'] as const).find(status => status === data.status) ?? 'failed',
+    requestedAt: timestamp(data.requestedAt) ?? admin.firestore.Timestamp.fromMillis(0),
+    ...(completedAt ? { completedAt } : {}),
+    ...(typeof data.downloadUrl === 'string' ? { downloadUrl: data.downloadUrl } : {}),
+    ...(expiresAt ? { expiresAt } : {}),
+    ...(typeof data.documentCounts === 'object' && data.documentCounts !== null
+      ? { documentCounts: data.documentCounts as Record<string, number> }
+      : {})
+  };
+}
+
+/**
+ * Account data export requests in users/{uid}/dataExports/{exportId}. The apps watch the
+ * document to learn when the archive is ready.
+ */
+export class DataExportRepository {
+  constructor(private readonly db: admin.firestore.Firestore) {}
+
+  async create(userId: string, now: Date): Promise<DataExport> {
+    const ref = this.exportsCollection(userId).doc();
+    const requestedAt = admin.firestore.Timestamp.fromDate(now);
+    await ref.set({ status: 'pending', requestedAt });
+    return { id: ref.id, status: 'pending', requestedAt };
+  }
+
+  async get(userId: string, exportId: string): Promise<DataExport | null> {
+    const doc = await this.exportsCollection(userId).doc(exportId).get();
+    return doc.exists ? decodeDataExport(exportId, doc.data() ?? {}) : null;
+  }
+
+  /**
+   * Exports that are waiting or being written
+   */
+  async getUnfinished(userId: string): Promise<DataExport[]> {
+    const snapshot = await this.exportsCollection(userId).where('status', 'in', ['pending', 'running']).get();
+    return snapshot.docs.map(doc => decodeDataExport(doc.id, doc.data()));
+  }
+
+  /**
+   * Move a pending export to running; false when another invocation already took it
+   */
+  async claim(userId: string, exportId: string, now: Date): Promise<boolean> {
+    const ref = this.exportsCollection(userId).doc(exportId);
+    return this.db.runTransaction(async transaction => {
+      const snapshot = await transaction.get(ref);
+      if (!snapshot.exists || snapshot.data()?.status !== 'pending') {return false;}
+      transaction.update(ref, { status: 'running', startedAt: admin.firestore.Timestamp.fromDate(now) });
+      return true;
+    });
+  }
+
+  async markReady(userId: string, exportId: string, result: ReadyDataExport, now: Date): Promise<void> {
+    await this.exportsCollection(userId).doc(exportId).update({
+      status: 'ready',
+      completedAt: admin.firestore.Timestamp.fromDate(now),
+      downloadUrl: result.downloadUrl,
+      expiresAt: admin.firestore.Timestamp.fromDate(result.expiresAt),
+      documentCounts: result.documentCounts
+    });
+  }
+
+  async markFailed(userId: string, exportId: string, now: Date): Promise<void> {
+    await this.exportsCollection(userId).doc(exportId).update({
+      status: 'failed',
+      completedAt: admin.firestore.Timestamp.fromDate(now)
+    });
+  }
+
+  private exportsCollection(userId: string): admin.firestore.CollectionReference {
+    return this.db.collection('users').doc(userId).collection('dataExports');
+  }
+}
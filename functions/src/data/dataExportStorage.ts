@@ -0,0 +1,37 @@
+import { Writable } from 'stream';
+import { SIGNED_URL_LIFETIME_MS, StorageBucket, downloadUrl } from './storageLinks';
+
+/**
+ * Object path of an account data export; storage.rules let the owner read users/{uid}/exports/
+ */
+export function dataExportPath(userId: string, exportId: string): string {
+  return `users/${userId}/exports/${exportId}.zip`;
+}
+
+/**
+ * Streams account data export archives to Cloud Storage and hands out links to them
+ */
+export class DataExportStorage {
+  constructor(private readonly bucket: StorageBucket) {}
+
+  /**
+   * A stream that uploads an export's archive as it is written; resumable, since archives
+   * of long histories can be large
+   */
+  createWriteStream(userId: string, exportId: string): Writable {
+    return this.bucket.file(dataExportPath(userId, exportId)).createWriteStream({
+      contentType: 'application/zip',
+      metadata: { contentDisposition: 'attachment; filename="eunio-data-export.zip"' }
+    });
+  }
+
+  /**
+   * A link to download an export's archive, and when it stops working
+   */
+  async link(userId: string, exportId: string, now: Date = new Date()): Promise<{ url: string; expiresAt: Date }> {
+    return {
+      url: await downloadUrl(this.bucket, dataExportPath(userId, exportId), now),
+      expiresAt: new Date(now.getTime() + SIGNED_URL_LIFETIME_MS)
+    };
+  }
+}
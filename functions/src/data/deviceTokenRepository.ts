@@ -0,0 +1,66 @@
+import * as admin from 'firebase-admin';
+import { createHash } from 'crypto';
+
+export type DevicePlatform = 'android' | 'ios';
+
+export const DEVICE_PLATFORMS: DevicePlatform[] = ['android', 'ios'];
+
+// A user signed in on more devices than this loses the least recently registered ones
+export const MAX_DEVICE_TOKENS = 10;
+
+export interface DeviceToken {
+  token: string;
+  platform: DevicePlatform;
+  updatedAt: admin.firestore.Timestamp;
+}
+
+/**
+ * FCM registration tokens of a user's devices in users/{uid}/deviceTokens. Documents are keyed
+ * by a hash of the token, so registering a token again refreshes it and tokens are not exposed
+ * in document paths.
+ */
+export class DeviceTokenRepository {
+  constructor(private readonly db: admin.firestore.Firestore) {}
+
+  async register(userId: string, token: string, platform: DevicePlatform, now: Date): Promise<void> {
+    const timestamp = admin.firestore.Timestamp.fromDate(now);
+    await this.collection(userId).doc(tokenId(token)).set({ token, platform, updatedAt: timestamp });
+
+    const tokens = await this.list(userId);
+    const stale = tokens.slice(MAX_DEVICE_TOKENS).map(device => device.token);
+    if (stale.length > 0) {await this.remove(userId, stale);}
+  }
+
+  /**
+   * Tokens of the user, most recently registered first
+   */
+  async list(userId: string): Promise<DeviceToken[]> {
+    const snapshot = await this.collection(userId).orderBy('updatedAt', 'desc').get();
+    const tokens: DeviceToken[] = [];
+    snapshot.docs.forEach(doc => {
+      const data = doc.data();
+      if (typeof data.token !== 'string' || !(data.updatedAt instanceof admin.firestore.Timestamp)) {return;}
+      tokens.push({ token: data.token, platform: data.platform === 'ios' ? 'ios' : 'android', updatedAt: data.updatedAt });
+    });
+    return tokens;
+  }
+
+  /**
+   * Remove tokens, e.g. on sign-out or after FCM rejected them as no longer registered
+   */
+  async remove(userId: string, tokens: string[]): Promise<void> {
+    if (tokens.length === 0) {return;}
+
+    const batch = this.db.batch();
+    tokens.forEach(token => batch.delete(this.collection(userId).doc(tokenId(token))));
+    await batch.commit();
+  }
+
+  private collection(userId: string): admin.firestore.CollectionReference {
+    return this.db.collection('users').doc(userId).collection('deviceTokens');
+  }
+}
+
+function tokenId(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
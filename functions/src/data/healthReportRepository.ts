@@ -0,0 +1,44 @@
+import * as admin from 'firebase-admin';
+import { HealthReport } from '../types';
+
+/**
+ * Reads and writes generated reports in users/{uid}/healthReports, where the apps read them
+ * as HealthReportDto
+ */
+export class HealthReportRepository {
+  constructor(private readonly db: admin.firestore.Firestore) {}
+
+  /**
+   * Store a new report and return its id
+   */
+  async create(userId: string, report: HealthReport): Promise<string> {
+    const { pdfUrl, ...required } = report;
+    const ref = this.reportsCollection(userId).doc();
+    await ref.set({
+      ...required,
+      ...(pdfUrl ? { pdfUrl } : {})
+    });
+    return ref.id;
+  }
+
+  /**
+   * A stored report, or null when there is none with this id
+   */
+  async get(userId: string, reportId: string): Promise<HealthReport | null> {
+    const doc = await this.reportsCollection(userId).doc(reportId).get();
+    if (!doc.exists) {return null;}
+    return doc.data() as HealthReport;
+  }
+
+  async setShared(userId: string, reportId: string, isShared: boolean): Promise<void> {
+    await this.reportsCollection(userId).doc(reportId).update({ isShared });
+  }
+
+  async setPdfUrl(userId: string, reportId: string, pdfUrl: string): Promise<void> {
+    await this.reportsCollection(userId).doc(reportId).update({ pdfUrl });
+  }
+
+  private reportsCollection(userId: string): admin.firestore.CollectionReference {
+    return this.db.collection('users').doc(userId).collection('healthReports');
+  }
+}
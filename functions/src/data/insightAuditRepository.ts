@@ -0,0 +1,130 @@
+import * as admin from 'firebase-admin';
+import { RuleDecision } from '../insights/rules/ruleEngine';
+import { InsightSyncResult } from './insightRepository';
+import { MS_PER_DAY, isTimestampLike } from '../utils/dateUtils';
+
+type RawData = Record<string, unknown>;
+
+// Long enough to answer support questions about any insight still shown
+const RUN_RETENTION_DAYS = 90;
+// Stale runs deleted per recorded run
+const MAX_PRUNED_RUNS = 100;
+
+/**
+ * What started a generation run for one user
+ */
+export type InsightRunTrigger = 'scheduled' | 'incremental' | 'manual';
+
+/**
+ * skipped: too little data to evaluate rules; cycles were still updated
+ */
+export type InsightAuditStatus = 'completed' | 'skipped' | 'failed';
+
+export interface InsightRunInputs {
+  dailyLogs: number;
+  skippedLogs: number;
+  storedCycles: number;
+  derivedCycles: number;
+  cycles: number;
+  confirmedOvulations: number;
+  activePrediction: boolean;
+}
+
+/**
+ * One generateInsightsForUser run, stored in users/{uid}/insightRuns/{runId}
+ */
+export interface InsightAuditRecord {
+  runId: string;
+  trigger: InsightRunTrigger;
+  status: InsightAuditStatus;
+  startedAt: Date;
+  durationMs: number;
+  timeZone: string;
+  /** Run in insightRuns that queued this one */
+  scheduledRunId?: string;
+  /** Rules the run was limited to (incremental runs) */
+  ruleScope?: string[];
+  inputs: InsightRunInputs;
+  /** Why rules were not evaluated at all, e.g. "skipped: only 22 logs (30 needed)" */
+  sufficiency: { sufficient: boolean; reason?: string };
+  rulesEvaluated: string[];
+  rulesFired: string[];
+  rulesSuppressed: Array<{ ruleId: string; reason: string }>;
+  decisions: RuleDecision[];
+  insightIds: string[];
+  sync?: InsightSyncResult;
+  error?: string;
+}
+
+/**
+ * Split rule decisions into the evaluated, fired and suppressed lists of an audit record
+ */
+export function summarizeDecisions(
+  decisions: RuleDecision[]
+): Pick<InsightAuditRecord, 'decisions' | 'rulesEvaluated' | 'rulesFired' | 'rulesSuppressed'> {
+  return {
+    decisions,
+    rulesEvaluated: decisions
+      .filter(decision => ['fired', 'noFinding', 'failed'].includes(decision.outcome))
+      .map(decision => decision.ruleId),
+    rulesFired: decisions.filter(decision => decision.outcome === 'fired').map(decision => decision.ruleId),
+    rulesSuppressed: decisions
+      .filter(decision => ['disabled', 'insufficientData', 'failed'].includes(decision.outcome))
+      .map(decision => ({ ruleId: decision.ruleId, reason: `${decision.outcome}: ${decision.reason}` }))
+  };
+}
+
+/**
+ * Audit trail of insight generation runs under users/{uid}/insightRuns, kept for 90 days
+ */
+export class InsightAuditRepository {
+  constructor(private readonly db: admin.firestore.Firestore) {}
+
+  /**
+   * Id for a run about to start, so its insights can point at the record
+   */
+  newRunId(userId: string): string {
+    return this.runsCollection(userId).doc().id;
+  }
+
+  /**
+   * Store a run and delete runs older than the retention period
+   */
+  async recordRun(userId: string, record: InsightAuditRecord): Promise<void> {
+    const collection = this.runsCollection(userId);
+    const { scheduledRunId, ruleScope, sync, error, ...required } = record;
+
+    await collection.doc(record.runId).set({
+      ...required,
+      startedAt: admin.firestore.Timestamp.fromDate(record.startedAt),
+      ...(scheduledRunId ? { scheduledRunId } : {}),
+      ...(ruleScope ? { ruleScope } : {}),
+      ...(sync ? { sync } : {}),
+      ...(error ? { error } : {})
+    });
+
+    const cutoff = admin.firestore.Timestamp.fromMillis(record.startedAt.getTime() - RUN_RETENTION_DAYS * MS_PER_DAY);
+    const stale = await collection.where('startedAt', '<', cutoff).limit(MAX_PRUNED_RUNS).get();
+    if (stale.empty) {return;}
+
+    const batch = this.db.batch();
+    stale.docs.forEach(doc => batch.delete(doc.ref));
+    await batch.commit();
+  }
+
+  async getRun(userId: string, runId: string): Promise<InsightAuditRecord | null> {
+    const snapshot = await this.runsCollection(userId).doc(runId).get();
+    if (!snapshot.exists) {return null;}
+
+    const data = snapshot.data() as RawData;
+    return {
+      ...data,
+      runId,
+      startedAt: isTimestampLike(data.startedAt) ? new Date(data.startedAt.seconds * 1000) : new Date(0)
+    } as InsightAuditRecord;
+  }
+
+  private runsCollection(userId: string): admin.firestore.CollectionReference {
+    return this.db.collection('users').doc(userId).collection('insightRuns');
+  }
+}
@@ -0,0 +1,226 @@
+import * as admin from 'firebase-admin';
+import { Insight, InsightStatus, InsightType } from '../types';
+import {
+  DEFAULT_LIFECYCLE_OPTIONS,
+  InsightLifecycleOptions,
+  InsightSyncPlan,
+  StoredInsightState,
+  planInsightSync
+} from '../insights/insightLifecycle';
+import { isTimestampLike, toLocalEpochDay } from '../utils/dateUtils';
+
+type RawData = Record<string, unknown>;
+
+// Stay well under Firestore's 500 writes per batch
+const MAX_BATCH_WRITES = 400;
+
+export interface InsightSyncResult {
+  created: number;
+  refreshed: number;
+  expired: number;
+  superseded: number;
+  purged: number;
+}
+
+/**
+ * Decode the lifecycle fields of a stored insight
+ */
+export function decodeInsightState(id: string, data: RawData): StoredInsightState {
+  const closedAt = data.closedAt;
+
+  return {
+    id,
+    type: data.type as InsightType,
+    fingerprint: typeof data.fingerprint === 'string' ? data.fingerprint : undefined,
+    ruleId: typeof data.ruleId === 'string' ? data.ruleId : undefined,
+    ruleParams: typeof data.ruleParams === 'object' && data.ruleParams !== null
+      ? data.ruleParams as Record<string, string>
+      : undefined,
+    status: typeof data.status === 'string' ? data.status as InsightStatus : undefined,
+    confidence: typeof data.confidence === 'number' ? data.confidence : 0,
+    priority: typeof data.priority === 'number' ? data.priority : 0,
+    missedRuns: typeof data.missedRuns === 'number' ? data.missedRuns : 0,
+    closedAtSeconds: isTimestampLike(closedAt) ? closedAt.seconds : undefined
+  };
+}
+
+function decodeInsight(userId: string, data: RawData, state: StoredInsightState): Insight {
+  return {
+    id: state.id,
+    userId,
+    generatedDate: data.generatedDate as admin.firestore.Timestamp,
+    insightText: String(data.insightText ?? ''),
+    type: state.type,
+    isRead: data.isRead === true,
+    relatedLogIds: Array.isArray(data.relatedLogIds)
+      ? data.relatedLogIds.filter((id): id is string => typeof id === 'string')
+      : [],
+    confidence: state.confidence,
+    priority: state.priority,
+    actionable: data.actionable === true,
+    ...(state.status ? { status: state.status } : {})
+  };
+}
+
+/**
+ * Keeps users/{uid}/insights in sync with the insights generated on each run. Documents
+ * are keyed by fingerprint, so a pattern that persists refreshes one document (keeping
+ * isRead) instead of adding a copy every night.
+ */
+export class InsightRepository {
+  constructor(
+    private readonly db: admin.firestore.Firestore,
+    private readonly options: InsightLifecycleOptions = DEFAULT_LIFECYCLE_OPTIONS
+  ) {}
+
+  /**
+   * @param ruleIds limit the sync to insights of these rules (incremental runs)
+   */
+  async syncInsights(
+    userId: string,
+    generated: Insight[],
+    now: Date = new Date(),
+    ruleIds?: string[]
+  ): Promise<InsightSyncResult> {
+    const collection = this.insightsCollection(userId);
+    const snapshot = await collection.get();
+    const stored = snapshot.docs.map(doc => decodeInsightState(doc.id, doc.data()));
+
+    const plan = planInsightSync(stored, generated, Math.floor(now.getTime() / 1000), this.options, ruleIds);
+    await this.applyPlan(collection, plan, admin.firestore.Timestamp.fromDate(now));
+
+    return {
+      created: plan.create.length,
+      refreshed: plan.refresh.length,
+      expired: plan.expire.length,
+      superseded: plan.supersede.length,
+      purged: plan.purge.length
+    };
+  }
+
+  /**
+   * Insights the user could see on some local day of the range: generated by its end and
+   * still active or closed after its start, highest confidence first. Superseded insights
+   * are left out since their replacements count.
+   */
+  async getInsightsShownDuring(
+    userId: string,
+    startEpochDay: number,
+    endEpochDay: number,
+    timeZone: string
+  ): Promise<Insight[]> {
+    const snapshot = await this.insightsCollection(userId).get();
+    const insights: Insight[] = [];
+
+    snapshot.docs.forEach(doc => {
+      const data = doc.data();
+      const state = decodeInsightState(doc.id, data);
+      if (state.status === 'superseded' || !isTimestampLike(data.generatedDate)) {return;}
+      if (toLocalEpochDay(data.generatedDate, timeZone) > endEpochDay) {return;}
+      if (state.status === 'expired' && state.closedAtSeconds !== undefined &&
+        toLocalEpochDay({ seconds: state.closedAtSeconds }, timeZone) < startEpochDay) {return;}
+
+      insights.push(decodeInsight(userId, data, state));
+    });
+
+    return insights.sort((a, b) => b.confidence - a.confidence);
+  }
+
+  /**
+   * Insights currently shown in the apps, newest first
+   */
+  async getActiveInsights(userId: string, type?: InsightType): Promise<Insight[]> {
+    const snapshot = await this.insightsCollection(userId).get();
+    const active: Array<{ insight: Insight; seconds: number }> = [];
+
+    snapshot.docs.forEach(doc => {
+      const data = doc.data();
+      const state = decodeInsightState(doc.id, data);
+      // Insights stored before the lifecycle fields have no status and are still shown
+      if ((state.status ?? 'active') !== 'active' || !isTimestampLike(data.generatedDate)) {return;}
+      if (type !== undefined && state.type !== type) {return;}
+
+      active.push({ insight: decodeInsight(userId, data, state), seconds: data.generatedDate.seconds });
+    });
+
+    return active.sort((a, b) => b.seconds - a.seconds).map(({ insight }) => insight);
+  }
+
+  private async applyPlan(
+    collection: admin.firestore.CollectionReference,
+    plan: InsightSyncPlan,
+    now: admin.firestore.Timestamp
+  ): Promise<void> {
+    const writes: Array<(batch: admin.firestore.WriteBatch) => void> = [];
+
+    plan.create.forEach(insight => {
+      const id = insight.fingerprint as string;
+      writes.push(batch => batch.set(collection.doc(id), {
+        ...insight,
+        id,
+        status: 'active',
+        missedRuns: 0,
+        lastSeenAt: now,
+        generatedDate: admin.firestore.FieldValue.serverTimestamp()
+      }));
+    });
+
+    // isRead and generatedDate are left alone so a refreshed insight is not shown as new
+    plan.refresh.forEach(({ id, insight }) => {
+      writes.push(batch => batch.set(collection.doc(id), {
+        insightText: insight.insightText,
+        type: insight.type,
+        relatedLogIds: insight.relatedLogIds,
+        confidence: insight.confidence,
+        priority: insight.priority ?? 0,
+        actionable: insight.actionable,
+        ruleId: insight.ruleId ?? admin.firestore.FieldValue.delete(),
+        ruleVersion: insight.ruleVersion ?? admin.firestore.FieldValue.delete(),
+        ruleParams: insight.ruleParams ?? admin.firestore.FieldValue.delete(),
+        runId: insight.runId ?? admin.firestore.FieldValue.delete(),
+        messageKey: insight.messageKey ?? admin.firestore.FieldValue.delete(),
+        locale: insight.locale ?? admin.firestore.FieldValue.delete(),
+        fingerprint: id,
+        status: 'active',
+        missedRuns: 0,
+        lastSeenAt: now,
+        closedAt: admin.firestore.FieldValue.delete(),
+        expiryReason: admin.firestore.FieldValue.delete(),
+        supersededBy: admin.firestore.FieldValue.delete()
+      }, { merge: true }));
+      // A merge would deep-merge these maps and keep keys the new values dropped
+      writes.push(batch => batch.update(collection.doc(id), {
+        evidence: insight.evidence ?? admin.firestore.FieldValue.delete(),
+        messageParams: insight.messageParams ?? admin.firestore.FieldValue.delete()
+      }));
+    });
+
+    plan.missed.forEach(({ id, missedRuns }) => {
+      writes.push(batch => batch.update(collection.doc(id), { missedRuns }));
+    });
+
+    plan.expire.forEach(({ id, reason }) => {
+      writes.push(batch => batch.update(collection.doc(id), { status: 'expired', expiryReason: reason, closedAt: now }));
+    });
+
+    plan.supersede.forEach(({ id, supersededBy }) => {
+      const update: RawData = { status: 'superseded', closedAt: now };
+      if (supersededBy) {update.supersededBy = supersededBy;}
+      writes.push(batch => batch.update(collection.doc(id), update));
+    });
+
+    plan.purge.forEach(id => {
+      writes.push(batch => batch.delete(collection.doc(id)));
+    });
+
+    for (let i = 0; i < writes.length; i += MAX_BATCH_WRITES) {
+      const batch = this.db.batch();
+      writes.slice(i, i + MAX_BATCH_WRITES).forEach(write => write(batch));
+      await batch.commit();
+    }
+  }
+
+  private insightsCollection(userId: string): admin.firestore.CollectionReference {
+    return this.db.collection('users').doc(userId).collection('insights');
+  }
+}
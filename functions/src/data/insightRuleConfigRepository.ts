@@ -0,0 +1,155 @@
+import * as admin from 'firebase-admin';
+import * as functions from 'firebase-functions';
+import { InsightRule, RuleThresholds } from '../insights/rules/insightRule';
+import { DEFAULT_INSIGHT_RULES } from '../insights/rules/defaultRules';
+
+type RawData = Record<string, unknown>;
+
+const DEFAULT_CONFIG_PATH = 'config/insightRules';
+const DEFAULT_CACHE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Remote rule configuration, as stored in config/insightRules:
+ *
+ *   { disabledRules: ['mood.swings'], thresholds: { 'cycle.short': { shorterThanDays: 20 } } }
+ *
+ * Only thresholds a rule declares bounds for can be set.
+ */
+export interface InsightRuleConfig {
+  disabledRuleIds: string[];
+  thresholdOverrides: Record<string, Partial<RuleThresholds>>;
+}
+
+export interface InsightRuleConfigRead {
+  config: InsightRuleConfig;
+  /** Entries ignored because they were unknown or out of range */
+  issues: string[];
+}
+
+export interface InsightRuleConfigOptions {
+  /** Firestore document holding the configuration */
+  path: string;
+  /** How long a loaded configuration is reused; 0 reads it on every call */
+  cacheTtlMs: number;
+}
+
+export const EMPTY_RULE_CONFIG: InsightRuleConfig = { disabledRuleIds: [], thresholdOverrides: {} };
+
+/**
+ * Options from the function's environment. INSIGHT_RULES_CONFIG_PATH points tests at their
+ * own document; under the emulator the configuration is re-read on every run so edits apply
+ * immediately.
+ */
+export function resolveRuleConfigOptions(env: NodeJS.ProcessEnv = process.env): InsightRuleConfigOptions {
+  return {
+    path: env.INSIGHT_RULES_CONFIG_PATH || DEFAULT_CONFIG_PATH,
+    cacheTtlMs: env.FUNCTIONS_EMULATOR === 'true' ? 0 : DEFAULT_CACHE_TTL_MS
+  };
+}
+
+/**
+ * Decode a rule configuration document against the known rules. Anything invalid is
+ * reported and left at the rule's default.
+ */
+export function decodeInsightRuleConfig(
+  data: RawData | undefined,
+  rules: InsightRule[] = DEFAULT_INSIGHT_RULES
+): InsightRuleConfigRead {
+  const raw = data || {};
+  const rulesById = new Map(rules.map(rule => [rule.id, rule]));
+  const result: InsightRuleConfigRead = { config: { disabledRuleIds: [], thresholdOverrides: {} }, issues: [] };
+
+  if (raw.disabledRules !== undefined && !Array.isArray(raw.disabledRules)) {
+    result.issues.push('disabledRules: expected a list of rule ids');
+  }
+  (Array.isArray(raw.disabledRules) ? raw.disabledRules : []).forEach(ruleId => {
+    if (typeof ruleId === 'string' && rulesById.has(ruleId)) {
+      result.config.disabledRuleIds.push(ruleId);
+    } else {
+      result.issues.push(`disabledRules: unknown rule ${String(ruleId)}`);
+    }
+  });
+
+  const thresholds = raw.thresholds;
+  if (thresholds === undefined) {return result;}
+  if (!isPlainObject(thresholds)) {
+    result.issues.push('thresholds: expected a map of rule ids');
+    return result;
+  }
+
+  Object.entries(thresholds).forEach(([ruleId, values]) => {
+    const rule = rulesById.get(ruleId);
+    if (!rule) {
+      result.issues.push(`thresholds.${ruleId}: unknown rule`);
+      return;
+    }
+    if (!isPlainObject(values)) {
+      result.issues.push(`thresholds.${ruleId}: expected a map of thresholds`);
+      return;
+    }
+
+    const overrides: Partial<RuleThresholds> = {};
+    Object.entries(values).forEach(([name, value]) => {
+      const issue = validateThreshold(rule, name, value);
+      if (issue) {
+        result.issues.push(`thresholds.${ruleId}.${name}: ${issue}`);
+      } else {
+        overrides[name] = value as number;
+      }
+    });
+
+    if (Object.keys(overrides).length > 0) {result.config.thresholdOverrides[ruleId] = overrides;}
+  });
+
+  return result;
+}
+
+/**
+ * Reads the rule configuration document, caching it between invocations of a warm instance
+ */
+export class InsightRuleConfigRepository {
+  private cached?: { config: InsightRuleConfig; loadedAt: number };
+
+  constructor(
+    private readonly db: admin.firestore.Firestore,
+    private readonly options: InsightRuleConfigOptions = resolveRuleConfigOptions(),
+    private readonly rules: InsightRule[] = DEFAULT_INSIGHT_RULES
+  ) {}
+
+  /**
+   * Current configuration. If the document cannot be read, the last loaded configuration
+   * (or the rule defaults) is used.
+   */
+  async getConfig(now: number = Date.now()): Promise<InsightRuleConfig> {
+    if (this.cached && now - this.cached.loadedAt < this.options.cacheTtlMs) {
+      return this.cached.config;
+    }
+
+    try {
+      const doc = await this.db.doc(this.options.path).get();
+      const read = decodeInsightRuleConfig(doc.exists ? doc.data() : undefined, this.rules);
+      if (read.issues.length > 0) {
+        functions.logger.warn(`Ignored invalid entries in ${this.options.path}`, { issues: read.issues });
+      }
+
+      this.cached = { config: read.config, loadedAt: now };
+      return read.config;
+    } catch (error) {
+      functions.logger.error(`Failed to load ${this.options.path}`, error);
+      return this.cached?.config ?? EMPTY_RULE_CONFIG;
+    }
+  }
+}
+
+function validateThreshold(rule: InsightRule, name: string, value: unknown): string | undefined {
+  const bounds = rule.thresholdBounds?.[name];
+  if (!bounds) {return 'not configurable';}
+  if (typeof value !== 'number' || !Number.isFinite(value)) {return 'expected a number';}
+  if (bounds.integer && !Number.isInteger(value)) {return 'expected a whole number';}
+  if (value < bounds.min || value > bounds.max) {return `expected ${bounds.min}-${bounds.max}`;}
+  return undefined;
+}
+
+function isPlainObject(value: unknown): value is RawData {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
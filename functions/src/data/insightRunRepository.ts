@@ -0,0 +1,182 @@
+import * as admin from 'firebase-admin';
+
+type RawData = Record<string, unknown>;
+
+// Stay well under Firestore's 500 writes per batch
+const MAX_BATCH_WRITES = 400;
+// Enough failed user ids to investigate without growing the run document unbounded
+const MAX_RECORDED_FAILURES = 100;
+
+/**
+ * enqueuing: users are still being paged and queued; running: every job is queued;
+ * completed: no job document is still queued or running
+ */
+export type InsightRunStatus = 'enqueuing' | 'running' | 'completed';
+
+/**
+ * skipped: the user has too little data for insights
+ */
+export type InsightJobOutcome = 'succeeded' | 'failed' | 'skipped';
+
+export interface InsightRunRecord {
+  id: string;
+  status: InsightRunStatus;
+  totalUsers: number;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  insightsGenerated: number;
+  failedUserIds: string[];
+}
+
+export interface InsightJobResult {
+  outcome: InsightJobOutcome;
+  attempts: number;
+  insightsGenerated: number;
+  error?: string;
+}
+
+/**
+ * Run records for the nightly insight job in insightRuns/{runId}, with one document per
+ * queued user in insightRuns/{runId}/jobs/{userId}
+ */
+export class InsightRunRepository {
+  constructor(private readonly db: admin.firestore.Firestore) {}
+
+  async createRun(runId: string): Promise<void> {
+    await this.runRef(runId).set({
+      status: 'enqueuing',
+      startedAt: admin.firestore.FieldValue.serverTimestamp(),
+      totalUsers: 0,
+      succeeded: 0,
+      failed: 0,
+      skipped: 0,
+      insightsGenerated: 0,
+      failedUserIds: []
+    });
+  }
+
+  /**
+   * Write a job document per user; the processInsightJob trigger picks each one up
+   */
+  async addJobs(runId: string, userIds: string[]): Promise<void> {
+    for (let i = 0; i < userIds.length; i += MAX_BATCH_WRITES) {
+      const batch = this.db.batch();
+      userIds.slice(i, i + MAX_BATCH_WRITES).forEach(userId => {
+        batch.set(this.jobRef(runId, userId), {
+          userId,
+          status: 'queued',
+          enqueuedAt: admin.firestore.FieldValue.serverTimestamp()
+        });
+      });
+      await batch.commit();
+    }
+  }
+
+  /**
+   * All users are queued; completes the run if every job already finished
+   */
+  async finishEnqueuing(runId: string, totalUsers: number): Promise<void> {
+    await this.runRef(runId).update({ status: 'running', totalUsers });
+    await this.completeIfDone(runId);
+  }
+
+  /**
+   * Mark a job running and return which delivery of its trigger this is, or null when the job
+   * already has an outcome. Jobs run in process have no document and are on their first.
+   */
+  async startJob(runId: string, userId: string): Promise<number | null> {
+    const jobRef = this.jobRef(runId, userId);
+    return this.db.runTransaction(async transaction => {
+      const snapshot = await transaction.get(jobRef);
+      if (!snapshot.exists) {return 1;}
+
+      const data = snapshot.data() ?? {};
+      if (data.status !== 'queued' && data.status !== 'running') {return null;}
+      const delivery = (typeof data.deliveries === 'number' ? data.deliveries : 0) + 1;
+      transaction.update(jobRef, {
+        status: 'running',
+        deliveries: delivery,
+        startedAt: admin.firestore.FieldValue.serverTimestamp()
+      });
+      return delivery;
+    });
+  }
+
+  /**
+   * Record a job's outcome on its job document and count it on the run, completing the run
+   * with its last job. The counts are increments rather than a transaction, so jobs finishing
+   * together do not contend for the run document.
+   */
+  async recordJobResult(runId: string, userId: string, result: InsightJobResult): Promise<void> {
+    const jobRef = this.jobRef(runId, userId);
+    const [job, run] = await Promise.all([jobRef.get(), this.getRun(runId)]);
+    // Concurrent failures may pass the cap by a few
+    const recordFailure = result.outcome === 'failed' && (run?.failedUserIds.length ?? 0) < MAX_RECORDED_FAILURES;
+
+    // One commit, so a retried job never finds its outcome recorded but not counted
+    const batch = this.db.batch();
+    // Jobs run in process have no document
+    if (job.exists) {
+      batch.update(jobRef, {
+        status: result.outcome,
+        attempts: result.attempts,
+        ...(result.error ? { lastError: result.error } : {}),
+        finishedAt: admin.firestore.FieldValue.serverTimestamp()
+      });
+    }
+    batch.update(this.runRef(runId), {
+      [result.outcome]: admin.firestore.FieldValue.increment(1),
+      insightsGenerated: admin.firestore.FieldValue.increment(result.insightsGenerated),
+      ...(recordFailure ? { failedUserIds: admin.firestore.FieldValue.arrayUnion(userId) } : {})
+    });
+    await batch.commit();
+
+    await this.completeIfDone(runId);
+  }
+
+  async getRun(runId: string): Promise<InsightRunRecord | null> {
+    const snapshot = await this.runRef(runId).get();
+    return snapshot.exists ? decodeInsightRun(runId, snapshot.data() ?? {}) : null;
+  }
+
+  /**
+   * Complete a run that has every job queued once none of its job documents is still queued or
+   * running. Jobs finishing together may both complete it, which only moves completedAt.
+   */
+  private async completeIfDone(runId: string): Promise<void> {
+    if ((await this.getRun(runId))?.status !== 'running') {return;}
+    const unfinished = await this.runRef(runId).collection('jobs')
+      .where('status', 'in', ['queued', 'running'])
+      .limit(1)
+      .get();
+    if (!unfinished.empty) {return;}
+
+    await this.runRef(runId).update({ status: 'completed', completedAt: admin.firestore.FieldValue.serverTimestamp() });
+  }
+
+  private runRef(runId: string): admin.firestore.DocumentReference {
+    return this.db.collection('insightRuns').doc(runId);
+  }
+
+  private jobRef(runId: string, userId: string): admin.firestore.DocumentReference {
+    return this.runRef(runId).collection('jobs').doc(userId);
+  }
+}
+
+export function decodeInsightRun(id: string, data: RawData): InsightRunRecord {
+  const count = (value: unknown): number => typeof value === 'number' ? value : 0;
+
+  return {
+    id,
+    status: data.status === 'running' || data.status === 'completed' ? data.status : 'enqueuing',
+    totalUsers: count(data.totalUsers),
+    succeeded: count(data.succeeded),
+    failed: count(data.failed),
+    skipped: count(data.skipped),
+    insightsGenerated: count(data.insightsGenerated),
+    failedUserIds: Array.isArray(data.failedUserIds)
+      ? data.failedUserIds.filter((id): id is string => typeof id === 'string')
+      : []
+  };
+}
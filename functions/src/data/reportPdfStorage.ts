@@ -0,0 +1,24 @@
+import { StorageBucket, downloadUrl } from './storageLinks';
+
+/**
+ * Object path of a report's PDF; storage.rules let the owner read users/{uid}/reports/
+ */
+export function reportPdfPath(userId: string, reportId: string): string {
+  return `users/${userId}/reports/${reportId}.pdf`;
+}
+
+/**
+ * Uploads rendered health reports to Cloud Storage and hands out links to them
+ */
+export class ReportPdfStorage {
+  constructor(private readonly bucket: StorageBucket) {}
+
+  /**
+   * Store a report's PDF, replacing an earlier rendering, and return a URL to download it
+   */
+  async save(userId: string, reportId: string, pdf: Buffer, now: Date = new Date()): Promise<string> {
+    const path = reportPdfPath(userId, reportId);
+    await this.bucket.file(path).save(pdf, { contentType: 'application/pdf', resumable: false });
+    return downloadUrl(this.bucket, path, now);
+  }
+}
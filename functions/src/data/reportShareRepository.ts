@@ -0,0 +1,124 @@
+import * as admin from 'firebase-admin';
+
+type RawData = Record<string, unknown>;
+
+/**
+ * A link to one report for someone without an account. The document id is the SHA-256 of
+ * the link's token, so the token itself is never stored.
+ */
+export interface ReportShare {
+  id: string;
+  userId: string;
+  reportId: string;
+  /** Epoch milliseconds, as the apps wrote share documents */
+  createdAt: number;
+  expiresAt: number;
+  maxViews: number;
+  viewCount: number;
+  revokedAt?: number;
+}
+
+export type ShareFormat = 'html' | 'pdf';
+
+export type ShareAccessOutcome = 'served' | 'revoked' | 'expired' | 'viewLimitReached';
+
+export interface ShareAccess {
+  format: ShareFormat;
+  ip?: string;
+  userAgent?: string;
+}
+
+// Longer client-supplied values are cut before they go into the audit log
+const MAX_LOGGED_VALUE_LENGTH = 256;
+
+/**
+ * Decode a stored share; missing counters read as zero
+ */
+export function decodeReportShare(id: string, data: RawData): ReportShare {
+  return {
+    id,
+    userId: String(data.userId ?? ''),
+    reportId: String(data.reportId ?? ''),
+    createdAt: typeof data.createdAt === 'number' ? data.createdAt : 0,
+    expiresAt: typeof data.expiresAt === 'number' ? data.expiresAt : 0,
+    maxViews: typeof data.maxViews === 'number' ? data.maxViews : 0,
+    viewCount: typeof data.viewCount === 'number' ? data.viewCount : 0,
+    ...(typeof data.revokedAt === 'number' ? { revokedAt: data.revokedAt } : {})
+  };
+}
+
+/**
+ * Whether a share can still be opened at the given time, or why not
+ */
+export function shareAccessOutcome(share: ReportShare, nowMillis: number): ShareAccessOutcome {
+  if (share.revokedAt !== undefined) {return 'revoked';}
+  if (nowMillis >= share.expiresAt) {return 'expired';}
+  if (share.viewCount >= share.maxViews) {return 'viewLimitReached';}
+  return 'served';
+}
+
+/**
+ * Report shares in sharedReports, with every access logged to sharedReports/{id}/accessLog
+ */
+export class ReportShareRepository {
+  constructor(private readonly db: admin.firestore.Firestore) {}
+
+  async create(share: ReportShare): Promise<void> {
+    const { id, revokedAt, ...fields } = share;
+    await this.sharesCollection().doc(id).set({
+      ...fields,
+      ...(revokedAt !== undefined ? { revokedAt } : {})
+    });
+  }
+
+  async get(shareId: string): Promise<ReportShare | null> {
+    const snapshot = await this.sharesCollection().doc(shareId).get();
+    return snapshot.exists ? decodeReportShare(shareId, snapshot.data() ?? {}) : null;
+  }
+
+  async getUserShares(userId: string): Promise<ReportShare[]> {
+    const snapshot = await this.sharesCollection().where('userId', '==', userId).get();
+    return snapshot.docs.map(doc => decodeReportShare(doc.id, doc.data()));
+  }
+
+  async revoke(shareId: string, now: Date): Promise<void> {
+    await this.sharesCollection().doc(shareId).update({ revokedAt: now.getTime() });
+  }
+
+  /**
+   * Check a share and count the view in one transaction, so concurrent views cannot pass the
+   * limit, and log the access whatever its outcome. Null for unknown shares.
+   */
+  async recordAccess(
+    shareId: string,
+    access: ShareAccess,
+    now: Date
+  ): Promise<{ outcome: ShareAccessOutcome; share: ReportShare } | null> {
+    const shareRef = this.sharesCollection().doc(shareId);
+
+    return this.db.runTransaction(async transaction => {
+      const snapshot = await transaction.get(shareRef);
+      if (!snapshot.exists) {return null;}
+
+      const share = decodeReportShare(shareId, snapshot.data() ?? {});
+      const outcome = shareAccessOutcome(share, now.getTime());
+      if (outcome === 'served') {
+        share.viewCount++;
+        transaction.update(shareRef, { viewCount: share.viewCount, lastViewedAt: now.getTime() });
+      }
+
+      transaction.set(shareRef.collection('accessLog').doc(), {
+        accessedAt: admin.firestore.Timestamp.fromDate(now),
+        format: access.format,
+        outcome,
+        ...(access.ip ? { ip: access.ip.slice(0, MAX_LOGGED_VALUE_LENGTH) } : {}),
+        ...(access.userAgent ? { userAgent: access.userAgent.slice(0, MAX_LOGGED_VALUE_LENGTH) } : {})
+      });
+      return { outcome, share };
+    });
+  }
+
+  private sharesCollection(): admin.firestore.CollectionReference {
+    return this.db.collection('sharedReports');
+  }
+}
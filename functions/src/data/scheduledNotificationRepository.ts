@@ -0,0 +1,67 @@
+import * as admin from 'firebase-admin';
+
+/**
+ * A push notification waiting until `sendAt`, e.g. for the user's quiet hours to end
+ */
+export interface ScheduledNotification {
+  id: string;
+  userId: string;
+  /** Notification kind, as sent by the PushNotifier */
+  kind: string;
+  sendAt: admin.firestore.Timestamp;
+}
+
+/**
+ * Notifications waiting to be sent, in scheduledNotifications/{id}
+ */
+export class ScheduledNotificationRepository {
+  constructor(private readonly db: admin.firestore.Firestore) {}
+
+  /**
+   * Schedule a notification under an id of the caller's choosing, replacing one already
+   * scheduled under it
+   */
+  async schedule(notification: ScheduledNotification): Promise<void> {
+    const { id, ...data } = notification;
+    await this.db.collection('scheduledNotifications').doc(id).set(data);
+  }
+
+  /**
+   * Notifications due by `now`, earliest first
+   */
+  async getDue(now: Date, limit: number): Promise<ScheduledNotification[]> {
+    const snapshot = await this.db.collection('scheduledNotifications')
+      .where('sendAt', '<=', admin.firestore.Timestamp.fromDate(now))
+      .orderBy('sendAt')
+      .limit(limit)
+      .get();
+
+    const notifications: ScheduledNotification[] = [];
+    snapshot.docs.forEach(doc => {
+      const data = doc.data();
+      if (typeof data.userId !== 'string' || typeof data.kind !== 'string') {return;}
+      notifications.push({ id: doc.id, userId: data.userId, kind: data.kind, sendAt: data.sendAt });
+    });
+    return notifications;
+  }
+
+  /**
+   * Make `notifications` the user's only scheduled notifications of the given kinds
+   */
+  async replace(userId: string, kinds: string[], notifications: ScheduledNotification[]): Promise<{ removed: number }> {
+    const collection = this.db.collection('scheduledNotifications');
+    const existing = await collection.where('userId', '==', userId).where('kind', 'in', kinds).get();
+    const keptIds = new Set(notifications.map(notification => notification.id));
+    const stale = existing.docs.filter(doc => !keptIds.has(doc.id));
+
+    const batch = this.db.batch();
+    stale.forEach(doc => batch.delete(doc.ref));
+    notifications.forEach(({ id, ...data }) => batch.set(collection.doc(id), data));
+    if (stale.length > 0 || notifications.length > 0) {await batch.commit();}
+    return { removed: stale.length };
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.db.collection('scheduledNotifications').doc(id).delete();
+  }
+}
@@ -0,0 +1,22 @@
+import * as admin from 'firebase-admin';
+import { MS_PER_DAY } from '../utils/dateUtils';
+
+export type StorageBucket = ReturnType<admin.storage.Storage['bucket']>;
+
+// The longest a V4 signed URL can be valid
+export const SIGNED_URL_LIFETIME_MS = 7 * MS_PER_DAY;
+
+/**
+ * A download link for an object, valid for seven days from `now`. The emulator cannot sign
+ * URLs, so there its media link is returned, which it checks against storage.rules instead.
+ */
+export async function downloadUrl(bucket: StorageBucket, path: string, now: Date): Promise<string> {
+  const emulatorHost = process.env.STORAGE_EMULATOR_HOST ?? process.env.FIREBASE_STORAGE_EMULATOR_HOST;
+  if (emulatorHost) {
+    const origin = emulatorHost.startsWith('http') ? emulatorHost : `http://${emulatorHost}`;
+    return `${origin}/v0/b/${bucket.name}/o/${encodeURIComponent(path)}?alt=media`;
+  }
+
+  const [url] = await bucket.file(path).getSignedUrl({ action: 'read', expires: now.getTime() + SIGNED_URL_LIFETIME_MS });
+  return url;
+}
@@ -0,0 +1,72 @@
+import * as admin from 'firebase-admin';
+import {
+  INSIGHT_DUE_HOUR_FIELD,
+  InsightScheduleOptions,
+  insightDueHourUtc,
+  resolveInsightSchedule
+} from '../insights/insightSchedule';
+import { isValidTimeZone, resolveTimeZone } from '../utils/dateUtils';
+
+export type TimeZoneUpdate = 'updated' | 'unchanged' | 'invalid';
+
+/**
+ * Fields of users/{uid} the functions write for the apps
+ */
+export class UserProfileRepository {
+  constructor(
+    private readonly db: admin.firestore.Firestore,
+    private readonly schedule: InsightScheduleOptions = resolveInsightSchedule()
+  ) {}
+
+  /**
+   * Store the IANA time zone that insight runs, reminders, notifications, reports and exports
+   * read local days from, with the hour of the user's next scheduled insight run. Nothing is
+   * written for a zone the runtime does not know.
+   */
+  async setTimeZone(userId: string, timeZone: unknown, now: Date = new Date()): Promise<TimeZoneUpdate> {
+    if (!isValidTimeZone(timeZone)) {return 'invalid';}
+
+    const ref = this.db.collection('users').doc(userId);
+    const profile = (await ref.get()).data() ?? {};
+    const dueHour = insightDueHourUtc(timeZone, now, this.schedule);
+    if (profile.timeZone === timeZone && profile[INSIGHT_DUE_HOUR_FIELD] === dueHour) {return 'unchanged';}
+
+    await ref.set({ timeZone, [INSIGHT_DUE_HOUR_FIELD]: dueHour }, { merge: true });
+    return profile.timeZone === timeZone ? 'unchanged' : 'updated';
+  }
+
+  /**
+   * Move a user's scheduled insight run to the next one in their local hour, when the stored
+   * hour differs, as after a daylight saving change
+   */
+  async updateInsightDueHour(userId: string, profile: Record<string, unknown>, now: Date = new Date()): Promise<void> {
+    const dueHour = insightDueHourUtc(resolveTimeZone(profile.timeZone), now, this.schedule);
+    if (profile[INSIGHT_DUE_HOUR_FIELD] === dueHour) {return;}
+    await this.db.collection('users').doc(userId).update({ [INSIGHT_DUE_HOUR_FIELD]: dueHour });
+  }
+
+  /**
+   * Give every user without a scheduled hour one, a page at a time; returns the users updated
+   */
+  async backfillInsightDueHours(now: Date = new Date(), pageSize = 400): Promise<number> {
+    let updated = 0;
+    let cursor: admin.firestore.QueryDocumentSnapshot | undefined;
+    for (;;) {
+      let query = this.db.collection('users').limit(pageSize);
+      if (cursor) {query = query.startAfter(cursor);}
+      const page = await query.get();
+      if (page.empty) {return updated;}
+
+      const batch = this.db.batch();
+      const missing = page.docs.filter(doc => typeof doc.data()[INSIGHT_DUE_HOUR_FIELD] !== 'number');
+      missing.forEach(doc => batch.update(doc.ref, {
+        [INSIGHT_DUE_HOUR_FIELD]: insightDueHourUtc(resolveTimeZone(doc.data().timeZone), now, this.schedule)
+      }));
+      if (missing.length > 0) {await batch.commit();}
+      updated += missing.length;
+      cursor = page.docs[page.docs.length - 1];
+
+      if (page.size < pageSize) {return updated;}
+    }
+  }
+}
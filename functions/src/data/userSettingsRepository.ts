@@ -0,0 +1,164 @@
+import * as admin from 'firebase-admin';
+import {
+  CyclePreferences,
+  NotificationPreferences,
+  NotificationSetting,
+  QuietHours,
+  TemperatureUnit,
+  UnitPreferences,
+  UserSettings
+} from '../types';
+import { supportedLocale } from '../insights/messages/messageCatalog';
+
+type RawData = Record<string, unknown>;
+
+export type LocaleUpdate = 'updated' | 'unchanged' | 'invalid';
+
+// Same defaults and medical ranges as the app's CyclePreferences
+export const DEFAULT_CYCLE_PREFERENCES: CyclePreferences = {
+  averageCycleLength: 28,
+  averageLutealPhaseLength: 14,
+  periodDuration: 5,
+  isCustomized: false
+};
+
+const CYCLE_LENGTH_RANGE = { min: 21, max: 45 };
+const LUTEAL_PHASE_RANGE = { min: 10, max: 16 };
+const PERIOD_DURATION_RANGE = { min: 2, max: 8 };
+
+const DEFAULT_NOTIFICATION_SETTING: NotificationSetting = {
+  enabled: false,
+  daysInAdvance: 1
+};
+
+// Off until the apps let users choose; the times are those offered when turned on
+export const DEFAULT_QUIET_HOURS: QuietHours = {
+  enabled: false,
+  startHour: 22,
+  startMinute: 0,
+  endHour: 8,
+  endMinute: 0
+};
+
+/**
+ * Decode a user_settings document, falling back to the app defaults for anything
+ * missing or out of range
+ */
+export function decodeUserSettings(userId: string, data: RawData | undefined): UserSettings {
+  const raw = data || {};
+  return {
+    userId,
+    unitPreferences: decodeUnitPreferences(raw.unitPreferences as RawData | undefined),
+    notificationPreferences: decodeNotificationPreferences(raw.notificationPreferences as RawData | undefined),
+    cyclePreferences: decodeCyclePreferences(raw.cyclePreferences as RawData | undefined),
+    ...(typeof raw.locale === 'string' && raw.locale ? { locale: raw.locale } : {})
+  };
+}
+
+/**
+ * Reads user_settings/{uid}, and writes the fields the apps do not
+ */
+export class UserSettingsRepository {
+  constructor(private readonly db: admin.firestore.Firestore) {}
+
+  async getSettings(userId: string): Promise<UserSettings> {
+    const doc = await this.db.collection('user_settings').doc(userId).get();
+    return decodeUserSettings(userId, doc.exists ? doc.data() : undefined);
+  }
+
+  /**
+   * Store the locale insights, notifications and reports are written in, in its canonical
+   * form. Nothing is written for a language without a message catalog.
+   */
+  async setLocale(userId: string, value: unknown): Promise<LocaleUpdate> {
+    const locale = supportedLocale(value);
+    if (!locale) {return 'invalid';}
+
+    const ref = this.db.collection('user_settings').doc(userId);
+    if ((await ref.get()).data()?.locale === locale) {return 'unchanged';}
+
+    await ref.set({ locale }, { merge: true });
+    return 'updated';
+  }
+}
+
+function decodeUnitPreferences(raw: RawData | undefined): UnitPreferences {
+  const temperatureUnit = raw?.temperatureUnit === TemperatureUnit.FAHRENHEIT
+    ? TemperatureUnit.FAHRENHEIT
+    : TemperatureUnit.CELSIUS;
+
+  return {
+    temperatureUnit,
+    weightUnit: typeof raw?.weightUnit === 'string' ? raw.weightUnit : 'KILOGRAMS',
+    isManuallySet: raw?.isManuallySet === true
+  };
+}
+
+function decodeNotificationPreferences(raw: RawData | undefined): NotificationPreferences {
+  return {
+    dailyLoggingReminder: decodeNotificationSetting(raw?.dailyLoggingReminder as RawData | undefined),
+    periodPredictionAlert: decodeNotificationSetting(raw?.periodPredictionAlert as RawData | undefined),
+    ovulationAlert: decodeNotificationSetting(raw?.ovulationAlert as RawData | undefined),
+    insightNotifications: decodeNotificationSetting(raw?.insightNotifications as RawData | undefined),
+    globalNotificationsEnabled: raw?.globalNotificationsEnabled !== false,
+    quietHours: decodeQuietHours(raw?.quietHours as RawData | undefined)
+  };
+}
+
+function decodeQuietHours(raw: RawData | undefined): QuietHours {
+  if (!raw) {return { ...DEFAULT_QUIET_HOURS };}
+
+  const start = isIntegerInRange(raw.startHour, 0, 23) && isIntegerInRange(raw.startMinute, 0, 59);
+  const end = isIntegerInRange(raw.endHour, 0, 23) && isIntegerInRange(raw.endMinute, 0, 59);
+  return {
+    enabled: raw.enabled === true,
+    startHour: start ? raw.startHour as number : DEFAULT_QUIET_HOURS.startHour,
+    startMinute: start ? raw.startMinute as number : DEFAULT_QUIET_HOURS.startMinute,
+    endHour: end ? raw.endHour as number : DEFAULT_QUIET_HOURS.endHour,
+    endMinute: end ? raw.endMinute as number : DEFAULT_QUIET_HOURS.endMinute
+  };
+}
+
+function decodeNotificationSetting(raw: RawData | undefined): NotificationSetting {
+  if (!raw) {return { ...DEFAULT_NOTIFICATION_SETTING };}
+
+  const setting: NotificationSetting = {
+    enabled: raw.enabled === true,
+    daysInAdvance: isIntegerInRange(raw.daysInAdvance, 0, 7) ? raw.daysInAdvance : 1
+  };
+
+  if (isIntegerInRange(raw.timeHour, 0, 23) && isIntegerInRange(raw.timeMinute, 0, 59)) {
+    setting.timeHour = raw.timeHour;
+    setting.timeMinute = raw.timeMinute;
+  }
+
+  return setting;
+}
+
+function decodeCyclePreferences(raw: RawData | undefined): CyclePreferences {
+  if (!raw) {return { ...DEFAULT_CYCLE_PREFERENCES };}
+
+  const preferences: CyclePreferences = {
+    averageCycleLength: isIntegerInRange(raw.averageCycleLength, CYCLE_LENGTH_RANGE.min, CYCLE_LENGTH_RANGE.max)
+      ? raw.averageCycleLength
+      : DEFAULT_CYCLE_PREFERENCES.averageCycleLength,
+    averageLutealPhaseLength: isIntegerInRange(raw.averageLutealPhaseLength, LUTEAL_PHASE_RANGE.min, LUTEAL_PHASE_RANGE.max)
+      ? raw.averageLutealPhaseLength
+      : DEFAULT_CYCLE_PREFERENCES.averageLutealPhaseLength,
+    periodDuration: isIntegerInRange(raw.periodDuration, PERIOD_DURATION_RANGE.min, PERIOD_DURATION_RANGE.max)
+      ? raw.periodDuration
+      : DEFAULT_CYCLE_PREFERENCES.periodDuration,
+    isCustomized: raw.isCustomized === true
+  };
+
+  // Luteal phase must be shorter than the cycle, as validated in the apps
+  if (preferences.averageLutealPhaseLength >= preferences.averageCycleLength) {
+    return { ...DEFAULT_CYCLE_PREFERENCES };
+  }
+
+  return preferences;
+}
+
+function isIntegerInRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
@@ -0,0 +1,19 @@
+// Cells starting with these are run as formulas by spreadsheet apps
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * One RFC 4180 CSV line, ending in CRLF. Missing values are empty cells, arrays are joined
+ * with "; ", and text that a spreadsheet would run as a formula is prefixed with a quote.
+ */
+export function csvLine(values: unknown[]): string {
+  return `${values.map(csvCell).join(',')}\r\n`;
+}
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) {return '';}
+  if (Array.isArray(value)) {return csvCell(value.map(String).join('; '));}
+
+  let text = String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {text = `'${text}`;}
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,296 @@
+import * as admin from 'firebase-admin';
+import * as functions from 'firebase-functions';
+import { Writable } from 'stream';
+import { decodeCycle } from '../data/cycleRepository';
+import { DailyLogSource, decodeDailyLog } from '../data/dailyLogRepository';
+import { DataExportRepository } from '../data/dataExportRepository';
+import { DataExportStorage } from '../data/dataExportStorage';
+import { decodeReportShare } from '../data/reportShareRepository';
+import { PushNotifier } from '../notifications/pushNotifier';
+import { epochDayToIsoDate, resolveTimeZone, toEpochDay } from '../utils/dateUtils';
+import { csvLine } from './csv';
+import { ZipWriter } from './zipWriter';
+
+type RawData = Record<string, unknown>;
+
+export interface DataExportOptions {
+  /** Documents read per query page */
+  pageSize: number;
+}
+
+export const DEFAULT_DATA_EXPORT_OPTIONS: DataExportOptions = {
+  pageSize: 500
+};
+
+// Longer than processDataExport's timeout, so an export still unfinished after it has failed
+const UNFINISHED_EXPORT_TIMEOUT_MS = 60 * 60 * 1000;
+
+export type DataExportRequestResult =
+  | { status: 'requested'; exportId: string }
+  | { status: 'inProgress'; exportId: string };
+
+export type DataExportOutcome = 'ready' | 'failed' | 'skipped';
+
+/**
+ * A spreadsheet view of one collection; rows are null for documents that cannot be decoded
+ */
+interface CsvTable {
+  columns: string[];
+  row(id: string, data: RawData): unknown[] | null;
+}
+
+/**
+ * One collection of the archive, written as `{file}.json` and, with a table, `{file}.csv`
+ */
+interface ExportCollection {
+  file: string;
+  query: admin.firestore.Query;
+  csv?: CsvTable;
+}
+
+/**
+ * Packages everything stored about a user into a ZIP of JSON and CSV files in Cloud Storage,
+ * for data access requests. Collections are read a page at a time and written to the archive
+ * as they are read, so no history is ever held in memory whole.
+ */
+export class UserDataExporter {
+  private readonly exports: DataExportRepository;
+
+  constructor(
+    private readonly db: admin.firestore.Firestore,
+    private readonly storage: DataExportStorage,
+    private readonly options: DataExportOptions = DEFAULT_DATA_EXPORT_OPTIONS,
+    private readonly notifier?: PushNotifier
+  ) {
+    this.exports = new DataExportRepository(db);
+  }
+
+  /**
+   * Request an export, or return the one already under way
+   */
+  async request(userId: string, now: Date = new Date()): Promise<DataExportRequestResult> {
+    const unfinished = (await this.exports.getUnfinished(userId))
+      .find(existing => now.getTime() - existing.requestedAt.toMillis() < UNFINISHED_EXPORT_TIMEOUT_MS);
+    if (unfinished) {return { status: 'inProgress', exportId: unfinished.id };}
+
+    const created = await this.exports.create(userId, now);
+    return { status: 'requested', exportId: created.id };
+  }
+
+  /**
+   * Write a requested export's archive and mark the request ready with its link, or failed,
+   * and push a notification once it is ready. Skipped when the request is no longer pending,
+   * as for a repeated trigger.
+   */
+  async process(userId: string, exportId: string, now: Date = new Date()): Promise<DataExportOutcome> {
+    if (!await this.exports.claim(userId, exportId, now)) {return 'skipped';}
+
+    try {
+      const documentCounts = await this.writeArchive(userId, this.storage.createWriteStream(userId, exportId), now);
+      const link = await this.storage.link(userId, exportId, now);
+      await this.exports.markReady(userId, exportId, { downloadUrl: link.url, expiresAt: link.expiresAt, documentCounts }, now);
+    } catch (error) {
+      functions.logger.error('Data export failed', { userId, exportId, error });
+      await this.exports.markFailed(userId, exportId, now);
+      return 'failed';
+    }
+
+    try {
+      const result = await this.notifier?.send(userId, 'dataExportReady', now);
+      functions.logger.info('Data export notification finished', { userId, exportId, ...result });
+    } catch (error) {
+      // The export is ready in the app either way
+      functions.logger.error('Data export notification failed', { userId, exportId, error });
+    }
+    return 'ready';
+  }
+
+  /**
+   * Write the archive to `output` and return the documents exported per file
+   */
+  async writeArchive(userId: string, output: Writable, now: Date = new Date()): Promise<Record<string, number>> {
+    const zip = new ZipWriter(output, now);
+    const documentCounts: Record<string, number> = {};
+
+    try {
+      const [profile, settings] = await Promise.all([
+        this.db.collection('users').doc(userId).get(),
+        this.db.collection('user_settings').doc(userId).get()
+      ]);
+      await zip.addFile('profile.json', [jsonDocument(profile)]);
+      await zip.addFile('settings.json', [jsonDocument(settings)]);
+
+      const timeZone = resolveTimeZone(profile.data()?.timeZone);
+      for (const collection of this.collections(userId, timeZone)) {
+        // Read once per format, so neither file needs the collection in memory
+        documentCounts[collection.file] = await this.addJsonFile(zip, collection);
+        if (collection.csv) {
+          await zip.addFile(`${collection.file}.csv`, this.csvLines(collection.query, collection.csv));
+        }
+      }
+
+      await zip.addFile('manifest.json', [`${JSON.stringify({
+        userId,
+        exportedAt: now.toISOString(),
+        documentCounts
+      }, null, 2)}\n`]);
+      await zip.finish();
+    } catch (error) {
+      output.destroy(error as Error);
+      throw error;
+    }
+    return documentCounts;
+  }
+
+  private collections(userId: string, timeZone: string): ExportCollection[] {
+    const user = this.db.collection('users').doc(userId);
+    const legacy = (collection: string, subcollection: string) =>
+      this.db.collection(collection).doc(userId).collection(subcollection);
+
+    return [
+      { file: 'dailyLogs', query: user.collection('dailyLogs'), csv: dailyLogTable(userId, 'dailyLogs', timeZone) },
+      { file: 'legacy/daily_logs', query: legacy('daily_logs', 'logs'), csv: dailyLogTable(userId, 'legacyDailyLogs', timeZone) },
+      { file: 'cycles', query: user.collection('cycles'), csv: cycleTable(userId, timeZone) },
+      { file: 'insights', query: user.collection('insights'), csv: INSIGHT_TABLE },
+      { file: 'healthReports', query: user.collection('healthReports') },
+      { file: 'reportShares', query: this.db.collection('sharedReports').where('userId', '==', userId), csv: SHARE_TABLE },
+      { file: 'legacy/health_data', query: legacy('health_data', 'entries') },
+      { file: 'legacy/cycle_tracking', query: legacy('cycle_tracking', 'cycles') },
+      { file: 'legacy/temperature_data', query: legacy('temperature_data', 'readings') },
+      { file: 'legacy/symptoms', query: legacy('symptoms', 'entries') }
+    ];
+  }
+
+  private async addJsonFile(zip: ZipWriter, collection: ExportCollection): Promise<number> {
+    let count = 0;
+    const documents = this.documents(collection.query);
+    async function* lines(): AsyncGenerator<string> {
+      yield '[';
+      for await (const doc of documents) {
+        yield `${count === 0 ? '\n' : ',\n'}  ${JSON.stringify({ id: doc.id, ...toJsonValue(doc.data()) as RawData })}`;
+        count++;
+      }
+      yield count === 0 ? ']\n' : '\n]\n';
+    }
+
+    await zip.addFile(`${collection.file}.json`, lines());
+    return count;
+  }
+
+  private async *csvLines(query: admin.firestore.Query, table: CsvTable): AsyncGenerator<string> {
+    yield csvLine(table.columns);
+    for await (const doc of this.documents(query)) {
+      const row = table.row(doc.id, doc.data());
+      if (row) {yield csvLine(row);}
+    }
+  }
+
+  /**
+   * Every document of a query, read a page at a time in document id order
+   */
+  private async *documents(query: admin.firestore.Query): AsyncGenerator<admin.firestore.QueryDocumentSnapshot> {
+    let cursor: admin.firestore.QueryDocumentSnapshot | undefined;
+    for (;;) {
+      let page = query.limit(this.options.pageSize);
+      if (cursor) {page = page.startAfter(cursor);}
+      const snapshot = await page.get();
+      yield* snapshot.docs;
+
+      if (snapshot.docs.length < this.options.pageSize) {return;}
+      cursor = snapshot.docs[snapshot.docs.length - 1];
+    }
+  }
+}
+
+function dailyLogTable(userId: string, source: DailyLogSource, timeZone: string): CsvTable {
+  return {
+    columns: [
+      'id', 'date', 'periodFlow', 'bbt', 'cervicalMucus', 'opkResult', 'mood', 'symptoms',
+      'sexualActivity', 'protection', 'notes', 'createdAt', 'updatedAt'
+    ],
+    row: (id, data) => {
+      const decoded = decodeDailyLog(userId, id, data, source, timeZone);
+      if (!decoded.ok) {return null;}
+      const { log } = decoded;
+      return [
+        id,
+        epochDayToIsoDate(toEpochDay(log.date)),
+        log.periodFlow,
+        log.bbt,
+        log.cervicalMucus,
+        log.opkResult,
+        log.mood,
+        log.symptoms,
+        log.sexualActivity?.occurred,
+        log.sexualActivity?.protection,
+        log.notes,
+        log.createdAt.toDate().toISOString(),
+        log.updatedAt.toDate().toISOString()
+      ];
+    }
+  };
+}
+
+function cycleTable(userId: string, timeZone: string): CsvTable {
+  const day = (timestamp?: admin.firestore.Timestamp) => timestamp && epochDayToIsoDate(toEpochDay(timestamp));
+  return {
+    columns: [
+      'id', 'startDate', 'endDate', 'cycleLength', 'periodLength', 'lutealPhaseLength',
+      'predictedOvulationDate', 'confirmedOvulationDate', 'source'
+    ],
+    row: (id, data) => {
+      const cycle = decodeCycle(userId, id, data, timeZone);
+      if (!cycle) {return null;}
+      return [
+        id,
+        day(cycle.startDate),
+        day(cycle.endDate),
+        cycle.cycleLength,
+        cycle.periodLength,
+        cycle.lutealPhaseLength,
+        day(cycle.predictedOvulationDate),
+        day(cycle.confirmedOvulationDate),
+        cycle.source
+      ];
+    }
+  };
+}
+
+const INSIGHT_TABLE: CsvTable = {
+  columns: ['id', 'generatedDate', 'type', 'status', 'insightText', 'confidence', 'isRead'],
+  row: (id, data) => [
+    id,
+    toJsonValue(data.generatedDate),
+    data.type,
+    data.status ?? 'active',
+    data.insightText,
+    data.confidence,
+    data.isRead
+  ]
+};
+
+const SHARE_TABLE: CsvTable = {
+  columns: ['id', 'reportId', 'createdAt', 'expiresAt', 'maxViews', 'viewCount', 'revokedAt'],
+  row: (id, data) => {
+    const share = decodeReportShare(id, data);
+    const time = (millis?: number) => millis !== undefined ? new Date(millis).toISOString() : undefined;
+    return [id, share.reportId, time(share.createdAt), time(share.expiresAt), share.maxViews, share.viewCount, time(share.revokedAt)];
+  }
+};
+
+function jsonDocument(snapshot: admin.firestore.DocumentSnapshot): string {
+  return `${JSON.stringify(snapshot.exists ? toJsonValue(snapshot.data()) : null, null, 2)}\n`;
+}
+
+/**
+ * A Firestore value as plain JSON: Timestamps as ISO 8601 instants, bytes as base64
+ */
+function toJsonValue(value: unknown): unknown {
+  if (value instanceof admin.firestore.Timestamp) {return value.toDate().toISOString();}
+  if (value instanceof Uint8Array) {return Buffer.from(value).toString('base64');}
+  if (Array.isArray(value)) {return value.map(toJsonValue);}
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, field]) => [key, toJsonValue(field)]));
+  }
+  return value;
+}
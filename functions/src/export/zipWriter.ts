@@ -0,0 +1,162 @@
+import { once } from 'events';
+import { Writable } from 'stream';
+import { finished } from 'stream/promises';
+import { createDeflateRaw } from 'zlib';
+
+// Record signatures and flags from the ZIP application note (APPNOTE.TXT)
+const LOCAL_FILE_HEADER = 0x04034b50;
+const DATA_DESCRIPTOR = 0x08074b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+// Sizes and CRC follow the data (bit 3); names are UTF-8 (bit 11)
+const FLAGS = 0x0808;
+const DEFLATE = 8;
+const VERSION = 20;
+// Without ZIP64 records, sizes and offsets are 32-bit
+const MAX_32_BIT = 0xffffffff;
+const MAX_ENTRIES = 0xffff;
+
+interface CentralEntry {
+  name: Buffer;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+/**
+ * CRC-32 of `data`, continuing from `previous`
+ */
+export function crc32(data: Buffer, previous = 0): number {
+  let crc = ~previous;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return ~crc >>> 0;
+}
+
+/**
+ * Writes a ZIP archive to a stream one file at a time. File contents are deflated as they
+ * arrive, so only the current chunk and the central directory are held in memory.
+ */
+export class ZipWriter {
+  private readonly entries: CentralEntry[] = [];
+  private offset = 0;
+  private readonly dosTime: number;
+  private readonly dosDate: number;
+
+  /**
+   * @param modified modification time recorded for every file
+   */
+  constructor(private readonly output: Writable, modified: Date = new Date()) {
+    this.dosTime = (modified.getUTCHours() << 11) | (modified.getUTCMinutes() << 5) | (modified.getUTCSeconds() >> 1);
+    this.dosDate = ((modified.getUTCFullYear() - 1980) << 9) | ((modified.getUTCMonth() + 1) << 5) | modified.getUTCDate();
+  }
+
+  /**
+   * Add a file whose content is produced by `content`, and return its uncompressed size
+   */
+  async addFile(name: string, content: AsyncIterable<string | Buffer> | Iterable<string | Buffer>): Promise<number> {
+    if (this.entries.length === MAX_ENTRIES) {throw new Error('Too many files for a ZIP archive');}
+
+    const entry: CentralEntry = { name: Buffer.from(name, 'utf8'), crc: 0, compressedSize: 0, size: 0, offset: this.offset };
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+    header.writeUInt16LE(VERSION, 4);
+    header.writeUInt16LE(FLAGS, 6);
+    header.writeUInt16LE(DEFLATE, 8);
+    header.writeUInt16LE(this.dosTime, 10);
+    header.writeUInt16LE(this.dosDate, 12);
+    // CRC and sizes (14-25) stay zero until the data descriptor
+    header.writeUInt16LE(entry.name.length, 26);
+    await this.write(Buffer.concat([header, entry.name]));
+
+    const deflate = createDeflateRaw();
+    const compressing = (async () => {
+      for await (const chunk of deflate) {
+        entry.compressedSize += (chunk as Buffer).length;
+        await this.write(chunk as Buffer);
+      }
+    })();
+    // Failures surface through the awaits below
+    compressing.catch(() => undefined);
+    try {
+      for await (const part of content) {
+        const data = typeof part === 'string' ? Buffer.from(part, 'utf8') : part;
+        entry.crc = crc32(data, entry.crc);
+        entry.size += data.length;
+        // An output failure stops the draining, so it must end this wait too
+        if (!deflate.write(data)) {await Promise.race([once(deflate, 'drain'), compressing]);}
+      }
+      deflate.end();
+      await compressing;
+    } catch (error) {
+      deflate.destroy();
+      await compressing.catch(() => undefined);
+      throw error;
+    }
+    if (entry.size > MAX_32_BIT || entry.compressedSize > MAX_32_BIT) {
+      throw new Error(`${name} is too large for a ZIP archive`);
+    }
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(DATA_DESCRIPTOR, 0);
+    descriptor.writeUInt32LE(entry.crc, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+    await this.write(descriptor);
+
+    this.entries.push(entry);
+    return entry.size;
+  }
+
+  /**
+   * Write the central directory and end the output stream once it has flushed
+   */
+  async finish(): Promise<void> {
+    const directoryOffset = this.offset;
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(CENTRAL_DIRECTORY_HEADER, 0);
+      header.writeUInt16LE(VERSION, 4);
+      header.writeUInt16LE(VERSION, 6);
+      header.writeUInt16LE(FLAGS, 8);
+      header.writeUInt16LE(DEFLATE, 10);
+      header.writeUInt16LE(this.dosTime, 12);
+      header.writeUInt16LE(this.dosDate, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      // Extra field, comment, disk number and attributes (30-41) stay zero
+      header.writeUInt32LE(entry.offset, 42);
+      await this.write(Buffer.concat([header, entry.name]));
+    }
+
+    const directorySize = this.offset - directoryOffset;
+    if (directoryOffset > MAX_32_BIT) {throw new Error('Archive is too large for a ZIP file');}
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(directorySize, 12);
+    end.writeUInt32LE(directoryOffset, 16);
+    await this.write(end);
+
+    this.output.end();
+    await finished(this.output);
+  }
+
+  private async write(data: Buffer): Promise<void> {
+    this.offset += data.length;
+    if (!this.output.write(data)) {await once(this.output, 'drain');}
+  }
+}
@@ -1,29 +1,84 @@
 import * as functions from 'firebase-functions';
 import * as admin from 'firebase-admin';
-import { generateInsightsForAllUsers, generateInsightsForUser } from './insights/insightGenerator';
+import { generateInsightsForUser, generateScheduledInsights } from './insights/insightGenerator';
+import { InsightDebouncer, processDailyLogWrite } from './insights/incrementalInsights';
+import { InsightJobWorker } from './insights/insightFanout';
+import { InsightRunRepository } from './data/insightRunRepository';
+import { InsightExplainer } from './insights/insightExplainer';
+import { HealthReportGenerator, parseHealthReportRequest } from './reports/healthReportGenerator';
+import { HealthReportPdfService } from './reports/healthReportPdfService';
+import { ReportPdfStorage } from './data/reportPdfStorage';
+import { ReportShareService } from './reports/sharing/reportShareService';
+import { createShareRequestHandler } from './reports/sharing/shareRequestHandler';
+import { DEFAULT_DATA_EXPORT_OPTIONS, UserDataExporter } from './export/userDataExporter';
+import { DataExportStorage } from './data/dataExportStorage';
+import { AccountDeleter } from './account/accountDeleter';
+import { PushNotifier } from './notifications/pushNotifier';
+import { FcmPushTransport, LoggingPushTransport } from './notifications/pushTransport';
+import { ReminderScheduler, forecastChanged } from './notifications/reminderScheduler';
+import { DEVICE_PLATFORMS, DeviceTokenRepository } from './data/deviceTokenRepository';
+import { UserProfileRepository } from './data/userProfileRepository';
+import { AccountDeletionRepository } from './data/accountDeletionRepository';
+import { DEFAULT_MESSAGE_CATALOGS, resolveLocale } from './insights/messages/messageCatalog';
+import { UserSettingsRepository } from './data/userSettingsRepository';
 
 // Initialize Firebase Admin SDK
 admin.initializeApp();
 
 /**
- * Scheduled function that runs daily at 2 AM UTC to generate insights for all users
+ * Scheduled function that runs every hour and starts an insight run for the users whose local
+ * time is in the configured hour (INSIGHT_LOCAL_HOUR, 4 AM by default), so each user gets
+ * one run a day in their own night. Users are queried on the UTC hour stored with their
+ * profile, so a run reads only the users it queues. Log writes already update insights incrementally; this
+ * run is the consistency sweep that also expires insights whose patterns have faded. It only
+ * queues per-user jobs, which processInsightJob works through.
  */
 export const dailyInsightGeneration = functions.pubsub
-  .schedule('0 2 * * *')
+  .schedule('0 * * * *')
   .timeZone('UTC')
   .onRun(async (context) => {
-    functions.logger.info('Starting daily insight generation', { timestamp: context.timestamp });
-    
+    functions.logger.info('Starting scheduled insight generation', { timestamp: context.timestamp });
+
     try {
-      const result = await generateInsightsForAllUsers();
-      functions.logger.info('Daily insight generation completed', result);
+      const result = await generateScheduledInsights(new Date(context.timestamp));
+      functions.logger.info('Scheduled insight generation queued', result);
       return result;
     } catch (error) {
-      functions.logger.error('Daily insight generation failed', error);
+      functions.logger.error('Scheduled insight generation failed', error);
       throw error;
     }
   });
 
+/**
+ * Pub/Sub function that gives every user without one the UTC hour of their scheduled insight
+ * run, which dailyInsightGeneration queries on. Run once after deploying the hour field
+ * (`gcloud pubsub topics publish backfill-insight-due-hours`); later users get the hour
+ * from setTimeZone and their first insight run.
+ */
+export const backfillInsightDueHours = functions
+  .runWith({ timeoutSeconds: 540 })
+  .pubsub.topic('backfill-insight-due-hours')
+  .onPublish(async () => {
+    const updated = await new UserProfileRepository(admin.firestore()).backfillInsightDueHours();
+    functions.logger.info('Insight due hours backfilled', { updated });
+  });
+
+/**
+ * Firestore trigger that generates insights for one user of an insight run. maxInstances
+ * bounds how many users are processed at once; failed attempts are retried within the job,
+ * and an invocation that crashes or times out is retried, until the job is recorded failed.
+ * The outcome is counted on the run record.
+ */
+export const processInsightJob = functions
+  .runWith({ timeoutSeconds: 300, maxInstances: 50, failurePolicy: true })
+  .firestore.document('insightRuns/{runId}/jobs/{userId}')
+  .onCreate(async (_snapshot, context) => {
+    const { runId, userId } = context.params;
+    const worker = new InsightJobWorker(new InsightRunRepository(admin.firestore()), generateInsightsForUser);
+    const outcome = await worker.process(runId, userId);
+    functions.logger.info('Insight job finished', { runId, userId, outcome });
+  });
+
 /**
  * HTTP function to manually trigger insight generation for a specific user (for testing)
  */
@@ -44,4 +99,439 @@ export const generateUserInsights = functions.https.onCall(async (data, context)
     functions.logger.error('User insight generation failed', { userId, error });
     throw new functions.https.HttpsError('internal', 'Failed to generate insights');
   }
-});
\ No newline at end of file
+});
+
+/**
+ * Callable function that explains one of the caller's insights: the rule behind it, the run
+ * that last produced it and the logs it was derived from
+ */
+export const explainInsight = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+  if (typeof data?.insightId !== 'string' || data.insightId.length === 0) {
+    throw new functions.https.HttpsError('invalid-argument', 'insightId is required');
+  }
+
+  const userId = context.auth.uid;
+  let explanation;
+  try {
+    explanation = await new InsightExplainer(admin.firestore()).explain(userId, data.insightId);
+  } catch (error) {
+    functions.logger.error('Insight explanation failed', { userId, insightId: data.insightId, error });
+    throw new functions.https.HttpsError('internal', 'Failed to explain insight');
+  }
+
+  if (!explanation) {
+    throw new functions.https.HttpsError('not-found', 'Insight not found');
+  }
+  return explanation;
+});
+
+/**
+ * Callable function that computes a health report over `{ start, end }` (yyyy-MM-dd, the
+ * caller's local days) and stores it in users/{uid}/healthReports for the apps
+ */
+export const generateHealthReport = functions
+  .runWith({ timeoutSeconds: 120 })
+  .https.onCall(async (data, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+    const parsed = parseHealthReportRequest(data);
+    if (!parsed.ok) {
+      throw new functions.https.HttpsError('invalid-argument', parsed.message);
+    }
+
+    const userId = context.auth.uid;
+    let result;
+    try {
+      result = await new HealthReportGenerator(admin.firestore()).generate(userId, parsed.request);
+    } catch (error) {
+      functions.logger.error('Health report generation failed', { userId, error });
+      throw new functions.https.HttpsError('internal', 'Failed to generate health report');
+    }
+
+    if (result.status === 'insufficientData') {
+      throw new functions.https.HttpsError('failed-precondition', `Insufficient data: ${result.errors.join(', ')}`);
+    }
+    functions.logger.info('Health report generated', { userId, reportId: result.reportId });
+    return { reportId: result.reportId, report: result.report };
+  });
+
+/**
+ * Callable function that renders a stored health report to PDF under users/{uid}/reports/ in
+ * Cloud Storage and sets the report's pdfUrl to a link valid for seven days. Calling it again
+ * re-renders the PDF and refreshes the link.
+ */
+export const generateHealthReportPdf = functions
+  .runWith({ timeoutSeconds: 120, memory: '512MB' })
+  .https.onCall(async (data, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+    if (typeof data?.reportId !== 'string' || data.reportId.length === 0) {
+      throw new functions.https.HttpsError('invalid-argument', 'reportId is required');
+    }
+
+    const userId = context.auth.uid;
+    let result;
+    try {
+      result = await new HealthReportPdfService(
+        admin.firestore(),
+        new ReportPdfStorage(admin.storage().bucket())
+      ).render(userId, data.reportId);
+    } catch (error) {
+      functions.logger.error('Health report PDF rendering failed', { userId, reportId: data.reportId, error });
+      throw new functions.https.HttpsError('internal', 'Failed to render health report');
+    }
+
+    if (result.status === 'notFound') {
+      throw new functions.https.HttpsError('not-found', 'Health report not found');
+    }
+    return { pdfUrl: result.pdfUrl };
+  });
+
+/**
+ * HTTPS endpoint for links that show a health report to a healthcare provider without an
+ * account. The owner POSTs `{ reportId, expirationDays?, maxViews? }` with their ID token and
+ * gets an unguessable link back; opening the link serves the report read-only, as HTML or as a
+ * PDF with `?format=pdf`, until it expires, reaches its view limit or is revoked. Every access
+ * is logged under sharedReports/{shareId}/accessLog. SHARE_LINK_BASE_URL overrides the links'
+ * base URL.
+ */
+export const sharedReports = functions
+  .runWith({ timeoutSeconds: 120, memory: '512MB' })
+  .https.onRequest(createShareRequestHandler(
+    new ReportShareService(admin.firestore()),
+    idToken => admin.auth().verifyIdToken(idToken),
+    process.env.SHARE_LINK_BASE_URL || undefined
+  ));
+
+/**
+ * Callable function for the owner's report shares: `{ action: 'list' }` returns the shares
+ * that can still be opened, `{ action: 'revoke', shareId }` revokes one
+ */
+export const manageReportShares = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+  const action = data?.action;
+  if (action !== 'list' && action !== 'revoke') {
+    throw new functions.https.HttpsError('invalid-argument', "action must be 'list' or 'revoke'");
+  }
+  if (action === 'revoke' && (typeof data.shareId !== 'string' || data.shareId.length === 0)) {
+    throw new functions.https.HttpsError('invalid-argument', 'shareId is required');
+  }
+
+  const userId = context.auth.uid;
+  const service = new ReportShareService(admin.firestore());
+  if (action === 'list') {
+    try {
+      const shares = await service.listActive(userId);
+      return {
+        shares: shares.map(share => ({
+          shareId: share.id,
+          reportId: share.reportId,
+          createdAt: share.createdAt,
+          expiresAt: share.expiresAt,
+          maxViews: share.maxViews,
+          viewCount: share.viewCount
+        }))
+      };
+    } catch (error) {
+      functions.logger.error('Listing report shares failed', { userId, error });
+      throw new functions.https.HttpsError('internal', 'Failed to list report shares');
+    }
+  }
+
+  let revoked;
+  try {
+    revoked = await service.revoke(userId, data.shareId);
+  } catch (error) {
+    functions.logger.error('Revoking report share failed', { userId, shareId: data.shareId, error });
+    throw new functions.https.HttpsError('internal', 'Failed to revoke report share');
+  }
+  if (!revoked) {
+    throw new functions.https.HttpsError('not-found', 'Report share not found');
+  }
+  functions.logger.info('Report share revoked', { userId, shareId: data.shareId });
+  return { revoked: true };
+});
+
+/**
+ * Callable function for data access requests: queues an export of everything stored about
+ * the caller and returns `{ exportId }`. processDataExport writes the archive; the apps watch
+ * users/{uid}/dataExports/{exportId} until it is ready with its download link. A request while
+ * another is under way returns that one.
+ */
+export const exportUserData = functions.https.onCall(async (_data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const userId = context.auth.uid;
+  try {
+    const result = await new UserDataExporter(
+      admin.firestore(),
+      new DataExportStorage(admin.storage().bucket())
+    ).request(userId);
+    functions.logger.info('Data export requested', { userId, ...result });
+    return { exportId: result.exportId };
+  } catch (error) {
+    functions.logger.error('Data export request failed', { userId, error });
+    throw new functions.https.HttpsError('internal', 'Failed to request data export');
+  }
+});
+
+/**
+ * Firestore trigger that writes a requested data export to users/{uid}/exports/{exportId}.zip
+ * in Cloud Storage and marks the request ready with a link valid for seven days, or failed.
+ * A ready export is announced with a push notification.
+ */
+export const processDataExport = functions
+  .runWith({ timeoutSeconds: 540, memory: '1GB' })
+  .firestore.document('users/{userId}/dataExports/{exportId}')
+  .onCreate(async (_snapshot, context) => {
+    const { userId, exportId } = context.params;
+    const outcome = await new UserDataExporter(
+      admin.firestore(),
+      new DataExportStorage(admin.storage().bucket()),
+      DEFAULT_DATA_EXPORT_OPTIONS,
+      createPushNotifier()
+    ).process(userId, exportId);
+    functions.logger.info('Data export finished', { userId, exportId, outcome });
+  });
+
+// How recently the caller must have signed in to delete their account
+const ACCOUNT_DELETION_SIGN_IN_MAX_AGE_SECONDS = 5 * 60;
+
+/**
+ * Callable function that deletes the caller's data, then their Firebase Auth user, and
+ * returns `{ receiptId }` of the deletion receipt. The caller must have signed in within the
+ * last five minutes. Calling it again after an interruption resumes the deletion.
+ */
+export const deleteAccount = functions
+  .runWith({ timeoutSeconds: 540 })
+  .https.onCall(async (_data, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+    const authTime = context.auth.token.auth_time;
+    if (typeof authTime !== 'number' || Date.now() / 1000 - authTime > ACCOUNT_DELETION_SIGN_IN_MAX_AGE_SECONDS) {
+      throw new functions.https.HttpsError('failed-precondition', 'Recent sign-in required');
+    }
+
+    const userId = context.auth.uid;
+    let result;
+    try {
+      result = await new AccountDeleter(admin.firestore(), admin.storage().bucket()).delete(userId, 'request');
+      await admin.auth().deleteUser(userId);
+    } catch (error) {
+      functions.logger.error('Account deletion failed', { userId, error });
+      throw new functions.https.HttpsError('internal', 'Failed to delete account');
+    }
+    return { receiptId: result.status === 'deleted' ? result.receiptId : null };
+  });
+
+/**
+ * Auth trigger that deletes a user's data when their Firebase Auth user is deleted, however
+ * that happened. Failures and timeouts are retried, resuming where the last attempt stopped.
+ */
+export const deleteUserData = functions
+  .runWith({ timeoutSeconds: 540, failurePolicy: true })
+  .auth.user()
+  .onDelete(async user => {
+    const result = await new AccountDeleter(admin.firestore(), admin.storage().bucket()).delete(user.uid, 'authDelete');
+    functions.logger.info('User data deletion finished', {
+      status: result.status,
+      ...(result.status === 'deleted' ? { receiptId: result.receiptId } : {})
+    });
+  });
+
+/**
+ * Firestore trigger that recomputes the insights affected by a daily log write, once a burst
+ * of edits has settled
+ */
+export const incrementalInsightGeneration = functions
+  .runWith({ timeoutSeconds: 120 })
+  .firestore.document('users/{userId}/dailyLogs/{logId}')
+  .onWrite(async (change, context) => {
+    const userId = context.params.userId;
+
+    try {
+      const result = await processDailyLogWrite(
+        userId,
+        change.before.exists ? change.before.data() : undefined,
+        change.after.exists ? change.after.data() : undefined,
+        context.eventId,
+        new InsightDebouncer(admin.firestore()),
+        new AccountDeletionRepository(admin.firestore()),
+        generateInsightsForUser
+      );
+      functions.logger.info('Incremental insight generation finished', {
+        userId,
+        outcome: result.outcome,
+        ruleIds: result.ruleIds
+      });
+    } catch (error) {
+      // The nightly sweep picks up anything missed here
+      functions.logger.error('Incremental insight generation failed', { userId, error });
+    }
+  });
+
+// FCM is not available under the emulator, so messages are logged there
+function createPushNotifier(): PushNotifier {
+  const transport = process.env.FUNCTIONS_EMULATOR === 'true'
+    ? new LoggingPushTransport()
+    : new FcmPushTransport(admin.messaging());
+  return new PushNotifier(admin.firestore(), transport);
+}
+
+/**
+ * Firestore trigger that pushes a notification for a new early warning, cycle prediction or
+ * fertility window insight, as the user's notification preferences allow
+ */
+export const notifyNewInsight = functions.firestore
+  .document('users/{userId}/insights/{insightId}')
+  .onCreate(async (snapshot, context) => {
+    const userId = context.params.userId;
+
+    try {
+      const result = await createPushNotifier().notifyInsight(userId, snapshot.data().type);
+      functions.logger.info('Insight notification finished', { userId, ...result });
+    } catch (error) {
+      // The insight is in the app either way
+      functions.logger.error('Insight notification failed', { userId, error });
+    }
+  });
+
+/**
+ * Scheduled function that runs every 5 minutes and sends the scheduled notifications that are
+ * due: period and ovulation reminders, and notifications held back for quiet hours
+ */
+export const dispatchScheduledNotifications = functions.pubsub
+  .schedule('*/5 * * * *')
+  .timeZone('UTC')
+  .onRun(async (context) => {
+    const counts = await createPushNotifier().sendDue(new Date(context.timestamp));
+    functions.logger.info('Scheduled notifications dispatched', counts);
+    return counts;
+  });
+
+/**
+ * Firestore trigger that recomputes a user's period and ovulation reminders when a cycle write
+ * changes their forecast
+ */
+export const rescheduleRemindersOnForecastChange = functions.firestore
+  .document('users/{userId}/cycles/{cycleId}')
+  .onWrite(async (change, context) => {
+    if (!forecastChanged(change.before.data(), change.after.data())) {return;}
+
+    const userId = context.params.userId;
+    const result = await new ReminderScheduler(admin.firestore()).reschedule(userId);
+    functions.logger.info('Reminders rescheduled', { userId, ...result });
+  });
+
+/**
+ * Firestore trigger that recomputes a user's period and ovulation reminders when their
+ * notification preferences change
+ */
+export const rescheduleRemindersOnSettingsChange = functions.firestore
+  .document('user_settings/{userId}')
+  .onWrite(async (change, context) => {
+    const before = change.before.data()?.notificationPreferences;
+    const after = change.after.data()?.notificationPreferences;
+    if (JSON.stringify(before) === JSON.stringify(after)) {return;}
+
+    const userId = context.params.userId;
+    const result = await new ReminderScheduler(admin.firestore()).reschedule(userId);
+    functions.logger.info('Reminders rescheduled', { userId, ...result });
+  });
+
+/**
+ * Callable function for the caller's push notification devices: `{ action: 'register', token,
+ * platform }` stores an FCM registration token (platform 'android' or 'ios'), `{ action:
+ * 'unregister', token }` removes one, e.g. on sign-out
+ */
+export const manageDeviceTokens = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+  const action = data?.action;
+  if (action !== 'register' && action !== 'unregister') {
+    throw new functions.https.HttpsError('invalid-argument', "action must be 'register' or 'unregister'");
+  }
+  if (typeof data.token !== 'string' || data.token.length === 0 || data.token.length > 4096) {
+    throw new functions.https.HttpsError('invalid-argument', 'token is required');
+  }
+  if (action === 'register' && !DEVICE_PLATFORMS.includes(data.platform)) {
+    throw new functions.https.HttpsError('invalid-argument', "platform must be 'android' or 'ios'");
+  }
+
+  const userId = context.auth.uid;
+  const tokens = new DeviceTokenRepository(admin.firestore());
+  try {
+    if (action === 'register') {
+      await tokens.register(userId, data.token, data.platform, new Date());
+    } else {
+      await tokens.remove(userId, [data.token]);
+    }
+  } catch (error) {
+    functions.logger.error('Updating device tokens failed', { userId, action, error });
+    throw new functions.https.HttpsError('internal', 'Failed to update device tokens');
+  }
+  return action === 'register' ? { registered: true } : { unregistered: true };
+});
+
+/**
+ * Callable function that stores the caller's IANA time zone, `{ timeZone: 'Europe/Berlin' }`,
+ * and reschedules their reminders when it changed. The apps call it at start-up and when the
+ * device's zone changes.
+ */
+export const setTimeZone = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const userId = context.auth.uid;
+  const db = admin.firestore();
+  let update;
+  try {
+    update = await new UserProfileRepository(db).setTimeZone(userId, data?.timeZone);
+    // Reminders are sent at a local time of day
+    if (update === 'updated') {await new ReminderScheduler(db).reschedule(userId);}
+  } catch (error) {
+    functions.logger.error('Updating the time zone failed', { userId, error });
+    throw new functions.https.HttpsError('internal', 'Failed to update the time zone');
+  }
+  if (update === 'invalid') {
+    throw new functions.https.HttpsError('invalid-argument', 'timeZone must be an IANA time zone, e.g. Europe/Berlin');
+  }
+  return { timeZone: data.timeZone };
+});
+
+/**
+ * Callable function that stores the language the caller's insights, notifications and reports
+ * are written in, `{ locale: 'es-MX' }`. The apps call it at start-up and when the device's
+ * language changes.
+ */
+export const setLocale = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const userId = context.auth.uid;
+  let update;
+  try {
+    update = await new UserSettingsRepository(admin.firestore()).setLocale(userId, data?.locale);
+  } catch (error) {
+    functions.logger.error('Updating the locale failed', { userId, error });
+    throw new functions.https.HttpsError('internal', 'Failed to update the locale');
+  }
+  if (update === 'invalid') {
+    const languages = DEFAULT_MESSAGE_CATALOGS.map(catalog => catalog.language).join(', ');
+    throw new functions.https.HttpsError('invalid-argument', `locale must be a BCP 47 tag in one of: ${languages}`);
+  }
+  return { locale: resolveLocale(data.locale) };
+});
@@ -0,0 +1,251 @@
+import { PhaseAnnotation } from '../cycles/cyclePhaseAnnotator';
+import { benjaminiHochberg, clamp, fisherExactGreater, mannWhitneyU, mean, roundTo } from '../utils/statistics';
+import { RuleFinding } from './rules/insightRule';
+import { PhaseOccurrence, phaseSegment, segmentKey } from './rules/ruleHelpers';
+
+/**
+ * Limits on which associations are reported. Every value and phase segment tested counts
+ * towards the false discovery rate, so testing more pairs needs stronger evidence for each.
+ */
+export interface AssociationThresholds {
+  /** Days the value was logged in the segment */
+  minOccurrences: number;
+  /** Cycles those days must be spread over */
+  minCycles: number;
+  minRelativeRisk: number;
+  maxFalseDiscoveryRate: number;
+}
+
+/**
+ * A value (symptom, mood) logged more often in one phase segment than on other logged days
+ */
+export interface CycleAssociation {
+  value: string;
+  segment: string;
+  /** Logged days in the segment, and those with the value */
+  segmentDays: number;
+  segmentOccurrences: number;
+  /** Logged days outside the segment, and those with the value */
+  otherDays: number;
+  otherOccurrences: number;
+  /** How many times as likely the value is in the segment (Haldane-corrected) */
+  relativeRisk: number;
+  /** One-sided Fisher exact test */
+  pValue: number;
+  /** Benjamini-Hochberg adjusted over every pair tested */
+  qValue: number;
+  tests: number;
+  /** Cycle days the value was logged on in the segment */
+  firstCycleDay: number;
+  lastCycleDay: number;
+  logIds: string[];
+}
+
+export interface TemperatureThresholds {
+  /** Readings in the segment and outside it */
+  minReadings: number;
+  minDifferenceCelsius: number;
+  maxFalseDiscoveryRate: number;
+}
+
+export interface TemperatureSample {
+  celsius: number;
+  logId: string;
+  annotation: PhaseAnnotation;
+}
+
+/**
+ * BBT in one phase segment against the rest of the cycle
+ */
+export interface TemperatureDifference {
+  segment: string;
+  readings: number;
+  otherReadings: number;
+  /** Mean in the segment minus mean outside it */
+  differenceCelsius: number;
+  /** Two-sided Mann-Whitney U test */
+  pValue: number;
+  qValue: number;
+  tests: number;
+  firstCycleDay: number;
+  lastCycleDay: number;
+  logIds: string[];
+}
+
+/**
+ * For each value logged at least `minOccurrences` times, test every phase segment against
+ * the other logged days and keep the strongest association that survives the false
+ * discovery rate, the minimum relative risk and the spread over cycles.
+ *
+ * `loggedDays` holds the phase of each log the field was recorded on: days without the field
+ * say nothing about the value, so they are left out of both rates.
+ */
+export function findCycleAssociations(
+  occurrences: PhaseOccurrence[],
+  loggedDays: Map<string, PhaseAnnotation>,
+  thresholds: AssociationThresholds
+): CycleAssociation[] {
+  const segmentDays = new Map<string, number>();
+  loggedDays.forEach(annotation => {
+    const segment = phaseSegment(annotation);
+    segmentDays.set(segment, (segmentDays.get(segment) ?? 0) + 1);
+  });
+
+  // One occurrence per value and day, even if a log repeats a value
+  const byValue = new Map<string, Map<string, PhaseOccurrence>>();
+  occurrences.forEach(occurrence => {
+    const logs = byValue.get(occurrence.value) ?? new Map<string, PhaseOccurrence>();
+    logs.set(occurrence.logId, occurrence);
+    byValue.set(occurrence.value, logs);
+  });
+
+  const candidates: Array<Omit<CycleAssociation, 'qValue' | 'tests'>> = [];
+  byValue.forEach((logs, value) => {
+    const entries = Array.from(logs.values());
+    if (entries.length < thresholds.minOccurrences) {return;}
+
+    segmentDays.forEach((days, segment) => {
+      const inSegment = entries.filter(entry => phaseSegment(entry.annotation) === segment);
+      const otherDays = loggedDays.size - days;
+      const otherOccurrences = entries.length - inSegment.length;
+      const cycleDays = inSegment.map(entry => entry.annotation.cycleDay);
+
+      candidates.push({
+        value,
+        segment,
+        segmentDays: days,
+        segmentOccurrences: inSegment.length,
+        otherDays,
+        otherOccurrences,
+        relativeRisk: ((inSegment.length + 0.5) / (days + 1)) / ((otherOccurrences + 0.5) / (otherDays + 1)),
+        pValue: fisherExactGreater(inSegment.length, days - inSegment.length, otherOccurrences, otherDays - otherOccurrences),
+        firstCycleDay: cycleDays.length > 0 ? Math.min(...cycleDays) : 0,
+        lastCycleDay: cycleDays.length > 0 ? Math.max(...cycleDays) : 0,
+        logIds: inSegment.map(entry => entry.logId)
+      });
+    });
+  });
+
+  const qValues = benjaminiHochberg(candidates.map(candidate => candidate.pValue));
+  const strongest = new Map<string, CycleAssociation>();
+  candidates.forEach((candidate, index) => {
+    const association = { ...candidate, qValue: qValues[index], tests: candidates.length };
+    const cycles = new Set(association.logIds.map(logId => loggedDays.get(logId)?.cycleId));
+    if (association.qValue > thresholds.maxFalseDiscoveryRate ||
+      association.relativeRisk < thresholds.minRelativeRisk ||
+      association.segmentOccurrences < thresholds.minOccurrences ||
+      cycles.size < thresholds.minCycles) {
+      return;
+    }
+
+    const best = strongest.get(association.value);
+    if (!best || association.qValue < best.qValue ||
+      (association.qValue === best.qValue && association.relativeRisk > best.relativeRisk)) {
+      strongest.set(association.value, association);
+    }
+  });
+
+  return Array.from(strongest.values()).sort((a, b) => a.qValue - b.qValue);
+}
+
+/**
+ * Test BBT in every phase segment against the rest of the cycle and return the segments
+ * whose difference survives the false discovery rate and the minimum size, most significant
+ * first
+ */
+export function findTemperatureDifferences(
+  samples: TemperatureSample[],
+  thresholds: TemperatureThresholds
+): TemperatureDifference[] {
+  const segments = Array.from(new Set(samples.map(sample => phaseSegment(sample.annotation))));
+
+  const candidates: Array<Omit<TemperatureDifference, 'qValue' | 'tests'>> = [];
+  segments.forEach(segment => {
+    const inSegment = samples.filter(sample => phaseSegment(sample.annotation) === segment);
+    const others = samples.filter(sample => phaseSegment(sample.annotation) !== segment);
+    if (inSegment.length < thresholds.minReadings || others.length < thresholds.minReadings) {return;}
+
+    const temperatures = inSegment.map(sample => sample.celsius);
+    const otherTemperatures = others.map(sample => sample.celsius);
+    const cycleDays = inSegment.map(sample => sample.annotation.cycleDay);
+
+    candidates.push({
+      segment,
+      readings: inSegment.length,
+      otherReadings: others.length,
+      differenceCelsius: mean(temperatures) - mean(otherTemperatures),
+      pValue: mannWhitneyU(temperatures, otherTemperatures).pValue,
+      firstCycleDay: Math.min(...cycleDays),
+      lastCycleDay: Math.max(...cycleDays),
+      logIds: inSegment.map(sample => sample.logId)
+    });
+  });
+
+  const qValues = benjaminiHochberg(candidates.map(candidate => candidate.pValue));
+  return candidates
+    .map((candidate, index) => ({ ...candidate, qValue: qValues[index], tests: candidates.length }))
+    .filter(difference =>
+      difference.qValue <= thresholds.maxFalseDiscoveryRate &&
+      Math.abs(difference.differenceCelsius) >= thresholds.minDifferenceCelsius
+    )
+    .sort((a, b) => a.qValue - b.qValue);
+}
+
+/**
+ * Finding of an association for the value argument `param` (symptom, mood), with its test
+ * statistics as evidence
+ */
+export function associationFinding(
+  param: string,
+  association: CycleAssociation,
+  phases: Map<string, PhaseAnnotation>
+): RuleFinding {
+  const relativeRisk = roundTo(association.relativeRisk, 1);
+  const firstCycleDay = association.firstCycleDay;
+  const lastCycleDay = association.lastCycleDay;
+  const cycleIds = new Set(association.logIds.map(logId => phases.get(logId)?.cycleId as string));
+
+  return {
+    values: {
+      [param]: association.value,
+      relativeRisk,
+      firstCycleDay,
+      lastCycleDay,
+      phase: segmentKey(association.segment),
+      segmentPercent: Math.round(association.segmentOccurrences / association.segmentDays * 100),
+      otherPercent: Math.round(association.otherOccurrences / Math.max(association.otherDays, 1) * 100)
+    },
+    params: { [param]: association.value, phase: association.segment },
+    relatedLogIds: association.logIds,
+    evidence: {
+      metrics: {
+        relativeRisk,
+        pValue: significant(association.pValue),
+        qValue: significant(association.qValue),
+        tests: association.tests,
+        segmentDays: association.segmentDays,
+        segmentOccurrences: association.segmentOccurrences,
+        otherDays: association.otherDays,
+        otherOccurrences: association.otherOccurrences,
+        firstCycleDay,
+        lastCycleDay
+      },
+      cycleIds: Array.from(cycleIds)
+    },
+    confidence: significanceConfidence(association.qValue)
+  };
+}
+
+/**
+ * Confidence from a q-value: 0.75 at 0.05, rising to 0.95 as it nears zero
+ */
+export function significanceConfidence(qValue: number): number {
+  return clamp(0.95 - 4 * qValue, 0.6, 0.95);
+}
+
+/**
+ * Three significant digits, so tiny p-values are not rounded to zero
+ */
+export function significant(value: number): number {
+  return Number(value.toPrecision(3));
+}
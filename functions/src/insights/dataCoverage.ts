@@ -0,0 +1,207 @@
+import { CyclePhaseAnnotator } from '../cycles/cyclePhaseAnnotator';
+import { getCycleBounds, isDayInCycle } from '../cycles/cycleBounds';
+import { epochDayToIsoDate, toEpochDay } from '../utils/dateUtils';
+import { MessageRenderer } from './messages/messageCatalog';
+import { InsightRule, InsightRuleContext, LogField, appliesToGoal, hasLogField } from './rules/insightRule';
+
+// Fewer logs than this and no rules are evaluated
+export const MIN_LOGS_FOR_INSIGHTS = 30;
+
+export type CoverageField = Extract<LogField, 'bbt' | 'cervicalMucus' | 'opkResult' | 'mood' | 'symptoms'>;
+export type FertilitySignField = Extract<LogField, 'bbt' | 'cervicalMucus' | 'opkResult'>;
+
+const COVERAGE_FIELDS: CoverageField[] = ['bbt', 'cervicalMucus', 'opkResult', 'mood', 'symptoms'];
+const FERTILITY_SIGN_FIELDS: FertilitySignField[] = ['bbt', 'cervicalMucus', 'opkResult'];
+
+export interface DataCoverageOptions {
+  /** Most recent cycles reported */
+  maxCycles: number;
+  /** Days before and after expected ovulation that fertility signs should be logged on */
+  ovulationDaysBefore: number;
+  /** Three readings after ovulation confirm a BBT shift */
+  ovulationDaysAfter: number;
+}
+
+export const DEFAULT_DATA_COVERAGE_OPTIONS: DataCoverageOptions = {
+  maxCycles: 6,
+  ovulationDaysBefore: 5,
+  ovulationDaysAfter: 3
+};
+
+export interface CycleCoverage {
+  cycleId: string;
+  startEpochDay: number;
+  /** Days of the cycle so far */
+  days: number;
+  /** Share of those days each field was logged on, 0-1 */
+  fields: Record<CoverageField, number>;
+  /** Confirmed, predicted or projected from the luteal length; absent when the cycle has no plan */
+  ovulationEpochDay?: number;
+  /** Days around ovulation, up to today, missing a fertility sign the user tracks */
+  ovulationGaps: Partial<Record<FertilitySignField, number[]>>;
+}
+
+/**
+ * Data some enabled rules wait for: logs of any kind, completed cycles or logs with a field
+ */
+export interface CoverageRequirement {
+  need: 'logs' | 'completedCycles' | LogField;
+  have: number;
+  needed: number;
+  ruleIds: string[];
+}
+
+/**
+ * Guidance for the apps to show, in the user's language
+ */
+export interface CoverageNudge {
+  /** Catalog key of the message */
+  key: string;
+  text: string;
+  /** Rules whose insights the data would unlock or improve */
+  ruleIds: string[];
+}
+
+export interface DataCoverage {
+  logs: number;
+  completedCycles: number;
+  /** Newest first */
+  cycles: CycleCoverage[];
+  /** Only those not met yet */
+  requirements: CoverageRequirement[];
+  nudges: CoverageNudge[];
+}
+
+/**
+ * Measures how much of what the rules read a user has logged: coverage of each field per
+ * cycle, fertility signs missing around expected ovulation, and which data would unlock the
+ * rules still waiting for it
+ */
+export class DataCoverageAnalyzer {
+  constructor(
+    private readonly options: DataCoverageOptions = DEFAULT_DATA_COVERAGE_OPTIONS,
+    private readonly messages: MessageRenderer = new MessageRenderer()
+  ) {}
+
+  analyze(context: InsightRuleContext, enabledRules: InsightRule[]): DataCoverage {
+    const rules = enabledRules.filter(rule => appliesToGoal(rule, context.goal));
+    const completedCycles = context.cycles.filter(cycle => cycle.cycleLength && cycle.cycleLength > 0).length;
+    const cycles = this.cycleCoverage(context);
+    const requirements = this.requirements(context, rules, completedCycles);
+
+    return {
+      logs: context.dailyLogs.length,
+      completedCycles,
+      cycles,
+      requirements,
+      nudges: this.nudges(context, rules, requirements, cycles)
+    };
+  }
+
+  private cycleCoverage(context: InsightRuleContext): CycleCoverage[] {
+    const todayEpochDay = context.todayEpochDay;
+    const annotator = new CyclePhaseAnnotator(context.cycles, context.cyclePreferences);
+    const trackedSigns = FERTILITY_SIGN_FIELDS.filter(field => context.dailyLogs.some(log => hasLogField(log, field)));
+
+    return [...context.cycles]
+      .sort((a, b) => b.startDate.seconds - a.startDate.seconds)
+      .slice(0, this.options.maxCycles)
+      .filter(cycle => toEpochDay(cycle.startDate) <= todayEpochDay)
+      .map(cycle => {
+        const bounds = getCycleBounds(cycle);
+        const lastEpochDay = Math.min((bounds.nextStartEpochDay ?? Infinity) - 1, todayEpochDay);
+        const days = lastEpochDay - bounds.startEpochDay + 1;
+        const logs = context.dailyLogs.filter(log => isDayInCycle(toEpochDay(log.date), bounds));
+        const loggedDays = (field: LogField) =>
+          new Set(logs.filter(log => hasLogField(log, field)).map(log => toEpochDay(log.date)));
+
+        const fields = {} as Record<CoverageField, number>;
+        COVERAGE_FIELDS.forEach(field => {
+          fields[field] = Math.round(loggedDays(field).size / days * 100) / 100;
+        });
+
+        const coverage: CycleCoverage = { cycleId: cycle.id, startEpochDay: bounds.startEpochDay, days, fields, ovulationGaps: {} };
+        const ovulation = annotator.ovulationOf(cycle.id);
+        if (!ovulation) {return coverage;}
+
+        coverage.ovulationEpochDay = ovulation.epochDay;
+        const windowStart = Math.max(ovulation.epochDay - this.options.ovulationDaysBefore, bounds.startEpochDay);
+        const windowEnd = Math.min(ovulation.epochDay + this.options.ovulationDaysAfter, lastEpochDay);
+        trackedSigns.forEach(field => {
+          const logged = loggedDays(field);
+          const missing: number[] = [];
+          for (let day = windowStart; day <= windowEnd; day++) {
+            if (!logged.has(day)) {missing.push(day);}
+          }
+          if (missing.length > 0) {coverage.ovulationGaps[field] = missing;}
+        });
+
+        return coverage;
+      });
+  }
+
+  /**
+   * What each rule needs before it is evaluated, merged per kind of data
+   */
+  private requirements(context: InsightRuleContext, rules: InsightRule[], completedCycles: number): CoverageRequirement[] {
+    const byNeed = new Map<CoverageRequirement['need'], CoverageRequirement>();
+    const require = (need: CoverageRequirement['need'], have: number, needed: number, ruleId: string) => {
+      if (have >= needed) {return;}
+      const requirement = byNeed.get(need) ?? { need, have, needed, ruleIds: [] };
+      requirement.needed = Math.max(requirement.needed, needed);
+      requirement.ruleIds.push(ruleId);
+      byNeed.set(need, requirement);
+    };
+    const fieldCount = (field: LogField) => context.dailyLogs.filter(log => hasLogField(log, field)).length;
+
+    rules.forEach(rule => {
+      require('logs', context.dailyLogs.length, Math.max(MIN_LOGS_FOR_INSIGHTS, rule.sufficiency.minLogs ?? 0), rule.id);
+      if (rule.sufficiency.minCompletedCycles !== undefined) {
+        require('completedCycles', completedCycles, rule.sufficiency.minCompletedCycles, rule.id);
+      }
+
+      const fieldMinimums = new Map<LogField, number>();
+      rule.requiredFields.forEach(field => {
+        if (field !== 'cycles' && field !== 'phases' && field !== 'prediction') {fieldMinimums.set(field, 1);}
+      });
+      Object.entries(rule.sufficiency.minFieldLogs ?? {}).forEach(([field, min]) => {
+        fieldMinimums.set(field as LogField, Math.max(fieldMinimums.get(field as LogField) ?? 0, min as number));
+      });
+      fieldMinimums.forEach((min, field) => require(field, fieldCount(field), min, rule.id));
+    });
+
+    return Array.from(byNeed.values());
+  }
+
+  private nudges(
+    context: InsightRuleContext,
+    rules: InsightRule[],
+    requirements: CoverageRequirement[],
+    cycles: CycleCoverage[]
+  ): CoverageNudge[] {
+    const render = (key: string, params: Record<string, string | number>) =>
+      this.messages.render(key, params, { locale: context.locale, temperatureUnit: context.temperatureUnit });
+
+    const nudges = requirements.map(requirement => {
+      const key = `coverage.nudge.${requirement.need}`;
+      return { key, text: render(key, { remaining: requirement.needed - requirement.have }), ruleIds: requirement.ruleIds };
+    });
+
+    // The latest cycle whose ovulation window has gaps, one nudge per sign
+    const gapCycle = cycles.find(cycle => Object.keys(cycle.ovulationGaps).length > 0);
+    FERTILITY_SIGN_FIELDS.forEach(field => {
+      const missing = gapCycle?.ovulationGaps[field];
+      if (!gapCycle || gapCycle.ovulationEpochDay === undefined || !missing) {return;}
+      nudges.push({
+        key: 'coverage.gap.ovulation',
+        text: render('coverage.gap.ovulation', {
+          day: epochDayToIsoDate(gapCycle.ovulationEpochDay),
+          missing: missing.length,
+          field
+        }),
+        ruleIds: rules.filter(rule => rule.requiredFields.includes(field)).map(rule => rule.id)
+      });
+    });
+    return nudges;
+  }
+}
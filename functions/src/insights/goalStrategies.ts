@@ -0,0 +1,75 @@
+import { HealthGoal } from '../types';
+
+// Users who have not finished onboarding have no goal yet
+export const DEFAULT_HEALTH_GOAL = HealthGoal.CYCLE_TRACKING;
+
+/**
+ * How insights are ranked for users with one goal. Rules limited to some goals declare them
+ * themselves (InsightRule.goals); wording follows the goal through the `goal` message argument.
+ */
+export interface GoalStrategy {
+  /** Rules whose insights come first, most relevant first */
+  priorityRuleIds: string[];
+}
+
+export const GOAL_STRATEGIES: Record<HealthGoal, GoalStrategy> = {
+  [HealthGoal.CONCEPTION]: {
+    priorityRuleIds: [
+      'fertility.upcomingWindow',
+      'fertility.intercourseTiming',
+      'fertility.window',
+      'bbt.thermalShift',
+      'temperature.lowVariation',
+      'cycle.nextPeriod'
+    ]
+  },
+  [HealthGoal.CONTRACEPTION]: {
+    priorityRuleIds: [
+      'fertility.unprotectedSex',
+      'fertility.upcomingWindow',
+      'cycle.nextPeriod',
+      'cycle.highVariability',
+      'cycle.irregular'
+    ]
+  },
+  [HealthGoal.CYCLE_TRACKING]: {
+    priorityRuleIds: [
+      'cycle.nextPeriod',
+      'cycle.regular',
+      'cycle.irregular',
+      'cycle.highVariability',
+      'symptom.premenstrual'
+    ]
+  },
+  [HealthGoal.GENERAL_HEALTH]: {
+    priorityRuleIds: [
+      'symptom.concerning',
+      'bleeding.prolonged',
+      'bleeding.frequent',
+      'temperature.high',
+      'mood.negative',
+      'symptom.mostCommon',
+      'mood.dominant'
+    ]
+  }
+};
+
+/**
+ * The goal stored as User.primaryGoal, or the default for missing or unknown values
+ */
+export function resolveHealthGoal(value: unknown): HealthGoal {
+  return Object.values(HealthGoal).includes(value as HealthGoal) ? value as HealthGoal : DEFAULT_HEALTH_GOAL;
+}
+
+/**
+ * Rank of a rule's insights for the goal: higher first, 0 for rules the goal does not favour
+ */
+export function goalPriority(
+  goal: HealthGoal,
+  ruleId: string,
+  strategies: Record<HealthGoal, GoalStrategy> = GOAL_STRATEGIES
+): number {
+  const ruleIds = strategies[goal].priorityRuleIds;
+  const index = ruleIds.indexOf(ruleId);
+  return index === -1 ? 0 : ruleIds.length - index;
+}
@@ -0,0 +1,174 @@
+import * as admin from 'firebase-admin';
+import * as functions from 'firebase-functions';
+import { InsightRule, LogField, RuleDataField } from './rules/insightRule';
+import { DEFAULT_INSIGHT_RULES } from './rules/defaultRules';
+import { UserInsightOptions, UserInsightResult } from './insightGenerator';
+import { AccountDeletionRepository } from '../data/accountDeletionRepository';
+
+type RawData = Record<string, unknown>;
+
+const LOG_FIELDS: LogField[] = ['periodFlow', 'symptoms', 'mood', 'bbt', 'cervicalMucus', 'opkResult', 'sexualActivity'];
+// Fields that feed cycle reconstruction and ovulation detection, and through them phases and predictions
+const CYCLE_FIELDS: LogField[] = ['periodFlow', 'bbt', 'opkResult', 'cervicalMucus'];
+// Moving a log to another day changes everything it records
+const DATE_FIELDS = ['date', 'dateEpochDays'];
+
+export interface DebounceOptions {
+  /** Quiet period after the last write before insights are recomputed */
+  windowMs: number;
+}
+
+export const DEFAULT_DEBOUNCE_OPTIONS: DebounceOptions = {
+  windowMs: 30 * 1000
+};
+
+export interface DailyLogWriteResult {
+  /**
+   * 'debounced' when a later write took over the recomputation; 'accountDeleted' when the
+   * user's account is being deleted, whose log deletions fire this trigger too
+   */
+  outcome: 'unchanged' | 'debounced' | 'generated' | 'accountDeleted';
+  changedFields: LogField[];
+  ruleIds: string[];
+  insights?: UserInsightResult;
+}
+
+export type UserInsightRunner = (userId: string, options: UserInsightOptions) => Promise<UserInsightResult>;
+
+/**
+ * Log fields that differ between two versions of a daily log document. A created, deleted or
+ * re-dated log counts every field it carries.
+ */
+export function changedLogFields(before: RawData | undefined, after: RawData | undefined): LogField[] {
+  const moved = !before || !after || DATE_FIELDS.some(field => !sameValue(before[field], after[field]));
+
+  return LOG_FIELDS.filter(field => {
+    const previous = before?.[field];
+    const current = after?.[field];
+    if (!isPresent(previous) && !isPresent(current)) {return false;}
+    return moved || !sameValue(previous, current);
+  });
+}
+
+/**
+ * Rules whose inputs depend on the changed fields
+ */
+export function rulesAffectedBy(fields: LogField[], rules: InsightRule[] = DEFAULT_INSIGHT_RULES): InsightRule[] {
+  const touched = new Set<RuleDataField>(fields);
+  if (fields.some(field => CYCLE_FIELDS.includes(field))) {
+    touched.add('cycles');
+    touched.add('phases');
+    touched.add('prediction');
+  }
+
+  return rules.filter(rule => rule.requiredFields.some(field => touched.has(field)));
+}
+
+/**
+ * Trailing debounce for log writes, kept in users/{uid}/insightJobs/incremental. Each write
+ * adds its fields and takes a fresh token; only the holder of the latest token once the
+ * window has passed recomputes, with the fields of every write in the burst.
+ */
+export class InsightDebouncer {
+  constructor(
+    private readonly db: admin.firestore.Firestore,
+    private readonly options: DebounceOptions = DEFAULT_DEBOUNCE_OPTIONS
+  ) {}
+
+  /**
+   * Record a write under its token, replacing the token of earlier writes
+   */
+  async schedule(userId: string, fields: LogField[], token: string): Promise<void> {
+    const ref = this.jobRef(userId);
+    await this.db.runTransaction(async transaction => {
+      const snapshot = await transaction.get(ref);
+      const pending = snapshot.exists ? (snapshot.data()?.pendingFields as LogField[] | undefined) ?? [] : [];
+
+      transaction.set(ref, {
+        token,
+        pendingFields: Array.from(new Set([...pending, ...fields])),
+        requestedAt: admin.firestore.FieldValue.serverTimestamp()
+      });
+    });
+  }
+
+  /**
+   * Take over the pending fields if no later write has rescheduled
+   */
+  async claim(userId: string, token: string): Promise<LogField[] | null> {
+    const ref = this.jobRef(userId);
+    return this.db.runTransaction(async transaction => {
+      const snapshot = await transaction.get(ref);
+      if (!snapshot.exists || snapshot.data()?.token !== token) {return null;}
+
+      transaction.delete(ref);
+      return (snapshot.data()?.pendingFields as LogField[] | undefined) ?? [];
+    });
+  }
+
+  get windowMs(): number {
+    return this.options.windowMs;
+  }
+
+  private jobRef(userId: string): admin.firestore.DocumentReference {
+    return this.db.collection('users').doc(userId).collection('insightJobs').doc('incremental');
+  }
+}
+
+/**
+ * Handle a write to users/{uid}/dailyLogs/{logId}: wait out bursts of edits, then recompute
+ * only the rules affected by what changed. Nothing is written while the account is being
+ * deleted, as it would be left behind and fail the deletion.
+ */
+export async function processDailyLogWrite(
+  userId: string,
+  before: RawData | undefined,
+  after: RawData | undefined,
+  token: string,
+  debouncer: InsightDebouncer,
+  deletions: AccountDeletionRepository,
+  runInsights: UserInsightRunner,
+  sleep: (ms: number) => Promise<void> = ms => new Promise(resolve => setTimeout(resolve, ms))
+): Promise<DailyLogWriteResult> {
+  const fields = changedLogFields(before, after);
+  if (fields.length === 0) {
+    return { outcome: 'unchanged', changedFields: [], ruleIds: [] };
+  }
+  if (await deletions.isDeleting(userId)) {
+    return { outcome: 'accountDeleted', changedFields: fields, ruleIds: [] };
+  }
+
+  await debouncer.schedule(userId, fields, token);
+  await sleep(debouncer.windowMs);
+
+  const pendingFields = await debouncer.claim(userId, token);
+  if (!pendingFields) {
+    return { outcome: 'debounced', changedFields: fields, ruleIds: [] };
+  }
+
+  const ruleIds = rulesAffectedBy(pendingFields).map(rule => rule.id);
+  if (ruleIds.length === 0) {
+    return { outcome: 'unchanged', changedFields: pendingFields, ruleIds };
+  }
+  // The deletion may have started during the window
+  if (await deletions.isDeleting(userId)) {
+    return { outcome: 'accountDeleted', changedFields: pendingFields, ruleIds: [] };
+  }
+
+  functions.logger.info(`Incremental insight run for user ${userId}`, { fields: pendingFields, ruleIds });
+  const insights = await runInsights(userId, {
+    persistDerivedCycles: pendingFields.some(field => CYCLE_FIELDS.includes(field)),
+    ruleIds,
+    trigger: 'incremental'
+  });
+
+  return { outcome: 'generated', changedFields: pendingFields, ruleIds, insights };
+}
+
+function isPresent(value: unknown): boolean {
+  return value !== undefined && value !== null && !(Array.isArray(value) && value.length === 0);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
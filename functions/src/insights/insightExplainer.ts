@@ -0,0 +1,144 @@
+import * as admin from 'firebase-admin';
+import { DailyLog, InsightEvidence, InsightStatus, InsightType } from '../types';
+import { DailyLogRepository } from '../data/dailyLogRepository';
+import { InsightAuditRecord, InsightAuditRepository, InsightRunInputs, InsightRunTrigger } from '../data/insightAuditRepository';
+import { epochDayToIsoDate, resolveTimeZone, toEpochDay } from '../utils/dateUtils';
+import { RuleCategory } from './rules/insightRule';
+import { RuleDecision } from './rules/ruleEngine';
+import { InsightRuleRegistry } from './rules/ruleRegistry';
+import { createDefaultRuleRegistry } from './rules/defaultRules';
+
+type RawData = Record<string, unknown>;
+
+// Related logs returned in full; rules like symptom.mostCommon can cite months of logs
+const MAX_RELATED_LOGS = 60;
+
+export interface ExplainedLog {
+  id: string;
+  /** yyyy-MM-dd */
+  date: string;
+  periodFlow?: string;
+  symptoms?: string[];
+  mood?: string;
+  bbt?: number;
+  cervicalMucus?: string;
+  opkResult?: string;
+}
+
+/**
+ * Why a user got an insight: the rule behind it, the run that last produced it and the logs
+ * it was derived from. Plain JSON, for the explainInsight callable.
+ */
+export interface InsightExplanation {
+  insight: {
+    id: string;
+    text: string;
+    type: InsightType;
+    status: InsightStatus;
+    confidence: number;
+    ruleId?: string;
+    ruleVersion?: number;
+    ruleParams?: Record<string, string>;
+    evidence?: InsightEvidence;
+    messageKey?: string;
+    messageParams?: Record<string, string | number>;
+    locale?: string;
+  };
+  /** The rule as currently registered; null for insights from removed rules */
+  rule: { id: string; version: number; category: RuleCategory; description: string } | null;
+  /** null when the run record has been pruned or the insight predates run records */
+  run: {
+    runId: string;
+    trigger: InsightRunTrigger;
+    startedAt: string;
+    timeZone: string;
+    inputs: InsightRunInputs;
+    decision: RuleDecision | null;
+  } | null;
+  relatedLogs: ExplainedLog[];
+  /** Related logs beyond the returned ones */
+  omittedRelatedLogs: number;
+}
+
+/**
+ * Builds explanations of stored insights from their run records and related logs
+ */
+export class InsightExplainer {
+  constructor(
+    private readonly db: admin.firestore.Firestore,
+    private readonly registry: InsightRuleRegistry = createDefaultRuleRegistry()
+  ) {}
+
+  /**
+   * Explain one of a user's insights, or null if the user has no such insight
+   */
+  async explain(userId: string, insightId: string): Promise<InsightExplanation | null> {
+    const userRef = this.db.collection('users').doc(userId);
+    const insightDoc = await userRef.collection('insights').doc(insightId).get();
+    if (!insightDoc.exists) {return null;}
+
+    const data = insightDoc.data() as RawData;
+    const ruleId = typeof data.ruleId === 'string' ? data.ruleId : undefined;
+    const relatedLogIds = Array.isArray(data.relatedLogIds)
+      ? data.relatedLogIds.filter((id): id is string => typeof id === 'string')
+      : [];
+
+    const runRecord = typeof data.runId === 'string'
+      ? await new InsightAuditRepository(this.db).getRun(userId, data.runId)
+      : null;
+    const timeZone = runRecord?.timeZone ?? resolveTimeZone((await userRef.get()).data()?.timeZone);
+    const logs = await new DailyLogRepository(this.db)
+      .getLogsByIds(userId, relatedLogIds.slice(0, MAX_RELATED_LOGS), timeZone);
+
+    const rule = ruleId ? this.registry.get(ruleId) : undefined;
+
+    return {
+      insight: {
+        id: insightId,
+        text: String(data.insightText ?? ''),
+        type: data.type as InsightType,
+        status: (data.status as InsightStatus | undefined) ?? 'active',
+        confidence: typeof data.confidence === 'number' ? data.confidence : 0,
+        ...(ruleId ? { ruleId } : {}),
+        ...(typeof data.ruleVersion === 'number' ? { ruleVersion: data.ruleVersion } : {}),
+        ...(data.ruleParams ? { ruleParams: data.ruleParams as Record<string, string> } : {}),
+        ...(data.evidence ? { evidence: data.evidence as InsightEvidence } : {}),
+        ...(typeof data.messageKey === 'string' ? { messageKey: data.messageKey } : {}),
+        ...(data.messageParams ? { messageParams: data.messageParams as Record<string, string | number> } : {}),
+        ...(typeof data.locale === 'string' ? { locale: data.locale } : {})
+      },
+      rule: rule
+        ? { id: rule.id, version: rule.version, category: rule.category, description: rule.description }
+        : null,
+      run: runRecord ? explainRun(runRecord, ruleId) : null,
+      relatedLogs: logs
+        .sort((a, b) => a.date.seconds - b.date.seconds)
+        .map(explainLog),
+      omittedRelatedLogs: Math.max(0, relatedLogIds.length - MAX_RELATED_LOGS)
+    };
+  }
+}
+
+function explainRun(record: InsightAuditRecord, ruleId: string | undefined): InsightExplanation['run'] {
+  return {
+    runId: record.runId,
+    trigger: record.trigger,
+    startedAt: record.startedAt.toISOString(),
+    timeZone: record.timeZone,
+    inputs: record.inputs,
+    decision: record.decisions?.find(decision => decision.ruleId === ruleId) ?? null
+  };
+}
+
+function explainLog(log: DailyLog): ExplainedLog {
+  return {
+    id: log.id,
+    date: epochDayToIsoDate(toEpochDay(log.date)),
+    ...(log.periodFlow ? { periodFlow: log.periodFlow } : {}),
+    ...(log.symptoms && log.symptoms.length > 0 ? { symptoms: log.symptoms } : {}),
+    ...(log.mood ? { mood: log.mood } : {}),
+    ...(log.bbt ? { bbt: log.bbt } : {}),
+    ...(log.cervicalMucus ? { cervicalMucus: log.cervicalMucus } : {}),
+    ...(log.opkResult ? { opkResult: log.opkResult } : {})
+  };
+}
@@ -0,0 +1,192 @@
+import * as admin from 'firebase-admin';
+import * as functions from 'firebase-functions';
+import { InsightJobOutcome, InsightRunRepository } from '../data/insightRunRepository';
+import { UserInsightRunner } from './incrementalInsights';
+
+export interface FanoutOptions {
+  /** Users read per cursor page */
+  pageSize: number;
+}
+
+export const DEFAULT_FANOUT_OPTIONS: FanoutOptions = {
+  pageSize: 500
+};
+
+export interface RetryOptions {
+  /** Attempts per user, including the first */
+  maxAttempts: number;
+  initialBackoffMs: number;
+  maxBackoffMs: number;
+  /**
+   * Deliveries of a job's trigger, including the first; a job delivered again after that
+   * (its earlier deliveries crashed or timed out) is recorded failed without running
+   */
+  maxDeliveries: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 3,
+  initialBackoffMs: 2000,
+  maxBackoffMs: 30 * 1000,
+  maxDeliveries: 3
+};
+
+export interface InsightRunSummary {
+  runId: string;
+  /** Users queued for the run */
+  totalUsers: number;
+  pages: number;
+}
+
+/**
+ * Destination for per-user insight jobs of a run
+ */
+export interface InsightJobQueue {
+  enqueue(runId: string, userIds: string[]): Promise<void>;
+}
+
+/**
+ * Queues each user as a job document that the processInsightJob trigger handles; the
+ * trigger's maxInstances bounds how many users are processed at once
+ */
+export class FirestoreInsightJobQueue implements InsightJobQueue {
+  constructor(private readonly runs: InsightRunRepository) {}
+
+  async enqueue(runId: string, userIds: string[]): Promise<void> {
+    await this.runs.addJobs(runId, userIds);
+  }
+}
+
+/**
+ * Processes jobs in this process as they are queued, at most `concurrency` at a time. For the
+ * emulator and tests, where a run should finish within the scheduled invocation.
+ */
+export class InProcessInsightJobQueue implements InsightJobQueue {
+  constructor(
+    private readonly worker: InsightJobWorker,
+    private readonly concurrency = 10
+  ) {}
+
+  async enqueue(runId: string, userIds: string[]): Promise<void> {
+    const pending = [...userIds];
+    const lanes = Array.from({ length: Math.min(this.concurrency, pending.length) }, async () => {
+      for (let userId = pending.shift(); userId !== undefined; userId = pending.shift()) {
+        await this.worker.process(runId, userId);
+      }
+    });
+    await Promise.all(lanes);
+  }
+}
+
+/**
+ * Runs one user's insight job, retrying failures with exponential backoff, and records the
+ * outcome on the run. A job that already has an outcome is not run again, so a trigger
+ * delivered twice is counted once.
+ */
+export class InsightJobWorker {
+  constructor(
+    private readonly runs: InsightRunRepository,
+    private readonly runInsights: UserInsightRunner,
+    private readonly retry: RetryOptions = DEFAULT_RETRY_OPTIONS,
+    private readonly sleep: (ms: number) => Promise<void> = ms => new Promise(resolve => setTimeout(resolve, ms))
+  ) {}
+
+  /**
+   * Run the job, or return null when it already has an outcome
+   */
+  async process(runId: string, userId: string): Promise<InsightJobOutcome | null> {
+    const delivery = await this.runs.startJob(runId, userId);
+    if (delivery === null) {return null;}
+    if (delivery > this.retry.maxDeliveries) {
+      functions.logger.error(`Insight job for user ${userId} did not finish`, { runId, deliveries: delivery - 1 });
+      await this.runs.recordJobResult(runId, userId, {
+        outcome: 'failed',
+        attempts: 0,
+        insightsGenerated: 0,
+        error: `Did not finish in ${delivery - 1} deliveries`
+      });
+      return 'failed';
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await this.runInsights(userId, {
+          persistDerivedCycles: true,
+          trigger: 'scheduled',
+          scheduledRunId: runId
+        });
+        const outcome = result.insufficientData ? 'skipped' : 'succeeded';
+        await this.runs.recordJobResult(runId, userId, {
+          outcome,
+          attempts: attempt,
+          insightsGenerated: result.insightsGenerated
+        });
+        return outcome;
+      } catch (error) {
+        if (attempt >= this.retry.maxAttempts) {
+          functions.logger.error(`Insight job failed for user ${userId}`, { runId, attempts: attempt, error });
+          await this.runs.recordJobResult(runId, userId, {
+            outcome: 'failed',
+            attempts: attempt,
+            insightsGenerated: 0,
+            error: error instanceof Error ? error.message : String(error)
+          });
+          return 'failed';
+        }
+
+        functions.logger.warn(`Retrying insight job for user ${userId}`, { runId, attempt });
+        await this.sleep(backoffMs(attempt, this.retry));
+      }
+    }
+  }
+}
+
+/**
+ * Delay before the retry that follows a failed attempt
+ */
+export function backoffMs(attempt: number, retry: RetryOptions): number {
+  return Math.min(retry.initialBackoffMs * 2 ** (attempt - 1), retry.maxBackoffMs);
+}
+
+/**
+ * Start an insight run: page through the users `users` matches by document id and queue a
+ * job per user, so no single invocation holds or processes the whole user base
+ */
+export async function fanOutInsightRun(
+  users: admin.firestore.Query,
+  runId: string,
+  runs: InsightRunRepository,
+  queue: InsightJobQueue,
+  options: FanoutOptions = DEFAULT_FANOUT_OPTIONS
+): Promise<InsightRunSummary> {
+  const summary: InsightRunSummary = { runId, totalUsers: 0, pages: 0 };
+  await runs.createRun(runId);
+
+  let cursor: admin.firestore.QueryDocumentSnapshot | undefined;
+  for (;;) {
+    // Without an orderBy, queries are ordered by document id, which the cursor continues from
+    let query = users.limit(options.pageSize);
+    if (cursor) {query = query.startAfter(cursor);}
+
+    const page = await query.get();
+    if (page.empty) {break;}
+
+    await queue.enqueue(runId, page.docs.map(doc => doc.id));
+    summary.totalUsers += page.size;
+    summary.pages++;
+    cursor = page.docs[page.docs.length - 1];
+
+    if (page.size < options.pageSize) {break;}
+  }
+
+  await runs.finishEnqueuing(runId, summary.totalUsers);
+  functions.logger.info(`Queued insight jobs for ${summary.totalUsers} users`, summary);
+  return summary;
+}
+
+/**
+ * Run id for a scheduled run, sortable by start time
+ */
+export function insightRunId(startedAt: Date): string {
+  return `scheduled-${startedAt.toISOString().replace(/[:.]/g, '-')}`;
+}
@@ -1,66 +1,109 @@
 import * as admin from 'firebase-admin';
 import * as functions from 'firebase-functions';
-import { PatternAnalyzer } from './patternAnalyzer';
-import { EarlyWarningDetector } from './earlyWarningDetector';
-import { DailyLog, Cycle } from '../types';
+import { DailyLogRepository, summarizeDecodeIssues } from '../data/dailyLogRepository';
+import { CycleRepository, mergeCycles } from '../data/cycleRepository';
+import { UserSettingsRepository } from '../data/userSettingsRepository';
+import { UserProfileRepository } from '../data/userProfileRepository';
+import { InsightRepository } from '../data/insightRepository';
+import { InsightRuleConfig, InsightRuleConfigRepository } from '../data/insightRuleConfigRepository';
+import { InsightRunRepository } from '../data/insightRunRepository';
+import { DataCoverageRepository } from '../data/dataCoverageRepository';
+import {
+  InsightAuditRecord,
+  InsightAuditRepository,
+  InsightRunTrigger,
+  summarizeDecisions
+} from '../data/insightAuditRepository';
+import { CycleReconstructor } from '../cycles/cycleReconstructor';
+import { CyclePredictor } from '../cycles/cyclePredictor';
+import { OvulationDetector } from '../cycles/ovulationDetector';
+import { normalizeBbtReadings, resolveTemperatureUnit } from '../utils/temperature';
+import {
+  DEFAULT_TIME_ZONE,
+  MS_PER_DAY,
+  localDateTime,
+  resolveTimeZone,
+  subtractMonths
+} from '../utils/dateUtils';
+import { InsightRuleEngine, buildRuleContext, ruleEngineOptions } from './rules/ruleEngine';
+import { createDefaultRuleRegistry } from './rules/defaultRules';
+import { resolveLocale } from './messages/messageCatalog';
+import { insightFingerprint } from './insightLifecycle';
+import {
+  DEFAULT_FANOUT_OPTIONS,
+  FirestoreInsightJobQueue,
+  InProcessInsightJobQueue,
+  InsightJobWorker,
+  InsightRunSummary,
+  fanOutInsightRun,
+  insightRunId
+} from './insightFanout';
+import { INSIGHT_DUE_HOUR_FIELD } from './insightSchedule';
+import { DataCoverage, DataCoverageAnalyzer, MIN_LOGS_FOR_INSIGHTS } from './dataCoverage';
+import { resolveHealthGoal } from './goalStrategies';
 
 const db = admin.firestore();
-
-export interface InsightGenerationResult {
-  totalUsers: number;
-  successfulUsers: number;
-  failedUsers: number;
-  totalInsightsGenerated: number;
-}
+// Module scope, so the rule configuration is cached across invocations of a warm instance
+const ruleConfigRepository = new InsightRuleConfigRepository(db);
 
 export interface UserInsightResult {
   userId: string;
+  /** Audit record of this run in users/{uid}/insightRuns */
+  runId: string;
+  /** Too few logs to evaluate rules; cycles were still updated */
+  insufficientData: boolean;
   insightsGenerated: number;
+  insightsCreated: number;
+  insightsRefreshed: number;
+  /** Insights expired or superseded by this run */
+  insightsRetired: number;
+  skippedLogs: number;
+  derivedCycles: number;
+  confirmedOvulations: number;
   patterns: string[];
   warnings: string[];
+  predictions: string[];
+}
+
+export interface UserInsightOptions {
+  /** Write cycles reconstructed from period logs back to users/{uid}/cycles */
+  persistDerivedCycles: boolean;
+  /** Rule configuration to use instead of loading config/insightRules */
+  ruleConfig?: InsightRuleConfig;
+  /** Evaluate only these rules, leaving insights of other rules alone (incremental runs) */
+  ruleIds?: string[];
+  /** Recorded in the audit trail; 'manual' when not given */
+  trigger?: InsightRunTrigger;
+  /** Scheduled run in insightRuns that queued this one */
+  scheduledRunId?: string;
 }
 
+const DEFAULT_USER_INSIGHT_OPTIONS: UserInsightOptions = {
+  persistDerivedCycles: true
+};
+
 /**
- * Generate insights for all users in the system
+ * Start the scheduled insight run for `startedAt`: users whose next run falls in its UTC hour
+ * (their local time is in the configured hour) are paged and queued as per-user jobs that
+ * the processInsightJob trigger works through. Under the emulator the jobs run in this process, so the run completes
+ * before this returns.
  */
-export async function generateInsightsForAllUsers(): Promise<InsightGenerationResult> {
-  const result: InsightGenerationResult = {
-    totalUsers: 0,
-    successfulUsers: 0,
-    failedUsers: 0,
-    totalInsightsGenerated: 0
-  };
+export async function generateScheduledInsights(startedAt: Date = new Date()): Promise<InsightRunSummary> {
+  const runs = new InsightRunRepository(db);
+  const queue = process.env.FUNCTIONS_EMULATOR === 'true'
+    ? new InProcessInsightJobQueue(new InsightJobWorker(runs, generateInsightsForUser))
+    : new FirestoreInsightJobQueue(runs);
 
   try {
-    // Get all users
-    const usersSnapshot = await db.collection('users').get();
-    result.totalUsers = usersSnapshot.size;
-
-    functions.logger.info(`Processing insights for ${result.totalUsers} users`);
-
-    // Process users in batches to avoid timeout
-    const batchSize = 10;
-    const userDocs = usersSnapshot.docs;
-    
-    for (let i = 0; i < userDocs.length; i += batchSize) {
-      const batch = userDocs.slice(i, i + batchSize);
-      const batchPromises = batch.map(async (userDoc) => {
-        try {
-          const userResult = await generateInsightsForUser(userDoc.id);
-          result.successfulUsers++;
-          result.totalInsightsGenerated += userResult.insightsGenerated;
-        } catch (error) {
-          functions.logger.error(`Failed to generate insights for user ${userDoc.id}`, error);
-          result.failedUsers++;
-        }
-      });
-
-      await Promise.all(batchPromises);
-    }
-
-    return result;
+    return await fanOutInsightRun(
+      db.collection('users').where(INSIGHT_DUE_HOUR_FIELD, '==', startedAt.getUTCHours()),
+      insightRunId(startedAt),
+      runs,
+      queue,
+      DEFAULT_FANOUT_OPTIONS
+    );
   } catch (error) {
-    functions.logger.error('Failed to generate insights for all users', error);
+    functions.logger.error('Failed to start the scheduled insight run', error);
     throw error;
   }
 }
@@ -68,12 +111,51 @@ export async function generateInsightsForAllUsers(): Promise<InsightGenerationRe
 /**
  * Generate insights for a specific user
  */
-export async function generateInsightsForUser(userId: string): Promise<UserInsightResult> {
+export async function generateInsightsForUser(
+  userId: string,
+  options: UserInsightOptions = DEFAULT_USER_INSIGHT_OPTIONS
+): Promise<UserInsightResult> {
+  const now = new Date();
+  const auditRepository = new InsightAuditRepository(db);
+  const runId = auditRepository.newRunId(userId);
+  const audit: InsightAuditRecord = {
+    runId,
+    trigger: options.trigger ?? 'manual',
+    status: 'completed',
+    startedAt: now,
+    durationMs: 0,
+    timeZone: DEFAULT_TIME_ZONE,
+    ...(options.scheduledRunId ? { scheduledRunId: options.scheduledRunId } : {}),
+    ...(options.ruleIds ? { ruleScope: options.ruleIds } : {}),
+    inputs: {
+      dailyLogs: 0,
+      skippedLogs: 0,
+      storedCycles: 0,
+      derivedCycles: 0,
+      cycles: 0,
+      confirmedOvulations: 0,
+      activePrediction: false
+    },
+    sufficiency: { sufficient: true },
+    ...summarizeDecisions([]),
+    insightIds: []
+  };
+  let userExists = false;
+
   const result: UserInsightResult = {
     userId,
+    runId,
+    insufficientData: false,
     insightsGenerated: 0,
+    insightsCreated: 0,
+    insightsRefreshed: 0,
+    insightsRetired: 0,
+    skippedLogs: 0,
+    derivedCycles: 0,
+    confirmedOvulations: 0,
     patterns: [],
-    warnings: []
+    warnings: [],
+    predictions: []
   };
 
   try {
@@ -82,83 +164,194 @@ export async function generateInsightsForUser(userId: string): Promise<UserInsig
     if (!userDoc.exists) {
       throw new Error(`User ${userId} not found`);
     }
+    userExists = true;
+
+    // Calendar days are the user's local days
+    const timeZone = resolveTimeZone(userDoc.data()?.timeZone);
+    audit.timeZone = timeZone;
+    await new UserProfileRepository(db).updateInsightDueHour(userId, userDoc.data() ?? {}, now);
 
     // Get user's daily logs from the last 6 months
-    const sixMonthsAgo = new Date();
-    sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 6);
-
-    const logsSnapshot = await db
-      .collection('users')
-      .doc(userId)
-      .collection('dailyLogs')
-      .where('date', '>=', admin.firestore.Timestamp.fromDate(sixMonthsAgo))
-      .orderBy('date', 'desc')
-      .get();
-
-    const dailyLogs: DailyLog[] = logsSnapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    } as DailyLog));
-
-    // Get user's cycles from the last 6 months
-    const cyclesSnapshot = await db
-      .collection('users')
-      .doc(userId)
-      .collection('cycles')
-      .where('startDate', '>=', admin.firestore.Timestamp.fromDate(sixMonthsAgo))
-      .orderBy('startDate', 'desc')
-      .get();
-
-    const cycles: Cycle[] = cyclesSnapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    } as Cycle));
+    const windowStartEpochDay = subtractMonths(localDateTime(now.getTime(), timeZone).epochDay, 6);
+    const sixMonthsAgo = new Date(windowStartEpochDay * MS_PER_DAY);
+
+    const logRead = await new DailyLogRepository(db).getLogsSince(userId, sixMonthsAgo, timeZone);
+    result.skippedLogs = logRead.skipped.length;
+
+    if (logRead.skipped.length > 0 || logRead.warnings.length > 0) {
+      functions.logger.warn(`Daily log decode issues for user ${userId}`, {
+        skipped: summarizeDecodeIssues(logRead.skipped.slice(0, 20)),
+        warnings: summarizeDecodeIssues(logRead.warnings.slice(0, 20)),
+        schemaCounts: logRead.schemaCounts
+      });
+    }
+
+    // BBT is analyzed in Celsius; insight text uses the user's unit and language
+    const settings = await new UserSettingsRepository(db).getSettings(userId);
+    const bbt = normalizeBbtReadings(logRead.logs);
+    const dailyLogs = bbt.logs;
+    const temperatureUnit = resolveTemperatureUnit(settings.unitPreferences, bbt.unitCounts);
+
+    if (bbt.droppedLogIds.length > 0 || bbt.rescaledLogIds.length > 0) {
+      functions.logger.warn(`Implausible BBT readings for user ${userId}`, {
+        dropped: bbt.droppedLogIds.slice(0, 20),
+        rescaled: bbt.rescaledLogIds.slice(0, 20)
+      });
+    }
+
+    // Get user's cycles from the last 6 months, filling gaps with cycles derived from period logs
+    const cycleRepository = new CycleRepository(db);
+    const storedCycles = await cycleRepository.getCyclesSince(userId, sixMonthsAgo, timeZone);
+    const reconstruction = new CycleReconstructor().reconstruct(userId, dailyLogs, windowStartEpochDay);
+    let cycles = mergeCycles(storedCycles, reconstruction.cycles);
+
+    // Confirm ovulation per cycle before predicting, so detected luteal lengths feed the forecast
+    const ovulationDetector = new OvulationDetector();
+    const detections = ovulationDetector.detectAll(cycles, dailyLogs);
+    const ovulationCycleIds = new Set<string>();
+    cycles = cycles.map((cycle, index) => {
+      // Ovulation dates entered in the apps carry no signals and are kept as is
+      if (cycle.confirmedOvulationDate && !cycle.ovulationSignals) {return cycle;}
+      if (detections[index].status !== 'confirmed') {return cycle;}
+
+      ovulationCycleIds.add(cycle.id);
+      return ovulationDetector.applyDetection(cycle, detections[index]);
+    });
+    result.confirmedOvulations = ovulationCycleIds.size;
+
+    // Forecast the end of the open cycle
+    const cyclePredictor = new CyclePredictor();
+    const prediction = cyclePredictor.predict(cycles, settings.cyclePreferences, now, timeZone);
+    const activePrediction = prediction && !prediction.overdue ? prediction : null;
+
+    if (activePrediction) {
+      cycles = cycles.map(cycle =>
+        cycle.id === activePrediction.cycleId ? cyclePredictor.applyPrediction(cycle, activePrediction) : cycle
+      );
+    }
+
+    if (options.persistDerivedCycles) {
+      const derivedCycles = cycles.filter(cycle => cycle.source === 'derived');
+      const writeResult = await cycleRepository.upsertDerivedCycles(
+        userId,
+        derivedCycles,
+        storedCycles,
+        reconstruction.completeFromEpochDay
+      );
+      result.derivedCycles = writeResult.written;
+    }
+
+    const manualOvulationCycles = cycles.filter(cycle =>
+      cycle.source !== 'derived' && ovulationCycleIds.has(cycle.id)
+    );
+    await Promise.all(manualOvulationCycles.map(cycle => cycleRepository.saveOvulation(userId, cycle)));
+
+    const predictedCycle = cycles.find(cycle => cycle.id === activePrediction?.cycleId);
+    if (predictedCycle && predictedCycle.source !== 'derived') {
+      await cycleRepository.savePrediction(userId, predictedCycle);
+    }
+
+    audit.inputs = {
+      dailyLogs: dailyLogs.length,
+      skippedLogs: result.skippedLogs,
+      storedCycles: storedCycles.length,
+      derivedCycles: reconstruction.cycles.length,
+      cycles: cycles.length,
+      confirmedOvulations: result.confirmedOvulations,
+      activePrediction: activePrediction !== null
+    };
+
+    const ruleConfig = options.ruleConfig ?? await ruleConfigRepository.getConfig();
+    const engine = new InsightRuleEngine(createDefaultRuleRegistry(), ruleEngineOptions(ruleConfig));
+    const context = buildRuleContext({
+      userId,
+      dailyLogs,
+      cycles,
+      temperatureUnit,
+      locale: resolveLocale(settings.locale),
+      cyclePreferences: settings.cyclePreferences,
+      prediction: activePrediction,
+      goal: resolveHealthGoal(userDoc.data()?.primaryGoal),
+      todayEpochDay: localDateTime(now.getTime(), timeZone).epochDay
+    });
+
+    // What the user could log next; recorded before the check below, as new users need it most
+    const coverage = new DataCoverageAnalyzer().analyze(context, engine.rules());
+    await recordCoverage(userId, coverage, now);
 
     // Skip if insufficient data
-    if (dailyLogs.length < 30) {
+    if (dailyLogs.length < MIN_LOGS_FOR_INSIGHTS) {
       functions.logger.info(`Insufficient data for user ${userId}: ${dailyLogs.length} logs`);
+      result.insufficientData = true;
+      audit.status = 'skipped';
+      audit.sufficiency = {
+        sufficient: false,
+        reason: `skipped: only ${dailyLogs.length} logs (${MIN_LOGS_FOR_INSIGHTS} needed)`
+      };
+      await recordAudit(auditRepository, userId, audit);
       return result;
     }
 
-    // Initialize analyzers
-    const patternAnalyzer = new PatternAnalyzer();
-    const earlyWarningDetector = new EarlyWarningDetector();
-
-    // Generate pattern insights
-    const patternInsights = await patternAnalyzer.analyzePatterns(userId, dailyLogs, cycles);
-    result.patterns = patternInsights.map(insight => insight.insightText);
-
-    // Generate early warning insights
-    const warningInsights = await earlyWarningDetector.detectWarnings(userId, dailyLogs, cycles);
-    result.warnings = warningInsights.map(insight => insight.insightText);
-
-    // Combine all insights
-    const allInsights = [...patternInsights, ...warningInsights];
-
-    // Save insights to Firestore
-    const batch = db.batch();
-    for (const insight of allInsights) {
-      const insightRef = db
-        .collection('users')
-        .doc(userId)
-        .collection('insights')
-        .doc();
-      
-      batch.set(insightRef, {
-        ...insight,
-        id: insightRef.id,
-        generatedDate: admin.firestore.FieldValue.serverTimestamp()
-      });
-    }
+    // Run every enabled rule in the registry against the same context
+    const patterns = engine.run(context, 'pattern', options.ruleIds);
+    const warnings = engine.run(context, 'warning', options.ruleIds);
+    const predictions = engine.run(context, 'prediction', options.ruleIds);
+    result.patterns = patterns.insights.map(insight => insight.insightText);
+    result.warnings = warnings.insights.map(insight => insight.insightText);
+    result.predictions = predictions.insights.map(insight => insight.insightText);
+
+    // Each insight points at the run that last produced it, for explanations
+    const allInsights = [...patterns.insights, ...warnings.insights, ...predictions.insights]
+      .map(insight => ({ ...insight, runId }));
+    Object.assign(audit, summarizeDecisions([...patterns.decisions, ...warnings.decisions, ...predictions.decisions]));
+    audit.insightIds = allInsights.map(insightFingerprint);
 
-    await batch.commit();
+    // Upsert by fingerprint, retiring insights whose pattern is gone
+    const sync = await new InsightRepository(db).syncInsights(userId, allInsights, now, options.ruleIds);
     result.insightsGenerated = allInsights.length;
+    result.insightsCreated = sync.created;
+    result.insightsRefreshed = sync.refreshed;
+    result.insightsRetired = sync.expired + sync.superseded;
+    audit.sync = sync;
 
-    functions.logger.info(`Generated ${allInsights.length} insights for user ${userId}`);
+    functions.logger.info(`Generated ${allInsights.length} insights for user ${userId}`, sync);
+    await recordAudit(auditRepository, userId, audit);
     return result;
 
   } catch (error) {
     functions.logger.error(`Failed to generate insights for user ${userId}`, error);
+    if (userExists) {
+      audit.status = 'failed';
+      audit.error = error instanceof Error ? error.message : String(error);
+      await recordAudit(auditRepository, userId, audit);
+    }
     throw error;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Store the audit record of a run. A failed write is logged and does not fail the run.
+ */
+async function recordAudit(
+  repository: InsightAuditRepository,
+  userId: string,
+  audit: InsightAuditRecord
+): Promise<void> {
+  audit.durationMs = Date.now() - audit.startedAt.getTime();
+  try {
+    await repository.recordRun(userId, audit);
+  } catch (error) {
+    functions.logger.warn(`Failed to record insight run ${audit.runId} for user ${userId}`, error);
+  }
+}
+
+/**
+ * Store the data coverage of a run. A failed write is logged and does not fail the run.
+ */
+async function recordCoverage(userId: string, coverage: DataCoverage, now: Date): Promise<void> {
+  try {
+    await new DataCoverageRepository(db).save(userId, coverage, now);
+  } catch (error) {
+    functions.logger.warn(`Failed to record data coverage for user ${userId}`, error);
+  }
+}
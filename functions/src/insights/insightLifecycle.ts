@@ -0,0 +1,225 @@
+import { createHash } from 'crypto';
+import { Insight, InsightStatus, InsightType } from '../types';
+import { DEFAULT_INSIGHT_RULES } from './rules/defaultRules';
+
+export interface InsightLifecycleOptions {
+  /** Consecutive runs an active insight may go unconfirmed before it expires */
+  expireAfterMissedRuns: number;
+  maxActiveInsights: number;
+  /** Expired and superseded insights older than this are deleted */
+  purgeAfterDays: number;
+}
+
+export const DEFAULT_LIFECYCLE_OPTIONS: InsightLifecycleOptions = {
+  expireAfterMissedRuns: 2,
+  maxActiveInsights: 20,
+  purgeAfterDays: 90
+};
+
+export type InsightExpiryReason = 'missing' | 'capped';
+
+/**
+ * The lifecycle fields of an insight document already in Firestore
+ */
+export interface StoredInsightState {
+  id: string;
+  type: InsightType;
+  fingerprint?: string;
+  ruleId?: string;
+  ruleParams?: Record<string, string>;
+  status?: InsightStatus;
+  confidence: number;
+  priority: number;
+  missedRuns: number;
+  /** When the insight stopped being active, in epoch seconds */
+  closedAtSeconds?: number;
+}
+
+export interface InsightSyncPlan {
+  /** New insights, keyed by fingerprint (the document id) */
+  create: Insight[];
+  /** Existing documents to update with fresh text and evidence (reactivating expired ones) */
+  refresh: Array<{ id: string; insight: Insight }>;
+  /** Active insights not confirmed by this run but still within their grace period */
+  missed: Array<{ id: string; missedRuns: number }>;
+  expire: Array<{ id: string; reason: InsightExpiryReason }>;
+  supersede: Array<{ id: string; supersededBy?: string }>;
+  purge: string[];
+}
+
+// Higher-priority insights survive the active cap first; within a type, those the user's goal favours
+const TYPE_PRIORITY: Record<InsightType, number> = {
+  [InsightType.EARLY_WARNING]: 3,
+  [InsightType.CYCLE_PREDICTION]: 2,
+  [InsightType.FERTILITY_WINDOW]: 1,
+  [InsightType.PATTERN_RECOGNITION]: 0
+};
+
+/**
+ * Stable fingerprint of an insight: type, rule and the rule parameters, but not the
+ * numbers in its text, so re-running a rule on slightly newer data hits the same document
+ */
+export function insightFingerprint(insight: Pick<Insight, 'type' | 'ruleId' | 'ruleParams'>): string {
+  const params = Object.entries(insight.ruleParams ?? {})
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+  const digest = createHash('sha1')
+    .update(`${insight.type}|${insight.ruleId ?? 'unknown'}|${params}`)
+    .digest('hex')
+    .slice(0, 20);
+  return `${(insight.ruleId ?? 'unknown').replace(/[^A-Za-z0-9]/g, '_')}_${digest}`;
+}
+
+// Rules whose insights replace earlier ones about the same subject (InsightRule.subjectParams)
+const SUBJECT_PARAMS = new Map(DEFAULT_INSIGHT_RULES
+  .filter(rule => rule.subjectParams)
+  .map(rule => [rule.id, rule.subjectParams as string[]]));
+
+/**
+ * What an insight is about, e.g. the symptom of a symptom-phase association: a newer insight
+ * with the same subject but other parameters supersedes it. Undefined for rules whose
+ * insights are only replaced by one with the same fingerprint.
+ */
+export function insightSubject(insight: Pick<Insight, 'type' | 'ruleId' | 'ruleParams'>): string | undefined {
+  const subjectParams = insight.ruleId ? SUBJECT_PARAMS.get(insight.ruleId) : undefined;
+  if (!subjectParams) {return undefined;}
+
+  const subject = subjectParams.map(name => `${name}=${insight.ruleParams?.[name] ?? ''}`).join('&');
+  return `${insight.type}|${insight.ruleId}|${subject}`;
+}
+
+/**
+ * Work out how to bring the stored insights in line with the insights generated by this run.
+ * A run limited to some rules (`ruleIds`) leaves insights of other rules as they are, apart
+ * from the active cap.
+ */
+export function planInsightSync(
+  stored: StoredInsightState[],
+  generated: Insight[],
+  nowSeconds: number,
+  options: InsightLifecycleOptions = DEFAULT_LIFECYCLE_OPTIONS,
+  ruleIds?: string[]
+): InsightSyncPlan {
+  const plan: InsightSyncPlan = { create: [], refresh: [], missed: [], expire: [], supersede: [], purge: [] };
+
+  // One insight per fingerprint; the most confident wins if a rule repeats itself
+  const byFingerprint = new Map<string, Insight>();
+  generated.forEach(insight => {
+    const fingerprint = insight.fingerprint ?? insightFingerprint(insight);
+    const existing = byFingerprint.get(fingerprint);
+    if (!existing || insight.confidence > existing.confidence) {
+      byFingerprint.set(fingerprint, { ...insight, fingerprint });
+    }
+  });
+
+  const storedById = new Map(stored.map(state => [state.id, state]));
+  const generatedSubjects = new Map<string, string>();
+  byFingerprint.forEach((insight, fingerprint) => {
+    const subject = insightSubject(insight);
+    if (subject) {generatedSubjects.set(subject, fingerprint);}
+  });
+
+  // Candidates for the active set: everything generated now plus unconfirmed insights in their grace period
+  const candidates: Array<{
+    id: string;
+    type: InsightType;
+    confidence: number;
+    priority: number;
+    generated?: Insight;
+    missedRuns?: number;
+    /** Outside the rules of this run */
+    untouched?: boolean;
+  }> = [];
+  byFingerprint.forEach((insight, fingerprint) => {
+    candidates.push({
+      id: fingerprint,
+      type: insight.type,
+      confidence: insight.confidence,
+      priority: insight.priority ?? 0,
+      generated: insight
+    });
+  });
+
+  stored.forEach(state => {
+    if (byFingerprint.has(state.id)) {return;}
+
+    if (ruleIds && !(state.ruleId && ruleIds.includes(state.ruleId))) {
+      if (state.fingerprint && (state.status ?? 'active') === 'active') {
+        candidates.push({ ...candidateOf(state), untouched: true });
+      }
+      return;
+    }
+
+    if (!state.fingerprint) {
+      // Written before fingerprints existed; every run used to add another copy
+      if (state.status !== 'superseded') {plan.supersede.push({ id: state.id });}
+      return;
+    }
+
+    if (state.status && state.status !== 'active') {
+      if (state.closedAtSeconds !== undefined && nowSeconds - state.closedAtSeconds > options.purgeAfterDays * 86400) {
+        plan.purge.push(state.id);
+      }
+      return;
+    }
+
+    // Other subjects of the rule go through the grace period like any unconfirmed insight
+    const subject = insightSubject(state);
+    const replacement = subject ? generatedSubjects.get(subject) : undefined;
+    if (replacement) {
+      plan.supersede.push({ id: state.id, supersededBy: replacement });
+      return;
+    }
+
+    const missedRuns = state.missedRuns + 1;
+    if (missedRuns >= options.expireAfterMissedRuns) {
+      plan.expire.push({ id: state.id, reason: 'missing' });
+      return;
+    }
+
+    candidates.push({ ...candidateOf(state), missedRuns });
+  });
+
+  candidates
+    .sort((a, b) =>
+      TYPE_PRIORITY[b.type] - TYPE_PRIORITY[a.type] ||
+      b.priority - a.priority ||
+      Number(b.generated !== undefined) - Number(a.generated !== undefined) ||
+      b.confidence - a.confidence
+    )
+    .forEach((candidate, index) => {
+      const withinCap = index < options.maxActiveInsights;
+      const existing = storedById.get(candidate.id);
+
+      if (candidate.generated) {
+        if (withinCap) {
+          if (existing) {
+            plan.refresh.push({ id: candidate.id, insight: candidate.generated });
+          } else {
+            plan.create.push(candidate.generated);
+          }
+        } else if (existing && (existing.status ?? 'active') === 'active') {
+          plan.expire.push({ id: candidate.id, reason: 'capped' });
+        }
+        return;
+      }
+
+      if (candidate.untouched) {
+        if (!withinCap) {plan.expire.push({ id: candidate.id, reason: 'capped' });}
+        return;
+      }
+
+      if (withinCap) {
+        plan.missed.push({ id: candidate.id, missedRuns: candidate.missedRuns as number });
+      } else {
+        plan.expire.push({ id: candidate.id, reason: 'capped' });
+      }
+    });
+
+  return plan;
+}
+
+function candidateOf(state: StoredInsightState): { id: string; type: InsightType; confidence: number; priority: number } {
+  return { id: state.id, type: state.type, confidence: state.confidence, priority: state.priority };
+}
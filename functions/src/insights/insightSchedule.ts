@@ -0,0 +1,50 @@
+import { localDateTime } from '../utils/dateUtils';
+
+export interface InsightScheduleOptions {
+  /** Local hour (0-23) in which each user's daily insights are generated */
+  localHour: number;
+}
+
+/**
+ * 4 AM stays clear of the 2-3 AM hour that daylight saving changes skip or repeat
+ */
+export const DEFAULT_INSIGHT_SCHEDULE: InsightScheduleOptions = {
+  localHour: 4
+};
+
+/**
+ * Field of users/{uid} holding the UTC hour of the user's next scheduled run, which the
+ * hourly run queries on
+ */
+export const INSIGHT_DUE_HOUR_FIELD = 'insightDueHourUtc';
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+/**
+ * Schedule from INSIGHT_LOCAL_HOUR, falling back to the default for missing or invalid values
+ */
+export function resolveInsightSchedule(env: NodeJS.ProcessEnv = process.env): InsightScheduleOptions {
+  const localHour = Number(env.INSIGHT_LOCAL_HOUR);
+  if (env.INSIGHT_LOCAL_HOUR && Number.isInteger(localHour) && localHour >= 0 && localHour <= 23) {
+    return { localHour };
+  }
+  return { ...DEFAULT_INSIGHT_SCHEDULE };
+}
+
+/**
+ * UTC hour of the first hourly run after `after` that falls in the scheduled local hour of a
+ * user in `timeZone`. Every UTC offset, including half-hour ones, enters that hour exactly once
+ * a day; computed after each run, the hour follows daylight saving changes.
+ */
+export function insightDueHourUtc(
+  timeZone: string,
+  after: Date,
+  schedule: InsightScheduleOptions = DEFAULT_INSIGHT_SCHEDULE
+): number {
+  const firstRun = (Math.floor(after.getTime() / MS_PER_HOUR) + 1) * MS_PER_HOUR;
+  // Two days, for a scheduled hour that a daylight saving change skips tonight
+  for (let run = firstRun; run < firstRun + 48 * MS_PER_HOUR; run += MS_PER_HOUR) {
+    if (localDateTime(run, timeZone).hour === schedule.localHour) {return new Date(run).getUTCHours();}
+  }
+  return schedule.localHour;
+}
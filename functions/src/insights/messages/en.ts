@@ -0,0 +1,144 @@
+import { MessageCatalog } from './messageCatalog';
+
+/**
+ * English, also the fallback for messages other catalogs lack
+ */
+export const EN_CATALOG: MessageCatalog = {
+  language: 'en',
+  messages: {
+    'insight.cycle.regular': 'Your cycles are very regular with an average length of {averageLength} days. This consistency suggests healthy hormonal balance.',
+    'insight.cycle.irregular': 'Your cycle lengths vary significantly ({shortLength}-{longLength} days). Consider tracking stress, diet, and exercise as these can affect cycle regularity.',
+    'insight.cycle.short': "You've had {count, plural, one {# cycle} other {# cycles}} shorter than {shorterThanDays} days. Very short cycles may indicate hormonal imbalances worth discussing with a healthcare provider.",
+    'insight.cycle.long': "You've had {count, plural, one {# cycle} other {# cycles}} longer than {longerThanDays} days. Extended cycles may indicate hormonal changes worth monitoring with a healthcare provider.",
+    'insight.cycle.highVariability': 'Your cycle lengths vary significantly ({shortLength}-{longLength} days). High variability may indicate stress, lifestyle factors, or hormonal changes worth exploring.',
+    'insight.cycle.nextPeriod': 'Your next period is expected around {expectedDate, date} (likely between {earliestDate, date} and {latestDate, date}), based on {basis, select, settings {your cycle settings} settingsAndHistory {your cycle settings and {cyclesUsed, plural, one {# cycle} other {# cycles}}} other {your last {cyclesUsed, plural, one {# cycle} other {# cycles}}}}.',
+    'insight.bleeding.prolonged': "You've tracked {days} consecutive days of bleeding. Periods longer than {maxBleedingDays} days may warrant discussion with a healthcare provider.",
+    'insight.bleeding.frequent': "You've had {count, plural, one {# bleeding episode} other {# bleeding episodes}} with less than {minDaysBetween} days between them. Frequent bleeding may indicate hormonal changes worth discussing with a healthcare provider.",
+    'insight.mood.dominant': 'Your mood is most commonly {mood, label, mood} ({percent}% of tracked days). This gives insight into your overall emotional patterns.',
+    'insight.mood.cycleCorrelation': 'You are {relativeRisk}× as likely to feel {mood, label, mood} on cycle days {firstCycleDay}–{lastCycleDay}, in your {phase, label, phase} phase, as on other days ({segmentPercent}% vs {otherPercent}% of logged days).',
+    'insight.mood.negative': "You've tracked negative moods on {percent}% of days. If you're feeling persistently down or anxious, consider reaching out to a healthcare provider or mental health professional.",
+    'insight.mood.swings': 'You experience frequent mood changes ({percent}% of tracked days). If mood swings are impacting your daily life, consider discussing this with a healthcare provider.',
+    'insight.symptom.mostCommon': 'You experience {symptom, label, symptom} in {percent}% of your logged days. This is your most common symptom.',
+    'insight.symptom.premenstrual': 'You frequently experience {symptom, label, symptom} before your period. Consider tracking this pattern to better prepare for upcoming cycles.',
+    'insight.symptom.cycleCorrelation': 'You are {relativeRisk}× as likely to log {symptom, label, symptom} on cycle days {firstCycleDay}–{lastCycleDay}, in your {phase, label, phase} phase, as on other days ({segmentPercent}% vs {otherPercent}% of logged days).{phase, select, late_luteal { These are the days just before your period.} other {}}',
+    'insight.symptom.concerning': "You've experienced {symptom, label, concern} on {count} tracked days ({percent}% frequency). Consider discussing this pattern with a healthcare provider if it's concerning you.",
+    'insight.symptom.multiple': 'You frequently experience multiple symptoms together ({count} days with {minSymptoms}+ symptoms). This pattern might be worth discussing with a healthcare provider.',
+    'insight.temperature.high': "You've recorded {count} days with unusually high temperatures (above {limit, temperature}). Persistent elevated temperatures may warrant medical attention.",
+    'insight.temperature.lowVariation': "Your BBT shows minimal variation ({stdDev, temperatureDelta, 2} standard deviation). This might indicate anovulatory cycles{goal, select, CONCEPTION {, which is worth discussing with a healthcare provider while you're trying to conceive} other {. An occasional cycle without ovulation is common, but mention it to a healthcare provider if it keeps happening}}.",
+    'insight.temperature.cycleCorrelation': 'Your BBT on cycle days {firstCycleDay}–{lastCycleDay}, in your {phase, label, phase} phase, is {difference, temperatureDelta, 1} {direction, select, higher {higher} other {lower}} on average than on other days.',
+    'insight.bbt.thermalShift': 'Your BBT showed a sustained temperature shift in {shiftCycles} of {chartedCycles} charted cycles, confirming ovulation. Your average BBT is {averageBbt, temperature}.',
+    'insight.fertility.window': 'Ovulation was confirmed in {confirmedCycles} of your cycles, typically around cycle day {ovulationDay}, so your fertile window usually runs from cycle day {windowStart} to {ovulationDay}.{multiSignalCycles, plural, =0 {} other { In # of these cycles, two or more signals (temperature, ovulation tests, cervical mucus) agreed.}}{averageLutealLength, plural, =0 {} other { Your luteal phase averages # days.}}{goal, select, CONTRACEPTION { Ovulation can come earlier or later than usual, so past cycles alone cannot tell you which days are safe.} other {}}',
+    'insight.fertility.intercourseTiming': 'You logged sex during your fertile window in {timedCycles} of {trackedCycles} {trackedCycles, plural, one {cycle} other {cycles}} with confirmed ovulation, and in the three days up to ovulation in {peakCycles}. Those three days give the best chance of conceiving.',
+    'insight.fertility.unprotectedSex': "You logged sex without a condom or birth control on {count, plural, one {# day} other {# days}} that were likely fertile in the last {lookbackDays} days.{withdrawal, plural, =0 {} other { On # of them you relied on withdrawal, which often fails.}} If you want to avoid pregnancy, use protection throughout your fertile window, and consider talking to a healthcare provider about emergency contraception or a pregnancy test.",
+    'insight.fertility.upcomingWindow': '{goal, select, CONTRACEPTION {Your next fertile days are expected from {startDate, date} to {endDate, date}, a wider range to allow for cycle variation. Use protection on these days if you want to avoid pregnancy.} other {{daysUntil, plural, =0 {Your fertile window has started} one {Your fertile window starts tomorrow} other {Your fertile window starts in # days}}: it is expected to run from {startDate, date} to ovulation around {endDate, date}.}}',
+    'report.bbt.biphasic': '{count} of {total} charted cycles showed a sustained temperature rise after ovulation.',
+    'report.bbt.monophasic': '{count} of {total} charted cycles showed no sustained temperature rise, so ovulation may not have occurred or was not captured.',
+    'report.pdf.title': 'Health report',
+    'report.pdf.reportType': '{type, select, MONTHLY {Monthly report} QUARTERLY {Quarterly report} YEARLY {Yearly report} other {Custom report}}',
+    'report.pdf.period': '{start} to {end}',
+    'report.pdf.generated': 'Generated on {date}',
+    'report.pdf.day': '{day, date}',
+    'report.pdf.days': '{count, plural, one {# day} other {# days}}',
+    'report.pdf.percent': '{value}%',
+    'report.pdf.temperature': '{value, temperature}',
+    'report.pdf.symptom': '{symptom, label, symptom}',
+    'report.pdf.notAvailable': 'Not available',
+    'report.pdf.cycleSummary': 'Cycle summary',
+    'report.pdf.totalCycles': 'Completed cycles',
+    'report.pdf.averageCycleLength': 'Average cycle length',
+    'report.pdf.averageLutealPhase': 'Average luteal phase',
+    'report.pdf.regularity': 'Regularity',
+    'report.pdf.regularityValue': '{regularity, select, VERY_REGULAR {Very regular} REGULAR {Regular} SOMEWHAT_IRREGULAR {Somewhat irregular} IRREGULAR {Irregular} other {Very irregular}}',
+    'report.pdf.averageOvulationDay': 'Average ovulation day',
+    'report.pdf.cycleDay': 'Cycle day {day}',
+    'report.pdf.ovulationConfirmed': 'Cycles with confirmed ovulation',
+    'report.pdf.fertileWindowAccuracy': 'Ovulation in the predicted fertile window',
+    'report.pdf.cycleLengths': 'Cycle lengths',
+    'report.pdf.typicalRange': 'Shaded: typical range of 21 to 35 days',
+    'report.pdf.noCycles': 'No completed cycles in this period.',
+    'report.pdf.bbt': 'Basal body temperature',
+    'report.pdf.coverline': 'Coverline',
+    'report.pdf.bbtSummary': 'Average {average, temperature}, follicular {follicular, temperature}, luteal {luteal, temperature}',
+    'report.pdf.noBbt': 'No temperature readings in this period.',
+    'report.pdf.symptomHeatmap': 'Symptoms by cycle day',
+    'report.pdf.heatmapLegend': 'Darker cells: the symptom was logged on more of the days tracked at that cycle day',
+    'report.pdf.noSymptoms': 'No symptoms logged in this period.',
+    'report.pdf.earlyWarnings': 'Active early warnings',
+    'report.pdf.noEarlyWarnings': 'No active early warnings.',
+    'report.pdf.footer': 'Based on self-tracked data, not a diagnosis. Page {page} of {pages}',
+    'report.share.downloadPdf': 'Download as PDF',
+    'report.share.symptoms': 'Most common symptoms',
+    'report.share.symptomShare': 'Share of logged days',
+    'report.share.cycleStart': 'Cycle start',
+    'report.share.cycleLength': 'Length',
+    'report.share.disclaimer': 'Shared from the Eunio app. Based on self-tracked data, not a diagnosis.',
+
+    // Push notifications; shown on lock screens, so they never say what they are about
+    'notification.earlyWarning.title': 'Eunio',
+    'notification.earlyWarning.body': 'You have a new insight to review.',
+    'notification.periodPrediction.title': 'Eunio',
+    'notification.periodPrediction.body': 'Your forecast has been updated.',
+    'notification.fertileWindow.title': 'Eunio',
+    'notification.fertileWindow.body': 'There is an update in your calendar.',
+    'notification.periodReminder.title': 'Eunio',
+    'notification.periodReminder.body': 'You have a reminder coming up in your calendar.',
+    'notification.ovulationReminder.title': 'Eunio',
+    'notification.ovulationReminder.body': 'You have a reminder in your calendar.',
+    'notification.dataExportReady.title': 'Eunio',
+    'notification.dataExportReady.body': 'Your data export is ready to download.',
+
+    'coverage.nudge.logs': 'Log {remaining, plural, one {# more day} other {# more days}} to start getting insights about your cycle.',
+    'coverage.nudge.completedCycles': 'Log your period for {remaining, plural, one {# more cycle} other {# more cycles}} to unlock insights about your cycle length and regularity.',
+    'coverage.nudge.periodFlow': 'Log your period flow on {remaining, plural, one {# more day} other {# more days}} to unlock insights about your bleeding.',
+    'coverage.nudge.symptoms': 'Log your symptoms on {remaining, plural, one {# more day} other {# more days}} to unlock insights about your symptoms.',
+    'coverage.nudge.mood': 'Log your mood on {remaining, plural, one {# more day} other {# more days}} to unlock insights about your mood.',
+    'coverage.nudge.bbt': 'Log your temperature on {remaining, plural, one {# more day} other {# more days}} to unlock insights about your temperature and ovulation.',
+    'coverage.nudge.cervicalMucus': 'Log your cervical mucus on {remaining, plural, one {# more day} other {# more days}} to unlock insights about your fertile window.',
+    'coverage.nudge.opkResult': 'Log your ovulation tests on {remaining, plural, one {# more day} other {# more days}} to unlock insights about your fertile window.',
+    'coverage.nudge.sexualActivity': 'Log the days you have sex to unlock insights about timing it with your fertile window.',
+    'coverage.gap.ovulation': '{missing, plural, one {# day} other {# days}} around your expected ovulation on {day, date} {missing, plural, one {has} other {have}} no {field, select, bbt {temperature} cervicalMucus {cervical mucus} other {ovulation test}} logged. Logging it every day around ovulation helps confirm it.'
+  },
+  labels: {
+    symptom: {
+      CRAMPS: 'cramps',
+      HEADACHE: 'headache',
+      BLOATING: 'bloating',
+      BREAST_TENDERNESS: 'breast tenderness',
+      ACNE: 'acne',
+      MOOD_SWINGS: 'mood swings',
+      FATIGUE: 'fatigue',
+      NAUSEA: 'nausea',
+      BACK_PAIN: 'back pain',
+      FOOD_CRAVINGS: 'food cravings',
+      SEVERE_CRAMPS: 'severe cramps',
+      HEAVY_BLEEDING: 'heavy bleeding',
+      BREAST_PAIN: 'breast pain'
+    },
+    /** Symptoms as raised by symptom.concerning */
+    concern: {
+      SEVERE_CRAMPS: 'severe cramping',
+      HEAVY_BLEEDING: 'heavy bleeding',
+      NAUSEA: 'frequent nausea',
+      HEADACHE: 'frequent headaches',
+      BREAST_PAIN: 'persistent breast pain'
+    },
+    mood: {
+      HAPPY: 'happy',
+      SAD: 'sad',
+      ANXIOUS: 'anxious',
+      CALM: 'calm',
+      IRRITABLE: 'irritable',
+      ENERGETIC: 'energetic',
+      TIRED: 'tired',
+      NEUTRAL: 'neutral',
+      DEPRESSED: 'depressed'
+    },
+    phase: {
+      menstrual: 'menstrual',
+      follicular: 'follicular',
+      ovulatory: 'ovulatory',
+      early_luteal: 'early luteal',
+      late_luteal: 'late luteal'
+    }
+  }
+};
@@ -0,0 +1,142 @@
+import { MessageCatalog } from './messageCatalog';
+
+/**
+ * Spanish. Moods are nouns so sentences need no grammatical gender.
+ */
+export const ES_CATALOG: MessageCatalog = {
+  language: 'es',
+  messages: {
+    'insight.cycle.regular': 'Tus ciclos son muy regulares, con una duración media de {averageLength} días. Esta constancia indica un buen equilibrio hormonal.',
+    'insight.cycle.irregular': 'La duración de tus ciclos varía bastante ({shortLength}-{longLength} días). Considera registrar el estrés, la alimentación y el ejercicio, ya que pueden afectar la regularidad del ciclo.',
+    'insight.cycle.short': 'Has tenido {count, plural, one {# ciclo} other {# ciclos}} de menos de {shorterThanDays} días. Los ciclos muy cortos pueden indicar desequilibrios hormonales que conviene consultar con un profesional de la salud.',
+    'insight.cycle.long': 'Has tenido {count, plural, one {# ciclo} other {# ciclos}} de más de {longerThanDays} días. Los ciclos prolongados pueden indicar cambios hormonales que conviene vigilar con un profesional de la salud.',
+    'insight.cycle.highVariability': 'La duración de tus ciclos varía bastante ({shortLength}-{longLength} días). Una variabilidad alta puede deberse al estrés, al estilo de vida o a cambios hormonales que vale la pena explorar.',
+    'insight.cycle.nextPeriod': 'Se espera que tu próximo periodo empiece alrededor del {expectedDate, date} (probablemente entre el {earliestDate, date} y el {latestDate, date}), según {basis, select, settings {la configuración de tu ciclo} settingsAndHistory {la configuración de tu ciclo y {cyclesUsed, plural, one {# ciclo} other {# ciclos}}} other {{cyclesUsed, plural, one {tu último ciclo} other {tus últimos # ciclos}}}}.',
+    'insight.bleeding.prolonged': 'Has registrado {days} días seguidos de sangrado. Los periodos de más de {maxBleedingDays} días pueden merecer una consulta con un profesional de la salud.',
+    'insight.bleeding.frequent': 'Has tenido {count, plural, one {# episodio de sangrado} other {# episodios de sangrado}} con menos de {minDaysBetween} días entre ellos. El sangrado frecuente puede indicar cambios hormonales que conviene consultar con un profesional de la salud.',
+    'insight.mood.dominant': 'El estado de ánimo que más registras es {mood, label, mood} ({percent} % de los días registrados). Esto te da una idea de tus patrones emocionales generales.',
+    'insight.mood.cycleCorrelation': 'Es {relativeRisk} veces más probable que sientas {mood, label, mood} en los días {firstCycleDay}–{lastCycleDay} del ciclo, en tu fase {phase, label, phase}, que en otros días ({segmentPercent} % frente a {otherPercent} % de los días registrados).',
+    'insight.mood.negative': 'Has registrado estados de ánimo negativos el {percent} % de los días. Si el desánimo o la ansiedad persisten, considera acudir a un profesional de la salud o de salud mental.',
+    'insight.mood.swings': 'Tienes cambios de humor frecuentes ({percent} % de los días registrados). Si afectan a tu día a día, considera hablarlo con un profesional de la salud.',
+    'insight.symptom.mostCommon': 'Tienes {symptom, label, symptom} el {percent} % de los días registrados. Es tu síntoma más común.',
+    'insight.symptom.premenstrual': 'Sueles tener {symptom, label, symptom} antes de tu periodo. Registrar este patrón puede ayudarte a prepararte para los próximos ciclos.',
+    'insight.symptom.cycleCorrelation': 'Es {relativeRisk} veces más probable que registres {symptom, label, symptom} en los días {firstCycleDay}–{lastCycleDay} del ciclo, en tu fase {phase, label, phase}, que en otros días ({segmentPercent} % frente a {otherPercent} % de los días registrados).{phase, select, late_luteal { Son los días justo antes de tu periodo.} other {}}',
+    'insight.symptom.concerning': 'Has tenido {symptom, label, concern} en {count} días registrados ({percent} % de frecuencia). Si te preocupa, considera hablar de este patrón con un profesional de la salud.',
+    'insight.symptom.multiple': 'Sueles tener varios síntomas a la vez ({count} días con {minSymptoms} o más síntomas). Puede valer la pena comentar este patrón con un profesional de la salud.',
+    'insight.temperature.high': 'Has registrado {count} días con temperaturas inusualmente altas (por encima de {limit, temperature}). Las temperaturas elevadas persistentes pueden requerir atención médica.',
+    'insight.temperature.lowVariation': 'Tu temperatura basal muestra muy poca variación (desviación estándar de {stdDev, temperatureDelta, 2}). Podría indicar ciclos anovulatorios{goal, select, CONCEPTION {; como buscas un embarazo, vale la pena consultarlo con un profesional de la salud} other {. Un ciclo sin ovulación de vez en cuando es normal, pero coméntalo con un profesional de la salud si se repite}}.',
+    'insight.temperature.cycleCorrelation': 'Tu temperatura basal en los días {firstCycleDay}–{lastCycleDay} del ciclo, en tu fase {phase, label, phase}, es de media {difference, temperatureDelta, 1} más {direction, select, higher {alta} other {baja}} que en otros días.',
+    'insight.bbt.thermalShift': 'Tu temperatura basal mostró un aumento sostenido en {shiftCycles} de {chartedCycles} ciclos registrados, lo que confirma la ovulación. Tu temperatura basal media es de {averageBbt, temperature}.',
+    'insight.fertility.window': 'Se confirmó la ovulación en {confirmedCycles} de tus ciclos, normalmente hacia el día {ovulationDay} del ciclo, así que tu ventana fértil suele ir del día {windowStart} al {ovulationDay} del ciclo.{multiSignalCycles, plural, =0 {} other { En # de estos ciclos coincidieron dos o más señales (temperatura, pruebas de ovulación, moco cervical).}}{averageLutealLength, plural, =0 {} other { Tu fase lútea dura de media # días.}}{goal, select, CONTRACEPTION { La ovulación puede adelantarse o retrasarse, así que los ciclos anteriores no bastan para saber qué días son seguros.} other {}}',
+    'insight.fertility.intercourseTiming': 'Registraste relaciones sexuales en tu ventana fértil en {timedCycles} de {trackedCycles} {trackedCycles, plural, one {ciclo} other {ciclos}} con ovulación confirmada, y en los tres días previos a la ovulación en {peakCycles}. Esos tres días ofrecen la mayor probabilidad de embarazo.',
+    'insight.fertility.unprotectedSex': 'Registraste relaciones sexuales sin preservativo ni anticonceptivos {count, plural, one {# día} other {# días}} probablemente fértiles en los últimos {lookbackDays} días.{withdrawal, plural, =0 {} other { En # de ellos usaste la marcha atrás, que falla a menudo.}} Si quieres evitar un embarazo, usa protección durante toda tu ventana fértil y considera hablar con un profesional de la salud sobre la anticoncepción de emergencia o una prueba de embarazo.',
+    'insight.fertility.upcomingWindow': '{goal, select, CONTRACEPTION {Tus próximos días fértiles se esperan del {startDate, date} al {endDate, date}, un margen más amplio para tener en cuenta la variación del ciclo. Usa protección esos días si quieres evitar un embarazo.} other {{daysUntil, plural, =0 {Tu ventana fértil ha empezado} one {Tu ventana fértil empieza mañana} other {Tu ventana fértil empieza dentro de # días}}: se espera del {startDate, date} a la ovulación, hacia el {endDate, date}.}}',
+    'report.bbt.biphasic': '{count} de {total} ciclos registrados mostraron un aumento sostenido de la temperatura tras la ovulación.',
+    'report.bbt.monophasic': '{count} de {total} ciclos registrados no mostraron un aumento sostenido de la temperatura, así que puede que no hubiera ovulación o que no se registrara.',
+    'report.pdf.title': 'Informe de salud',
+    'report.pdf.reportType': '{type, select, MONTHLY {Informe mensual} QUARTERLY {Informe trimestral} YEARLY {Informe anual} other {Informe personalizado}}',
+    'report.pdf.period': 'Del {start} al {end}',
+    'report.pdf.generated': 'Generado el {date}',
+    'report.pdf.day': '{day, date}',
+    'report.pdf.days': '{count, plural, one {# día} other {# días}}',
+    'report.pdf.percent': '{value} %',
+    'report.pdf.temperature': '{value, temperature}',
+    'report.pdf.symptom': '{symptom, label, symptom}',
+    'report.pdf.notAvailable': 'No disponible',
+    'report.pdf.cycleSummary': 'Resumen de ciclos',
+    'report.pdf.totalCycles': 'Ciclos completos',
+    'report.pdf.averageCycleLength': 'Duración media del ciclo',
+    'report.pdf.averageLutealPhase': 'Fase lútea media',
+    'report.pdf.regularity': 'Regularidad',
+    'report.pdf.regularityValue': '{regularity, select, VERY_REGULAR {Muy regular} REGULAR {Regular} SOMEWHAT_IRREGULAR {Algo irregular} IRREGULAR {Irregular} other {Muy irregular}}',
+    'report.pdf.averageOvulationDay': 'Día medio de ovulación',
+    'report.pdf.cycleDay': 'Día {day} del ciclo',
+    'report.pdf.ovulationConfirmed': 'Ciclos con ovulación confirmada',
+    'report.pdf.fertileWindowAccuracy': 'Ovulación en la ventana fértil prevista',
+    'report.pdf.cycleLengths': 'Duración de los ciclos',
+    'report.pdf.typicalRange': 'Sombreado: rango habitual de 21 a 35 días',
+    'report.pdf.noCycles': 'No hay ciclos completos en este periodo.',
+    'report.pdf.bbt': 'Temperatura basal',
+    'report.pdf.coverline': 'Línea base',
+    'report.pdf.bbtSummary': 'Media {average, temperature}, folicular {follicular, temperature}, lútea {luteal, temperature}',
+    'report.pdf.noBbt': 'No hay registros de temperatura en este periodo.',
+    'report.pdf.symptomHeatmap': 'Síntomas por día del ciclo',
+    'report.pdf.heatmapLegend': 'Celdas más oscuras: el síntoma se registró en más de los días anotados en ese día del ciclo',
+    'report.pdf.noSymptoms': 'No se registraron síntomas en este periodo.',
+    'report.pdf.earlyWarnings': 'Alertas tempranas activas',
+    'report.pdf.noEarlyWarnings': 'No hay alertas tempranas activas.',
+    'report.pdf.footer': 'Basado en datos autorregistrados, no es un diagnóstico. Página {page} de {pages}',
+    'report.share.downloadPdf': 'Descargar en PDF',
+    'report.share.symptoms': 'Síntomas más frecuentes',
+    'report.share.symptomShare': 'Porcentaje de días registrados',
+    'report.share.cycleStart': 'Inicio del ciclo',
+    'report.share.cycleLength': 'Duración',
+    'report.share.disclaimer': 'Compartido desde la app Eunio. Basado en datos autorregistrados, no es un diagnóstico.',
+
+    'notification.earlyWarning.title': 'Eunio',
+    'notification.earlyWarning.body': 'Tienes una nueva observación para revisar.',
+    'notification.periodPrediction.title': 'Eunio',
+    'notification.periodPrediction.body': 'Tu previsión se ha actualizado.',
+    'notification.fertileWindow.title': 'Eunio',
+    'notification.fertileWindow.body': 'Hay una novedad en tu calendario.',
+    'notification.periodReminder.title': 'Eunio',
+    'notification.periodReminder.body': 'Se acerca un recordatorio de tu calendario.',
+    'notification.ovulationReminder.title': 'Eunio',
+    'notification.ovulationReminder.body': 'Tienes un recordatorio en tu calendario.',
+    'notification.dataExportReady.title': 'Eunio',
+    'notification.dataExportReady.body': 'Tu exportación de datos está lista para descargar.',
+
+    'coverage.nudge.logs': 'Registra {remaining, plural, one {# día más} other {# días más}} para empezar a recibir observaciones sobre tu ciclo.',
+    'coverage.nudge.completedCycles': 'Registra tu periodo durante {remaining, plural, one {# ciclo más} other {# ciclos más}} para ver observaciones sobre la duración y regularidad de tu ciclo.',
+    'coverage.nudge.periodFlow': 'Registra tu flujo menstrual {remaining, plural, one {# día más} other {# días más}} para ver observaciones sobre tu sangrado.',
+    'coverage.nudge.symptoms': 'Registra tus síntomas {remaining, plural, one {# día más} other {# días más}} para ver observaciones sobre tus síntomas.',
+    'coverage.nudge.mood': 'Registra tu estado de ánimo {remaining, plural, one {# día más} other {# días más}} para ver observaciones sobre tu ánimo.',
+    'coverage.nudge.bbt': 'Registra tu temperatura {remaining, plural, one {# día más} other {# días más}} para ver observaciones sobre tu temperatura y tu ovulación.',
+    'coverage.nudge.cervicalMucus': 'Registra tu moco cervical {remaining, plural, one {# día más} other {# días más}} para ver observaciones sobre tu ventana fértil.',
+    'coverage.nudge.opkResult': 'Registra tus pruebas de ovulación {remaining, plural, one {# día más} other {# días más}} para ver observaciones sobre tu ventana fértil.',
+    'coverage.nudge.sexualActivity': 'Registra los días en que tienes relaciones sexuales para ver observaciones sobre cómo coinciden con tu ventana fértil.',
+    'coverage.gap.ovulation': '{missing, plural, one {# día} other {# días}} cerca de tu ovulación prevista del {day, date} no {missing, plural, one {tiene} other {tienen}} registro de {field, select, bbt {temperatura} cervicalMucus {moco cervical} other {prueba de ovulación}}. Registrarlo cada día cerca de la ovulación ayuda a confirmarla.'
+  },
+  labels: {
+    symptom: {
+      CRAMPS: 'cólicos',
+      HEADACHE: 'dolor de cabeza',
+      BLOATING: 'hinchazón',
+      BREAST_TENDERNESS: 'sensibilidad en los senos',
+      ACNE: 'acné',
+      MOOD_SWINGS: 'cambios de humor',
+      FATIGUE: 'fatiga',
+      NAUSEA: 'náuseas',
+      BACK_PAIN: 'dolor de espalda',
+      FOOD_CRAVINGS: 'antojos',
+      SEVERE_CRAMPS: 'cólicos intensos',
+      HEAVY_BLEEDING: 'sangrado abundante',
+      BREAST_PAIN: 'dolor en los senos'
+    },
+    concern: {
+      SEVERE_CRAMPS: 'cólicos intensos',
+      HEAVY_BLEEDING: 'sangrado abundante',
+      NAUSEA: 'náuseas frecuentes',
+      HEADACHE: 'dolores de cabeza frecuentes',
+      BREAST_PAIN: 'dolor persistente en los senos'
+    },
+    mood: {
+      HAPPY: 'alegría',
+      SAD: 'tristeza',
+      ANXIOUS: 'ansiedad',
+      CALM: 'calma',
+      IRRITABLE: 'irritabilidad',
+      ENERGETIC: 'energía',
+      TIRED: 'cansancio',
+      NEUTRAL: 'un ánimo neutro',
+      DEPRESSED: 'desánimo'
+    },
+    phase: {
+      menstrual: 'menstrual',
+      follicular: 'folicular',
+      ovulatory: 'ovulatoria',
+      early_luteal: 'lútea temprana',
+      late_luteal: 'lútea tardía'
+    }
+  }
+};
@@ -0,0 +1,84 @@
+import { TemperatureUnit } from '../../types';
+import { MessageParams, formatMessage } from './messageFormat';
+import { EN_CATALOG } from './en';
+import { ES_CATALOG } from './es';
+
+export const DEFAULT_LOCALE = 'en';
+
+/**
+ * Messages for one language, keyed like insight.cycle.regular or report.bbt.biphasic
+ */
+export interface MessageCatalog {
+  /** Language subtag, e.g. es */
+  language: string;
+  messages: Record<string, string>;
+  /** Display names of enum values by group (symptom, mood, phase, concern) */
+  labels: Record<string, Record<string, string>>;
+}
+
+export const DEFAULT_MESSAGE_CATALOGS: MessageCatalog[] = [EN_CATALOG, ES_CATALOG];
+
+export interface RenderOptions {
+  locale: string;
+  temperatureUnit: TemperatureUnit;
+}
+
+/**
+ * The canonical form of a BCP 47 tag whose language has a catalog, or the default locale.
+ * Regional tags (es-MX) are kept for number and date formatting.
+ */
+export function resolveLocale(value: unknown, catalogs: MessageCatalog[] = DEFAULT_MESSAGE_CATALOGS): string {
+  return supportedLocale(value, catalogs) ?? DEFAULT_LOCALE;
+}
+
+/**
+ * The canonical form of a BCP 47 tag whose language has a catalog, or null
+ */
+export function supportedLocale(value: unknown, catalogs: MessageCatalog[] = DEFAULT_MESSAGE_CATALOGS): string | null {
+  if (typeof value !== 'string' || value.trim() === '') {return null;}
+
+  let locale: string;
+  try {
+    [locale] = Intl.getCanonicalLocales(value.trim());
+  } catch {
+    return null;
+  }
+  return catalogs.some(catalog => catalog.language === languageOf(locale)) ? locale : null;
+}
+
+/**
+ * Renders catalog messages, falling back to English for messages a language lacks
+ */
+export class MessageRenderer {
+  private readonly catalogs = new Map<string, MessageCatalog>();
+
+  constructor(catalogs: MessageCatalog[] = DEFAULT_MESSAGE_CATALOGS) {
+    catalogs.forEach(catalog => this.catalogs.set(catalog.language, catalog));
+    if (!this.catalogs.has(DEFAULT_LOCALE)) {throw new Error(`No ${DEFAULT_LOCALE} message catalog`);}
+  }
+
+  render(key: string, params: MessageParams, options: RenderOptions): string {
+    const requested = this.catalogs.get(languageOf(options.locale));
+    const [catalog, locale] = requested?.messages[key] !== undefined
+      ? [requested, options.locale]
+      : [this.fallback, DEFAULT_LOCALE];
+
+    const pattern = catalog.messages[key];
+    if (pattern === undefined) {throw new Error(`No message ${key}`);}
+
+    return formatMessage(pattern, params, {
+      locale,
+      temperatureUnit: options.temperatureUnit,
+      label: (group, value) =>
+        catalog.labels[group]?.[value] ?? this.fallback.labels[group]?.[value] ?? value.toLowerCase().replace(/_/g, ' ')
+    });
+  }
+
+  private get fallback(): MessageCatalog {
+    return this.catalogs.get(DEFAULT_LOCALE) as MessageCatalog;
+  }
+}
+
+function languageOf(locale: string): string {
+  return locale.split('-')[0].toLowerCase();
+}
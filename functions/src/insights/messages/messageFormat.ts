@@ -0,0 +1,247 @@
+import { TemperatureUnit } from '../../types';
+import { MS_PER_DAY, isoDateToEpochDay } from '../../utils/dateUtils';
+import { convertTemperature, convertTemperatureDelta, unitSymbol } from '../../utils/temperature';
+
+/**
+ * Values for a message's arguments: numbers for counts and measurements (temperatures in
+ * Celsius), strings for calendar days (yyyy-MM-dd) and enum values
+ */
+export type MessageParams = Record<string, string | number>;
+
+export interface MessageFormatOptions {
+  locale: string;
+  temperatureUnit: TemperatureUnit;
+  /** Display name of an enum value, e.g. ('symptom', 'CRAMPS') */
+  label: (group: string, value: string) => string;
+}
+
+type ArgumentType = 'number' | 'date' | 'temperature' | 'temperatureDelta' | 'label' | 'plural' | 'select';
+
+interface ArgumentNode {
+  name: string;
+  type?: ArgumentType;
+  style?: string;
+  /** plural and select branches */
+  options?: Record<string, MessageNode[]>;
+}
+
+type MessageNode = string | ArgumentNode;
+
+const ARGUMENT_TYPES: string[] = ['number', 'date', 'temperature', 'temperatureDelta', 'label', 'plural', 'select'];
+
+/**
+ * Format a message in a subset of ICU MessageFormat:
+ * - `{name}` and `{name, number}`: the value, numbers formatted for the locale
+ * - `{name, date}`: a yyyy-MM-dd day as a short month and day
+ * - `{name, temperature[, decimals]}` and `{name, temperatureDelta[, decimals]}`: a Celsius value
+ *   in the user's unit
+ * - `{name, label, group}`: the display name of an enum value
+ * - `{name, plural, =0 {...} one {...} other {...}}` with `#` for the number, and
+ *   `{name, select, value {...} other {...}}`
+ *
+ * Arguments without a value are left as `{name}`.
+ */
+export function formatMessage(pattern: string, params: MessageParams, options: MessageFormatOptions): string {
+  return renderNodes(parseMessage(pattern), params, options);
+}
+
+// Catalog patterns are few and formatted for every insight
+const parsedMessages = new Map<string, MessageNode[]>();
+
+function parseMessage(pattern: string): MessageNode[] {
+  let nodes = parsedMessages.get(pattern);
+  if (!nodes) {
+    nodes = new MessageParser(pattern).parse();
+    parsedMessages.set(pattern, nodes);
+  }
+  return nodes;
+}
+
+function renderNodes(nodes: MessageNode[], params: MessageParams, options: MessageFormatOptions, pluralCount?: number): string {
+  return nodes.map(node => {
+    if (typeof node !== 'string') {return renderArgument(node, params, options);}
+    return pluralCount === undefined ? node : node.replace(/#/g, formatNumber(pluralCount, options.locale));
+  }).join('');
+}
+
+function renderArgument(node: ArgumentNode, params: MessageParams, options: MessageFormatOptions): string {
+  const value = params[node.name];
+  if (value === undefined) {return `{${node.name}}`;}
+
+  switch (node.type) {
+    case undefined:
+      return typeof value === 'number' ? formatNumber(value, options.locale) : value;
+    case 'number':
+      return formatNumber(Number(value), options.locale);
+    case 'date':
+      return formatDay(String(value), options.locale);
+    case 'temperature':
+      return formatDecimal(convertTemperature(Number(value), options.temperatureUnit), options.locale, decimals(node, 1)) +
+        unitSymbol(options.temperatureUnit);
+    case 'temperatureDelta':
+      return formatDecimal(convertTemperatureDelta(Number(value), options.temperatureUnit), options.locale, decimals(node, 1)) +
+        unitSymbol(options.temperatureUnit);
+    case 'label':
+      return options.label(node.style ?? node.name, String(value));
+    case 'plural': {
+      const count = Number(value);
+      const branches = node.options as Record<string, MessageNode[]>;
+      const branch = branches[`=${count}`] ?? branches[pluralRules(options.locale).select(count)] ?? branches.other;
+      return renderNodes(branch, params, options, count);
+    }
+    case 'select': {
+      const branches = node.options as Record<string, MessageNode[]>;
+      return renderNodes(branches[String(value)] ?? branches.other, params, options);
+    }
+  }
+}
+
+function decimals(node: ArgumentNode, fallback: number): number {
+  return node.style !== undefined ? Number(node.style) : fallback;
+}
+
+// Creating Intl formatters is slow; a run formats many values in one locale
+const numberFormats = new Map<string, Intl.NumberFormat>();
+const dayFormats = new Map<string, Intl.DateTimeFormat>();
+const pluralRuleSets = new Map<string, Intl.PluralRules>();
+
+function formatNumber(value: number, locale: string): string {
+  const key = `${locale}|number`;
+  let format = numberFormats.get(key);
+  if (!format) {
+    format = new Intl.NumberFormat(locale, { maximumFractionDigits: 2 });
+    numberFormats.set(key, format);
+  }
+  return format.format(value);
+}
+
+function formatDecimal(value: number, locale: string, fractionDigits: number): string {
+  const key = `${locale}|${fractionDigits}`;
+  let format = numberFormats.get(key);
+  if (!format) {
+    format = new Intl.NumberFormat(locale, {
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits,
+      useGrouping: false
+    });
+    numberFormats.set(key, format);
+  }
+  return format.format(value);
+}
+
+function formatDay(isoDate: string, locale: string): string {
+  const epochDay = isoDateToEpochDay(isoDate);
+  if (epochDay === null) {return isoDate;}
+
+  let format = dayFormats.get(locale);
+  if (!format) {
+    format = new Intl.DateTimeFormat(locale, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+    dayFormats.set(locale, format);
+  }
+  return format.format(new Date(epochDay * MS_PER_DAY));
+}
+
+function pluralRules(locale: string): Intl.PluralRules {
+  let rules = pluralRuleSets.get(locale);
+  if (!rules) {
+    rules = new Intl.PluralRules(locale);
+    pluralRuleSets.set(locale, rules);
+  }
+  return rules;
+}
+
+/**
+ * Recursive descent over a pattern; plural and select branches nest messages
+ */
+class MessageParser {
+  private position = 0;
+
+  constructor(private readonly pattern: string) {}
+
+  parse(): MessageNode[] {
+    const nodes = this.parseNodes();
+    if (this.position < this.pattern.length) {throw this.error('unexpected }');}
+    return nodes;
+  }
+
+  /**
+   * Text and arguments up to the end of the pattern or the } closing a branch
+   */
+  private parseNodes(): MessageNode[] {
+    const nodes: MessageNode[] = [];
+    let text = '';
+
+    while (this.position < this.pattern.length && this.pattern[this.position] !== '}') {
+      if (this.pattern[this.position] === '{') {
+        if (text) {nodes.push(text);}
+        text = '';
+        nodes.push(this.parseArgument());
+      } else {
+        text += this.pattern[this.position++];
+      }
+    }
+
+    if (text) {nodes.push(text);}
+    return nodes;
+  }
+
+  private parseArgument(): ArgumentNode {
+    this.expect('{');
+    const name = this.readToken();
+    if (this.skipSpaces() === '}') {
+      this.position++;
+      return { name };
+    }
+
+    this.expect(',');
+    const type = this.readToken();
+    if (!ARGUMENT_TYPES.includes(type)) {throw this.error(`unknown argument type ${type}`);}
+
+    if (type === 'plural' || type === 'select') {
+      this.expect(',');
+      const options: Record<string, MessageNode[]> = {};
+      while (this.skipSpaces() !== '}') {
+        const key = this.readToken();
+        this.expect('{');
+        options[key] = this.parseNodes();
+        this.expect('}');
+      }
+      this.position++;
+      if (!options.other) {throw this.error(`${name} has no other branch`);}
+      return { name, type, options };
+    }
+
+    let style: string | undefined;
+    if (this.skipSpaces() === ',') {
+      this.position++;
+      style = this.readToken();
+    }
+    this.expect('}');
+    return { name, type: type as ArgumentType, ...(style !== undefined ? { style } : {}) };
+  }
+
+  private readToken(): string {
+    this.skipSpaces();
+    const match = /^[^\s,{}]+/.exec(this.pattern.slice(this.position));
+    if (!match) {throw this.error('expected a name');}
+    this.position += match[0].length;
+    return match[0];
+  }
+
+  private expect(char: string): void {
+    if (this.skipSpaces() !== char) {throw this.error(`expected ${char}`);}
+    this.position++;
+  }
+
+  /**
+   * Skip whitespace and return the next character
+   */
+  private skipSpaces(): string | undefined {
+    while (/\s/.test(this.pattern[this.position] ?? '')) {this.position++;}
+    return this.pattern[this.position];
+  }
+
+  private error(message: string): Error {
+    return new Error(`Invalid message at ${this.position}: ${message} in "${this.pattern}"`);
+  }
+}
@@ -0,0 +1,95 @@
+import { DailyLog, InsightType } from '../../types';
+import { toEpochDay } from '../../utils/dateUtils';
+import { InsightRuleContext, defineRule, hasLogField } from './insightRule';
+
+interface BleedingEpisode {
+  startEpochDay: number;
+  endEpochDay: number;
+  logIds: string[];
+}
+
+export const prolongedBleedingRule = defineRule({
+  id: 'bleeding.prolonged',
+  version: 1,
+  category: 'warning',
+  type: InsightType.EARLY_WARNING,
+  description: 'A bleeding episode longer than 8 days',
+  requiredFields: ['periodFlow'],
+  sufficiency: { minFieldLogs: { periodFlow: 10 } },
+  /** Consecutive bleeding days, exclusive */
+  thresholds: { maxBleedingDays: 8 },
+  thresholdBounds: { maxBleedingDays: { min: 5, max: 14, integer: true } },
+  actionable: true,
+  evaluate: (context, thresholds) => {
+    const longest = groupBleedingEpisodes(context).reduce<BleedingEpisode | undefined>(
+      (best, episode) => !best || episode.logIds.length > best.logIds.length ? episode : best,
+      undefined
+    );
+    if (!longest || longest.logIds.length <= thresholds.maxBleedingDays) {return [];}
+
+    return [{
+      values: { days: longest.logIds.length, maxBleedingDays: thresholds.maxBleedingDays },
+      relatedLogIds: longest.logIds,
+      evidence: { metrics: { days: longest.logIds.length } },
+      confidence: 0.8
+    }];
+  }
+});
+
+export const frequentBleedingRule = defineRule({
+  id: 'bleeding.frequent',
+  version: 1,
+  category: 'warning',
+  type: InsightType.EARLY_WARNING,
+  description: 'Repeated bleeding episodes less than 21 days apart',
+  requiredFields: ['periodFlow'],
+  sufficiency: { minFieldLogs: { periodFlow: 10 } },
+  thresholds: { minDaysBetween: 21, minShortIntervals: 2 },
+  thresholdBounds: {
+    minDaysBetween: { min: 14, max: 28, integer: true },
+    minShortIntervals: { min: 1, max: 6, integer: true }
+  },
+  actionable: true,
+  evaluate: (context, thresholds) => {
+    const episodes = groupBleedingEpisodes(context);
+    const shortIntervals = episodes.filter((episode, index) =>
+      index > 0 && episode.startEpochDay - episodes[index - 1].endEpochDay < thresholds.minDaysBetween
+    );
+    if (shortIntervals.length < thresholds.minShortIntervals) {return [];}
+
+    return [{
+      values: { count: shortIntervals.length, minDaysBetween: thresholds.minDaysBetween },
+      relatedLogIds: shortIntervals.flatMap(episode => episode.logIds),
+      evidence: {
+        metrics: { count: shortIntervals.length, episodes: episodes.length },
+        series: {
+          daysBetweenEpisodes: episodes.slice(1).map((episode, index) => episode.startEpochDay - episodes[index].endEpochDay)
+        }
+      },
+      confidence: 0.75
+    }];
+  }
+});
+
+/**
+ * Runs of bleeding logs on consecutive days, oldest first
+ */
+function groupBleedingEpisodes(context: InsightRuleContext): BleedingEpisode[] {
+  const bleedingLogs: DailyLog[] = context.dailyLogs
+    .filter(log => hasLogField(log, 'periodFlow'))
+    .sort((a, b) => a.date.seconds - b.date.seconds);
+
+  const episodes: BleedingEpisode[] = [];
+  bleedingLogs.forEach(log => {
+    const day = toEpochDay(log.date);
+    const current = episodes[episodes.length - 1];
+    if (current && day - current.endEpochDay <= 1) {
+      current.endEpochDay = day;
+      current.logIds.push(log.id);
+    } else {
+      episodes.push({ startEpochDay: day, endEpochDay: day, logIds: [log.id] });
+    }
+  });
+
+  return episodes;
+}
@@ -0,0 +1,205 @@
+import { InsightType } from '../../types';
+import { epochDayToIsoDate, toEpochDay } from '../../utils/dateUtils';
+import { roundTo } from '../../utils/statistics';
+import { RuleEvidence, defineRule } from './insightRule';
+import { cycleLengthStats } from './ruleHelpers';
+
+export const regularCyclesRule = defineRule({
+  id: 'cycle.regular',
+  version: 1,
+  category: 'pattern',
+  type: InsightType.PATTERN_RECOGNITION,
+  description: 'Cycle lengths stay within a couple of days of each other',
+  requiredFields: ['cycles'],
+  sufficiency: { minCompletedCycles: 3 },
+  thresholds: { maxStdDevDays: 2 },
+  actionable: false,
+  evaluate: (context, thresholds) => {
+    const stats = cycleLengthStats(context.cycles);
+    if (stats.stdDev > thresholds.maxStdDevDays) {return [];}
+
+    return [{
+      values: { averageLength: Math.round(stats.average) },
+      relatedLogIds: [],
+      evidence: cycleLengthEvidence(stats),
+      confidence: 0.9
+    }];
+  }
+});
+
+export const irregularCyclesRule = defineRule({
+  id: 'cycle.irregular',
+  version: 1,
+  category: 'pattern',
+  type: InsightType.PATTERN_RECOGNITION,
+  description: 'Cycle lengths vary by more than a week',
+  requiredFields: ['cycles'],
+  sufficiency: { minCompletedCycles: 3 },
+  thresholds: { stdDevAboveDays: 7 },
+  actionable: true,
+  evaluate: (context, thresholds) => {
+    const stats = cycleLengthStats(context.cycles);
+    if (stats.stdDev <= thresholds.stdDevAboveDays) {return [];}
+
+    return [{
+      values: {
+        shortLength: Math.round(stats.average - stats.stdDev),
+        longLength: Math.round(stats.average + stats.stdDev)
+      },
+      relatedLogIds: [],
+      evidence: cycleLengthEvidence(stats),
+      confidence: 0.8
+    }];
+  }
+});
+
+export const shortCyclesRule = defineRule({
+  id: 'cycle.short',
+  version: 1,
+  category: 'warning',
+  type: InsightType.EARLY_WARNING,
+  description: 'Repeated cycles shorter than 21 days',
+  requiredFields: ['cycles'],
+  sufficiency: { minCompletedCycles: 3 },
+  thresholds: { shorterThanDays: 21, minCycles: 2 },
+  thresholdBounds: {
+    shorterThanDays: { min: 15, max: 25, integer: true },
+    minCycles: { min: 1, max: 6, integer: true }
+  },
+  actionable: true,
+  evaluate: (context, thresholds) => {
+    const stats = cycleLengthStats(context.cycles);
+    const shortCycles = stats.lengths.filter(length => length < thresholds.shorterThanDays);
+    if (shortCycles.length < thresholds.minCycles) {return [];}
+
+    return [{
+      values: { count: shortCycles.length, shorterThanDays: thresholds.shorterThanDays },
+      relatedLogIds: [],
+      evidence: cycleLengthEvidence(stats, { count: shortCycles.length }),
+      confidence: 0.8
+    }];
+  }
+});
+
+export const longCyclesRule = defineRule({
+  id: 'cycle.long',
+  version: 1,
+  category: 'warning',
+  type: InsightType.EARLY_WARNING,
+  description: 'Repeated cycles longer than 35 days',
+  requiredFields: ['cycles'],
+  sufficiency: { minCompletedCycles: 3 },
+  thresholds: { longerThanDays: 35, minCycles: 2 },
+  thresholdBounds: {
+    longerThanDays: { min: 30, max: 60, integer: true },
+    minCycles: { min: 1, max: 6, integer: true }
+  },
+  actionable: true,
+  evaluate: (context, thresholds) => {
+    const stats = cycleLengthStats(context.cycles);
+    const longCycles = stats.lengths.filter(length => length > thresholds.longerThanDays);
+    if (longCycles.length < thresholds.minCycles) {return [];}
+
+    return [{
+      values: { count: longCycles.length, longerThanDays: thresholds.longerThanDays },
+      relatedLogIds: [],
+      evidence: cycleLengthEvidence(stats, { count: longCycles.length }),
+      confidence: 0.8
+    }];
+  }
+});
+
+export const cycleVariabilityRule = defineRule({
+  id: 'cycle.highVariability',
+  version: 1,
+  category: 'warning',
+  type: InsightType.EARLY_WARNING,
+  description: 'Cycle lengths vary by more than a week',
+  requiredFields: ['cycles'],
+  sufficiency: { minCompletedCycles: 3 },
+  thresholds: { stdDevAboveDays: 7 },
+  thresholdBounds: { stdDevAboveDays: { min: 3, max: 20 } },
+  actionable: true,
+  evaluate: (context, thresholds) => {
+    const stats = cycleLengthStats(context.cycles);
+    if (stats.stdDev <= thresholds.stdDevAboveDays) {return [];}
+
+    return [{
+      values: {
+        shortLength: Math.round(stats.average - stats.stdDev),
+        longLength: Math.round(stats.average + stats.stdDev)
+      },
+      relatedLogIds: [],
+      evidence: cycleLengthEvidence(stats),
+      confidence: 0.75
+    }];
+  }
+});
+
+export const nextPeriodRule = defineRule({
+  id: 'cycle.nextPeriod',
+  version: 1,
+  category: 'prediction',
+  type: InsightType.CYCLE_PREDICTION,
+  description: 'Expected start of the next period, from the CyclePredictor forecast',
+  requiredFields: ['prediction'],
+  sufficiency: {},
+  thresholds: {},
+  actionable: false,
+  subjectParams: [],
+  evaluate: context => {
+    const prediction = context.prediction;
+    if (!prediction || prediction.overdue) {return [];}
+
+    const basis = prediction.usedPreferences
+      ? prediction.cyclesUsed > 0 ? 'settingsAndHistory' : 'settings'
+      : 'history';
+
+    return [{
+      values: {
+        expectedDate: epochDayToIsoDate(toEpochDay(prediction.predictedNextStartDate)),
+        earliestDate: epochDayToIsoDate(toEpochDay(prediction.earliestNextStartDate)),
+        latestDate: epochDayToIsoDate(toEpochDay(prediction.latestNextStartDate)),
+        basis,
+        cyclesUsed: prediction.cyclesUsed
+      },
+      params: { cycleId: prediction.cycleId },
+      relatedLogIds: [],
+      evidence: {
+        metrics: {
+          expectedCycleLength: roundTo(prediction.expectedCycleLength, 1),
+          standardDeviation: roundTo(prediction.standardDeviation, 1),
+          uncertaintyDays: prediction.uncertaintyDays,
+          cyclesUsed: prediction.cyclesUsed,
+          outliersRejected: prediction.outliersRejected
+        },
+        cycleIds: [prediction.cycleId],
+        dayRange: {
+          startEpochDay: toEpochDay(prediction.earliestNextStartDate),
+          endEpochDay: toEpochDay(prediction.latestNextStartDate)
+        }
+      },
+      confidence: prediction.confidence
+    }];
+  }
+});
+
+/**
+ * Cycle length statistics, with the length of each completed cycle as the series
+ */
+function cycleLengthEvidence(
+  stats: ReturnType<typeof cycleLengthStats>,
+  metrics: Record<string, number> = {}
+): RuleEvidence {
+  return {
+    metrics: {
+      ...metrics,
+      completedCycles: stats.lengths.length,
+      averageLength: roundTo(stats.average, 1),
+      stdDevDays: roundTo(stats.stdDev, 1)
+    },
+    cycleIds: stats.cycleIds,
+    series: { cycleLength: stats.lengths }
+  };
+}
+
@@ -0,0 +1,74 @@
+import { InsightRule } from './insightRule';
+import { InsightRuleRegistry } from './ruleRegistry';
+import { frequentBleedingRule, prolongedBleedingRule } from './bleedingRules';
+import {
+  cycleVariabilityRule,
+  irregularCyclesRule,
+  longCyclesRule,
+  nextPeriodRule,
+  regularCyclesRule,
+  shortCyclesRule
+} from './cycleRules';
+import {
+  fertileWindowRule,
+  intercourseTimingRule,
+  thermalShiftRule,
+  unprotectedFertileSexRule,
+  upcomingFertileWindowRule
+} from './fertilityRules';
+import {
+  dominantMoodRule,
+  moodCycleCorrelationRule,
+  moodSwingRule,
+  negativeMoodRule
+} from './moodRules';
+import {
+  concerningSymptomRule,
+  mostCommonSymptomRule,
+  multipleSymptomsRule,
+  premenstrualSymptomRule,
+  symptomCycleCorrelationRule
+} from './symptomRules';
+import {
+  highTemperatureRule,
+  lowTemperatureVariationRule,
+  temperatureCycleCorrelationRule
+} from './temperatureRules';
+
+/**
+ * Every built-in rule, in the order its insights are generated
+ */
+export const DEFAULT_INSIGHT_RULES: InsightRule[] = [
+  // Patterns
+  regularCyclesRule,
+  irregularCyclesRule,
+  mostCommonSymptomRule,
+  premenstrualSymptomRule,
+  symptomCycleCorrelationRule,
+  dominantMoodRule,
+  moodCycleCorrelationRule,
+  thermalShiftRule,
+  temperatureCycleCorrelationRule,
+  fertileWindowRule,
+  intercourseTimingRule,
+  // Early warnings
+  prolongedBleedingRule,
+  frequentBleedingRule,
+  concerningSymptomRule,
+  multipleSymptomsRule,
+  shortCyclesRule,
+  longCyclesRule,
+  cycleVariabilityRule,
+  highTemperatureRule,
+  lowTemperatureVariationRule,
+  negativeMoodRule,
+  moodSwingRule,
+  unprotectedFertileSexRule,
+  // Predictions
+  nextPeriodRule,
+  upcomingFertileWindowRule
+];
+
+export function createDefaultRuleRegistry(): InsightRuleRegistry {
+  return new InsightRuleRegistry(DEFAULT_INSIGHT_RULES);
+}
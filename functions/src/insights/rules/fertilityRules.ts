@@ -0,0 +1,267 @@
+import * as admin from 'firebase-admin';
+import { DailyLog, HealthGoal, InsightType } from '../../types';
+import { getCycleBounds, isDayInCycle } from '../../cycles/cycleBounds';
+import { CyclePhaseAnnotator } from '../../cycles/cyclePhaseAnnotator';
+import { epochDayToIsoDate, toEpochDay } from '../../utils/dateUtils';
+import { mean, median, roundTo } from '../../utils/statistics';
+import { toCelsius } from '../../utils/temperature';
+import { defineRule, hasLogField } from './insightRule';
+import { logIdsAroundOvulation } from './ruleHelpers';
+
+export const thermalShiftRule = defineRule({
+  id: 'bbt.thermalShift',
+  version: 1,
+  category: 'pattern',
+  type: InsightType.PATTERN_RECOGNITION,
+  description: 'Charted cycles whose BBT shift confirmed ovulation (found by the OvulationDetector)',
+  requiredFields: ['bbt', 'cycles'],
+  sufficiency: { minFieldLogs: { bbt: 20 } },
+  // Enough readings for the six-reading coverline plus three high readings
+  thresholds: { minChartedReadings: 9 },
+  actionable: false,
+  evaluate: (context, thresholds) => {
+    const bbtLogs = context.dailyLogs.filter(log => hasLogField(log, 'bbt'));
+
+    // Only cycles charted well enough for the 3-over-6 rule can show a shift
+    const chartedCycles = context.cycles.filter(cycle => {
+      const bounds = getCycleBounds(cycle);
+      return bbtLogs.filter(log => isDayInCycle(toEpochDay(log.date), bounds)).length >= thresholds.minChartedReadings;
+    });
+    const shiftCycles = chartedCycles.filter(cycle =>
+      cycle.confirmedOvulationDate && cycle.ovulationSignals?.includes('BBT')
+    );
+    if (shiftCycles.length === 0) {return [];}
+
+    const averageBbt = mean(bbtLogs.map(log => toCelsius(log.bbt as number)));
+
+    return [{
+      values: {
+        shiftCycles: shiftCycles.length,
+        chartedCycles: chartedCycles.length,
+        averageBbt
+      },
+      relatedLogIds: logIdsAroundOvulation(bbtLogs, shiftCycles, 3, 3),
+      evidence: {
+        metrics: {
+          shiftCycles: shiftCycles.length,
+          chartedCycles: chartedCycles.length,
+          averageBbtCelsius: roundTo(averageBbt, 2)
+        },
+        cycleIds: shiftCycles.map(cycle => cycle.id)
+      },
+      confidence: 0.7 + 0.2 * (shiftCycles.length / chartedCycles.length)
+    }];
+  }
+});
+
+export const fertileWindowRule = defineRule({
+  id: 'fertility.window',
+  version: 1,
+  category: 'pattern',
+  type: InsightType.FERTILITY_WINDOW,
+  description: 'Typical ovulation day and fertile window from cycles with confirmed ovulation',
+  requiredFields: ['cycles'],
+  sufficiency: {},
+  // Sperm survival sets the start of the fertile window relative to ovulation
+  thresholds: { fertileDaysBeforeOvulation: 5 },
+  actionable: true,
+  evaluate: (context, thresholds) => {
+    const confirmedCycles = context.cycles.filter(cycle => cycle.confirmedOvulationDate);
+    if (confirmedCycles.length === 0) {return [];}
+
+    const ovulationCycleDays = confirmedCycles.map(cycle =>
+      toEpochDay(cycle.confirmedOvulationDate as admin.firestore.Timestamp) - toEpochDay(cycle.startDate) + 1
+    );
+    const ovulationDay = Math.round(median(ovulationCycleDays));
+    const windowStart = Math.max(1, ovulationDay - thresholds.fertileDaysBeforeOvulation);
+
+    const multiSignalCycles = confirmedCycles.filter(cycle => (cycle.ovulationSignals?.length ?? 0) >= 2);
+    const lutealLengths = confirmedCycles
+      .filter(cycle => cycle.lutealPhaseLength && cycle.lutealPhaseLength > 0)
+      .map(cycle => cycle.lutealPhaseLength as number);
+
+    const fertilitySignalLogs = context.dailyLogs.filter(log => log.bbt || log.opkResult || log.cervicalMucus);
+
+    return [{
+      values: {
+        goal: context.goal,
+        confirmedCycles: confirmedCycles.length,
+        ovulationDay,
+        windowStart,
+        multiSignalCycles: multiSignalCycles.length,
+        // 0 leaves the luteal phase out of the text
+        averageLutealLength: lutealLengths.length > 0 ? Math.round(mean(lutealLengths)) : 0
+      },
+      relatedLogIds: logIdsAroundOvulation(fertilitySignalLogs, confirmedCycles, thresholds.fertileDaysBeforeOvulation, 1),
+      evidence: {
+        metrics: {
+          confirmedCycles: confirmedCycles.length,
+          ovulationDay,
+          windowStart,
+          multiSignalCycles: multiSignalCycles.length,
+          ...(lutealLengths.length > 0 ? { averageLutealLength: roundTo(mean(lutealLengths), 1) } : {})
+        },
+        cycleIds: confirmedCycles.map(cycle => cycle.id),
+        series: { ovulationCycleDay: ovulationCycleDays }
+      },
+      confidence: Math.min(
+        0.95,
+        0.55 + 0.1 * Math.min(confirmedCycles.length, 3) + 0.1 * (multiSignalCycles.length / confirmedCycles.length)
+      )
+    }];
+  }
+});
+
+// Protection.name values stored by the apps that prevent pregnancy reliably; WITHDRAWAL and NONE do not
+const RELIABLE_PROTECTION = ['CONDOM', 'BIRTH_CONTROL'];
+
+export const upcomingFertileWindowRule = defineRule({
+  id: 'fertility.upcomingWindow',
+  version: 1,
+  category: 'prediction',
+  type: InsightType.FERTILITY_WINDOW,
+  description: 'Fertile days ahead in the open cycle, widened by the forecast uncertainty when avoiding pregnancy',
+  requiredFields: ['prediction'],
+  sufficiency: {},
+  thresholds: { fertileDaysBeforeOvulation: 5, daysAfterOvulation: 1 },
+  actionable: true,
+  goals: [HealthGoal.CONCEPTION, HealthGoal.CONTRACEPTION],
+  subjectParams: [],
+  evaluate: (context, thresholds) => {
+    const prediction = context.prediction;
+    if (!prediction || prediction.overdue) {return [];}
+
+    const ovulationEpochDay = toEpochDay(prediction.predictedOvulationDate);
+    // Avoiding pregnancy, a day too many beats a day too few
+    const margin = context.goal === HealthGoal.CONTRACEPTION ? prediction.uncertaintyDays : 0;
+    const startEpochDay = ovulationEpochDay - thresholds.fertileDaysBeforeOvulation - margin;
+    const endEpochDay = ovulationEpochDay + (margin > 0 ? thresholds.daysAfterOvulation + margin : 0);
+    if (endEpochDay < context.todayEpochDay) {return [];}
+
+    return [{
+      values: {
+        goal: context.goal,
+        daysUntil: Math.max(0, startEpochDay - context.todayEpochDay),
+        startDate: epochDayToIsoDate(startEpochDay),
+        endDate: epochDayToIsoDate(endEpochDay)
+      },
+      params: { cycleId: prediction.cycleId },
+      relatedLogIds: [],
+      evidence: {
+        metrics: {
+          ovulationCycleDay: ovulationEpochDay - toEpochDay(prediction.currentCycleStart) + 1,
+          uncertaintyDays: prediction.uncertaintyDays,
+          marginDays: margin
+        },
+        cycleIds: [prediction.cycleId],
+        dayRange: { startEpochDay, endEpochDay }
+      },
+      confidence: prediction.confidence
+    }];
+  }
+});
+
+export const intercourseTimingRule = defineRule({
+  id: 'fertility.intercourseTiming',
+  version: 1,
+  category: 'pattern',
+  type: InsightType.FERTILITY_WINDOW,
+  description: 'Cycles with confirmed ovulation in which sex was logged in the fertile window',
+  requiredFields: ['sexualActivity', 'cycles'],
+  sufficiency: {},
+  // The three days up to ovulation carry the highest chance of conception
+  thresholds: { fertileDaysBeforeOvulation: 5, peakDaysBeforeOvulation: 2 },
+  actionable: true,
+  goals: [HealthGoal.CONCEPTION],
+  evaluate: (context, thresholds) => {
+    const activityLogs = context.dailyLogs.filter(log => hasLogField(log, 'sexualActivity'));
+
+    // Cycles without any sex logged say nothing about timing; they may just not be tracked
+    const trackedCycles = context.cycles.filter(cycle => {
+      const bounds = getCycleBounds(cycle);
+      return cycle.confirmedOvulationDate && activityLogs.some(log => isDayInCycle(toEpochDay(log.date), bounds));
+    });
+    if (trackedCycles.length === 0) {return [];}
+
+    const windowLogIds: string[] = [];
+    const timed = trackedCycles.map(cycle => {
+      const ovulationEpochDay = toEpochDay(cycle.confirmedOvulationDate as admin.firestore.Timestamp);
+      const windowLogs = activityLogs.filter(log => {
+        const daysBefore = ovulationEpochDay - toEpochDay(log.date);
+        return daysBefore >= 0 && daysBefore <= thresholds.fertileDaysBeforeOvulation;
+      });
+      windowLogIds.push(...windowLogs.map(log => log.id));
+
+      return {
+        inWindow: windowLogs.length > 0,
+        inPeak: windowLogs.some(log => ovulationEpochDay - toEpochDay(log.date) <= thresholds.peakDaysBeforeOvulation)
+      };
+    });
+    const timedCycles = timed.filter(cycle => cycle.inWindow).length;
+    const peakCycles = timed.filter(cycle => cycle.inPeak).length;
+
+    return [{
+      values: { timedCycles, trackedCycles: trackedCycles.length, peakCycles },
+      relatedLogIds: windowLogIds,
+      evidence: {
+        metrics: { timedCycles, trackedCycles: trackedCycles.length, peakCycles },
+        cycleIds: trackedCycles.map(cycle => cycle.id),
+        series: {
+          inFertileWindow: timed.map(cycle => Number(cycle.inWindow)),
+          inPeakDays: timed.map(cycle => Number(cycle.inPeak))
+        }
+      },
+      confidence: Math.min(0.9, 0.6 + 0.1 * trackedCycles.length)
+    }];
+  }
+});
+
+export const unprotectedFertileSexRule = defineRule({
+  id: 'fertility.unprotectedSex',
+  version: 1,
+  category: 'warning',
+  type: InsightType.EARLY_WARNING,
+  description: 'Recent sex without reliable protection on likely fertile days, with a wide window around ovulation',
+  requiredFields: ['sexualActivity', 'cycles'],
+  sufficiency: {},
+  // Projected ovulation can be off by days, so its window is widened further
+  thresholds: { fertileDaysBeforeOvulation: 6, fertileDaysAfterOvulation: 2, projectedMarginDays: 2, lookbackDays: 60 },
+  actionable: true,
+  goals: [HealthGoal.CONTRACEPTION],
+  evaluate: (context, thresholds) => {
+    const annotator = new CyclePhaseAnnotator(context.cycles, context.cyclePreferences);
+    const since = context.todayEpochDay - thresholds.lookbackDays;
+
+    const fertileLogs: Array<{ log: DailyLog; confirmed: boolean }> = [];
+    context.dailyLogs.forEach(log => {
+      const day = toEpochDay(log.date);
+      const protection = log.sexualActivity?.protection ?? [];
+      if (!hasLogField(log, 'sexualActivity') || day < since || protection.some(item => RELIABLE_PROTECTION.includes(item))) {
+        return;
+      }
+
+      const cycleId = context.phases.get(log.id)?.cycleId;
+      const ovulation = cycleId ? annotator.ovulationOf(cycleId) : undefined;
+      if (!ovulation) {return;}
+
+      const margin = ovulation.basis === 'confirmed' ? 0 : thresholds.projectedMarginDays;
+      if (day >= ovulation.epochDay - thresholds.fertileDaysBeforeOvulation - margin &&
+        day <= ovulation.epochDay + thresholds.fertileDaysAfterOvulation + margin) {
+        fertileLogs.push({ log, confirmed: ovulation.basis === 'confirmed' });
+      }
+    });
+    if (fertileLogs.length === 0) {return [];}
+
+    const withdrawal = fertileLogs.filter(({ log }) => log.sexualActivity?.protection.includes('WITHDRAWAL')).length;
+    const confirmed = fertileLogs.filter(entry => entry.confirmed).length;
+
+    return [{
+      values: { count: fertileLogs.length, withdrawal, lookbackDays: thresholds.lookbackDays },
+      relatedLogIds: fertileLogs.map(({ log }) => log.id),
+      evidence: {
+        metrics: { unprotectedFertileDays: fertileLogs.length, withdrawalDays: withdrawal, confirmedOvulationDays: confirmed }
+      },
+      confidence: 0.6 + 0.3 * (confirmed / fertileLogs.length)
+    }];
+  }
+});
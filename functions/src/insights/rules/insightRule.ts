@@ -0,0 +1,151 @@
+import { CyclePrediction } from '../../cycles/cyclePredictor';
+import { PhaseAnnotation } from '../../cycles/cyclePhaseAnnotator';
+import { Cycle, CyclePreferences, DailyLog, HealthGoal, InsightType, PeriodFlow, TemperatureUnit } from '../../types';
+import { MessageParams } from '../messages/messageFormat';
+
+/**
+ * pattern and warning rules back PatternAnalyzer and EarlyWarningDetector; prediction rules
+ * turn the cycle forecast into insights
+ */
+export type RuleCategory = 'pattern' | 'warning' | 'prediction';
+
+export type RuleEnvironment = 'production' | 'staging' | 'development';
+
+/**
+ * Daily log fields a rule reads, plus the derived inputs in the context
+ */
+export type LogField = 'periodFlow' | 'symptoms' | 'mood' | 'bbt' | 'cervicalMucus' | 'opkResult' | 'sexualActivity';
+export type RuleDataField = LogField | 'cycles' | 'phases' | 'prediction';
+
+export type RuleThresholds = Record<string, number>;
+
+/**
+ * Accepted range for a threshold set from remote configuration
+ */
+export interface ThresholdBounds {
+  min: number;
+  max: number;
+  integer?: boolean;
+}
+
+/**
+ * Minimum data before a rule is evaluated at all
+ */
+export interface DataSufficiency {
+  minLogs?: number;
+  /** Logs that carry each field (periodFlow NONE and empty symptom lists do not count) */
+  minFieldLogs?: Partial<Record<LogField, number>>;
+  /** Cycles with a known cycleLength */
+  minCompletedCycles?: number;
+}
+
+/**
+ * Everything a rule may read. Built once per user run.
+ */
+export interface InsightRuleContext {
+  userId: string;
+  dailyLogs: DailyLog[];
+  cycles: Cycle[];
+  /** Phase of each log, keyed by log id */
+  phases: Map<string, PhaseAnnotation>;
+  temperatureUnit: TemperatureUnit;
+  /** BCP 47 locale insight text is rendered in */
+  locale: string;
+  cyclePreferences: CyclePreferences;
+  /** Forecast for the open cycle, when one is active */
+  prediction?: CyclePrediction | null;
+  /** User.primaryGoal; selects goal-specific rules and wording */
+  goal: HealthGoal;
+  /** Today in the user's time zone */
+  todayEpochDay: number;
+}
+
+/**
+ * Data behind a finding; the engine adds thresholds and the date range
+ */
+export interface RuleEvidence {
+  metrics: Record<string, number>;
+  cycleIds?: string[];
+  series?: Record<string, number[]>;
+  /** Epoch days, for findings about days other than those of their logs and cycles */
+  dayRange?: { startEpochDay: number; endEpochDay: number };
+}
+
+/**
+ * One insight-worthy result of a rule
+ */
+export interface RuleFinding {
+  /** Arguments of the rule's message */
+  values: MessageParams;
+  /** Distinguishes findings of one rule (e.g. the symptom); part of the insight fingerprint */
+  params?: Record<string, string>;
+  relatedLogIds: string[];
+  evidence: RuleEvidence;
+  confidence: number;
+}
+
+/**
+ * Insight text comes from the catalog message insight.{id} (see insightMessageKey)
+ */
+export interface InsightRule<T extends RuleThresholds = RuleThresholds> {
+  /** Stable id, stored on every insight as ruleId */
+  id: string;
+  /** Bump when the logic or thresholds change meaning; stored as ruleVersion */
+  version: number;
+  category: RuleCategory;
+  type: InsightType;
+  description: string;
+  requiredFields: RuleDataField[];
+  sufficiency: DataSufficiency;
+  /** Default thresholds; configuration may override individual values */
+  thresholds: T;
+  /** Thresholds that may be overridden from configuration, with their accepted ranges */
+  thresholdBounds?: { [K in keyof T]?: ThresholdBounds };
+  actionable: boolean;
+  /** Environments the rule runs in; all when omitted */
+  environments?: RuleEnvironment[];
+  /** Goals of the users the rule runs for; all when omitted */
+  goals?: HealthGoal[];
+  /**
+   * Params naming what an insight is about: a new insight with the same values for them
+   * supersedes the old one. Empty for rules reporting one insight at a time; when omitted,
+   * insights with other params are unrelated and expire on their own.
+   */
+  subjectParams?: string[];
+  evaluate(context: InsightRuleContext, thresholds: T): RuleFinding[];
+}
+
+/**
+ * Helper that keeps the threshold type of a rule literal
+ */
+export function defineRule<T extends RuleThresholds>(rule: InsightRule<T>): InsightRule<T> {
+  return rule;
+}
+
+/**
+ * Catalog key of a rule's message
+ */
+export function insightMessageKey(ruleId: string): string {
+  return `insight.${ruleId}`;
+}
+
+/**
+ * Whether a rule runs for users with the goal
+ */
+export function appliesToGoal(rule: InsightRule, goal: HealthGoal): boolean {
+  return !rule.goals || rule.goals.includes(goal);
+}
+
+/**
+ * Whether a log carries a value for the field
+ */
+export function hasLogField(log: DailyLog, field: LogField): boolean {
+  switch (field) {
+    case 'periodFlow': return log.periodFlow !== undefined && log.periodFlow !== PeriodFlow.NONE;
+    case 'symptoms': return (log.symptoms?.length ?? 0) > 0;
+    case 'bbt': return (log.bbt ?? 0) > 0;
+    case 'sexualActivity': return log.sexualActivity?.occurred === true;
+    default: return log[field] !== undefined;
+  }
+}
+
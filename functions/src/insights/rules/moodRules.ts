@@ -0,0 +1,142 @@
+import { PhaseAnnotation } from '../../cycles/cyclePhaseAnnotator';
+import { InsightType, Mood } from '../../types';
+import { roundTo } from '../../utils/statistics';
+import { associationFinding, findCycleAssociations } from '../cycleCorrelation';
+import { defineRule } from './insightRule';
+import { PhaseOccurrence } from './ruleHelpers';
+
+const POSITIVE_MOODS: string[] = [Mood.HAPPY, Mood.ENERGETIC, Mood.CALM];
+const NEGATIVE_MOODS: string[] = [Mood.SAD, Mood.ANXIOUS, Mood.IRRITABLE, Mood.DEPRESSED];
+
+export const dominantMoodRule = defineRule({
+  id: 'mood.dominant',
+  version: 1,
+  category: 'pattern',
+  type: InsightType.PATTERN_RECOGNITION,
+  description: 'The mood logged on most days',
+  requiredFields: ['mood'],
+  sufficiency: { minFieldLogs: { mood: 21 } },
+  /** Percentage of mood entries, exclusive */
+  thresholds: { minPercentOfEntries: 40 },
+  actionable: false,
+  subjectParams: [],
+  evaluate: (context, thresholds) => {
+    const moodCounts: { [mood: string]: number } = {};
+    context.dailyLogs.forEach(log => {
+      if (log.mood) {moodCounts[log.mood] = (moodCounts[log.mood] || 0) + 1;}
+    });
+
+    const totalMoodEntries = Object.values(moodCounts).reduce((sum, count) => sum + count, 0);
+    const [mood, count] = Object.entries(moodCounts).sort(([,a], [,b]) => b - a)[0];
+    const percent = Math.round((count / totalMoodEntries) * 100);
+    if (percent <= thresholds.minPercentOfEntries) {return [];}
+
+    return [{
+      values: { mood, percent },
+      params: { mood },
+      relatedLogIds: context.dailyLogs.filter(log => log.mood === mood).map(log => log.id),
+      evidence: { metrics: { percent, days: count, moodEntries: totalMoodEntries } },
+      confidence: 0.7
+    }];
+  }
+});
+
+export const moodCycleCorrelationRule = defineRule({
+  id: 'mood.cycleCorrelation',
+  version: 1,
+  category: 'pattern',
+  type: InsightType.PATTERN_RECOGNITION,
+  description: 'Moods significantly more likely in one cycle phase (Fisher exact test, false discovery rate controlled)',
+  requiredFields: ['mood', 'phases'],
+  sufficiency: { minFieldLogs: { mood: 10 } },
+  thresholds: { minOccurrences: 4, minCycles: 2, minRelativeRisk: 2, maxFalseDiscoveryRate: 0.05 },
+  thresholdBounds: {
+    minRelativeRisk: { min: 1.2, max: 10 },
+    maxFalseDiscoveryRate: { min: 0.001, max: 0.2 }
+  },
+  actionable: false,
+  subjectParams: ['mood'],
+  evaluate: (context, thresholds) => {
+    const loggedDays = new Map<string, PhaseAnnotation>();
+    const occurrences: PhaseOccurrence[] = [];
+    context.dailyLogs.forEach(log => {
+      const annotation = context.phases.get(log.id);
+      if (!log.mood || !annotation) {return;}
+      loggedDays.set(log.id, annotation);
+      occurrences.push({ value: log.mood, logId: log.id, annotation });
+    });
+
+    return findCycleAssociations(occurrences, loggedDays, thresholds)
+      .map(association => associationFinding('mood', association, loggedDays));
+  }
+});
+
+export const negativeMoodRule = defineRule({
+  id: 'mood.negative',
+  version: 1,
+  category: 'warning',
+  type: InsightType.EARLY_WARNING,
+  description: 'Negative moods on a large share of days',
+  requiredFields: ['mood'],
+  sufficiency: { minFieldLogs: { mood: 20 } },
+  /** Percentage of mood entries, exclusive */
+  thresholds: { minPercentOfEntries: 40 },
+  thresholdBounds: { minPercentOfEntries: { min: 10, max: 90 } },
+  actionable: true,
+  evaluate: (context, thresholds) => {
+    const moodLogs = context.dailyLogs.filter(log => log.mood);
+    const negativeMoodLogs = moodLogs.filter(log => NEGATIVE_MOODS.includes(log.mood as string));
+    const percent = (negativeMoodLogs.length / moodLogs.length) * 100;
+    if (percent <= thresholds.minPercentOfEntries) {return [];}
+
+    return [{
+      values: { percent: Math.round(percent) },
+      relatedLogIds: negativeMoodLogs.map(log => log.id),
+      evidence: {
+        metrics: { percent: roundTo(percent, 1), negativeDays: negativeMoodLogs.length, moodEntries: moodLogs.length }
+      },
+      confidence: 0.7
+    }];
+  }
+});
+
+export const moodSwingRule = defineRule({
+  id: 'mood.swings',
+  version: 1,
+  category: 'warning',
+  type: InsightType.EARLY_WARNING,
+  description: 'Frequent switches between positive and negative moods',
+  requiredFields: ['mood'],
+  sufficiency: { minFieldLogs: { mood: 20 } },
+  /** Percentage of consecutive mood entries, exclusive */
+  thresholds: { minPercentOfChanges: 30 },
+  thresholdBounds: { minPercentOfChanges: { min: 10, max: 90 } },
+  actionable: true,
+  evaluate: (context, thresholds) => {
+    const moodLogs = context.dailyLogs.filter(log => log.mood);
+
+    // The log on which each swing was recorded
+    const swingLogIds: string[] = [];
+    for (let i = 1; i < moodLogs.length; i++) {
+      if (isMoodSwing(moodLogs[i - 1].mood as string, moodLogs[i].mood as string)) {swingLogIds.push(moodLogs[i].id);}
+    }
+
+    const percent = (swingLogIds.length / (moodLogs.length - 1)) * 100;
+    if (percent <= thresholds.minPercentOfChanges) {return [];}
+
+    return [{
+      values: { percent: Math.round(percent) },
+      relatedLogIds: swingLogIds,
+      evidence: { metrics: { percent: roundTo(percent, 1), swings: swingLogIds.length, moodEntries: moodLogs.length } },
+      confidence: 0.65
+    }];
+  }
+});
+
+/**
+ * Whether two consecutive moods swing between positive and negative
+ */
+export function isMoodSwing(prevMood: string, currentMood: string): boolean {
+  return (POSITIVE_MOODS.includes(prevMood) && NEGATIVE_MOODS.includes(currentMood)) ||
+    (NEGATIVE_MOODS.includes(prevMood) && POSITIVE_MOODS.includes(currentMood));
+}
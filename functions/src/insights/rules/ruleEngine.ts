@@ -0,0 +1,308 @@
+import * as functions from 'firebase-functions';
+import { Cycle, CyclePreferences, DailyLog, HealthGoal, Insight, InsightEvidence, TemperatureUnit } from '../../types';
+import { CyclePrediction } from '../../cycles/cyclePredictor';
+import { CyclePhaseAnnotator } from '../../cycles/cyclePhaseAnnotator';
+import { CycleReconstructor } from '../../cycles/cycleReconstructor';
+import { getCycleBounds } from '../../cycles/cycleBounds';
+import { DEFAULT_CYCLE_PREFERENCES } from '../../data/userSettingsRepository';
+import {
+  InsightRule,
+  InsightRuleContext,
+  LogField,
+  RuleCategory,
+  RuleFinding,
+  RuleThresholds,
+  appliesToGoal,
+  hasLogField,
+  insightMessageKey
+} from './insightRule';
+import { InsightRuleRegistry, RuleSelection, resolveRuleSelection } from './ruleRegistry';
+import { createDefaultRuleRegistry } from './defaultRules';
+import { InsightRuleConfig } from '../../data/insightRuleConfigRepository';
+import { DEFAULT_TIME_ZONE, epochDayToIsoDate, localDateTime, toEpochDay } from '../../utils/dateUtils';
+import { DEFAULT_LOCALE, MessageRenderer } from '../messages/messageCatalog';
+import { DEFAULT_HEALTH_GOAL, goalPriority } from '../goalStrategies';
+
+export interface RuleEngineOptions extends RuleSelection {
+  /** Per-rule threshold values that replace the rule defaults */
+  thresholdOverrides: Record<string, Partial<RuleThresholds>>;
+}
+
+/**
+ * Engine options for the deployment's rule selection combined with remote configuration
+ */
+export function ruleEngineOptions(
+  config: InsightRuleConfig,
+  selection: RuleSelection = resolveRuleSelection()
+): RuleEngineOptions {
+  return {
+    environment: selection.environment,
+    disabledRuleIds: [...selection.disabledRuleIds, ...config.disabledRuleIds],
+    thresholdOverrides: config.thresholdOverrides
+  };
+}
+
+export interface RuleContextInput {
+  userId: string;
+  dailyLogs: DailyLog[];
+  cycles: Cycle[];
+  temperatureUnit?: TemperatureUnit;
+  locale?: string;
+  cyclePreferences?: CyclePreferences;
+  prediction?: CyclePrediction | null;
+  goal?: HealthGoal;
+  /** Today in UTC when not given */
+  todayEpochDay?: number;
+}
+
+/**
+ * Build the context rules read. Logs are labelled with their cycle phase; without stored
+ * cycles, phases come from cycles derived from period logs.
+ */
+export function buildRuleContext(input: RuleContextInput): InsightRuleContext {
+  const cyclePreferences = input.cyclePreferences ?? DEFAULT_CYCLE_PREFERENCES;
+  const phaseCycles = input.cycles.length > 0
+    ? input.cycles
+    : new CycleReconstructor().reconstruct(input.userId, input.dailyLogs).cycles;
+
+  return {
+    userId: input.userId,
+    dailyLogs: input.dailyLogs,
+    cycles: input.cycles,
+    phases: new CyclePhaseAnnotator(phaseCycles, cyclePreferences).annotateLogs(input.dailyLogs),
+    temperatureUnit: input.temperatureUnit ?? TemperatureUnit.CELSIUS,
+    locale: input.locale ?? DEFAULT_LOCALE,
+    cyclePreferences,
+    prediction: input.prediction ?? null,
+    goal: input.goal ?? DEFAULT_HEALTH_GOAL,
+    todayEpochDay: input.todayEpochDay ?? localDateTime(Date.now(), DEFAULT_TIME_ZONE).epochDay
+  };
+}
+
+/**
+ * Why the context lacks the data a rule needs, or null when the rule can be evaluated
+ */
+export function insufficientDataReason(rule: InsightRule, context: InsightRuleContext): string | null {
+  const fieldCount = (field: LogField): number => context.dailyLogs.filter(log => hasLogField(log, field)).length;
+
+  for (const field of rule.requiredFields) {
+    switch (field) {
+      case 'cycles':
+        if (context.cycles.length === 0) {return 'no cycles';}
+        break;
+      case 'phases':
+        if (context.phases.size === 0) {return 'no logs with a cycle phase';}
+        break;
+      case 'prediction':
+        if (!context.prediction) {return 'no active prediction';}
+        break;
+      default:
+        if (fieldCount(field) === 0) {return `no ${field} logs`;}
+    }
+  }
+
+  const { minLogs, minFieldLogs, minCompletedCycles } = rule.sufficiency;
+  if (minLogs !== undefined && context.dailyLogs.length < minLogs) {
+    return `only ${context.dailyLogs.length} logs (${minLogs} needed)`;
+  }
+  if (minCompletedCycles !== undefined) {
+    const completed = context.cycles.filter(cycle => cycle.cycleLength && cycle.cycleLength > 0).length;
+    if (completed < minCompletedCycles) {return `only ${completed} completed cycles (${minCompletedCycles} needed)`;}
+  }
+
+  for (const [field, min] of Object.entries(minFieldLogs ?? {})) {
+    const count = fieldCount(field as LogField);
+    if (count < (min as number)) {return `only ${count} ${field} logs (${min} needed)`;}
+  }
+  return null;
+}
+
+/**
+ * Whether the context holds the data a rule needs before it is evaluated
+ */
+export function hasSufficientData(rule: InsightRule, context: InsightRuleContext): boolean {
+  return insufficientDataReason(rule, context) === null;
+}
+
+/**
+ * fired: produced insights; noFinding: evaluated without a finding; the others were not
+ * evaluated or did not complete
+ */
+export type RuleOutcome = 'fired' | 'noFinding' | 'insufficientData' | 'failed' | 'disabled';
+
+export interface RuleDecision {
+  ruleId: string;
+  ruleVersion: number;
+  category: RuleCategory;
+  outcome: RuleOutcome;
+  insights: number;
+  reason?: string;
+  /** Thresholds the rule fired with */
+  thresholds?: RuleThresholds;
+}
+
+export interface RuleEvaluation {
+  insights: Insight[];
+  decisions: RuleDecision[];
+}
+
+/**
+ * Runs the enabled rules of a registry and turns their findings into insights
+ */
+export class InsightRuleEngine {
+  constructor(
+    private readonly registry: InsightRuleRegistry = createDefaultRuleRegistry(),
+    private readonly options: RuleEngineOptions = { ...resolveRuleSelection(), thresholdOverrides: {} },
+    private readonly messages: MessageRenderer = new MessageRenderer()
+  ) {}
+
+  /**
+   * Rules this engine runs, optionally limited to one category
+   */
+  rules(category?: RuleCategory): InsightRule[] {
+    return this.registry.enabledRules(this.options, category);
+  }
+
+  thresholdsFor(rule: InsightRule): RuleThresholds {
+    return { ...rule.thresholds, ...this.options.thresholdOverrides[rule.id] } as RuleThresholds;
+  }
+
+  /**
+   * Evaluate each enabled rule with enough data, optionally only the given rule ids. A
+   * failing rule is logged and skipped so it cannot take the others down with it.
+   */
+  evaluate(context: InsightRuleContext, category?: RuleCategory, ruleIds?: string[]): Insight[] {
+    return this.run(context, category, ruleIds).insights;
+  }
+
+  /**
+   * Evaluate like `evaluate`, also recording what was decided for every rule in scope,
+   * including disabled ones
+   */
+  run(context: InsightRuleContext, category?: RuleCategory, ruleIds?: string[]): RuleEvaluation {
+    const enabled = new Set(this.rules(category).map(rule => rule.id));
+    const evaluation: RuleEvaluation = { insights: [], decisions: [] };
+
+    this.registry.list(category)
+      .filter(rule => !ruleIds || ruleIds.includes(rule.id))
+      .forEach(rule => {
+        const decision: RuleDecision = {
+          ruleId: rule.id,
+          ruleVersion: rule.version,
+          category: rule.category,
+          outcome: 'noFinding',
+          insights: 0
+        };
+        evaluation.decisions.push(decision);
+
+        if (!enabled.has(rule.id)) {
+          decision.outcome = 'disabled';
+          decision.reason = this.options.disabledRuleIds.includes(rule.id)
+            ? 'disabled by configuration'
+            : `not enabled in ${this.options.environment}`;
+          return;
+        }
+        if (!appliesToGoal(rule, context.goal)) {
+          decision.outcome = 'disabled';
+          decision.reason = `not for the ${context.goal} goal`;
+          return;
+        }
+
+        const missing = insufficientDataReason(rule, context);
+        if (missing) {
+          decision.outcome = 'insufficientData';
+          decision.reason = missing;
+          return;
+        }
+
+        try {
+          const insights = this.evaluateRule(rule, context);
+          evaluation.insights.push(...insights);
+          decision.insights = insights.length;
+          if (insights.length > 0) {
+            decision.outcome = 'fired';
+            decision.thresholds = this.thresholdsFor(rule);
+          }
+        } catch (error) {
+          functions.logger.error('Insight rule failed', { userId: context.userId, ruleId: rule.id, error });
+          decision.outcome = 'failed';
+          decision.reason = error instanceof Error ? error.message : String(error);
+        }
+      });
+
+    return evaluation;
+  }
+
+  private evaluateRule(rule: InsightRule, context: InsightRuleContext): Insight[] {
+    const thresholds = this.thresholdsFor(rule);
+    const messageKey = insightMessageKey(rule.id);
+    const renderOptions = { locale: context.locale, temperatureUnit: context.temperatureUnit };
+
+    return rule.evaluate(context, thresholds).map(finding => ({
+      id: '',
+      userId: context.userId,
+      generatedDate: new Date(),
+      insightText: this.messages.render(messageKey, finding.values, renderOptions),
+      messageKey,
+      messageParams: finding.values,
+      locale: context.locale,
+      type: rule.type,
+      ruleId: rule.id,
+      ruleVersion: rule.version,
+      ...(finding.params ? { ruleParams: finding.params } : {}),
+      isRead: false,
+      relatedLogIds: finding.relatedLogIds,
+      evidence: buildEvidence(finding, thresholds, context),
+      confidence: finding.confidence,
+      priority: goalPriority(context.goal, rule.id),
+      actionable: rule.actionable
+    }));
+  }
+}
+
+/**
+ * Complete a finding's evidence with the thresholds applied and the days it covers
+ */
+function buildEvidence(finding: RuleFinding, thresholds: RuleThresholds, context: InsightRuleContext): InsightEvidence {
+  const { metrics, cycleIds = [], series, dayRange } = finding.evidence;
+  const range = dayRange ?? coveredDays(context, finding.relatedLogIds, cycleIds);
+
+  return {
+    metrics,
+    thresholds: { ...thresholds },
+    ...(range
+      ? { dateRange: { start: epochDayToIsoDate(range.startEpochDay), end: epochDayToIsoDate(range.endEpochDay) } }
+      : {}),
+    cycleIds,
+    ...(series ? { series } : {})
+  };
+}
+
+/**
+ * First and last day of the given logs and cycles; open cycles count from their start only
+ */
+function coveredDays(
+  context: InsightRuleContext,
+  logIds: string[],
+  cycleIds: string[]
+): { startEpochDay: number; endEpochDay: number } | undefined {
+  const logIdSet = new Set(logIds);
+  const cycleIdSet = new Set(cycleIds);
+  const days: number[] = [];
+
+  context.dailyLogs.forEach(log => {
+    if (logIdSet.has(log.id)) {days.push(toEpochDay(log.date));}
+  });
+  context.cycles.forEach(cycle => {
+    if (!cycleIdSet.has(cycle.id)) {return;}
+    const bounds = getCycleBounds(cycle);
+    days.push(bounds.startEpochDay);
+    if (bounds.nextStartEpochDay !== undefined) {days.push(bounds.nextStartEpochDay - 1);}
+  });
+  if (days.length === 0) {return undefined;}
+
+  return {
+    startEpochDay: days.reduce((min, day) => Math.min(min, day)),
+    endEpochDay: days.reduce((max, day) => Math.max(max, day))
+  };
+}
@@ -0,0 +1,61 @@
+import * as admin from 'firebase-admin';
+import { Cycle, CyclePhase, DailyLog } from '../../types';
+import { PhaseAnnotation } from '../../cycles/cyclePhaseAnnotator';
+import { toEpochDay } from '../../utils/dateUtils';
+import { mean, standardDeviation } from '../../utils/statistics';
+
+export interface PhaseOccurrence {
+  value: string;
+  logId: string;
+  annotation: PhaseAnnotation;
+}
+
+/**
+ * Lengths of cycles with a known length, with their ids, mean and standard deviation
+ */
+export function cycleLengthStats(
+  cycles: Cycle[]
+): { lengths: number[]; cycleIds: string[]; average: number; stdDev: number } {
+  const completed = cycles.filter(cycle => cycle.cycleLength && cycle.cycleLength > 0);
+  const lengths = completed.map(cycle => cycle.cycleLength as number);
+
+  return {
+    lengths,
+    cycleIds: completed.map(cycle => cycle.id),
+    average: lengths.length > 0 ? mean(lengths) : 0,
+    stdDev: lengths.length > 0 ? standardDeviation(lengths) : 0
+  };
+}
+
+/**
+ * Ids of logs from `daysBefore` to `daysAfter` around each cycle's confirmed ovulation
+ */
+export function logIdsAroundOvulation(logs: DailyLog[], cycles: Cycle[], daysBefore: number, daysAfter: number): string[] {
+  const ovulationDays = cycles
+    .filter(cycle => cycle.confirmedOvulationDate)
+    .map(cycle => toEpochDay(cycle.confirmedOvulationDate as admin.firestore.Timestamp));
+
+  return logs
+    .filter(log => {
+      const day = toEpochDay(log.date);
+      return ovulationDays.some(ovulationDay => day >= ovulationDay - daysBefore && day <= ovulationDay + daysAfter);
+    })
+    .map(log => log.id);
+}
+
+/**
+ * Phase name used in insight text, splitting the luteal phase into early and late
+ */
+export function phaseSegment(annotation: PhaseAnnotation): string {
+  if (annotation.phase === CyclePhase.LUTEAL) {
+    return annotation.lateLuteal ? 'late luteal' : 'early luteal';
+  }
+  return annotation.phase.toLowerCase();
+}
+
+/**
+ * Phase segment as a message parameter, e.g. late_luteal
+ */
+export function segmentKey(segment: string): string {
+  return segment.replace(/ /g, '_');
+}
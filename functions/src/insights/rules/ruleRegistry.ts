@@ -0,0 +1,75 @@
+import { InsightRule, RuleCategory, RuleEnvironment } from './insightRule';
+
+const RULE_ENVIRONMENTS: RuleEnvironment[] = ['production', 'staging', 'development'];
+
+/**
+ * Which registered rules run in this deployment
+ */
+export interface RuleSelection {
+  environment: RuleEnvironment;
+  /** Rule ids switched off regardless of environment */
+  disabledRuleIds: string[];
+}
+
+/**
+ * Selection from the function's environment: INSIGHT_RULES_ENV names the environment
+ * (the emulator defaults to development) and INSIGHT_RULES_DISABLED lists rule ids to skip
+ */
+export function resolveRuleSelection(env: NodeJS.ProcessEnv = process.env): RuleSelection {
+  const configured = env.INSIGHT_RULES_ENV as RuleEnvironment | undefined;
+  let environment: RuleEnvironment = env.FUNCTIONS_EMULATOR === 'true' ? 'development' : 'production';
+  if (configured && RULE_ENVIRONMENTS.includes(configured)) {environment = configured;}
+
+  return {
+    environment,
+    disabledRuleIds: (env.INSIGHT_RULES_DISABLED ?? '')
+      .split(',')
+      .map(id => id.trim())
+      .filter(id => id.length > 0)
+  };
+}
+
+/**
+ * The insight rules known to the generator, in evaluation order
+ */
+export class InsightRuleRegistry {
+  private readonly rules = new Map<string, InsightRule>();
+
+  constructor(rules: InsightRule[] = []) {
+    rules.forEach(rule => this.register(rule));
+  }
+
+  /**
+   * Add a rule; ids must be unique and versions positive integers
+   */
+  register(rule: InsightRule): this {
+    if (this.rules.has(rule.id)) {
+      throw new Error(`Insight rule ${rule.id} is already registered`);
+    }
+    if (!Number.isInteger(rule.version) || rule.version < 1) {
+      throw new Error(`Insight rule ${rule.id} has invalid version ${rule.version}`);
+    }
+
+    this.rules.set(rule.id, rule);
+    return this;
+  }
+
+  get(ruleId: string): InsightRule | undefined {
+    return this.rules.get(ruleId);
+  }
+
+  list(category?: RuleCategory): InsightRule[] {
+    const rules = Array.from(this.rules.values());
+    return category ? rules.filter(rule => rule.category === category) : rules;
+  }
+
+  /**
+   * Rules that run under the selection: available in its environment and not disabled
+   */
+  enabledRules(selection: RuleSelection, category?: RuleCategory): InsightRule[] {
+    return this.list(category).filter(rule =>
+      (!rule.environments || rule.environments.includes(selection.environment)) &&
+      !selection.disabledRuleIds.includes(rule.id)
+    );
+  }
+}
@@ -0,0 +1,199 @@
+import { PhaseAnnotation } from '../../cycles/cyclePhaseAnnotator';
+import { InsightType } from '../../types';
+import { associationFinding, findCycleAssociations } from '../cycleCorrelation';
+import { InsightRuleContext, defineRule } from './insightRule';
+import { PhaseOccurrence } from './ruleHelpers';
+
+export const mostCommonSymptomRule = defineRule({
+  id: 'symptom.mostCommon',
+  version: 1,
+  category: 'pattern',
+  type: InsightType.PATTERN_RECOGNITION,
+  description: 'The symptom logged on the most days',
+  requiredFields: ['symptoms'],
+  sufficiency: {},
+  /** Percentage of logged days, exclusive */
+  thresholds: { minPercentOfDays: 20 },
+  actionable: false,
+  subjectParams: [],
+  evaluate: (context, thresholds) => {
+    const symptomFrequency: { [symptom: string]: number } = {};
+    context.dailyLogs.forEach(log => {
+      log.symptoms?.forEach(symptom => {
+        symptomFrequency[symptom] = (symptomFrequency[symptom] || 0) + 1;
+      });
+    });
+
+    const topSymptom = Object.entries(symptomFrequency).sort(([,a], [,b]) => b - a)[0];
+    if (!topSymptom) {return [];}
+
+    const [symptom, days] = topSymptom;
+    const percent = Math.round((days / context.dailyLogs.length) * 100);
+    if (percent <= thresholds.minPercentOfDays) {return [];}
+
+    return [{
+      values: { symptom, percent },
+      params: { symptom },
+      relatedLogIds: context.dailyLogs.filter(log => log.symptoms?.includes(symptom)).map(log => log.id),
+      evidence: { metrics: { percent, days, loggedDays: context.dailyLogs.length } },
+      confidence: 0.7
+    }];
+  }
+});
+
+export const premenstrualSymptomRule = defineRule({
+  id: 'symptom.premenstrual',
+  version: 1,
+  category: 'pattern',
+  type: InsightType.PATTERN_RECOGNITION,
+  description: 'The symptom logged most in the week before periods',
+  requiredFields: ['symptoms', 'phases'],
+  sufficiency: {},
+  /** Premenstrual symptom entries across all symptoms, exclusive */
+  thresholds: { minOccurrences: 10 },
+  thresholdBounds: { minOccurrences: { min: 1, max: 100, integer: true } },
+  actionable: true,
+  subjectParams: [],
+  evaluate: (context, thresholds) => {
+    const top = topPremenstrualSymptom(context, thresholds.minOccurrences);
+    if (!top) {return [];}
+
+    return [{
+      values: { symptom: top.symptom },
+      params: { symptom: top.symptom },
+      relatedLogIds: top.logIds,
+      evidence: { metrics: { count: top.logIds.length, premenstrualEntries: top.totalEntries } },
+      confidence: 0.75
+    }];
+  }
+});
+
+export const symptomCycleCorrelationRule = defineRule({
+  id: 'symptom.cycleCorrelation',
+  version: 1,
+  category: 'pattern',
+  type: InsightType.PATTERN_RECOGNITION,
+  description: 'Symptoms significantly more likely in one cycle phase (Fisher exact test, false discovery rate controlled)',
+  requiredFields: ['symptoms', 'phases'],
+  sufficiency: { minFieldLogs: { symptoms: 10 } },
+  /** premenstrualMinOccurrences: symptom.premenstrual's minOccurrences; override both together */
+  thresholds: {
+    minOccurrences: 4,
+    minCycles: 2,
+    minRelativeRisk: 2,
+    maxFalseDiscoveryRate: 0.05,
+    premenstrualMinOccurrences: 10
+  },
+  thresholdBounds: {
+    minRelativeRisk: { min: 1.2, max: 10 },
+    maxFalseDiscoveryRate: { min: 0.001, max: 0.2 },
+    premenstrualMinOccurrences: { min: 1, max: 100, integer: true }
+  },
+  actionable: true,
+  subjectParams: ['symptom'],
+  evaluate: (context, thresholds) => {
+    // An empty list is a day logged without symptoms
+    const loggedDays = new Map<string, PhaseAnnotation>();
+    const occurrences: PhaseOccurrence[] = [];
+    context.dailyLogs.forEach(log => {
+      const annotation = context.phases.get(log.id);
+      if (!annotation || !log.symptoms) {return;}
+      loggedDays.set(log.id, annotation);
+      log.symptoms.forEach(symptom => occurrences.push({ value: symptom, logId: log.id, annotation }));
+    });
+
+    // The premenstrual insight already covers its symptom
+    const premenstrualSymptom = topPremenstrualSymptom(context, thresholds.premenstrualMinOccurrences)?.symptom;
+
+    return findCycleAssociations(occurrences, loggedDays, thresholds)
+      .filter(association => !(association.value === premenstrualSymptom && association.segment === 'late luteal'))
+      .map(association => associationFinding('symptom', association, loggedDays));
+  }
+});
+
+export const concerningSymptomRule = defineRule({
+  id: 'symptom.concerning',
+  version: 1,
+  category: 'warning',
+  type: InsightType.EARLY_WARNING,
+  description: 'Symptoms worth raising with a provider, logged repeatedly',
+  requiredFields: ['symptoms'],
+  sufficiency: {},
+  /** Symptoms worth raising with a provider, with the logged days before each is raised */
+  thresholds: { SEVERE_CRAMPS: 5, HEAVY_BLEEDING: 3, NAUSEA: 7, HEADACHE: 10, BREAST_PAIN: 8 },
+  thresholdBounds: {
+    SEVERE_CRAMPS: { min: 1, max: 60, integer: true },
+    HEAVY_BLEEDING: { min: 1, max: 60, integer: true },
+    NAUSEA: { min: 1, max: 60, integer: true },
+    HEADACHE: { min: 1, max: 60, integer: true },
+    BREAST_PAIN: { min: 1, max: 60, integer: true }
+  },
+  actionable: true,
+  evaluate: (context, thresholds) => {
+    return (Object.keys(thresholds) as Array<keyof typeof thresholds>).flatMap(symptom => {
+      const symptomLogs = context.dailyLogs.filter(log => log.symptoms?.includes(symptom));
+      if (symptomLogs.length < thresholds[symptom]) {return [];}
+
+      const percent = Math.round((symptomLogs.length / context.dailyLogs.length) * 100);
+
+      return [{
+        values: { symptom, count: symptomLogs.length, percent },
+        params: { symptom },
+        relatedLogIds: symptomLogs.map(log => log.id),
+        evidence: { metrics: { count: symptomLogs.length, percent, loggedDays: context.dailyLogs.length } },
+        confidence: 0.7
+      }];
+    });
+  }
+});
+
+export const multipleSymptomsRule = defineRule({
+  id: 'symptom.multiple',
+  version: 1,
+  category: 'warning',
+  type: InsightType.EARLY_WARNING,
+  description: 'Frequent days with several symptoms at once',
+  requiredFields: ['symptoms'],
+  sufficiency: {},
+  /** minShareOfDays is exclusive */
+  thresholds: { minSymptoms: 3, minShareOfDays: 0.2 },
+  thresholdBounds: {
+    minSymptoms: { min: 2, max: 10, integer: true },
+    minShareOfDays: { min: 0.05, max: 0.9 }
+  },
+  actionable: true,
+  evaluate: (context, thresholds) => {
+    const multiSymptomDays = context.dailyLogs.filter(log => (log.symptoms?.length ?? 0) >= thresholds.minSymptoms);
+    if (multiSymptomDays.length <= context.dailyLogs.length * thresholds.minShareOfDays) {return [];}
+
+    return [{
+      values: { count: multiSymptomDays.length, minSymptoms: thresholds.minSymptoms },
+      relatedLogIds: multiSymptomDays.map(log => log.id),
+      evidence: { metrics: { count: multiSymptomDays.length, loggedDays: context.dailyLogs.length } },
+      confidence: 0.65
+    }];
+  }
+});
+
+/**
+ * Most frequent symptom in the premenstrual days and the logs it was on, once premenstrual
+ * entries exceed the threshold
+ */
+function topPremenstrualSymptom(
+  context: InsightRuleContext,
+  minOccurrences: number
+): { symptom: string; logIds: string[]; totalEntries: number } | undefined {
+  const logIdsBySymptom: { [symptom: string]: string[] } = {};
+  context.dailyLogs.forEach(log => {
+    if (!context.phases.get(log.id)?.premenstrual) {return;}
+    log.symptoms?.forEach(symptom => {
+      (logIdsBySymptom[symptom] = logIdsBySymptom[symptom] || []).push(log.id);
+    });
+  });
+
+  const totalEntries = Object.values(logIdsBySymptom).reduce((sum, logIds) => sum + logIds.length, 0);
+  if (totalEntries <= minOccurrences) {return undefined;}
+
+  const [symptom, logIds] = Object.entries(logIdsBySymptom).sort(([,a], [,b]) => b.length - a.length)[0];
+  return { symptom, logIds, totalEntries };
+}
@@ -0,0 +1,132 @@
+import { InsightType } from '../../types';
+import { mean, roundTo, standardDeviation } from '../../utils/statistics';
+import { toCelsius } from '../../utils/temperature';
+import { TemperatureSample, findTemperatureDifferences, significanceConfidence, significant } from '../cycleCorrelation';
+import { defineRule, hasLogField } from './insightRule';
+import { segmentKey } from './ruleHelpers';
+
+export const highTemperatureRule = defineRule({
+  id: 'temperature.high',
+  version: 1,
+  category: 'warning',
+  type: InsightType.EARLY_WARNING,
+  description: 'Repeated readings well above the usual BBT',
+  requiredFields: ['bbt'],
+  sufficiency: { minFieldLogs: { bbt: 20 } },
+  /** minShareOfReadings is exclusive */
+  thresholds: { stdDevMultiplier: 2, minShareOfReadings: 0.1 },
+  thresholdBounds: {
+    stdDevMultiplier: { min: 1, max: 4 },
+    minShareOfReadings: { min: 0.01, max: 0.5 }
+  },
+  actionable: true,
+  evaluate: (context, thresholds) => {
+    // In Celsius, whatever unit was logged
+    const bbtLogs = context.dailyLogs.filter(log => hasLogField(log, 'bbt'));
+    const temperatures = bbtLogs.map(log => toCelsius(log.bbt as number));
+    const average = mean(temperatures);
+    const limit = average + thresholds.stdDevMultiplier * standardDeviation(temperatures);
+
+    const highTempLogs = bbtLogs.filter(log => toCelsius(log.bbt as number) > limit);
+    if (highTempLogs.length <= bbtLogs.length * thresholds.minShareOfReadings) {return [];}
+
+    return [{
+      values: { count: highTempLogs.length, limit },
+      relatedLogIds: highTempLogs.map(log => log.id),
+      evidence: {
+        metrics: {
+          count: highTempLogs.length,
+          readings: bbtLogs.length,
+          meanCelsius: roundTo(average, 2),
+          limitCelsius: roundTo(limit, 2)
+        },
+        series: { bbtCelsius: highTempLogs.map(log => roundTo(toCelsius(log.bbt as number), 2)) }
+      },
+      confidence: 0.7
+    }];
+  }
+});
+
+export const lowTemperatureVariationRule = defineRule({
+  id: 'temperature.lowVariation',
+  version: 1,
+  category: 'warning',
+  type: InsightType.EARLY_WARNING,
+  description: 'BBT too flat to show a biphasic pattern',
+  requiredFields: ['bbt'],
+  sufficiency: { minFieldLogs: { bbt: 20 } },
+  // Below this spread a chart shows no biphasic pattern (about 0.2°F)
+  thresholds: { minStdDevCelsius: 0.1 },
+  thresholdBounds: { minStdDevCelsius: { min: 0.02, max: 0.3 } },
+  actionable: true,
+  evaluate: (context, thresholds) => {
+    const bbtLogs = context.dailyLogs.filter(log => hasLogField(log, 'bbt'));
+    const temperatures = bbtLogs.map(log => toCelsius(log.bbt as number));
+    const stdDev = standardDeviation(temperatures);
+    if (stdDev >= thresholds.minStdDevCelsius) {return [];}
+
+    return [{
+      values: { stdDev, goal: context.goal },
+      relatedLogIds: bbtLogs.map(log => log.id),
+      evidence: {
+        metrics: { readings: bbtLogs.length, meanCelsius: roundTo(mean(temperatures), 2), stdDevCelsius: roundTo(stdDev, 3) },
+        series: { bbtCelsius: temperatures.map(temperature => roundTo(temperature, 2)) }
+      },
+      confidence: 0.65
+    }];
+  }
+});
+
+export const temperatureCycleCorrelationRule = defineRule({
+  id: 'temperature.cycleCorrelation',
+  version: 1,
+  category: 'pattern',
+  type: InsightType.PATTERN_RECOGNITION,
+  description: 'The cycle phase whose BBT differs most significantly from the rest (Mann-Whitney U test, false discovery rate controlled)',
+  requiredFields: ['bbt', 'phases'],
+  sufficiency: { minFieldLogs: { bbt: 20 } },
+  thresholds: { minReadings: 8, minDifferenceCelsius: 0.2, maxFalseDiscoveryRate: 0.05 },
+  thresholdBounds: {
+    minDifferenceCelsius: { min: 0.05, max: 1 },
+    maxFalseDiscoveryRate: { min: 0.001, max: 0.2 }
+  },
+  actionable: false,
+  subjectParams: [],
+  evaluate: (context, thresholds) => {
+    const samples: TemperatureSample[] = [];
+    context.dailyLogs.forEach(log => {
+      const annotation = context.phases.get(log.id);
+      if (annotation && hasLogField(log, 'bbt')) {
+        samples.push({ celsius: toCelsius(log.bbt as number), logId: log.id, annotation });
+      }
+    });
+
+    const difference = findTemperatureDifferences(samples, thresholds)[0];
+    if (!difference) {return [];}
+
+    return [{
+      values: {
+        phase: segmentKey(difference.segment),
+        direction: difference.differenceCelsius > 0 ? 'higher' : 'lower',
+        difference: Math.abs(difference.differenceCelsius),
+        firstCycleDay: difference.firstCycleDay,
+        lastCycleDay: difference.lastCycleDay
+      },
+      params: { phase: difference.segment },
+      relatedLogIds: difference.logIds,
+      evidence: {
+        metrics: {
+          differenceCelsius: roundTo(difference.differenceCelsius, 2),
+          pValue: significant(difference.pValue),
+          qValue: significant(difference.qValue),
+          tests: difference.tests,
+          readings: difference.readings,
+          otherReadings: difference.otherReadings,
+          firstCycleDay: difference.firstCycleDay,
+          lastCycleDay: difference.lastCycleDay
+        }
+      },
+      confidence: significanceConfidence(difference.qValue)
+    }];
+  }
+});
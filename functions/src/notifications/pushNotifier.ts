@@ -0,0 +1,208 @@
+import * as admin from 'firebase-admin';
+import * as functions from 'firebase-functions';
+import { DeviceTokenRepository } from '../data/deviceTokenRepository';
+import { ScheduledNotificationRepository } from '../data/scheduledNotificationRepository';
+import { UserSettingsRepository } from '../data/userSettingsRepository';
+import { MessageRenderer, resolveLocale } from '../insights/messages/messageCatalog';
+import { InsightType, NotificationPreferences, NotificationSetting, QuietHours, UserSettings } from '../types';
+import { localMinuteOfDay, resolveTimeZone } from '../utils/dateUtils';
+import { PushMessage, PushTransport } from './pushTransport';
+
+export type PushKind =
+  | 'earlyWarning' | 'periodPrediction' | 'fertileWindow' | 'periodReminder' | 'ovulationReminder' | 'dataExportReady';
+
+type NotificationSettingKey = keyof Omit<NotificationPreferences, 'globalNotificationsEnabled' | 'quietHours'>;
+
+interface PushKindPolicy {
+  /**
+   * The preference that turns the kind on or off, next to globalNotificationsEnabled; none for
+   * answers to a request of the user
+   */
+  preference?: NotificationSettingKey;
+  /** Sent at a time the user chose or asked for, so quiet hours and the rate limit do not apply */
+  reminder: boolean;
+}
+
+const PUSH_KIND_POLICIES: Record<PushKind, PushKindPolicy> = {
+  earlyWarning: { preference: 'insightNotifications', reminder: false },
+  periodPrediction: { preference: 'periodPredictionAlert', reminder: false },
+  fertileWindow: { preference: 'ovulationAlert', reminder: false },
+  periodReminder: { preference: 'periodPredictionAlert', reminder: true },
+  ovulationReminder: { preference: 'ovulationAlert', reminder: true },
+  dataExportReady: { reminder: true }
+};
+
+// Pattern insights wait for the app to be opened
+const INSIGHT_PUSH_KINDS: Partial<Record<string, PushKind>> = {
+  [InsightType.EARLY_WARNING]: 'earlyWarning',
+  [InsightType.CYCLE_PREDICTION]: 'periodPrediction',
+  [InsightType.FERTILITY_WINDOW]: 'fertileWindow'
+};
+
+export interface PushNotifierOptions {
+  /** Notifications a user gets at most within `rateWindowMs` */
+  maxPerWindow: number;
+  rateWindowMs: number;
+}
+
+export const DEFAULT_PUSH_NOTIFIER_OPTIONS: PushNotifierOptions = {
+  maxPerWindow: 3,
+  rateWindowMs: 24 * 60 * 60 * 1000
+};
+
+export type PushResult =
+  | { status: 'notPushed' }
+  | { status: 'disabled' }
+  | { status: 'deferred'; sendAt: Date }
+  | { status: 'noDevices' }
+  | { status: 'rateLimited' }
+  | { status: 'sent'; delivered: number; prunedTokens: number };
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Sends push notifications to a user's devices as their notification preferences allow:
+ * nothing while notifications or the kind are turned off and, apart from reminders and exports, later when
+ * it is quiet hours in the user's time zone and no more than `maxPerWindow` in a rolling window. Messages are generic,
+ * in the user's language, and their data only names the kind, so neither a lock screen nor FCM
+ * sees health details. Tokens FCM rejects as no longer registered are removed.
+ */
+export class PushNotifier {
+  private readonly settings: UserSettingsRepository;
+  private readonly tokens: DeviceTokenRepository;
+  private readonly scheduled: ScheduledNotificationRepository;
+
+  constructor(
+    private readonly db: admin.firestore.Firestore,
+    private readonly transport: PushTransport,
+    private readonly options: PushNotifierOptions = DEFAULT_PUSH_NOTIFIER_OPTIONS,
+    private readonly renderer: MessageRenderer = new MessageRenderer()
+  ) {
+    this.settings = new UserSettingsRepository(db);
+    this.tokens = new DeviceTokenRepository(db);
+    this.scheduled = new ScheduledNotificationRepository(db);
+  }
+
+  /**
+   * Notify a user of a new insight, if its type is one that is pushed
+   */
+  async notifyInsight(userId: string, insightType: unknown, now: Date = new Date()): Promise<PushResult> {
+    const kind = typeof insightType === 'string' ? INSIGHT_PUSH_KINDS[insightType] : undefined;
+    if (!kind) {return { status: 'notPushed' };}
+    return this.send(userId, kind, now);
+  }
+
+  async send(userId: string, kind: PushKind, now: Date = new Date()): Promise<PushResult> {
+    const settings = await this.settings.getSettings(userId);
+    const preferences = settings.notificationPreferences;
+    const policy = PUSH_KIND_POLICIES[kind];
+    const setting: NotificationSetting | undefined = policy.preference && preferences[policy.preference];
+    if (!preferences.globalNotificationsEnabled || setting?.enabled === false) {return { status: 'disabled' };}
+
+    if (!policy.reminder) {
+      const timeZone = resolveTimeZone((await this.db.collection('users').doc(userId).get()).data()?.timeZone);
+      const wait = minutesUntilQuietHoursEnd(preferences.quietHours, localMinuteOfDay(now.getTime(), timeZone));
+      if (wait > 0) {
+        const sendAt = new Date(Math.floor(now.getTime() / 60000 + wait) * 60000);
+        // One per kind: several insights overnight make one notification in the morning
+        await this.scheduled.schedule({
+          id: `${userId}_${kind}`,
+          userId,
+          kind,
+          sendAt: admin.firestore.Timestamp.fromDate(sendAt)
+        });
+        return { status: 'deferred', sendAt };
+      }
+    }
+
+    const devices = await this.tokens.list(userId);
+    if (devices.length === 0) {return { status: 'noDevices' };}
+    if (!policy.reminder && !await this.reserveDelivery(userId, now)) {return { status: 'rateLimited' };}
+
+    const tokens = devices.map(device => device.token);
+    const statuses = await this.transport.send(tokens, this.message(kind, settings));
+    const invalid = tokens.filter((_, index) => statuses[index] === 'invalidToken');
+    await this.tokens.remove(userId, invalid);
+
+    return {
+      status: 'sent',
+      delivered: statuses.filter(status => status === 'delivered').length,
+      prunedTokens: invalid.length
+    };
+  }
+
+  /**
+   * Send the scheduled notifications that are due, up to `limit`. Each is sent as if it were
+   * new, so preferences changed in the meantime apply.
+   */
+  async sendDue(now: Date = new Date(), limit = 200): Promise<Record<PushResult['status'] | 'failed', number>> {
+    const counts: Record<PushResult['status'] | 'failed', number> = {
+      notPushed: 0, disabled: 0, deferred: 0, noDevices: 0, rateLimited: 0, sent: 0, failed: 0
+    };
+
+    for (const notification of await this.scheduled.getDue(now, limit)) {
+      let status: PushResult['status'] | 'failed' = 'notPushed';
+      try {
+        if (isPushKind(notification.kind)) {
+          status = (await this.send(notification.userId, notification.kind, now)).status;
+        }
+      } catch (error) {
+        // Dropped rather than retried every run; a missed notification is not worth a loop
+        functions.logger.error('Scheduled notification failed', { id: notification.id, error });
+        status = 'failed';
+      }
+      counts[status]++;
+      // Deferred again (quiet hours changed), the document now holds the later time
+      if (status !== 'deferred') {await this.scheduled.delete(notification.id);}
+    }
+    return counts;
+  }
+
+  /**
+   * Count a delivery against the user's rolling window, unless the window is full
+   */
+  private async reserveDelivery(userId: string, now: Date): Promise<boolean> {
+    const ref = this.db.collection('users').doc(userId).collection('notificationState').doc('delivery');
+    return this.db.runTransaction(async transaction => {
+      const snapshot = await transaction.get(ref);
+      const sentAt: unknown[] = Array.isArray(snapshot.data()?.recentSentAt) ? snapshot.data()?.recentSentAt : [];
+      const recent = sentAt.filter((millis): millis is number =>
+        typeof millis === 'number' && millis > now.getTime() - this.options.rateWindowMs);
+      if (recent.length >= this.options.maxPerWindow) {return false;}
+
+      transaction.set(ref, { recentSentAt: [...recent, now.getTime()] });
+      return true;
+    });
+  }
+
+  private message(kind: PushKind, settings: UserSettings): PushMessage {
+    const options = {
+      locale: resolveLocale(settings.locale),
+      temperatureUnit: settings.unitPreferences.temperatureUnit
+    };
+    return {
+      title: this.renderer.render(`notification.${kind}.title`, {}, options),
+      body: this.renderer.render(`notification.${kind}.body`, {}, options),
+      data: { kind }
+    };
+  }
+}
+
+function isPushKind(value: string): value is PushKind {
+  return Object.prototype.hasOwnProperty.call(PUSH_KIND_POLICIES, value);
+}
+
+/**
+ * Minutes from a local time of day until quiet hours end, or 0 outside quiet hours. Quiet
+ * hours that start and end at the same time are none.
+ */
+function minutesUntilQuietHoursEnd(quietHours: QuietHours, minuteOfDay: number): number {
+  if (!quietHours.enabled) {return 0;}
+
+  const start = quietHours.startHour * 60 + quietHours.startMinute;
+  const end = quietHours.endHour * 60 + quietHours.endMinute;
+  const quiet = start <= end
+    ? minuteOfDay >= start && minuteOfDay < end
+    : minuteOfDay >= start || minuteOfDay < end;
+  return quiet ? (end - minuteOfDay + MINUTES_PER_DAY) % MINUTES_PER_DAY : 0;
+}
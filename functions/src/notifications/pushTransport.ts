@@ -0,0 +1,71 @@
+import * as admin from 'firebase-admin';
+import * as functions from 'firebase-functions';
+
+/**
+ * What a device shows, plus data for the app to route on. Lock screens show the title and
+ * body, so neither holds health details.
+ */
+export interface PushMessage {
+  title: string;
+  body: string;
+  data: Record<string, string>;
+}
+
+/**
+ * delivered: FCM accepted the message; invalidToken: the token will never work again and
+ * should be removed; failed: anything else, worth trying again another time
+ */
+export type PushDeliveryStatus = 'delivered' | 'invalidToken' | 'failed';
+
+/**
+ * Sends a message to device tokens, returning one status per token in token order
+ */
+export interface PushTransport {
+  send(tokens: string[], message: PushMessage): Promise<PushDeliveryStatus[]>;
+}
+
+// FCM accepts at most 500 tokens per multicast
+const FCM_MULTICAST_LIMIT = 500;
+
+const INVALID_TOKEN_CODES = new Set([
+  'messaging/registration-token-not-registered',
+  'messaging/invalid-registration-token'
+]);
+
+/**
+ * Sends through Firebase Cloud Messaging
+ */
+export class FcmPushTransport implements PushTransport {
+  constructor(private readonly messaging: admin.messaging.Messaging) {}
+
+  async send(tokens: string[], message: PushMessage): Promise<PushDeliveryStatus[]> {
+    const statuses: PushDeliveryStatus[] = [];
+    for (let start = 0; start < tokens.length; start += FCM_MULTICAST_LIMIT) {
+      const response = await this.messaging.sendEachForMulticast({
+        tokens: tokens.slice(start, start + FCM_MULTICAST_LIMIT),
+        notification: { title: message.title, body: message.body },
+        data: message.data,
+        android: { priority: 'high' },
+        apns: { payload: { aps: { sound: 'default' } } }
+      });
+      response.responses.forEach(result => {
+        if (result.success) {
+          statuses.push('delivered');
+        } else {
+          statuses.push(result.error && INVALID_TOKEN_CODES.has(result.error.code) ? 'invalidToken' : 'failed');
+        }
+      });
+    }
+    return statuses;
+  }
+}
+
+/**
+ * Logs messages instead of sending them. For the emulator, which has no FCM.
+ */
+export class LoggingPushTransport implements PushTransport {
+  async send(tokens: string[], message: PushMessage): Promise<PushDeliveryStatus[]> {
+    functions.logger.info('Push notification (not sent under the emulator)', { devices: tokens.length, message });
+    return tokens.map(() => 'delivered');
+  }
+}
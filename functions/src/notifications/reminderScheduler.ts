@@ -0,0 +1,143 @@
+import * as admin from 'firebase-admin';
+import { CycleRepository } from '../data/cycleRepository';
+import { ScheduledNotificationRepository } from '../data/scheduledNotificationRepository';
+import { UserSettingsRepository } from '../data/userSettingsRepository';
+import { Cycle, NotificationPreferences, NotificationSetting } from '../types';
+import {
+  MS_PER_DAY,
+  epochDayToIsoDate,
+  localDateTime,
+  resolveTimeZone,
+  subtractMonths,
+  toEpochDay,
+  zonedTimeToMillis
+} from '../utils/dateUtils';
+import { PushKind } from './pushNotifier';
+
+export type ReminderKind = Extract<PushKind, 'periodReminder' | 'ovulationReminder'>;
+
+export const REMINDER_KINDS: ReminderKind[] = ['periodReminder', 'ovulationReminder'];
+
+/**
+ * The forecast days reminders lead up to, as epoch days
+ */
+export interface ReminderForecast {
+  periodStartEpochDay: number;
+  /** Left out once ovulation is confirmed for the cycle */
+  ovulationEpochDay?: number;
+}
+
+export interface PlannedReminder {
+  kind: ReminderKind;
+  /** The forecast day the reminder is for */
+  epochDay: number;
+  sendAt: Date;
+}
+
+// Same default as the apps' NotificationManager, 8 PM local time
+const DEFAULT_REMINDER_MINUTE_OF_DAY = 20 * 60;
+
+// The cycle a forecast belongs to started at most this long ago
+const FORECAST_LOOKBACK_MONTHS = 4;
+
+// Cycle fields the forecast and its reminders depend on
+const FORECAST_FIELDS = [
+  'startDate',
+  'endDate',
+  'cycleLength',
+  'predictedNextStartDate',
+  'predictedOvulationDate',
+  'confirmedOvulationDate'
+];
+
+/**
+ * Whether a cycle write changed anything reminders are computed from
+ */
+export function forecastChanged(
+  before: Record<string, unknown> | undefined,
+  after: Record<string, unknown> | undefined
+): boolean {
+  return FORECAST_FIELDS.some(field => JSON.stringify(before?.[field]) !== JSON.stringify(after?.[field]));
+}
+
+/**
+ * The forecast of the open cycle, the newest one, if it has a prediction
+ */
+export function forecastOf(cycles: Cycle[]): ReminderForecast | null {
+  const current = [...cycles].sort((a, b) => b.startDate.seconds - a.startDate.seconds)[0];
+  if (!current || current.endDate || current.cycleLength || !current.predictedNextStartDate) {return null;}
+
+  return {
+    periodStartEpochDay: toEpochDay(current.predictedNextStartDate),
+    ...(current.predictedOvulationDate && !current.confirmedOvulationDate
+      ? { ovulationEpochDay: toEpochDay(current.predictedOvulationDate) }
+      : {})
+  };
+}
+
+/**
+ * Reminder times for a forecast: `daysInAdvance` days before each forecast day at the chosen
+ * local time. Times already past are left out.
+ */
+export function planReminders(
+  forecast: ReminderForecast,
+  preferences: NotificationPreferences,
+  timeZone: string,
+  now: Date
+): PlannedReminder[] {
+  if (!preferences.globalNotificationsEnabled) {return [];}
+
+  const targets: Array<[ReminderKind, NotificationSetting, number | undefined]> = [
+    ['periodReminder', preferences.periodPredictionAlert, forecast.periodStartEpochDay],
+    ['ovulationReminder', preferences.ovulationAlert, forecast.ovulationEpochDay]
+  ];
+
+  const reminders: PlannedReminder[] = [];
+  targets.forEach(([kind, setting, epochDay]) => {
+    if (!setting.enabled || epochDay === undefined) {return;}
+
+    const minuteOfDay = setting.timeHour !== undefined && setting.timeMinute !== undefined
+      ? setting.timeHour * 60 + setting.timeMinute
+      : DEFAULT_REMINDER_MINUTE_OF_DAY;
+    const day = epochDay - setting.daysInAdvance;
+    const sendAt = new Date(zonedTimeToMillis(day, minuteOfDay, timeZone));
+    if (sendAt > now) {reminders.push({ kind, epochDay: day, sendAt });}
+  });
+  return reminders.sort((a, b) => a.sendAt.getTime() - b.sendAt.getTime());
+}
+
+/**
+ * Keeps a user's period and ovulation reminders in scheduledNotifications in line with their
+ * cycle forecast and notification settings, so every device gets the same reminders, sent by
+ * dispatchScheduledNotifications, and a reinstall loses none
+ */
+export class ReminderScheduler {
+  private readonly cycles: CycleRepository;
+  private readonly settings: UserSettingsRepository;
+  private readonly scheduled: ScheduledNotificationRepository;
+
+  constructor(private readonly db: admin.firestore.Firestore) {
+    this.cycles = new CycleRepository(db);
+    this.settings = new UserSettingsRepository(db);
+    this.scheduled = new ScheduledNotificationRepository(db);
+  }
+
+  async reschedule(userId: string, now: Date = new Date()): Promise<{ scheduled: number; removed: number }> {
+    const timeZone = resolveTimeZone((await this.db.collection('users').doc(userId).get()).data()?.timeZone);
+    const since = subtractMonths(localDateTime(now.getTime(), timeZone).epochDay, FORECAST_LOOKBACK_MONTHS);
+    const [cycles, settings] = await Promise.all([
+      this.cycles.getCyclesSince(userId, new Date(since * MS_PER_DAY), timeZone),
+      this.settings.getSettings(userId)
+    ]);
+
+    const forecast = forecastOf(cycles);
+    const reminders = forecast ? planReminders(forecast, settings.notificationPreferences, timeZone, now) : [];
+    const { removed } = await this.scheduled.replace(userId, REMINDER_KINDS, reminders.map(reminder => ({
+      id: `${userId}_${reminder.kind}_${epochDayToIsoDate(reminder.epochDay)}`,
+      userId,
+      kind: reminder.kind,
+      sendAt: admin.firestore.Timestamp.fromDate(reminder.sendAt)
+    })));
+    return { scheduled: reminders.length, removed };
+  }
+}
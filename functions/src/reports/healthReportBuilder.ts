@@ -0,0 +1,376 @@
+import * as admin from 'firebase-admin';
+import {
+  BBTAnalysis,
+  Cycle,
+  CyclePhase,
+  CyclePreferences,
+  CycleRegularity,
+  CycleSummary,
+  DailyLog,
+  HealthReport,
+  Insight,
+  Mood,
+  MoodPatterns,
+  ReportInsight,
+  ReportType,
+  SymptomFrequency,
+  TemperatureUnit,
+  TrendData,
+  TrendDirection
+} from '../types';
+import { getCycleBounds, isDayInCycle, projectOvulationEpochDay } from '../cycles/cycleBounds';
+import { CyclePhaseAnnotator, PhaseAnnotation } from '../cycles/cyclePhaseAnnotator';
+import { MessageRenderer } from '../insights/messages/messageCatalog';
+import { isMoodSwing } from '../insights/rules/moodRules';
+import { toEpochDay } from '../utils/dateUtils';
+import { mean, normalCdf, roundTo, standardDeviation } from '../utils/statistics';
+
+export interface HealthReportOptions {
+  /** Symptoms listed, and given a trend */
+  maxSymptoms: number;
+  /** Fewer BBT readings in the range and there is no BBT analysis (the apps' minimum) */
+  minBbtReadings: number;
+  /** BBT readings a cycle needs for the 3-over-6 rule to apply */
+  minChartedReadings: number;
+  /** Regularity is judged on at least this many completed cycles, reaching back before the range */
+  minRegularityCycles: number;
+  /** Significance a change needs to count as increasing or decreasing */
+  trendSignificance: number;
+  /** Spread of per-cycle rates, relative to their mean, above which a trend is fluctuating */
+  fluctuationCoefficient: number;
+  fertileDaysBeforeOvulation: number;
+}
+
+export const DEFAULT_REPORT_OPTIONS: HealthReportOptions = {
+  maxSymptoms: 10,
+  minBbtReadings: 15,
+  minChartedReadings: 9,
+  minRegularityCycles: 3,
+  trendSignificance: 0.95,
+  fluctuationCoefficient: 0.5,
+  fertileDaysBeforeOvulation: 5
+};
+
+// Standard deviation of cycle lengths, in days, up to which each class applies (as in the apps)
+const REGULARITY_LIMITS: Array<[number, CycleRegularity]> = [
+  [1, CycleRegularity.VERY_REGULAR],
+  [2, CycleRegularity.REGULAR],
+  [4, CycleRegularity.SOMEWHAT_IRREGULAR],
+  [7, CycleRegularity.IRREGULAR]
+];
+
+const PHASES: CyclePhase[] = [CyclePhase.MENSTRUAL, CyclePhase.FOLLICULAR, CyclePhase.OVULATORY, CyclePhase.LUTEAL];
+const MOOD_ORDER: string[] = Object.values(Mood);
+
+export interface HealthReportInput {
+  userId: string;
+  reportType: ReportType;
+  /** Local calendar days, both inclusive */
+  startEpochDay: number;
+  endEpochDay: number;
+  /** Logs of the range and the cycles around it, BBT in Celsius */
+  dailyLogs: DailyLog[];
+  /** Cycles around the range, with detected ovulation applied */
+  cycles: Cycle[];
+  cyclePreferences: CyclePreferences;
+  /** Insights shown during the range */
+  insights: Insight[];
+  locale: string;
+  temperatureUnit: TemperatureUnit;
+  generatedAt: Date;
+}
+
+interface CompletedCycle {
+  cycle: Cycle;
+  startEpochDay: number;
+  length: number;
+  /** Cycle day of confirmed ovulation */
+  ovulationDay?: number;
+}
+
+/**
+ * Computes a health report over a date range in the shape the apps' HealthReportDto reads
+ */
+export class HealthReportBuilder {
+  constructor(
+    private readonly options: HealthReportOptions = DEFAULT_REPORT_OPTIONS,
+    private readonly messages: MessageRenderer = new MessageRenderer()
+  ) {}
+
+  build(input: HealthReportInput): HealthReport {
+    const rangeLogs = input.dailyLogs
+      .filter(log => {
+        const day = toEpochDay(log.date);
+        return day >= input.startEpochDay && day <= input.endEpochDay;
+      })
+      .sort((a, b) => a.date.seconds - b.date.seconds);
+    const phases = new CyclePhaseAnnotator(input.cycles, input.cyclePreferences).annotateLogs(rangeLogs);
+    const completed = this.completedCycles(input);
+    const rangeCycles = completed.filter(cycle =>
+      cycle.startEpochDay <= input.endEpochDay && cycle.startEpochDay + cycle.length - 1 >= input.startEpochDay
+    );
+
+    const symptoms = this.symptomFrequencies(rangeLogs, phases);
+
+    return {
+      userId: input.userId,
+      generatedDate: input.generatedAt.getTime(),
+      reportType: input.reportType,
+      dateRange: { start: input.startEpochDay, end: input.endEpochDay },
+      cycleSummary: this.cycleSummary(input, completed, rangeCycles),
+      symptomAnalysis: {
+        mostCommonSymptoms: symptoms,
+        symptomTrends: Object.fromEntries(symptoms.map(({ symptom }) =>
+          [symptom, this.symptomTrend(symptom, rangeLogs, input)]
+        )),
+        moodPatterns: this.moodPatterns(rangeLogs, phases),
+        bbtAnalysis: this.bbtAnalysis(rangeLogs, phases, rangeCycles, input)
+      },
+      insights: input.insights.map(reportInsight),
+      isShared: false
+    };
+  }
+
+  /**
+   * Completed cycles starting by the end of the range, oldest first
+   */
+  private completedCycles(input: HealthReportInput): CompletedCycle[] {
+    const completed: CompletedCycle[] = [];
+    input.cycles.forEach(cycle => {
+      const bounds = getCycleBounds(cycle);
+      if (bounds.nextStartEpochDay === undefined || bounds.startEpochDay > input.endEpochDay) {return;}
+
+      completed.push({
+        cycle,
+        startEpochDay: bounds.startEpochDay,
+        length: bounds.nextStartEpochDay - bounds.startEpochDay,
+        ...(cycle.confirmedOvulationDate
+          ? { ovulationDay: toEpochDay(cycle.confirmedOvulationDate) - bounds.startEpochDay + 1 }
+          : {})
+      });
+    });
+    return completed.sort((a, b) => a.startEpochDay - b.startEpochDay);
+  }
+
+  private cycleSummary(input: HealthReportInput, completed: CompletedCycle[], rangeCycles: CompletedCycle[]): CycleSummary {
+    const lutealLengths = rangeCycles
+      .filter(({ cycle }) => cycle.lutealPhaseLength && cycle.lutealPhaseLength > 0)
+      .map(({ cycle }) => cycle.lutealPhaseLength as number);
+
+    // A short range holds one or two cycles, too few to judge regularity on
+    const regularitySample = completed.slice(-Math.max(rangeCycles.length, this.options.minRegularityCycles));
+
+    const ovulationCycles = rangeCycles.filter(cycle => cycle.ovulationDay !== undefined);
+    // Confirmed ovulations inside the window the settings alone would have predicted
+    const inPredictedWindow = ovulationCycles.filter(cycle => {
+      const projected = projectOvulationEpochDay(
+        cycle.startEpochDay + cycle.length,
+        input.cyclePreferences.averageLutealPhaseLength
+      ) - cycle.startEpochDay + 1;
+      const day = cycle.ovulationDay as number;
+      return day >= projected - this.options.fertileDaysBeforeOvulation && day <= projected + 1;
+    });
+
+    return {
+      totalCycles: rangeCycles.length,
+      averageCycleLength: roundTo(mean(rangeCycles.map(cycle => cycle.length)), 1),
+      averageLutealPhase: roundTo(mean(lutealLengths), 1),
+      cycleRegularity: classifyRegularity(regularitySample.map(cycle => cycle.length)),
+      ovulationPatterns: {
+        averageOvulationDay: roundTo(mean(ovulationCycles.map(cycle => cycle.ovulationDay as number)), 1),
+        ovulationConfidenceRate: share(ovulationCycles.length, rangeCycles.length),
+        fertilityWindowAccuracy: share(inPredictedWindow.length, ovulationCycles.length)
+      }
+    };
+  }
+
+  private symptomFrequencies(rangeLogs: DailyLog[], phases: Map<string, PhaseAnnotation>): SymptomFrequency[] {
+    const symptomLogs = new Map<string, DailyLog[]>();
+    rangeLogs.forEach(log => new Set(log.symptoms ?? []).forEach(symptom => {
+      symptomLogs.set(symptom, [...(symptomLogs.get(symptom) ?? []), log]);
+    }));
+
+    return Array.from(symptomLogs.entries())
+      .sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]))
+      .slice(0, this.options.maxSymptoms)
+      .map(([symptom, logs]) => {
+        const logPhases = logs
+          .map(log => phases.get(log.id)?.phase)
+          .filter((phase): phase is CyclePhase => phase !== undefined);
+
+        return {
+          symptom,
+          frequency: share(logs.length, rangeLogs.length),
+          cyclePhaseDistribution: Object.fromEntries(PHASES.map(phase =>
+            [phase, share(logPhases.filter(logPhase => logPhase === phase).length, logPhases.length)]
+          ))
+        };
+      });
+  }
+
+  /**
+   * Compares the share of logged days with the symptom in the two halves of the range with a
+   * two-proportion z-test. Without a significant change, per-cycle rates that swing widely
+   * make the trend fluctuating rather than stable.
+   */
+  private symptomTrend(symptom: string, rangeLogs: DailyLog[], input: HealthReportInput): TrendData {
+    const midpoint = input.startEpochDay + Math.ceil((input.endEpochDay - input.startEpochDay + 1) / 2);
+    const hasSymptom = (log: DailyLog): boolean => log.symptoms?.includes(symptom) ?? false;
+    const firstHalf = rangeLogs.filter(log => toEpochDay(log.date) < midpoint);
+    const secondHalf = rangeLogs.filter(log => toEpochDay(log.date) >= midpoint);
+
+    const firstRate = firstHalf.length > 0 ? firstHalf.filter(hasSymptom).length / firstHalf.length : 0;
+    const secondRate = secondHalf.length > 0 ? secondHalf.filter(hasSymptom).length / secondHalf.length : 0;
+
+    let significance = 0;
+    if (firstHalf.length > 0 && secondHalf.length > 0) {
+      const pooled = rangeLogs.filter(hasSymptom).length / rangeLogs.length;
+      const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / firstHalf.length + 1 / secondHalf.length));
+      if (standardError > 0) {
+        significance = 2 * normalCdf(Math.abs(secondRate - firstRate) / standardError) - 1;
+      }
+    }
+
+    let changePercentage = 0;
+    if (firstRate > 0) {
+      changePercentage = ((secondRate - firstRate) / firstRate) * 100;
+    } else if (secondRate > 0) {
+      changePercentage = 100;
+    }
+
+    let trend = TrendDirection.STABLE;
+    if (significance >= this.options.trendSignificance) {
+      trend = secondRate > firstRate ? TrendDirection.INCREASING : TrendDirection.DECREASING;
+    } else {
+      const cycleRates = input.cycles
+        .map(cycle => {
+          const bounds = getCycleBounds(cycle);
+          const cycleLogs = rangeLogs.filter(log => isDayInCycle(toEpochDay(log.date), bounds));
+          return cycleLogs.length > 0 ? cycleLogs.filter(hasSymptom).length / cycleLogs.length : undefined;
+        })
+        .filter((rate): rate is number => rate !== undefined);
+      const averageRate = mean(cycleRates);
+      if (cycleRates.length >= 3 && averageRate > 0 &&
+        standardDeviation(cycleRates) / averageRate >= this.options.fluctuationCoefficient) {
+        trend = TrendDirection.FLUCTUATING;
+      }
+    }
+
+    return { trend, changePercentage: roundTo(changePercentage, 1), significance: roundTo(significance, 3) };
+  }
+
+  private moodPatterns(rangeLogs: DailyLog[], phases: Map<string, PhaseAnnotation>): MoodPatterns {
+    const moodLogs = rangeLogs.filter(log => log.mood);
+
+    let swings = 0;
+    for (let i = 1; i < moodLogs.length; i++) {
+      if (isMoodSwing(moodLogs[i - 1].mood as string, moodLogs[i].mood as string)) {swings++;}
+    }
+
+    const cyclePhaseCorrelations: Partial<Record<CyclePhase, string>> = {};
+    PHASES.forEach(phase => {
+      const mood = dominantMood(moodLogs.filter(log => phases.get(log.id)?.phase === phase));
+      if (mood) {cyclePhaseCorrelations[phase] = mood;}
+    });
+
+    return {
+      // The apps show NEUTRAL when no mood was logged
+      dominantMood: dominantMood(moodLogs) ?? Mood.NEUTRAL,
+      moodVariability: share(swings, moodLogs.length - 1),
+      cyclePhaseCorrelations
+    };
+  }
+
+  private bbtAnalysis(
+    rangeLogs: DailyLog[],
+    phases: Map<string, PhaseAnnotation>,
+    rangeCycles: CompletedCycle[],
+    input: HealthReportInput
+  ): BBTAnalysis | null {
+    const bbtLogs = rangeLogs.filter(log => log.bbt !== undefined);
+    if (bbtLogs.length < this.options.minBbtReadings) {return null;}
+
+    const temperatures = bbtLogs.map(log => log.bbt as number);
+    const averageOf = (logs: DailyLog[]): number => roundTo(mean(logs.map(log => log.bbt as number)), 2);
+    const follicularLogs = bbtLogs.filter(log => {
+      const phase = phases.get(log.id)?.phase;
+      return phase === CyclePhase.MENSTRUAL || phase === CyclePhase.FOLLICULAR;
+    });
+    const lutealLogs = bbtLogs.filter(log => phases.get(log.id)?.phase === CyclePhase.LUTEAL);
+
+    // Only cycles charted well enough for the 3-over-6 rule can show a shift
+    const allBbtLogs = input.dailyLogs.filter(log => log.bbt !== undefined);
+    const chartedCycles = rangeCycles.filter(({ cycle }) => {
+      const bounds = getCycleBounds(cycle);
+      return allBbtLogs.filter(log => isDayInCycle(toEpochDay(log.date), bounds)).length >= this.options.minChartedReadings;
+    });
+    const biphasic = chartedCycles.filter(({ cycle }) =>
+      cycle.confirmedOvulationDate && cycle.ovulationSignals?.includes('BBT')
+    ).length;
+    const monophasic = chartedCycles.length - biphasic;
+
+    const renderOptions = { locale: input.locale, temperatureUnit: input.temperatureUnit };
+    const patterns: Array<[string, number]> = [['BIPHASIC', biphasic], ['MONOPHASIC', monophasic]];
+
+    return {
+      averageTemperature: roundTo(mean(temperatures), 2),
+      temperatureRange: {
+        min: roundTo(Math.min(...temperatures), 2),
+        max: roundTo(Math.max(...temperatures), 2),
+        follicularAverage: averageOf(follicularLogs),
+        lutealAverage: averageOf(lutealLogs)
+      },
+      ovulationDetectionRate: share(biphasic, chartedCycles.length),
+      temperaturePatterns: patterns
+        .filter(([, count]) => count > 0)
+        .map(([pattern, count]) => ({
+          pattern,
+          frequency: share(count, chartedCycles.length),
+          description: this.messages.render(
+            `report.bbt.${pattern.toLowerCase()}`,
+            { count, total: chartedCycles.length },
+            renderOptions
+          )
+        }))
+    };
+  }
+}
+
+/**
+ * Regularity from the spread of cycle lengths; fewer than two cycles count as irregular, as in the apps
+ */
+export function classifyRegularity(cycleLengths: number[]): CycleRegularity {
+  if (cycleLengths.length < 2) {return CycleRegularity.IRREGULAR;}
+
+  const spread = standardDeviation(cycleLengths);
+  const match = REGULARITY_LIMITS.find(([limit]) => spread <= limit);
+  return match ? match[1] : CycleRegularity.VERY_IRREGULAR;
+}
+
+function dominantMood(moodLogs: DailyLog[]): string | undefined {
+  const counts = new Map<string, number>();
+  moodLogs.forEach(log => counts.set(log.mood as string, (counts.get(log.mood as string) ?? 0) + 1));
+
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || MOOD_ORDER.indexOf(a[0]) - MOOD_ORDER.indexOf(b[0]))[0]?.[0];
+}
+
+function share(count: number, total: number): number {
+  return total > 0 ? roundTo(count / total, 3) : 0;
+}
+
+function reportInsight(insight: Insight): ReportInsight {
+  const generatedDate = insight.generatedDate instanceof Date
+    ? insight.generatedDate.getTime() / 1000
+    : (insight.generatedDate as admin.firestore.Timestamp).seconds;
+
+  return {
+    generatedDate: Math.floor(generatedDate),
+    insightText: insight.insightText,
+    type: insight.type,
+    isRead: insight.isRead,
+    relatedLogIds: insight.relatedLogIds,
+    confidence: insight.confidence,
+    actionable: insight.actionable
+  };
+}
@@ -0,0 +1,107 @@
+import * as admin from 'firebase-admin';
+import { HealthReport, ReportType } from '../types';
+import { HealthReportRepository } from '../data/healthReportRepository';
+import { InsightRepository } from '../data/insightRepository';
+import { getCycleBounds } from '../cycles/cycleBounds';
+import { isoDateToEpochDay, toEpochDay } from '../utils/dateUtils';
+import { HealthReportBuilder } from './healthReportBuilder';
+import { loadReportData } from './reportData';
+
+// Same limits as the apps' HealthReportValidation
+const MAX_REPORT_RANGE_DAYS = 365;
+const MIN_REPORT_CYCLES = 2;
+const MIN_REPORT_LOGS = 10;
+
+const REPORT_TYPES: string[] = Object.values(ReportType);
+
+export interface HealthReportRequest {
+  reportType: ReportType;
+  /** Local calendar days, both inclusive */
+  startEpochDay: number;
+  endEpochDay: number;
+}
+
+export type HealthReportRequestParse =
+  | { ok: true; request: HealthReportRequest }
+  | { ok: false; message: string };
+
+export type HealthReportResult =
+  | { status: 'generated'; reportId: string; report: HealthReport }
+  | { status: 'insufficientData'; errors: string[] };
+
+/**
+ * Validate the data of a generateHealthReport call: { start, end } as yyyy-MM-dd and a reportType
+ */
+export function parseHealthReportRequest(data: unknown): HealthReportRequestParse {
+  const raw = (data ?? {}) as Record<string, unknown>;
+  const startEpochDay = typeof raw.start === 'string' ? isoDateToEpochDay(raw.start) : null;
+  const endEpochDay = typeof raw.end === 'string' ? isoDateToEpochDay(raw.end) : null;
+
+  if (startEpochDay === null || endEpochDay === null) {
+    return { ok: false, message: 'start and end must be dates as yyyy-MM-dd' };
+  }
+  if (typeof raw.reportType !== 'string' || !REPORT_TYPES.includes(raw.reportType)) {
+    return { ok: false, message: `reportType must be one of ${REPORT_TYPES.join(', ')}` };
+  }
+  if (startEpochDay >= endEpochDay) {
+    return { ok: false, message: 'Start date must be before end date' };
+  }
+  if (endEpochDay - startEpochDay > MAX_REPORT_RANGE_DAYS) {
+    return { ok: false, message: `Report date range cannot exceed ${MAX_REPORT_RANGE_DAYS} days` };
+  }
+
+  return { ok: true, request: { reportType: raw.reportType as ReportType, startEpochDay, endEpochDay } };
+}
+
+/**
+ * Loads a user's data around a date range, builds the health report and stores it
+ */
+export class HealthReportGenerator {
+  constructor(
+    private readonly db: admin.firestore.Firestore,
+    private readonly builder: HealthReportBuilder = new HealthReportBuilder()
+  ) {}
+
+  async generate(userId: string, request: HealthReportRequest, now: Date = new Date()): Promise<HealthReportResult> {
+    const { timeZone, dailyLogs, cycles, settings, temperatureUnit, locale } =
+      await loadReportData(this.db, userId, request.startEpochDay);
+
+    const rangeLogCount = dailyLogs.filter(log => {
+      const day = toEpochDay(log.date);
+      return day >= request.startEpochDay && day <= request.endEpochDay;
+    }).length;
+    const cycleCount = cycles.filter(cycle => {
+      const bounds = getCycleBounds(cycle);
+      return bounds.nextStartEpochDay !== undefined && bounds.startEpochDay <= request.endEpochDay;
+    }).length;
+
+    const errors: string[] = [];
+    if (cycleCount < MIN_REPORT_CYCLES) {
+      errors.push(`At least ${MIN_REPORT_CYCLES} complete cycles are required for a meaningful report`);
+    }
+    if (rangeLogCount < MIN_REPORT_LOGS) {
+      errors.push(`At least ${MIN_REPORT_LOGS} daily logs are required for symptom analysis`);
+    }
+    if (errors.length > 0) {return { status: 'insufficientData', errors };}
+
+    const insights = await new InsightRepository(this.db)
+      .getInsightsShownDuring(userId, request.startEpochDay, request.endEpochDay, timeZone);
+
+    const report = this.builder.build({
+      userId,
+      reportType: request.reportType,
+      startEpochDay: request.startEpochDay,
+      endEpochDay: request.endEpochDay,
+      dailyLogs,
+      cycles,
+      cyclePreferences: settings.cyclePreferences,
+      insights,
+      locale,
+      temperatureUnit,
+      generatedAt: now
+    });
+
+    const reportId = await new HealthReportRepository(this.db).create(userId, report);
+    return { status: 'generated', reportId, report };
+  }
+}
@@ -0,0 +1,31 @@
+import * as admin from 'firebase-admin';
+import { HealthReportRepository } from '../data/healthReportRepository';
+import { ReportPdfStorage } from '../data/reportPdfStorage';
+import { HealthReportPdfRenderer } from './pdf/healthReportPdfRenderer';
+import { loadReportCharts } from './reportCharts';
+
+export type HealthReportPdfResult =
+  | { status: 'rendered'; pdfUrl: string }
+  | { status: 'notFound' };
+
+/**
+ * Renders a stored health report to PDF, uploads it and writes its URL back to the report
+ */
+export class HealthReportPdfService {
+  constructor(
+    private readonly db: admin.firestore.Firestore,
+    private readonly storage: ReportPdfStorage,
+    private readonly renderer: HealthReportPdfRenderer = new HealthReportPdfRenderer()
+  ) {}
+
+  async render(userId: string, reportId: string, now: Date = new Date()): Promise<HealthReportPdfResult> {
+    const reports = new HealthReportRepository(this.db);
+    const report = await reports.get(userId, reportId);
+    if (!report) {return { status: 'notFound' };}
+
+    const { charts, renderOptions } = await loadReportCharts(this.db, userId, report);
+    const pdfUrl = await this.storage.save(userId, reportId, this.renderer.render(report, charts, renderOptions), now);
+    await reports.setPdfUrl(userId, reportId, pdfUrl);
+    return { status: 'rendered', pdfUrl };
+  }
+}
@@ -0,0 +1,133 @@
+import { HealthReport } from '../../types';
+import { MessageParams } from '../../insights/messages/messageFormat';
+import { MessageRenderer, RenderOptions } from '../../insights/messages/messageCatalog';
+import { epochDayToIsoDate } from '../../utils/dateUtils';
+import { ReportCharts } from '../reportCharts';
+import { Translate, cycleSummaryRows, formatShare } from '../reportLabels';
+
+// Inline so the page needs no other request; the response's CSP allows nothing else
+const STYLE = `
+body { font-family: Helvetica, Arial, sans-serif; color: #212126; max-width: 760px; margin: 32px auto; padding: 0 16px; }
+h1 { margin-bottom: 4px; }
+h2 { color: #734d9e; margin-top: 32px; font-size: 1.15em; }
+.meta, .note, footer { color: #6b6b75; font-size: 0.9em; }
+table { border-collapse: collapse; width: 100%; }
+td, th { padding: 6px 8px; text-align: left; }
+th { font-weight: normal; color: #6b6b75; }
+tr:nth-child(even) td { background: #f0eef7; }
+td.value { text-align: right; font-weight: bold; }
+li { margin-bottom: 8px; }
+`;
+
+/**
+ * Lays out a health report as a self-contained, read-only page for shared links, with the
+ * same content as the PDF in tables
+ */
+export class HealthReportHtmlRenderer {
+  constructor(private readonly messages: MessageRenderer = new MessageRenderer()) {}
+
+  /**
+   * @param pdfHref link to the same report as a PDF
+   */
+  render(report: HealthReport, charts: ReportCharts, options: RenderOptions, pdfHref: string): string {
+    const t: Translate = (key: string, params: MessageParams = {}) => this.messages.render(key, params, options);
+    const analysis = report.symptomAnalysis.bbtAnalysis;
+
+    return [
+      '<!DOCTYPE html>',
+      `<html lang="${escapeHtml(options.locale)}">`,
+      '<head>',
+      '<meta charset="utf-8">',
+      '<meta name="viewport" content="width=device-width, initial-scale=1">',
+      '<meta name="robots" content="noindex, nofollow">',
+      `<title>${escapeHtml(t('report.pdf.title'))}</title>`,
+      `<style>${STYLE}</style>`,
+      '</head>',
+      '<body>',
+      `<h1>${escapeHtml(t('report.pdf.title'))}</h1>`,
+      `<p class="meta">${escapeHtml(t('report.pdf.reportType', { type: report.reportType }))} · ${escapeHtml(t('report.pdf.period', {
+        start: epochDayToIsoDate(report.dateRange.start),
+        end: epochDayToIsoDate(report.dateRange.end)
+      }))} · ${escapeHtml(t('report.pdf.generated', { date: charts.generatedOn }))}</p>`,
+      `<p><a href="${escapeHtml(pdfHref)}">${escapeHtml(t('report.share.downloadPdf'))}</a></p>`,
+
+      `<h2>${escapeHtml(t('report.pdf.cycleSummary'))}</h2>`,
+      table(cycleSummaryRows(report, t)),
+
+      `<h2>${escapeHtml(t('report.pdf.cycleLengths'))}</h2>`,
+      charts.cycleLengths.length > 0
+        ? table(
+          charts.cycleLengths.map((cycle): [string, string] => [
+            t('report.pdf.day', { day: epochDayToIsoDate(cycle.startEpochDay) }),
+            t('report.pdf.days', { count: cycle.length })
+          ]),
+          [t('report.share.cycleStart'), t('report.share.cycleLength')]
+        )
+        : note(t('report.pdf.noCycles')),
+
+      `<h2>${escapeHtml(t('report.pdf.bbt'))}</h2>`,
+      analysis
+        ? [
+          paragraph(t('report.pdf.bbtSummary', {
+            average: analysis.averageTemperature,
+            follicular: analysis.temperatureRange.follicularAverage,
+            luteal: analysis.temperatureRange.lutealAverage
+          })),
+          ...analysis.temperaturePatterns.map(pattern => paragraph(pattern.description))
+        ].join('\n')
+        : note(t('report.pdf.noBbt')),
+
+      `<h2>${escapeHtml(t('report.share.symptoms'))}</h2>`,
+      report.symptomAnalysis.mostCommonSymptoms.length > 0
+        ? table(
+          report.symptomAnalysis.mostCommonSymptoms.map(({ symptom, frequency }): [string, string] => [
+            t('report.pdf.symptom', { symptom }),
+            formatShare(frequency, t)
+          ]),
+          ['', t('report.share.symptomShare')]
+        )
+        : note(t('report.pdf.noSymptoms')),
+
+      `<h2>${escapeHtml(t('report.pdf.earlyWarnings'))}</h2>`,
+      charts.earlyWarnings.length > 0
+        ? `<ul>${charts.earlyWarnings.map(warning =>
+          `<li><span class="meta">${escapeHtml(t('report.pdf.day', { day: warning.date }))}</span><br>${escapeHtml(warning.text)}</li>`
+        ).join('')}</ul>`
+        : note(t('report.pdf.noEarlyWarnings')),
+
+      `<footer><p>${escapeHtml(t('report.share.disclaimer'))}</p></footer>`,
+      '</body>',
+      '</html>'
+    ].join('\n');
+  }
+}
+
+/**
+ * Escape text for HTML element content and quoted attribute values
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function table(rows: Array<[string, string]>, headers?: [string, string]): string {
+  const head = headers
+    ? `<thead><tr>${headers.map(header => `<th>${escapeHtml(header)}</th>`).join('')}</tr></thead>`
+    : '';
+  const body = rows
+    .map(([label, value]) => `<tr><td>${escapeHtml(label)}</td><td class="value">${escapeHtml(value)}</td></tr>`)
+    .join('');
+  return `<table>${head}<tbody>${body}</tbody></table>`;
+}
+
+function paragraph(text: string): string {
+  return `<p>${escapeHtml(text)}</p>`;
+}
+
+function note(text: string): string {
+  return `<p class="note">${escapeHtml(text)}</p>`;
+}
@@ -0,0 +1,328 @@
+import { HealthReport, TemperatureUnit } from '../../types';
+import { MessageParams } from '../../insights/messages/messageFormat';
+import { MessageRenderer, RenderOptions } from '../../insights/messages/messageCatalog';
+import { epochDayToIsoDate } from '../../utils/dateUtils';
+import { convertTemperature, fahrenheitToCelsius } from '../../utils/temperature';
+import { ReportCharts } from '../reportCharts';
+import { Translate, cycleSummaryRows } from '../reportLabels';
+import { A4_HEIGHT, A4_WIDTH, PdfColor, PdfDocument, PdfPage, wrapText } from './pdfDocument';
+
+const MARGIN = 48;
+const CONTENT_WIDTH = A4_WIDTH - 2 * MARGIN;
+// Kept free at the bottom of each page for the footer
+const FOOTER_HEIGHT = 28;
+
+const TEXT: PdfColor = [0.13, 0.13, 0.15];
+const MUTED: PdfColor = [0.42, 0.42, 0.46];
+const ACCENT: PdfColor = [0.45, 0.3, 0.62];
+const COVERLINE: PdfColor = [0.82, 0.33, 0.27];
+const GRID: PdfColor = [0.86, 0.86, 0.88];
+const BAND: PdfColor = [0.94, 0.93, 0.97];
+const WHITE: PdfColor = [1, 1, 1];
+
+// Typical adult cycle lengths, shaded on the cycle length chart
+const TYPICAL_CYCLE_DAYS = { min: 21, max: 35 };
+const CYCLE_CHART_HEIGHT = 170;
+const BBT_CHART_HEIGHT = 190;
+const HEATMAP_ROW_HEIGHT = 14;
+const HEATMAP_LABEL_WIDTH = 110;
+// Roughly this many date labels along a time axis
+const AXIS_DATE_LABELS = 8;
+const TEMPERATURE_STEPS = [0.05, 0.1, 0.2, 0.25, 0.5, 1];
+
+/**
+ * Lays out a health report as a PDF for clinician visits: the cycle summary with a cycle
+ * length chart, the BBT chart with coverlines, a symptom heatmap by cycle day and the
+ * active early warnings
+ */
+export class HealthReportPdfRenderer {
+  constructor(private readonly messages: MessageRenderer = new MessageRenderer()) {}
+
+  render(report: HealthReport, charts: ReportCharts, options: RenderOptions): Buffer {
+    const t = (key: string, params: MessageParams = {}): string => this.messages.render(key, params, options);
+    const document = new PdfDocument(t('report.pdf.title'));
+    const layout = new PageLayout(document);
+
+    this.header(layout, report, charts, t);
+    this.cycleSummary(layout, report, t);
+    this.cycleLengthChart(layout, charts, t);
+
+    layout.newPage();
+    this.bbtChart(layout, report, charts, options.temperatureUnit, t);
+    this.symptomHeatmap(layout, charts, t);
+
+    layout.newPage();
+    this.earlyWarnings(layout, charts, t);
+
+    document.pages.forEach((page, index) => {
+      page.text(t('report.pdf.footer', { page: index + 1, pages: document.pages.length }),
+        A4_WIDTH / 2, A4_HEIGHT - MARGIN / 2, { size: 8, color: MUTED, align: 'center' });
+    });
+    return document.toBuffer();
+  }
+
+  private header(layout: PageLayout, report: HealthReport, charts: ReportCharts, t: Translate): void {
+    const { page } = layout;
+    page.text(t('report.pdf.title'), MARGIN, layout.y + 22, { size: 22, font: 'bold', color: TEXT });
+    page.text(t('report.pdf.reportType', { type: report.reportType }), A4_WIDTH - MARGIN, layout.y + 22,
+      { size: 11, color: MUTED, align: 'right' });
+    layout.y += 42;
+
+    page.text(t('report.pdf.period', {
+      start: epochDayToIsoDate(report.dateRange.start),
+      end: epochDayToIsoDate(report.dateRange.end)
+    }), MARGIN, layout.y, { size: 11, color: TEXT });
+    page.text(t('report.pdf.generated', { date: charts.generatedOn }), A4_WIDTH - MARGIN, layout.y,
+      { size: 9, color: MUTED, align: 'right' });
+    layout.y += 10;
+    page.line(MARGIN, layout.y, A4_WIDTH - MARGIN, layout.y, { color: GRID });
+    layout.y += 26;
+  }
+
+  private cycleSummary(layout: PageLayout, report: HealthReport, t: Translate): void {
+    this.sectionTitle(layout, t('report.pdf.cycleSummary'));
+    cycleSummaryRows(report, t).forEach(([label, value], index) => {
+      if (index % 2 === 0) {
+        layout.page.rect(MARGIN, layout.y - 12, CONTENT_WIDTH, 17, { fill: BAND });
+      }
+      layout.page.text(label, MARGIN + 8, layout.y, { size: 10, color: TEXT });
+      layout.page.text(value, A4_WIDTH - MARGIN - 8, layout.y, { size: 10, font: 'bold', color: TEXT, align: 'right' });
+      layout.y += 17;
+    });
+    layout.y += 20;
+  }
+
+  private cycleLengthChart(layout: PageLayout, charts: ReportCharts, t: Translate): void {
+    const cycles = charts.cycleLengths;
+    if (cycles.length === 0) {
+      this.sectionTitle(layout, t('report.pdf.cycleLengths'));
+      this.note(layout, t('report.pdf.noCycles'));
+      return;
+    }
+
+    layout.reserve(CYCLE_CHART_HEIGHT + 60);
+    this.sectionTitle(layout, t('report.pdf.cycleLengths'));
+    const { page } = layout;
+    const lengths = cycles.map(cycle => cycle.length);
+    const min = Math.floor((Math.min(TYPICAL_CYCLE_DAYS.min, ...lengths) - 1) / 5) * 5;
+    const max = Math.ceil((Math.max(TYPICAL_CYCLE_DAYS.max, ...lengths) + 1) / 5) * 5;
+    const plot = { x: MARGIN + 28, y: layout.y, width: CONTENT_WIDTH - 28, height: CYCLE_CHART_HEIGHT };
+    const yOf = (days: number): number => plot.y + plot.height * (1 - (days - min) / (max - min));
+
+    page.rect(plot.x, yOf(TYPICAL_CYCLE_DAYS.max), plot.width, yOf(TYPICAL_CYCLE_DAYS.min) - yOf(TYPICAL_CYCLE_DAYS.max),
+      { fill: BAND });
+    for (let days = min; days <= max; days += 5) {
+      page.line(plot.x, yOf(days), plot.x + plot.width, yOf(days), { color: GRID, width: 0.5 });
+      page.text(String(days), plot.x - 6, yOf(days) + 3, { size: 8, color: MUTED, align: 'right' });
+    }
+
+    const slot = plot.width / cycles.length;
+    const barWidth = Math.min(36, slot * 0.6);
+    const labelEvery = Math.ceil(cycles.length / 12);
+    cycles.forEach((cycle, index) => {
+      const center = plot.x + slot * (index + 0.5);
+      page.rect(center - barWidth / 2, yOf(cycle.length), barWidth, yOf(min) - yOf(cycle.length), { fill: ACCENT });
+      page.text(String(cycle.length), center, yOf(cycle.length) - 4, { size: 8, color: TEXT, align: 'center' });
+      if (index % labelEvery === 0) {
+        page.text(t('report.pdf.day', { day: epochDayToIsoDate(cycle.startEpochDay) }), center, plot.y + plot.height + 12,
+          { size: 7, color: MUTED, align: 'center' });
+      }
+    });
+    page.line(plot.x, yOf(min), plot.x + plot.width, yOf(min), { color: MUTED, width: 0.75 });
+
+    layout.y += plot.height + 30;
+    this.note(layout, t('report.pdf.typicalRange'));
+  }
+
+  private bbtChart(
+    layout: PageLayout,
+    report: HealthReport,
+    charts: ReportCharts,
+    unit: TemperatureUnit,
+    t: Translate
+  ): void {
+    if (charts.temperatures.length === 0) {
+      this.sectionTitle(layout, t('report.pdf.bbt'));
+      this.note(layout, t('report.pdf.noBbt'));
+      return;
+    }
+
+    layout.reserve(BBT_CHART_HEIGHT + 60);
+    this.sectionTitle(layout, t('report.pdf.bbt'));
+    const { page } = layout;
+    const { start, end } = report.dateRange;
+
+    // Ticks fall on round values of the user's unit; positions are computed in Celsius
+    const toCelsius = (value: number): number => unit === TemperatureUnit.FAHRENHEIT ? fahrenheitToCelsius(value) : value;
+    const shown = [...charts.temperatures.map(reading => reading.celsius), ...charts.coverlines.map(line => line.celsius)]
+      .map(celsius => convertTemperature(celsius, unit));
+    const low = Math.min(...shown);
+    const high = Math.max(...shown);
+    const step = TEMPERATURE_STEPS.find(candidate => (high - low) / candidate <= 6) ?? 1;
+    const min = Math.floor(low / step) * step - step;
+    const max = Math.ceil(high / step) * step + step;
+
+    const plot = { x: MARGIN + 40, y: layout.y, width: CONTENT_WIDTH - 40, height: BBT_CHART_HEIGHT };
+    const xOf = (epochDay: number): number => plot.x + plot.width * (epochDay - start + 0.5) / (end - start + 1);
+    const yOf = (celsius: number): number =>
+      plot.y + plot.height * (1 - (convertTemperature(celsius, unit) - min) / (max - min));
+
+    for (let index = 0; min + index * step <= max + step / 2; index++) {
+      const celsius = toCelsius(min + index * step);
+      page.line(plot.x, yOf(celsius), plot.x + plot.width, yOf(celsius), { color: GRID, width: 0.5 });
+      page.text(t('report.pdf.temperature', { value: celsius }), plot.x - 6, yOf(celsius) + 3,
+        { size: 8, color: MUTED, align: 'right' });
+    }
+    charts.cycleStarts.forEach(epochDay => {
+      page.line(xOf(epochDay), plot.y, xOf(epochDay), plot.y + plot.height, { color: MUTED, width: 0.5, dash: [2, 2] });
+    });
+    const labelEvery = Math.ceil((end - start + 1) / AXIS_DATE_LABELS);
+    for (let epochDay = start; epochDay <= end; epochDay += labelEvery) {
+      page.text(t('report.pdf.day', { day: epochDayToIsoDate(epochDay) }), xOf(epochDay), plot.y + plot.height + 12,
+        { size: 7, color: MUTED, align: 'center' });
+    }
+
+    charts.coverlines.forEach(line => {
+      page.line(xOf(line.startEpochDay - 0.5), yOf(line.celsius), xOf(line.endEpochDay + 0.5), yOf(line.celsius),
+        { color: COVERLINE, width: 1, dash: [4, 2] });
+    });
+    page.polyline(charts.temperatures.map(reading => [xOf(reading.epochDay), yOf(reading.celsius)]),
+      { color: ACCENT, width: 1 });
+    charts.temperatures.forEach(reading => {
+      page.circle(xOf(reading.epochDay), yOf(reading.celsius), 1.8, { fill: ACCENT });
+    });
+    page.rect(plot.x, plot.y, plot.width, plot.height, { stroke: { color: MUTED, width: 0.75 } });
+
+    layout.y += plot.height + 26;
+    if (charts.coverlines.length > 0) {
+      page.line(MARGIN, layout.y - 3, MARGIN + 18, layout.y - 3, { color: COVERLINE, dash: [4, 2] });
+      page.text(t('report.pdf.coverline'), MARGIN + 24, layout.y, { size: 8, color: MUTED });
+      layout.y += 16;
+    }
+
+    const analysis = report.symptomAnalysis.bbtAnalysis;
+    if (analysis) {
+      this.paragraph(layout, t('report.pdf.bbtSummary', {
+        average: analysis.averageTemperature,
+        follicular: analysis.temperatureRange.follicularAverage,
+        luteal: analysis.temperatureRange.lutealAverage
+      }), 10);
+      analysis.temperaturePatterns.forEach(pattern => this.paragraph(layout, pattern.description, 10));
+    }
+    layout.y += 16;
+  }
+
+  private symptomHeatmap(layout: PageLayout, charts: ReportCharts, t: Translate): void {
+    const heatmap = charts.symptomHeatmap;
+    if (heatmap.rows.length === 0 || heatmap.cycleDays === 0) {
+      this.sectionTitle(layout, t('report.pdf.symptomHeatmap'));
+      this.note(layout, t('report.pdf.noSymptoms'));
+      return;
+    }
+
+    layout.reserve(40 + (heatmap.rows.length + 2) * HEATMAP_ROW_HEIGHT);
+    this.sectionTitle(layout, t('report.pdf.symptomHeatmap'));
+    const { page } = layout;
+    const gridX = MARGIN + HEATMAP_LABEL_WIDTH;
+    const cellWidth = (CONTENT_WIDTH - HEATMAP_LABEL_WIDTH) / heatmap.cycleDays;
+
+    for (let day = 1; day <= heatmap.cycleDays; day++) {
+      if (day !== 1 && day % 5 !== 0 && day !== heatmap.cycleDays) {continue;}
+      const label = heatmap.folded && day === heatmap.cycleDays ? `${day}+` : String(day);
+      page.text(label, gridX + cellWidth * (day - 0.5), layout.y, { size: 7, color: MUTED, align: 'center' });
+    }
+    layout.y += 6;
+
+    heatmap.rows.forEach(row => {
+      page.text(t('report.pdf.symptom', { symptom: row.symptom }), MARGIN, layout.y + HEATMAP_ROW_HEIGHT - 4,
+        { size: 9, color: TEXT });
+      row.counts.forEach((count, column) => {
+        const logged = heatmap.loggedDays[column];
+        page.rect(gridX + cellWidth * column, layout.y, cellWidth, HEATMAP_ROW_HEIGHT, {
+          fill: logged > 0 ? blend(WHITE, ACCENT, count / logged) : WHITE,
+          stroke: { color: GRID, width: 0.5 }
+        });
+      });
+      layout.y += HEATMAP_ROW_HEIGHT;
+    });
+    layout.y += 16;
+    this.note(layout, t('report.pdf.heatmapLegend'));
+  }
+
+  private earlyWarnings(layout: PageLayout, charts: ReportCharts, t: Translate): void {
+    this.sectionTitle(layout, t('report.pdf.earlyWarnings'));
+    if (charts.earlyWarnings.length === 0) {
+      this.note(layout, t('report.pdf.noEarlyWarnings'));
+      return;
+    }
+
+    charts.earlyWarnings.forEach(warning => {
+      const lines = wrapText(warning.text, 'regular', 10, CONTENT_WIDTH - 14);
+      layout.reserve(16 + lines.length * 13);
+      layout.page.circle(MARGIN + 3, layout.y - 3, 2, { fill: COVERLINE });
+      layout.page.text(t('report.pdf.day', { day: warning.date }), MARGIN + 14, layout.y,
+        { size: 9, font: 'bold', color: MUTED });
+      layout.y += 14;
+      lines.forEach(line => {
+        layout.page.text(line, MARGIN + 14, layout.y, { size: 10, color: TEXT });
+        layout.y += 13;
+      });
+      layout.y += 8;
+    });
+  }
+
+  /**
+   * A section heading, kept on the page of the first lines below it
+   */
+  private sectionTitle(layout: PageLayout, title: string): void {
+    layout.reserve(60);
+    layout.page.text(title, MARGIN, layout.y, { size: 14, font: 'bold', color: ACCENT });
+    layout.y += 22;
+  }
+
+  private note(layout: PageLayout, text: string): void {
+    wrapText(text, 'regular', 8, CONTENT_WIDTH).forEach(line => {
+      layout.reserve(11);
+      layout.page.text(line, MARGIN, layout.y, { size: 8, color: MUTED });
+      layout.y += 11;
+    });
+    layout.y += 12;
+  }
+
+  private paragraph(layout: PageLayout, text: string, size: number): void {
+    wrapText(text, 'regular', size, CONTENT_WIDTH).forEach(line => {
+      layout.reserve(size + 3);
+      layout.page.text(line, MARGIN, layout.y, { size, color: TEXT });
+      layout.y += size + 3;
+    });
+    layout.y += 4;
+  }
+}
+
+/**
+ * The page being filled and the top of its free space
+ */
+class PageLayout {
+  page: PdfPage;
+  y = MARGIN;
+
+  constructor(private readonly document: PdfDocument) {
+    this.page = document.addPage();
+  }
+
+  newPage(): void {
+    this.page = this.document.addPage();
+    this.y = MARGIN;
+  }
+
+  /**
+   * Move to a new page unless height fits above the footer
+   */
+  reserve(height: number): void {
+    if (this.y + height > A4_HEIGHT - MARGIN - FOOTER_HEIGHT) {this.newPage();}
+  }
+}
+
+function blend(from: PdfColor, to: PdfColor, amount: number): PdfColor {
+  return from.map((channel, index) => channel + (to[index] - channel) * amount) as PdfColor;
+}
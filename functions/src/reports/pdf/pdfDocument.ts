@@ -0,0 +1,301 @@
+/**
+ * A minimal PDF 1.4 writer: pages of text, lines and filled shapes in the standard
+ * Helvetica fonts, which every viewer has, so no font is embedded
+ */
+
+export type PdfFont = 'regular' | 'bold';
+
+/** RGB, each channel 0 to 1 */
+export type PdfColor = [number, number, number];
+
+export interface TextStyle {
+  size: number;
+  font?: PdfFont;
+  color?: PdfColor;
+  /** Where x is: the start, middle or end of the text */
+  align?: 'left' | 'center' | 'right';
+}
+
+export interface StrokeStyle {
+  color?: PdfColor;
+  width?: number;
+  /** Dash and gap lengths */
+  dash?: number[];
+}
+
+export interface ShapeStyle {
+  fill?: PdfColor;
+  stroke?: StrokeStyle;
+}
+
+// A4 in points
+export const A4_WIDTH = 595.28;
+export const A4_HEIGHT = 841.89;
+
+const BLACK: PdfColor = [0, 0, 0];
+
+const FONT_RESOURCES: Record<PdfFont, { name: string; baseFont: string }> = {
+  regular: { name: 'F1', baseFont: 'Helvetica' },
+  bold: { name: 'F2', baseFont: 'Helvetica-Bold' }
+};
+
+// Glyph widths of characters 32 to 126 in 1/1000 em, from the Adobe font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+// Punctuation outside Latin-1 that WinAnsiEncoding has, with its code and width
+const WIN_ANSI_EXTRAS: Record<string, [number, number]> = {
+  '€': [0x80, 556],
+  '…': [0x85, 1000],
+  '‘': [0x91, 222],
+  '’': [0x92, 222],
+  '“': [0x93, 333],
+  '”': [0x94, 333],
+  '•': [0x95, 350],
+  '–': [0x96, 556],
+  '—': [0x97, 1000]
+};
+
+// Latin-1 signs whose width is not that of a base letter
+const LATIN1_WIDTHS: Record<string, number> = {
+  '¡': 333,
+  '¿': 611,
+  '°': 400,
+  '±': 584,
+  '·': 278,
+  '×': 584,
+  ' ': 278
+};
+
+const DEFAULT_WIDTH = 556;
+
+/**
+ * Width of a line of text in points
+ */
+export function textWidth(text: string, font: PdfFont, size: number): number {
+  const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let units = 0;
+  for (const char of text.normalize('NFC')) {
+    units += charWidth(char, widths);
+  }
+  return units * size / 1000;
+}
+
+/**
+ * Break text into lines no wider than maxWidth, at spaces where possible
+ */
+export function wrapText(text: string, font: PdfFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  text.split(/\s+/).filter(word => word !== '').forEach(word => {
+    const candidate = line === '' ? word : `${line} ${word}`;
+    if (textWidth(candidate, font, size) <= maxWidth) {
+      line = candidate;
+      return;
+    }
+    if (line !== '') {lines.push(line);}
+
+    // A word wider than the line is split wherever it overflows
+    line = '';
+    for (const char of word) {
+      if (line !== '' && textWidth(line + char, font, size) > maxWidth) {
+        lines.push(line);
+        line = '';
+      }
+      line += char;
+    }
+  });
+  if (line !== '') {lines.push(line);}
+
+  return lines;
+}
+
+/**
+ * One page. Coordinates are in points from the top left corner; text y is the baseline.
+ */
+export class PdfPage {
+  private readonly operations: string[] = [];
+
+  constructor(readonly width: number = A4_WIDTH, readonly height: number = A4_HEIGHT) {}
+
+  text(text: string, x: number, y: number, style: TextStyle): void {
+    const font = style.font ?? 'regular';
+    const width = textWidth(text, font, style.size);
+    const left = style.align === 'center' ? x - width / 2 : style.align === 'right' ? x - width : x;
+
+    this.operations.push(
+      'BT',
+      fillColor(style.color ?? BLACK),
+      `/${FONT_RESOURCES[font].name} ${num(style.size)} Tf`,
+      `${num(left)} ${num(this.height - y)} Td`,
+      `(${encodeText(text)}) Tj`,
+      'ET'
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, style: StrokeStyle = {}): void {
+    this.polyline([[x1, y1], [x2, y2]], style);
+  }
+
+  polyline(points: Array<[number, number]>, style: StrokeStyle = {}): void {
+    if (points.length < 2) {return;}
+
+    const path = points.map(([x, y], index) => `${num(x)} ${num(this.height - y)} ${index === 0 ? 'm' : 'l'}`);
+    this.operations.push('q', ...strokeState(style), ...path, 'S', 'Q');
+  }
+
+  /**
+   * A rectangle from its top left corner
+   */
+  rect(x: number, y: number, width: number, height: number, style: ShapeStyle): void {
+    this.shape(`${num(x)} ${num(this.height - y - height)} ${num(width)} ${num(height)} re`, style);
+  }
+
+  circle(x: number, y: number, radius: number, style: ShapeStyle): void {
+    // Four Bézier quarter arcs
+    const k = 0.5523 * radius;
+    const cy = this.height - y;
+    this.shape([
+      `${num(x + radius)} ${num(cy)} m`,
+      `${num(x + radius)} ${num(cy + k)} ${num(x + k)} ${num(cy + radius)} ${num(x)} ${num(cy + radius)} c`,
+      `${num(x - k)} ${num(cy + radius)} ${num(x - radius)} ${num(cy + k)} ${num(x - radius)} ${num(cy)} c`,
+      `${num(x - radius)} ${num(cy - k)} ${num(x - k)} ${num(cy - radius)} ${num(x)} ${num(cy - radius)} c`,
+      `${num(x + k)} ${num(cy - radius)} ${num(x + radius)} ${num(cy - k)} ${num(x + radius)} ${num(cy)} c`
+    ].join('\n'), style);
+  }
+
+  /** The page's content stream */
+  content(): string {
+    return this.operations.join('\n');
+  }
+
+  private shape(path: string, style: ShapeStyle): void {
+    const paint = style.fill && style.stroke ? 'B' : style.fill ? 'f' : 'S';
+    this.operations.push(
+      'q',
+      ...(style.fill ? [fillColor(style.fill)] : []),
+      ...(style.stroke ? strokeState(style.stroke) : []),
+      path,
+      paint,
+      'Q'
+    );
+  }
+}
+
+/**
+ * Pages in order, serialized with a cross-reference table so viewers can open the file
+ * without repairing it
+ */
+export class PdfDocument {
+  readonly pages: PdfPage[] = [];
+
+  constructor(private readonly title: string) {}
+
+  addPage(): PdfPage {
+    const page = new PdfPage();
+    this.pages.push(page);
+    return page;
+  }
+
+  toBuffer(): Buffer {
+    // Objects 1 to 5 are fixed; each page adds a page and a content stream object
+    const pageIds = this.pages.map((_, index) => 6 + index * 2);
+    const objects: string[] = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${this.pages.length} >>`,
+      fontObject(FONT_RESOURCES.regular.baseFont),
+      fontObject(FONT_RESOURCES.bold.baseFont),
+      `<< /Title (${encodeText(this.title)}) /Producer (eunio) >>`
+    ];
+    this.pages.forEach((page, index) => {
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+      );
+      const content = page.content();
+      objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    });
+
+    // Every character is a single Latin-1 byte, so string lengths are byte offsets
+    let output = '%PDF-1.4\n%âãÏÓ\n';
+    const offsets: number[] = [];
+    objects.forEach((object, index) => {
+      offsets.push(output.length);
+      output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    });
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+}
+
+function fontObject(baseFont: string): string {
+  return `<< /Type /Font /Subtype /Type1 /BaseFont /${baseFont} /Encoding /WinAnsiEncoding >>`;
+}
+
+function charWidth(char: string, widths: number[]): number {
+  const code = char.charCodeAt(0);
+  if (code >= 32 && code <= 126) {return widths[code - 32];}
+  if (WIN_ANSI_EXTRAS[char]) {return WIN_ANSI_EXTRAS[char][1];}
+  if (LATIN1_WIDTHS[char] !== undefined) {return LATIN1_WIDTHS[char];}
+
+  // Accented letters are as wide as their base letter
+  const base = char.normalize('NFD').charCodeAt(0);
+  return base >= 32 && base <= 126 ? widths[base - 32] : DEFAULT_WIDTH;
+}
+
+/**
+ * Text as the bytes of a PDF string in WinAnsiEncoding; characters the encoding lacks
+ * become ?
+ */
+function encodeText(text: string): string {
+  let encoded = '';
+  for (const char of text.normalize('NFC')) {
+    const code = char.charCodeAt(0);
+    if (char === '(' || char === ')' || char === '\\') {
+      encoded += `\\${char}`;
+    } else if ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) {
+      encoded += char;
+    } else if (WIN_ANSI_EXTRAS[char]) {
+      encoded += String.fromCharCode(WIN_ANSI_EXTRAS[char][0]);
+    } else {
+      encoded += '?';
+    }
+  }
+  return encoded;
+}
+
+function fillColor(color: PdfColor): string {
+  return `${color.map(num).join(' ')} rg`;
+}
+
+function strokeState(style: StrokeStyle): string[] {
+  return [
+    `${(style.color ?? BLACK).map(num).join(' ')} RG`,
+    `${num(style.width ?? 1)} w`,
+    `[${(style.dash ?? []).map(num).join(' ')}] 0 d`
+  ];
+}
+
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
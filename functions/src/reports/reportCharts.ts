@@ -0,0 +1,136 @@
+import * as admin from 'firebase-admin';
+import { HealthReport, Insight, InsightType } from '../types';
+import { InsightRepository } from '../data/insightRepository';
+import { getCycleBounds, isDayInCycle } from '../cycles/cycleBounds';
+import { RenderOptions } from '../insights/messages/messageCatalog';
+import { epochDayToIsoDate, toEpochDay, toLocalEpochDay } from '../utils/dateUtils';
+import { ReportData, loadReportData } from './reportData';
+
+// Later cycle days share the last heatmap column
+const MAX_HEATMAP_CYCLE_DAYS = 35;
+
+export interface SymptomHeatmap {
+  /** Columns for cycle days 1 to cycleDays; the last also counts later days when folded */
+  cycleDays: number;
+  folded: boolean;
+  /** Logged days per column */
+  loggedDays: number[];
+  /** The report's most common symptoms, with their logged days per column */
+  rows: Array<{ symptom: string; counts: number[] }>;
+}
+
+/**
+ * Day-by-day series behind a report's charts, which the stored report only summarizes
+ */
+export interface ReportCharts {
+  /** Local day the report was generated, yyyy-MM-dd */
+  generatedOn: string;
+  /** Completed cycles overlapping the range, oldest first */
+  cycleLengths: Array<{ startEpochDay: number; length: number }>;
+  /** First days of cycles within the range */
+  cycleStarts: number[];
+  /** BBT readings in the range in °C, oldest first */
+  temperatures: Array<{ epochDay: number; celsius: number }>;
+  /** Thermal-shift coverlines, each across its cycle's days in the range */
+  coverlines: Array<{ startEpochDay: number; endEpochDay: number; celsius: number }>;
+  symptomHeatmap: SymptomHeatmap;
+  /** Newest first */
+  earlyWarnings: Array<{ date: string; text: string }>;
+}
+
+/**
+ * Load a stored report's chart series from the user's current logs, with the language and
+ * unit to render them in. Charts therefore show edits made since the report was generated.
+ */
+export async function loadReportCharts(
+  db: admin.firestore.Firestore,
+  userId: string,
+  report: HealthReport
+): Promise<{ charts: ReportCharts; renderOptions: RenderOptions }> {
+  const [data, earlyWarnings] = await Promise.all([
+    loadReportData(db, userId, report.dateRange.start),
+    new InsightRepository(db).getActiveInsights(userId, InsightType.EARLY_WARNING)
+  ]);
+  return {
+    charts: buildReportCharts(report, data, earlyWarnings),
+    renderOptions: { locale: data.locale, temperatureUnit: data.temperatureUnit }
+  };
+}
+
+/**
+ * Collect the chart series of a stored report from the user's data
+ */
+export function buildReportCharts(report: HealthReport, data: ReportData, earlyWarnings: Insight[]): ReportCharts {
+  const { start, end } = report.dateRange;
+  const cycles = data.cycles
+    .map((cycle, index) => ({ bounds: getCycleBounds(cycle), detection: data.detections[index] }))
+    .filter(({ bounds }) =>
+      bounds.startEpochDay <= end && (bounds.nextStartEpochDay === undefined || bounds.nextStartEpochDay > start)
+    )
+    .sort((a, b) => a.bounds.startEpochDay - b.bounds.startEpochDay);
+  const rangeLogs = data.dailyLogs
+    .map(log => ({ log, epochDay: toEpochDay(log.date) }))
+    .filter(({ epochDay }) => epochDay >= start && epochDay <= end)
+    .sort((a, b) => a.epochDay - b.epochDay);
+
+  const coverlines: ReportCharts['coverlines'] = [];
+  cycles.forEach(({ bounds, detection }) => {
+    if (!detection?.thermalShift) {return;}
+    coverlines.push({
+      startEpochDay: Math.max(bounds.startEpochDay, start),
+      endEpochDay: Math.min(bounds.nextStartEpochDay !== undefined ? bounds.nextStartEpochDay - 1 : end, end),
+      celsius: detection.thermalShift.coverlineCelsius
+    });
+  });
+
+  return {
+    generatedOn: epochDayToIsoDate(toLocalEpochDay({ seconds: Math.floor(report.generatedDate / 1000) }, data.timeZone)),
+    cycleLengths: cycles
+      .filter(({ bounds }) => bounds.nextStartEpochDay !== undefined)
+      .map(({ bounds }) => ({
+        startEpochDay: bounds.startEpochDay,
+        length: (bounds.nextStartEpochDay as number) - bounds.startEpochDay
+      })),
+    cycleStarts: cycles
+      .map(({ bounds }) => bounds.startEpochDay)
+      .filter(epochDay => epochDay >= start),
+    temperatures: rangeLogs
+      .filter(({ log }) => log.bbt !== undefined)
+      .map(({ log, epochDay }) => ({ epochDay, celsius: log.bbt as number })),
+    coverlines,
+    symptomHeatmap: symptomHeatmap(
+      report.symptomAnalysis.mostCommonSymptoms.map(({ symptom }) => symptom),
+      rangeLogs.map(({ log, epochDay }) => {
+        const cycle = cycles.find(({ bounds }) => isDayInCycle(epochDay, bounds));
+        return { symptoms: log.symptoms ?? [], cycleDay: cycle ? epochDay - cycle.bounds.startEpochDay + 1 : undefined };
+      })
+    ),
+    earlyWarnings: earlyWarnings.map(insight => {
+      const generated = insight.generatedDate instanceof Date
+        ? { seconds: Math.floor(insight.generatedDate.getTime() / 1000) }
+        : insight.generatedDate as admin.firestore.Timestamp;
+      return { date: epochDayToIsoDate(toLocalEpochDay(generated, data.timeZone)), text: insight.insightText };
+    })
+  };
+}
+
+function symptomHeatmap(
+  symptoms: string[],
+  days: Array<{ symptoms: string[]; cycleDay?: number }>
+): SymptomHeatmap {
+  const placed = days.filter(day => day.cycleDay !== undefined);
+  const lastDay = Math.max(0, ...placed.map(day => day.cycleDay as number));
+  const cycleDays = Math.min(lastDay, MAX_HEATMAP_CYCLE_DAYS);
+
+  const loggedDays: number[] = new Array(cycleDays).fill(0);
+  const rows = symptoms.map(symptom => ({ symptom, counts: new Array(cycleDays).fill(0) as number[] }));
+  placed.forEach(day => {
+    const column = Math.min(day.cycleDay as number, cycleDays) - 1;
+    loggedDays[column]++;
+    rows.forEach(row => {
+      if (day.symptoms.includes(row.symptom)) {row.counts[column]++;}
+    });
+  });
+
+  return { cycleDays, folded: lastDay > MAX_HEATMAP_CYCLE_DAYS, loggedDays, rows };
+}
@@ -0,0 +1,66 @@
+import * as admin from 'firebase-admin';
+import { Cycle, DailyLog, TemperatureUnit, UserSettings } from '../types';
+import { DailyLogRepository } from '../data/dailyLogRepository';
+import { CycleRepository, mergeCycles } from '../data/cycleRepository';
+import { UserSettingsRepository } from '../data/userSettingsRepository';
+import { CycleReconstructor } from '../cycles/cycleReconstructor';
+import { OvulationDetection, OvulationDetector } from '../cycles/ovulationDetector';
+import { resolveLocale } from '../insights/messages/messageCatalog';
+import { MS_PER_DAY, resolveTimeZone, subtractMonths } from '../utils/dateUtils';
+import { normalizeBbtReadings, resolveTemperatureUnit } from '../utils/temperature';
+
+// Logs and cycles before the range, so the cycles it starts in are complete and charted
+const LOOKBACK_MONTHS = 6;
+
+/**
+ * A user's logs and cycles around a report range, analyzed as the insight run sees them
+ */
+export interface ReportData {
+  timeZone: string;
+  /** From before the range to today, BBT in Celsius */
+  dailyLogs: DailyLog[];
+  /** Stored and reconstructed cycles with detected ovulation applied */
+  cycles: Cycle[];
+  /** Ovulation detection per cycle, in the order of `cycles` */
+  detections: OvulationDetection[];
+  settings: UserSettings;
+  temperatureUnit: TemperatureUnit;
+  locale: string;
+}
+
+export async function loadReportData(
+  db: admin.firestore.Firestore,
+  userId: string,
+  startEpochDay: number
+): Promise<ReportData> {
+  const timeZone = resolveTimeZone((await db.collection('users').doc(userId).get()).data()?.timeZone);
+  const sinceEpochDay = subtractMonths(startEpochDay, LOOKBACK_MONTHS);
+  const since = new Date(sinceEpochDay * MS_PER_DAY);
+
+  // Later logs are read too: the next period closes the last cycle of the range
+  const [logRead, storedCycles, settings] = await Promise.all([
+    new DailyLogRepository(db).getLogsSince(userId, since, timeZone),
+    new CycleRepository(db).getCyclesSince(userId, since, timeZone),
+    new UserSettingsRepository(db).getSettings(userId)
+  ]);
+  const bbt = normalizeBbtReadings(logRead.logs);
+  const dailyLogs = bbt.logs;
+
+  const ovulationDetector = new OvulationDetector();
+  const cycles = mergeCycles(storedCycles, new CycleReconstructor().reconstruct(userId, dailyLogs, sinceEpochDay).cycles);
+  const detections = ovulationDetector.detectAll(cycles, dailyLogs);
+
+  return {
+    timeZone,
+    dailyLogs,
+    cycles: cycles.map((cycle, index) => {
+      // Ovulation dates entered in the apps carry no signals and are kept as is
+      if (cycle.confirmedOvulationDate && !cycle.ovulationSignals) {return cycle;}
+      return ovulationDetector.applyDetection(cycle, detections[index]);
+    }),
+    detections,
+    settings,
+    temperatureUnit: resolveTemperatureUnit(settings.unitPreferences, bbt.unitCounts),
+    locale: resolveLocale(settings.locale)
+  };
+}
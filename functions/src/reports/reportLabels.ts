@@ -0,0 +1,39 @@
+import { HealthReport } from '../types';
+import { MessageParams } from '../insights/messages/messageFormat';
+import { roundTo } from '../utils/statistics';
+
+/** Renders a report.* catalog message in the reader's locale and unit */
+export type Translate = (key: string, params?: MessageParams) => string;
+
+/**
+ * Label and value rows of a report's cycle summary, as its PDF and shared page show them
+ */
+export function cycleSummaryRows(report: HealthReport, t: Translate): Array<[string, string]> {
+  const { cycleSummary } = report;
+  const { ovulationPatterns } = cycleSummary;
+  const notAvailable = t('report.pdf.notAvailable');
+  const hasCycles = cycleSummary.totalCycles > 0;
+  const hasOvulation = ovulationPatterns.ovulationConfidenceRate > 0;
+
+  return [
+    [t('report.pdf.totalCycles'), String(cycleSummary.totalCycles)],
+    [t('report.pdf.averageCycleLength'),
+      hasCycles ? t('report.pdf.days', { count: cycleSummary.averageCycleLength }) : notAvailable],
+    [t('report.pdf.averageLutealPhase'),
+      cycleSummary.averageLutealPhase > 0 ? t('report.pdf.days', { count: cycleSummary.averageLutealPhase }) : notAvailable],
+    [t('report.pdf.regularity'), t('report.pdf.regularityValue', { regularity: cycleSummary.cycleRegularity })],
+    [t('report.pdf.averageOvulationDay'),
+      hasOvulation ? t('report.pdf.cycleDay', { day: ovulationPatterns.averageOvulationDay }) : notAvailable],
+    [t('report.pdf.ovulationConfirmed'),
+      hasCycles ? formatShare(ovulationPatterns.ovulationConfidenceRate, t) : notAvailable],
+    [t('report.pdf.fertileWindowAccuracy'),
+      hasOvulation ? formatShare(ovulationPatterns.fertilityWindowAccuracy, t) : notAvailable]
+  ];
+}
+
+/**
+ * A 0 to 1 share as a whole percentage
+ */
+export function formatShare(share: number, t: Translate): string {
+  return t('report.pdf.percent', { value: roundTo(share * 100, 0) });
+}
@@ -0,0 +1,179 @@
+import * as admin from 'firebase-admin';
+import { createHash, randomBytes } from 'crypto';
+import { HealthReportRepository } from '../../data/healthReportRepository';
+import {
+  ReportShare,
+  ReportShareRepository,
+  ShareAccess,
+  ShareAccessOutcome,
+  shareAccessOutcome
+} from '../../data/reportShareRepository';
+import { MS_PER_DAY } from '../../utils/dateUtils';
+import { HealthReportHtmlRenderer } from '../html/healthReportHtmlRenderer';
+import { HealthReportPdfRenderer } from '../pdf/healthReportPdfRenderer';
+import { loadReportCharts } from '../reportCharts';
+
+// Expiration limits as in the apps' ShareHealthReportUseCase
+const DEFAULT_EXPIRATION_DAYS = 7;
+const MAX_EXPIRATION_DAYS = 30;
+const DEFAULT_MAX_VIEWS = 10;
+const MAX_VIEWS = 100;
+// 256 random bits, base64url encoded
+const TOKEN_BYTES = 32;
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+
+export interface CreateShareRequest {
+  reportId: string;
+  expirationDays: number;
+  maxViews: number;
+}
+
+export type CreateShareRequestParse =
+  | { ok: true; request: CreateShareRequest }
+  | { ok: false; message: string };
+
+export type CreateShareResult =
+  | { status: 'created'; token: string; share: ReportShare }
+  | { status: 'notFound' };
+
+export type OpenShareResult =
+  | { status: 'served'; contentType: string; body: string | Buffer; share: ReportShare }
+  | { status: Exclude<ShareAccessOutcome, 'served'> }
+  | { status: 'notFound' };
+
+/**
+ * Validate a share request: { reportId, expirationDays?, maxViews? }
+ */
+export function parseCreateShareRequest(data: unknown): CreateShareRequestParse {
+  const raw = (data ?? {}) as Record<string, unknown>;
+  const expirationDays = raw.expirationDays ?? DEFAULT_EXPIRATION_DAYS;
+  const maxViews = raw.maxViews ?? DEFAULT_MAX_VIEWS;
+
+  if (typeof raw.reportId !== 'string' || raw.reportId.length === 0 || raw.reportId.includes('/')) {
+    return { ok: false, message: 'reportId is required' };
+  }
+  if (!isWholeNumberIn(expirationDays, 1, MAX_EXPIRATION_DAYS)) {
+    return { ok: false, message: `Expiration days must be between 1 and ${MAX_EXPIRATION_DAYS}` };
+  }
+  if (!isWholeNumberIn(maxViews, 1, MAX_VIEWS)) {
+    return { ok: false, message: `maxViews must be between 1 and ${MAX_VIEWS}` };
+  }
+
+  return { ok: true, request: { reportId: raw.reportId, expirationDays, maxViews } };
+}
+
+/**
+ * Id of the share a token opens
+ */
+export function shareIdForToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Whether a string has the shape of a share token, checked before any lookup
+ */
+export function isShareToken(value: string): boolean {
+  return TOKEN_PATTERN.test(value);
+}
+
+/**
+ * Time-limited, revocable links that show one report to someone without an account, as a
+ * read-only page or a PDF
+ */
+export class ReportShareService {
+  private readonly shares: ReportShareRepository;
+  private readonly reports: HealthReportRepository;
+
+  constructor(
+    private readonly db: admin.firestore.Firestore,
+    private readonly htmlRenderer: HealthReportHtmlRenderer = new HealthReportHtmlRenderer(),
+    private readonly pdfRenderer: HealthReportPdfRenderer = new HealthReportPdfRenderer()
+  ) {
+    this.shares = new ReportShareRepository(db);
+    this.reports = new HealthReportRepository(db);
+  }
+
+  /**
+   * Create a share of one of the user's reports. The token is only returned here.
+   */
+  async create(userId: string, request: CreateShareRequest, now: Date = new Date()): Promise<CreateShareResult> {
+    if (!await this.reports.get(userId, request.reportId)) {return { status: 'notFound' };}
+
+    const token = randomBytes(TOKEN_BYTES).toString('base64url');
+    const share: ReportShare = {
+      id: shareIdForToken(token),
+      userId,
+      reportId: request.reportId,
+      createdAt: now.getTime(),
+      expiresAt: now.getTime() + request.expirationDays * MS_PER_DAY,
+      maxViews: request.maxViews,
+      viewCount: 0
+    };
+
+    await this.shares.create(share);
+    await this.reports.setShared(userId, request.reportId, true);
+    return { status: 'created', token, share };
+  }
+
+  /**
+   * Serve the report a token opens, counting the view
+   */
+  async open(token: string, access: ShareAccess, now: Date = new Date()): Promise<OpenShareResult> {
+    if (!isShareToken(token)) {return { status: 'notFound' };}
+
+    const recorded = await this.shares.recordAccess(shareIdForToken(token), access, now);
+    if (!recorded) {return { status: 'notFound' };}
+    if (recorded.outcome !== 'served') {return { status: recorded.outcome };}
+
+    const { share } = recorded;
+    const report = await this.reports.get(share.userId, share.reportId);
+    if (!report) {return { status: 'notFound' };}
+
+    const { charts, renderOptions } = await loadReportCharts(this.db, share.userId, report);
+    return access.format === 'pdf'
+      ? {
+        status: 'served',
+        contentType: 'application/pdf',
+        body: this.pdfRenderer.render(report, charts, renderOptions),
+        share
+      }
+      : {
+        status: 'served',
+        contentType: 'text/html; charset=utf-8',
+        body: this.htmlRenderer.render(report, charts, renderOptions, '?format=pdf'),
+        share
+      };
+  }
+
+  /**
+   * The user's shares that can still be opened, newest first
+   */
+  async listActive(userId: string, now: Date = new Date()): Promise<ReportShare[]> {
+    return (await this.shares.getUserShares(userId))
+      .filter(share => shareAccessOutcome(share, now.getTime()) === 'served')
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Revoke one of the user's shares; the report stops being marked shared with its last
+   * active share. False for shares of other users and unknown ids.
+   */
+  async revoke(userId: string, shareId: string, now: Date = new Date()): Promise<boolean> {
+    const share = await this.shares.get(shareId);
+    if (!share || share.userId !== userId) {return false;}
+
+    if (share.revokedAt === undefined) {
+      await this.shares.revoke(shareId, now);
+    }
+    const stillShared = (await this.listActive(userId, now))
+      .some(active => active.id !== shareId && active.reportId === share.reportId);
+    if (!stillShared && await this.reports.get(userId, share.reportId)) {
+      await this.reports.setShared(userId, share.reportId, false);
+    }
+    return true;
+  }
+}
+
+function isWholeNumberIn(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
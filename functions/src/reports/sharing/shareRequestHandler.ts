@@ -0,0 +1,120 @@
+import * as functions from 'firebase-functions';
+import { ReportShareService, parseCreateShareRequest } from './reportShareService';
+
+/** Verifies a Firebase ID token and returns its user */
+export type VerifyIdToken = (idToken: string) => Promise<{ uid: string }>;
+
+// Viewers only learn that a link does not work, not whose report it was
+const UNAVAILABLE: Record<'notFound' | 'revoked' | 'expired' | 'viewLimitReached', [number, string]> = {
+  notFound: [404, 'This link is not valid.'],
+  revoked: [410, 'This link has been revoked.'],
+  expired: [410, 'This link has expired.'],
+  viewLimitReached: [410, 'This link has reached its view limit.']
+};
+
+// Shared reports must not be cached, indexed or leak their URL to other sites
+const PRIVATE_HEADERS: Record<string, string> = {
+  'Cache-Control': 'no-store',
+  'Referrer-Policy': 'no-referrer',
+  'X-Robots-Tag': 'noindex, nofollow',
+  'X-Content-Type-Options': 'nosniff'
+};
+const HTML_CONTENT_SECURITY_POLICY = "default-src 'none'; style-src 'unsafe-inline'; frame-ancestors 'none'";
+
+/**
+ * Handler of the sharedReports endpoint:
+ * - `POST` with `Authorization: Bearer <ID token>` and `{ reportId, expirationDays?, maxViews? }`
+ *   shares one of the caller's reports and returns `{ shareId, url, expiresAt, maxViews }`
+ * - `GET /{token}` shows the report as a read-only page, or as a PDF with `?format=pdf`
+ *
+ * @param baseUrl public URL of the endpoint, when links should not point at the function
+ *   itself (e.g. behind a Hosting rewrite)
+ */
+export function createShareRequestHandler(
+  service: ReportShareService,
+  verifyIdToken: VerifyIdToken,
+  baseUrl?: string
+): (req: functions.https.Request, res: functions.Response) => Promise<void> {
+  return async (req, res) => {
+    res.set(PRIVATE_HEADERS);
+    try {
+      if (req.method === 'POST') {
+        await createShare(req, res, service, verifyIdToken, baseUrl);
+      } else if (req.method === 'GET') {
+        await openShare(req, res, service);
+      } else {
+        res.set('Allow', 'GET, POST').status(405).send('Method not allowed');
+      }
+    } catch (error) {
+      functions.logger.error('Report share request failed', { method: req.method, error });
+      res.status(500).send('Something went wrong. Please try again later.');
+    }
+  };
+}
+
+async function createShare(
+  req: functions.https.Request,
+  res: functions.Response,
+  service: ReportShareService,
+  verifyIdToken: VerifyIdToken,
+  baseUrl?: string
+): Promise<void> {
+  const idToken = /^Bearer (.+)$/.exec(req.get('authorization') ?? '')?.[1];
+  let userId: string;
+  try {
+    if (!idToken) {throw new Error('No ID token');}
+    userId = (await verifyIdToken(idToken)).uid;
+  } catch {
+    res.status(401).json({ error: 'User must be authenticated' });
+    return;
+  }
+
+  const parsed = parseCreateShareRequest(req.body);
+  if (!parsed.ok) {
+    res.status(400).json({ error: parsed.message });
+    return;
+  }
+
+  const result = await service.create(userId, parsed.request);
+  if (result.status === 'notFound') {
+    res.status(404).json({ error: 'Health report not found' });
+    return;
+  }
+
+  functions.logger.info('Report shared', { userId, reportId: result.share.reportId, shareId: result.share.id });
+  res.status(201).json({
+    shareId: result.share.id,
+    url: `${baseUrl ?? endpointUrl(req)}/${result.token}`,
+    expiresAt: result.share.expiresAt,
+    maxViews: result.share.maxViews
+  });
+}
+
+async function openShare(
+  req: functions.https.Request,
+  res: functions.Response,
+  service: ReportShareService
+): Promise<void> {
+  const token = req.path.split('/').filter(segment => segment !== '').pop() ?? '';
+  const format = req.query.format === 'pdf' ? 'pdf' : 'html';
+
+  const result = await service.open(token, { format, ip: req.ip, userAgent: req.get('user-agent') });
+  if (result.status !== 'served') {
+    const [status, message] = UNAVAILABLE[result.status];
+    res.status(status).type('text/plain').send(message);
+    return;
+  }
+
+  res.set(format === 'pdf'
+    ? { 'Content-Disposition': 'inline; filename="health-report.pdf"' }
+    : { 'Content-Security-Policy': HTML_CONTENT_SECURITY_POLICY });
+  res.status(200).type(result.contentType).send(result.body);
+}
+
+/**
+ * URL the request reached the function at, without a trailing path or query
+ */
+function endpointUrl(req: functions.https.Request): string {
+  const protocol = process.env.FUNCTIONS_EMULATOR === 'true' ? 'http' : 'https';
+  return `${protocol}://${req.get('host')}${req.originalUrl.split('?')[0].replace(/\/+$/, '')}`;
+}
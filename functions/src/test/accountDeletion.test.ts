@@ -0,0 +1,177 @@
+import { AccountDeleter } from '../account/accountDeleter';
+import { AccountDeletionRepository } from '../data/accountDeletionRepository';
+import { StorageBucket } from '../data/storageLinks';
+import { InsightDebouncer, processDailyLogWrite } from '../insights/incrementalInsights';
+import { UserInsightResult } from '../insights/insightGenerator';
+import { FakeFirestore } from './fakeFirestore';
+
+// Objects by path; `failListing` fails the next listing, `onEmptyListing` runs when none match
+class FakeBucket {
+  readonly objects = new Set<string>();
+  failListing = false;
+  onEmptyListing?: () => void | Promise<void>;
+
+  async getFiles(options: { prefix: string; maxResults: number }) {
+    if (this.failListing) {
+      this.failListing = false;
+      throw new Error('Storage unavailable');
+    }
+    const files = Array.from(this.objects)
+      .filter(path => path.startsWith(options.prefix))
+      .slice(0, options.maxResults)
+      .map(path => ({ name: path, delete: async () => this.objects.delete(path) }));
+    if (files.length === 0) {await this.onEmptyListing?.();}
+    return [files];
+  }
+
+  asBucket(): StorageBucket {
+    return this as unknown as StorageBucket;
+  }
+}
+
+describe('account deletion', () => {
+  const userId = 'test-user-123';
+  const NOW = new Date(Date.UTC(2024, 4, 1));
+
+  let db: FakeFirestore;
+  let bucket: FakeBucket;
+  let deleter: AccountDeleter;
+
+  const pathsOf = (prefix: string) => Array.from(db.store.keys()).filter(path => path.startsWith(prefix));
+  const receipts = () => pathsOf('deletionReceipts/').map(path => db.read(path));
+
+  beforeEach(() => {
+    db = new FakeFirestore();
+    bucket = new FakeBucket();
+    // Small batches, so larger collections take several
+    deleter = new AccountDeleter(db.asFirestore(), bucket.asBucket(), { batchSize: 2 });
+
+    db.seed(`users/${userId}`, { email: 'ana@example.com' });
+    for (let i = 0; i < 5; i++) {
+      db.seed(`users/${userId}/dailyLogs/log-${i}`, { dateEpochDays: 19800 + i });
+    }
+    db.seed(`users/${userId}/insights/i1`, { insightText: 'Tus ciclos son regulares' });
+    db.seed(`users/${userId}/insightRuns/run-1`, { status: 'completed' });
+    db.seed(`users/${userId}/dataExports/e1`, { status: 'ready' });
+    db.seed(`user_settings/${userId}`, { locale: 'es-ES' });
+    // Legacy parents that exist only through their subcollections
+    db.seed(`daily_logs/${userId}/logs/old-1`, { notes: 'antiguo' });
+    db.seed(`symptoms/${userId}/entries/s1`, { symptom: 'CRAMPS' });
+    db.seed('sharedReports/share-1', { userId, reportId: 'r1' });
+    db.seed('sharedReports/share-1/accessLog/a1', { outcome: 'served' });
+    db.seed('sharedReports/share-1/accessLog/a2', { outcome: 'expired' });
+    db.seed(`scheduledNotifications/${userId}_earlyWarning`, { userId, kind: 'earlyWarning' });
+    db.seed('insightRuns/nightly-1', { status: 'completed', failed: 2, failedUserIds: [userId, 'other-user'] });
+    db.seed(`insightRuns/nightly-1/jobs/${userId}`, { userId, status: 'failed', lastError: 'Cannot read ana@example.com' });
+    db.seed('insightRuns/nightly-1/jobs/other-user', { userId: 'other-user', status: 'failed' });
+    bucket.objects.add(`users/${userId}/reports/r1.pdf`);
+    bucket.objects.add(`users/${userId}/exports/e1.zip`);
+    bucket.objects.add(`users/${userId}/profile/photo.jpg`);
+
+    db.seed('users/other-user', { email: 'otra@example.com' });
+    db.seed('users/other-user/dailyLogs/log-0', { dateEpochDays: 19800 });
+    db.seed('sharedReports/share-2', { userId: 'other-user', reportId: 'r2' });
+    bucket.objects.add('users/other-user/reports/r2.pdf');
+  });
+
+  it('should delete every collection, subcollection and object of the user', async () => {
+    const result = await deleter.delete(userId, 'request', NOW);
+
+    expect(result).toEqual({
+      status: 'deleted',
+      receiptId: expect.any(String),
+      deletedCounts: {
+        sharedReports: 3,
+        scheduledNotifications: 1,
+        insightRunJobs: 1,
+        insightRunFailures: 1,
+        users: 9,
+        user_settings: 1,
+        daily_logs: 1,
+        symptoms: 1,
+        storage: 3
+      }
+    });
+    expect(Array.from(db.store.keys()).filter(path => path.includes(userId))).toEqual([]);
+    expect(pathsOf('sharedReports/')).toEqual(['sharedReports/share-2']);
+    expect(Array.from(bucket.objects)).toEqual(['users/other-user/reports/r2.pdf']);
+    expect(pathsOf('users/other-user')).toHaveLength(2);
+    expect(db.read('insightRuns/nightly-1')).toEqual({ status: 'completed', failed: 2, failedUserIds: ['other-user'] });
+    expect(pathsOf('insightRuns/nightly-1/jobs/')).toEqual(['insightRuns/nightly-1/jobs/other-user']);
+  });
+
+  it('should write a receipt that does not identify the user', async () => {
+    const result = await deleter.delete(userId, 'request', NOW);
+    if (result.status !== 'deleted') {throw new Error('Nothing deleted');}
+
+    expect(receipts()).toEqual([{
+      trigger: 'request',
+      startedAt: expect.objectContaining({ seconds: NOW.getTime() / 1000 }),
+      completedAt: expect.objectContaining({ seconds: NOW.getTime() / 1000 }),
+      deletedCounts: result.deletedCounts,
+      verified: true
+    }]);
+    expect(JSON.stringify(receipts())).not.toMatch(/test-user-123|ana@example\.com/);
+    expect(db.read(`accountDeletions/${userId}`)).toBeUndefined();
+  });
+
+  it('should resume an interrupted deletion and count what the first attempt deleted', async () => {
+    bucket.failListing = true;
+    await expect(deleter.delete(userId, 'authDelete', NOW)).rejects.toThrow('Storage unavailable');
+
+    const job = db.read(`accountDeletions/${userId}`);
+    expect(job?.completedSteps).toEqual([
+      'sharedReports', 'scheduledNotifications', 'insightRunJobs', 'insightRunFailures', 'users', 'user_settings', 'daily_logs', 'health_data', 'cycle_tracking', 'temperature_data', 'symptoms'
+    ]);
+    expect(job?.deletedCounts).toMatchObject({ users: 9, sharedReports: 3 });
+
+    const result = await deleter.delete(userId, 'request', new Date(NOW.getTime() + 60 * 1000));
+    expect(result).toMatchObject({ status: 'deleted', deletedCounts: { users: 9, sharedReports: 3, storage: 3 } });
+    // The receipt keeps the trigger of the deletion that started it
+    expect(receipts()[0]).toMatchObject({ trigger: 'authDelete' });
+  });
+
+  it('should do nothing for users without data', async () => {
+    await deleter.delete(userId, 'request', NOW);
+
+    expect(await deleter.delete(userId, 'authDelete', NOW)).toEqual({ status: 'nothingToDelete' });
+    expect(receipts()).toHaveLength(1);
+  });
+
+  it('should not write a receipt while data is left', async () => {
+    // An app still syncing writes a log after its collection was deleted
+    bucket.onEmptyListing = () => db.seed(`users/${userId}/dailyLogs/late`, { dateEpochDays: 19810 });
+
+    await expect(deleter.delete(userId, 'request', NOW)).rejects.toThrow('Data left after account deletion: users');
+    expect(db.read(`accountDeletions/${userId}`)?.completedSteps).not.toContain('users');
+    expect(receipts()).toEqual([]);
+
+    bucket.onEmptyListing = undefined;
+    expect(await deleter.delete(userId, 'request', NOW)).toMatchObject({ status: 'deleted', deletedCounts: { users: 10 } });
+  });
+
+  it('should not let the log trigger write insight data back while deleting', async () => {
+    // The trigger for a deleted log fires after the users step, before the deletion completes
+    const runs: string[] = [];
+    bucket.onEmptyListing = async () => {
+      const result = await processDailyLogWrite(
+        userId,
+        { dateEpochDays: 19800, periodFlow: 'MEDIUM' },
+        undefined,
+        'event-1',
+        new InsightDebouncer(db.asFirestore(), { windowMs: 0 }),
+        new AccountDeletionRepository(db.asFirestore()),
+        async id => {
+          runs.push(id);
+          return { userId: id } as UserInsightResult;
+        },
+        async () => undefined
+      );
+      expect(result.outcome).toBe('accountDeleted');
+    };
+
+    expect(await deleter.delete(userId, 'request', NOW)).toMatchObject({ status: 'deleted' });
+    expect(runs).toEqual([]);
+    expect(pathsOf(`users/${userId}`)).toEqual([]);
+  });
+});
@@ -0,0 +1,172 @@
+import { createDefaultRuleRegistry } from '../insights/rules/defaultRules';
+import { InsightRuleEngine, buildRuleContext } from '../insights/rules/ruleEngine';
+import { DailyLog, Mood } from '../types';
+import { benjaminiHochberg, fisherExactGreater, mannWhitneyU } from '../utils/statistics';
+import { createCycleOnDay, createLogOnDay } from './testDataFactory';
+
+describe('cycle correlations', () => {
+  const userId = 'test-user-123';
+  const START = 20000;
+  const engine = new InsightRuleEngine(createDefaultRuleRegistry(), {
+    environment: 'production',
+    disabledRuleIds: [],
+    thresholdOverrides: {}
+  });
+
+  // Three 28-day cycles logged every day; the last 5 days of each are late luteal
+  const cycles = [0, 28, 56].map(offset => createCycleOnDay(START + offset, { cycleLength: 28 }));
+  const everyDay = (build: (cycleDay: number, cycle: number) => Partial<DailyLog>) =>
+    Array.from({ length: 84 }, (_, day) => createLogOnDay(START + day, build(day % 28 + 1, Math.floor(day / 28))));
+
+  const insightOf = (dailyLogs: DailyLog[], ruleId: string, locale?: string) => engine
+    .run(buildRuleContext({ userId, dailyLogs, cycles, locale }))
+    .insights.find(insight => insight.ruleId === ruleId);
+
+  describe('statistics', () => {
+    it('should compute one-sided Fisher exact p-values', () => {
+      expect(fisherExactGreater(3, 1, 1, 3)).toBeCloseTo(0.2429, 4);
+      expect(fisherExactGreater(0, 4, 4, 0)).toBeCloseTo(1, 6);
+    });
+
+    it('should compute two-sided Mann-Whitney U p-values', () => {
+      const separated = mannWhitneyU([1, 2, 3, 4, 5], [6, 7, 8, 9, 10]);
+      expect(separated.u).toBe(0);
+      expect(separated.pValue).toBeCloseTo(0.012, 3);
+      expect(mannWhitneyU([1, 2, 3], [1, 2, 3]).pValue).toBeCloseTo(1, 6);
+    });
+
+    it('should adjust p-values for the false discovery rate', () => {
+      const qValues = benjaminiHochberg([0.01, 0.04, 0.03, 0.005]);
+      [0.02, 0.04, 0.04, 0.02].forEach((expected, index) => expect(qValues[index]).toBeCloseTo(expected, 10));
+      expect(benjaminiHochberg([])).toEqual([]);
+    });
+  });
+
+  describe('symptom.cycleCorrelation', () => {
+    it('should report a symptom significantly more likely in one phase, with its statistics', () => {
+      // Cramps on cycle days 1-3 and day 10; headaches spread over the cycle
+      const logs = everyDay(cycleDay => ({
+        symptoms: [
+          ...(cycleDay <= 3 || cycleDay === 10 ? ['CRAMPS'] : []),
+          ...(cycleDay % 7 === 3 ? ['HEADACHE'] : [])
+        ]
+      }));
+
+      const insight = insightOf(logs, 'symptom.cycleCorrelation');
+
+      expect(insight?.insightText).toBe(
+        'You are 11.9× as likely to log cramps on cycle days 1–3, in your menstrual phase, as on other days (60% vs 4% of logged days).'
+      );
+      expect(insight?.ruleParams).toEqual({ symptom: 'CRAMPS', phase: 'menstrual' });
+      expect(insight?.relatedLogIds).toHaveLength(9);
+      expect(insight?.evidence?.cycleIds).toEqual(cycles.map(cycle => cycle.id));
+      expect(insight?.evidence?.metrics).toMatchObject({
+        segmentDays: 15,
+        segmentOccurrences: 9,
+        otherDays: 69,
+        otherOccurrences: 3,
+        tests: 10,
+        firstCycleDay: 1,
+        lastCycleDay: 3
+      });
+      expect(insight?.evidence?.metrics?.qValue).toBeLessThan(0.001);
+      expect(insight?.confidence).toBeCloseTo(0.95, 2);
+    });
+
+    it('should leave the premenstrual symptom to the premenstrual insight', () => {
+      const logs = everyDay(cycleDay => ({ symptoms: cycleDay >= 24 && cycleDay <= 27 ? ['BLOATING'] : [] }));
+      const ruleIds = engine.run(buildRuleContext({ userId, dailyLogs: logs, cycles })).insights
+        .filter(insight => insight.ruleParams?.symptom === 'BLOATING')
+        .map(insight => insight.ruleId);
+
+      expect(ruleIds).toEqual(['symptom.premenstrual']);
+
+      // Configured to need more premenstrual entries, that insight no longer covers it
+      const configured = new InsightRuleEngine(createDefaultRuleRegistry(), {
+        environment: 'production',
+        disabledRuleIds: [],
+        thresholdOverrides: {
+          'symptom.premenstrual': { minOccurrences: 15 },
+          'symptom.cycleCorrelation': { premenstrualMinOccurrences: 15 }
+        }
+      });
+      const configuredRuleIds = configured.run(buildRuleContext({ userId, dailyLogs: logs, cycles })).insights
+        .filter(insight => insight.ruleParams?.symptom === 'BLOATING')
+        .map(insight => insight.ruleId);
+
+      expect(configuredRuleIds).toEqual(['symptom.cycleCorrelation']);
+    });
+
+    it('should not report associations the data cannot support', () => {
+      // Twice in each of two late luteal phases, and a few times elsewhere
+      const sparse = everyDay(cycleDay => ({
+        symptoms: [25, 26].includes(cycleDay) || cycleDay === 8 ? ['CRAMPS'] : []
+      })).slice(0, 56);
+
+      expect(insightOf(sparse, 'symptom.cycleCorrelation')).toBeUndefined();
+
+      // Frequent in the late luteal phase, but only in one cycle
+      const oneCycle = everyDay((cycleDay, cycle) => ({ symptoms: cycle === 0 && cycleDay >= 22 ? ['ACNE'] : [] }));
+
+      expect(insightOf(oneCycle, 'symptom.cycleCorrelation')).toBeUndefined();
+    });
+  });
+
+  describe('mood.cycleCorrelation', () => {
+    it('should report moods tied to a phase in the user language', () => {
+      const logs = everyDay(cycleDay => ({ mood: cycleDay >= 24 || cycleDay === 10 ? Mood.IRRITABLE : Mood.CALM }));
+
+      const insight = insightOf(logs, 'mood.cycleCorrelation', 'es-ES');
+
+      expect(insight?.insightText).toBe(
+        'Es 19,4 veces más probable que sientas irritabilidad en los días 24–28 del ciclo, en tu fase lútea tardía, que en otros días (100 % frente a 4 % de los días registrados).'
+      );
+      expect(insight?.ruleParams).toEqual({ mood: Mood.IRRITABLE, phase: 'late luteal' });
+    });
+
+    it('should compare moods only with the days a mood was logged', () => {
+      // Sad on 3 of 5 mood days in each late luteal phase and in the rest of the cycle, but
+      // mood logged daily only before periods; the other days have a temperature only
+      const moodDays: { [cycleDay: number]: Mood } = {
+        2: Mood.SAD, 6: Mood.CALM, 10: Mood.SAD, 14: Mood.CALM, 18: Mood.SAD,
+        24: Mood.SAD, 25: Mood.CALM, 26: Mood.SAD, 27: Mood.CALM, 28: Mood.SAD
+      };
+      const logs = everyDay(cycleDay => (moodDays[cycleDay] ? { mood: moodDays[cycleDay] } : { bbt: 36.5 }));
+
+      expect(insightOf(logs, 'mood.cycleCorrelation')).toBeUndefined();
+
+      // A mood tied to the phase is still found, its rates over mood days only
+      const irritable = everyDay(cycleDay => (moodDays[cycleDay]
+        ? { mood: cycleDay >= 24 || cycleDay === 10 ? Mood.IRRITABLE : Mood.CALM }
+        : { bbt: 36.5 }));
+
+      expect(insightOf(irritable, 'mood.cycleCorrelation')?.evidence?.metrics).toMatchObject({
+        segmentDays: 15,
+        segmentOccurrences: 15,
+        otherDays: 15,
+        otherOccurrences: 3
+      });
+    });
+  });
+
+  describe('temperature.cycleCorrelation', () => {
+    it('should report the phase whose BBT differs most from the rest', () => {
+      // Low before ovulation on cycle day 14, high after, with day-to-day noise
+      const noise = [0, 0.05, -0.05, 0.1, -0.1];
+      const logs = everyDay(cycleDay => ({ bbt: (cycleDay > 14 ? 36.8 : 36.4) + noise[cycleDay % 5] }));
+
+      const insight = insightOf(logs, 'temperature.cycleCorrelation');
+
+      expect(insight?.insightText).toMatch(/^Your BBT on cycle days 16–23, in your early luteal phase, is 0\.\d°C higher on average than on other days\.$/);
+      expect(insight?.evidence?.metrics?.pValue).toBeLessThan(0.001);
+      expect(insight?.evidence?.metrics?.tests).toBe(5);
+    });
+
+    it('should not report temperature noise', () => {
+      const noise = [0, 0.05, -0.05, 0.1, -0.1, 0.02, -0.02];
+      const logs = everyDay(cycleDay => ({ bbt: 36.5 + noise[cycleDay % 7] }));
+
+      expect(insightOf(logs, 'temperature.cycleCorrelation')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { CyclePhaseAnnotator } from '../cycles/cyclePhaseAnnotator';
+import { DEFAULT_CYCLE_PREFERENCES } from '../data/userSettingsRepository';
+import { CyclePhase } from '../types';
+import { epochDayToTimestamp } from '../utils/dateUtils';
+import { createCycleOnDay, createLogOnDay } from './testDataFactory';
+
+describe('CyclePhaseAnnotator', () => {
+  const START = 20000;
+
+  it('should label a completed cycle around its confirmed ovulation', () => {
+    const cycle = createCycleOnDay(START, {
+      cycleLength: 30,
+      periodLength: 4,
+      confirmedOvulationDate: epochDayToTimestamp(START + 17)
+    });
+    const annotator = new CyclePhaseAnnotator([cycle]);
+
+    expect(annotator.annotateDay(START + 3)!.phase).toBe(CyclePhase.MENSTRUAL);
+    expect(annotator.annotateDay(START + 4)!.phase).toBe(CyclePhase.FOLLICULAR);
+    expect(annotator.annotateDay(START + 15)!.phase).toBe(CyclePhase.FOLLICULAR);
+    expect(annotator.annotateDay(START + 16)!.phase).toBe(CyclePhase.OVULATORY);
+    expect(annotator.annotateDay(START + 18)!.phase).toBe(CyclePhase.OVULATORY);
+    expect(annotator.annotateDay(START + 19)!.phase).toBe(CyclePhase.LUTEAL);
+
+    const lastDay = annotator.annotateDay(START + 29)!;
+    expect(lastDay).toMatchObject({
+      cycleDay: 30,
+      daysUntilNextPeriod: 1,
+      lateLuteal: true,
+      premenstrual: true,
+      ovulationBasis: 'confirmed'
+    });
+    expect(annotator.annotateDay(START + 30)).toBeUndefined();
+  });
+
+  it('should project ovulation from the luteal length when it was not confirmed', () => {
+    const annotator = new CyclePhaseAnnotator([createCycleOnDay(START, { cycleLength: 28 })]);
+
+    const ovulationDay = annotator.annotateDay(START + 13)!;
+    expect(ovulationDay.phase).toBe(CyclePhase.OVULATORY);
+    expect(ovulationDay.ovulationBasis).toBe('projected');
+    expect(annotator.annotateDay(START + 4)!.phase).toBe(CyclePhase.MENSTRUAL);
+    expect(annotator.annotateDay(START + 20)!.lateLuteal).toBe(false);
+  });
+
+  it('should project the open cycle from preferences and keep labelling a late period as luteal', () => {
+    const preferences = { ...DEFAULT_CYCLE_PREFERENCES, averageCycleLength: 32 };
+    const annotator = new CyclePhaseAnnotator([
+      createCycleOnDay(START, { cycleLength: 28 }),
+      createCycleOnDay(START + 28)
+    ], preferences);
+
+    const projectedEnd = annotator.annotateDay(START + 28 + 31)!;
+    expect(projectedEnd.daysUntilNextPeriod).toBe(1);
+    expect(projectedEnd.phase).toBe(CyclePhase.LUTEAL);
+
+    const late = annotator.annotateDay(START + 28 + 35)!;
+    expect(late.phase).toBe(CyclePhase.LUTEAL);
+    expect(late.premenstrual).toBe(false);
+  });
+
+  it('should annotate logs by id and skip logs before the first cycle', () => {
+    const annotator = new CyclePhaseAnnotator([createCycleOnDay(START, { cycleLength: 28 })]);
+    const logs = [createLogOnDay(START - 1), createLogOnDay(START + 2), createLogOnDay(START + 25)];
+
+    const annotations = annotator.annotateLogs(logs);
+
+    expect([...annotations.keys()]).toEqual([`log-day-${START + 2}`, `log-day-${START + 25}`]);
+    expect(annotations.get(`log-day-${START + 25}`)!.premenstrual).toBe(true);
+  });
+});
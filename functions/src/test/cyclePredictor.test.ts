@@ -0,0 +1,123 @@
+import { CyclePredictor } from '../cycles/cyclePredictor';
+import { DEFAULT_CYCLE_PREFERENCES, decodeUserSettings } from '../data/userSettingsRepository';
+import { InsightRuleEngine, buildRuleContext } from '../insights/rules/ruleEngine';
+import { Cycle, InsightType, TemperatureUnit } from '../types';
+import { toEpochDay } from '../utils/dateUtils';
+import { createCycleOnDay } from './testDataFactory';
+
+describe('CyclePredictor', () => {
+  const userId = 'test-user-123';
+  const START = 20000;
+  const NOW = new Date((START + 200) * 86400 * 1000);
+  let predictor: CyclePredictor;
+
+  beforeEach(() => {
+    predictor = new CyclePredictor();
+  });
+
+  // Completed cycles with the given lengths (oldest first) followed by an open cycle
+  const createHistory = (lengths: number[], overrides: Partial<Cycle> = {}): { cycles: Cycle[]; openStart: number } => {
+    const cycles: Cycle[] = [];
+    let day = START;
+    lengths.forEach(length => {
+      cycles.push(createCycleOnDay(day, { cycleLength: length, ...overrides }));
+      day += length;
+    });
+    cycles.push(createCycleOnDay(day, { id: 'open-cycle' }));
+    return { cycles: cycles.reverse(), openStart: day };
+  };
+
+  describe('predict', () => {
+    it('should forecast the next start from regular history with high confidence', () => {
+      const { cycles, openStart } = createHistory([28, 28, 29, 28, 27, 28]);
+
+      const prediction = predictor.predict(cycles, DEFAULT_CYCLE_PREFERENCES, NOW);
+
+      expect(prediction).not.toBeNull();
+      expect(prediction!.cycleId).toBe('open-cycle');
+      expect(toEpochDay(prediction!.predictedNextStartDate)).toBe(openStart + 28);
+      expect(toEpochDay(prediction!.predictedOvulationDate)).toBe(openStart + 13);
+      expect(prediction!.usedPreferences).toBe(false);
+      expect(prediction!.uncertaintyDays).toBeLessThanOrEqual(3);
+      expect(prediction!.confidence).toBeGreaterThan(0.7);
+    });
+
+    it('should widen the interval and lower confidence for variable cycles', () => {
+      const regular = predictor.predict(createHistory([28, 28, 29, 28, 27, 28]).cycles, DEFAULT_CYCLE_PREFERENCES, NOW);
+      const variable = predictor.predict(createHistory([24, 33, 26, 35, 25, 31]).cycles, DEFAULT_CYCLE_PREFERENCES, NOW);
+
+      expect(variable!.uncertaintyDays).toBeGreaterThan(regular!.uncertaintyDays);
+      expect(variable!.confidence).toBeLessThan(regular!.confidence);
+    });
+
+    it('should reject outlier cycles such as an unlogged period', () => {
+      const prediction = predictor.predict(createHistory([28, 56, 28, 29, 28]).cycles, DEFAULT_CYCLE_PREFERENCES, NOW);
+
+      expect(prediction!.outliersRejected).toBe(1);
+      expect(prediction!.expectedCycleLength).toBeLessThan(29);
+    });
+
+    it('should fall back to cycle preferences when history is short', () => {
+      const { cycles, openStart } = createHistory([]);
+      const preferences = { ...DEFAULT_CYCLE_PREFERENCES, averageCycleLength: 32, averageLutealPhaseLength: 12 };
+
+      const prediction = predictor.predict(cycles, preferences, NOW);
+
+      expect(prediction!.usedPreferences).toBe(true);
+      expect(toEpochDay(prediction!.predictedNextStartDate)).toBe(openStart + 32);
+      expect(toEpochDay(prediction!.predictedOvulationDate)).toBe(openStart + 19);
+      expect(prediction!.confidence).toBeLessThan(0.5);
+    });
+
+    it('should mark predictions whose interval has passed as overdue', () => {
+      const { cycles } = createHistory([28, 28, 28]);
+      const muchLater = new Date((START + 400) * 86400 * 1000);
+
+      expect(predictor.predict(cycles, DEFAULT_CYCLE_PREFERENCES, muchLater)!.overdue).toBe(true);
+    });
+
+    it('should not predict without an open cycle', () => {
+      const closed = [createCycleOnDay(START, { cycleLength: 28 })];
+
+      expect(predictor.predict(closed, DEFAULT_CYCLE_PREFERENCES, NOW)).toBeNull();
+      expect(predictor.predict([], DEFAULT_CYCLE_PREFERENCES, NOW)).toBeNull();
+    });
+  });
+
+  describe('cycle.nextPeriod rule', () => {
+    it('should emit a CYCLE_PREDICTION insight carrying the computed confidence', () => {
+      const { cycles, openStart } = createHistory([28, 28, 29, 28]);
+      const prediction = predictor.predict(cycles, DEFAULT_CYCLE_PREFERENCES, new Date((openStart + 10) * 86400 * 1000))!;
+
+      const [insight] = new InsightRuleEngine().evaluate(
+        buildRuleContext({ userId, dailyLogs: [], cycles, prediction }),
+        'prediction'
+      );
+
+      expect(insight.type).toBe(InsightType.CYCLE_PREDICTION);
+      expect(insight.ruleParams).toEqual({ cycleId: 'open-cycle' });
+      expect(insight.confidence).toBe(prediction.confidence);
+      expect(insight.insightText).toContain('Your next period is expected around');
+      expect(insight.insightText).toContain('your last 4 cycles');
+    });
+  });
+});
+
+describe('decodeUserSettings', () => {
+  it('should apply app defaults and reject out-of-range cycle preferences', () => {
+    const settings = decodeUserSettings('test-user-123', {
+      unitPreferences: { temperatureUnit: 'FAHRENHEIT' },
+      cyclePreferences: { averageCycleLength: 60, averageLutealPhaseLength: 12, periodDuration: 4 },
+      notificationPreferences: { ovulationAlert: { enabled: true, timeHour: 8, timeMinute: 30, daysInAdvance: 2 } }
+    });
+
+    expect(settings.unitPreferences.temperatureUnit).toBe(TemperatureUnit.FAHRENHEIT);
+    expect(settings.cyclePreferences.averageCycleLength).toBe(28);
+    expect(settings.cyclePreferences.averageLutealPhaseLength).toBe(12);
+    expect(settings.notificationPreferences.ovulationAlert).toEqual({
+      enabled: true, timeHour: 8, timeMinute: 30, daysInAdvance: 2
+    });
+    expect(settings.notificationPreferences.globalNotificationsEnabled).toBe(true);
+    expect(decodeUserSettings('u', undefined).unitPreferences.temperatureUnit).toBe(TemperatureUnit.CELSIUS);
+  });
+});
@@ -0,0 +1,178 @@
+import { CycleReconstructor, derivedCycleId } from '../cycles/cycleReconstructor';
+import { CycleRepository, decodeCycle, mergeCycles } from '../data/cycleRepository';
+import { PeriodFlow } from '../types';
+import { epochDayToTimestamp, toEpochDay } from '../utils/dateUtils';
+import { FakeFirestore } from './fakeFirestore';
+import { createCycleOnDay, createLogOnDay, createPeriodLogs } from './testDataFactory';
+
+describe('CycleReconstructor', () => {
+  const userId = 'test-user-123';
+  const START = 20000; // 2024-10-04
+  let reconstructor: CycleReconstructor;
+
+  beforeEach(() => {
+    reconstructor = new CycleReconstructor();
+  });
+
+  describe('reconstruct', () => {
+    it('should derive cycle and period lengths from period-flow logs', () => {
+      const logs = createPeriodLogs(START, [28, 30, 27]);
+
+      const result = reconstructor.reconstruct(userId, logs);
+
+      expect(result.cycles).toHaveLength(4);
+      expect(result.cycles.map(cycle => cycle.cycleLength)).toEqual([undefined, 27, 30, 28]);
+      expect(result.cycles.every(cycle => cycle.periodLength === 5)).toBe(true);
+      expect(result.cycles.every(cycle => cycle.source === 'derived')).toBe(true);
+
+      const oldest = result.cycles[3];
+      expect(oldest.id).toBe(derivedCycleId(START));
+      expect(toEpochDay(oldest.endDate!)).toBe(START + 27);
+      expect(result.cycles[0].endDate).toBeUndefined();
+    });
+
+    it('should ignore isolated spotting but keep trailing spotting in the period', () => {
+      const logs = [
+        ...createPeriodLogs(START, [28], 4),
+        createLogOnDay(START + 4, { periodFlow: PeriodFlow.SPOTTING }),
+        createLogOnDay(START + 14, { periodFlow: PeriodFlow.SPOTTING })
+      ];
+
+      const result = reconstructor.reconstruct(userId, logs);
+
+      expect(result.cycles).toHaveLength(2);
+      expect(result.cycles[1].periodLength).toBe(5);
+      expect(result.ignoredSpottingLogIds).toEqual([`log-day-${START + 14}`]);
+    });
+
+    it('should tolerate a single unlogged day inside a period', () => {
+      const logs = [START, START + 1, START + 3, START + 4].map(day =>
+        createLogOnDay(day, { periodFlow: PeriodFlow.HEAVY })
+      );
+
+      const { episodes } = reconstructor.groupBleedingEpisodes(logs);
+
+      expect(episodes).toHaveLength(1);
+      expect(episodes[0].bleedingDays).toBe(4);
+    });
+
+    it('should treat bleeding shortly after a period as intermenstrual, not a new cycle', () => {
+      const logs = [
+        ...createPeriodLogs(START, [29]),
+        createLogOnDay(START + 10, { periodFlow: PeriodFlow.LIGHT })
+      ];
+
+      const result = reconstructor.reconstruct(userId, logs);
+
+      expect(result.cycles).toHaveLength(2);
+      expect(result.cycles[1].cycleLength).toBe(29);
+      expect(result.intermenstrualEpisodes).toHaveLength(1);
+    });
+
+    it('should not start a cycle with a period cut off by the window', () => {
+      const logs = createPeriodLogs(START, [28, 28]).filter(log => toEpochDay(log.date) >= START + 2);
+
+      const result = reconstructor.reconstruct(userId, logs, START + 2);
+
+      expect(result.completeFromEpochDay).toBe(START + 4);
+      expect(result.cycles.map(cycle => cycle.id)).toEqual([derivedCycleId(START + 56), derivedCycleId(START + 28)]);
+      expect(reconstructor.reconstruct(userId, logs).cycles).toHaveLength(3);
+    });
+  });
+
+  describe('mergeCycles', () => {
+    it('should let manual cycles win over derived cycles with a nearby start', () => {
+      const derived = reconstructor.reconstruct(userId, createPeriodLogs(START, [28, 28])).cycles;
+      const manual = createCycleOnDay(START + 29, { id: 'manual-1', cycleLength: 27, source: 'manual' });
+
+      const merged = mergeCycles([manual], derived);
+
+      expect(merged.map(cycle => cycle.id)).toEqual([
+        derivedCycleId(START + 56),
+        'manual-1',
+        derivedCycleId(START)
+      ]);
+    });
+  });
+});
+
+describe('CycleRepository', () => {
+  const userId = 'test-user-123';
+  const START = 20000;
+  const cyclesPath = `users/${userId}/cycles`;
+
+  it('should decode app cycles stored as epoch days', () => {
+    const cycle = decodeCycle(userId, 'c1', { startDate: START, endDate: START + 27, cycleLength: 28 });
+
+    expect(cycle).not.toBeNull();
+    expect(toEpochDay(cycle!.startDate)).toBe(START);
+    expect(toEpochDay(cycle!.endDate!)).toBe(START + 27);
+    expect(cycle!.source).toBe('manual');
+    expect(decodeCycle(userId, 'c2', { cycleLength: 28 })).toBeNull();
+  });
+
+  it('should upsert derived cycles without touching manual ones and remove stale derived cycles', async () => {
+    const db = new FakeFirestore();
+    db.seed(`${cyclesPath}/manual-1`, { startDate: START + 28, cycleLength: 28 });
+    db.seed(`${cyclesPath}/derived-stale`, { startDate: START + 1, source: 'derived' });
+
+    const repository = new CycleRepository(db.asFirestore());
+    const stored = await repository.getCyclesSince(userId, new Date((START - 1) * 86400 * 1000));
+    const derived = new CycleReconstructor().reconstruct(userId, createPeriodLogs(START, [28, 28])).cycles;
+
+    const result = await repository.upsertDerivedCycles(userId, derived, stored);
+
+    expect(result).toEqual({ written: 2, deleted: 1, skippedManual: 1 });
+    expect(db.read(`${cyclesPath}/manual-1`)).toEqual({ startDate: START + 28, cycleLength: 28 });
+    expect(db.read(`${cyclesPath}/derived-stale`)).toBeUndefined();
+    expect(db.read(`${cyclesPath}/${derivedCycleId(START)}`)).toMatchObject({
+      startDate: START,
+      endDate: START + 27,
+      cycleLength: 28,
+      periodLength: 5,
+      source: 'derived'
+    });
+  });
+
+  it('should not leave a derived cycle behind for each day the window slides over a period', async () => {
+    const db = new FakeFirestore();
+    const repository = new CycleRepository(db.asFirestore());
+    const logs = createPeriodLogs(START, [28, 28]);
+
+    for (let windowStart = START - 2; windowStart <= START + 4; windowStart++) {
+      const reconstruction = new CycleReconstructor()
+        .reconstruct(userId, logs.filter(log => toEpochDay(log.date) >= windowStart), windowStart);
+      const stored = await repository.getCyclesSince(userId, new Date(windowStart * 86400 * 1000));
+      await repository.upsertDerivedCycles(userId, reconstruction.cycles, stored, reconstruction.completeFromEpochDay);
+    }
+
+    // The first period was derived whole before the window reached it, and kept since
+    expect([...db.store.keys()].filter(path => path.startsWith(cyclesPath)).sort()).toEqual([
+      `${cyclesPath}/${derivedCycleId(START)}`,
+      `${cyclesPath}/${derivedCycleId(START + 28)}`,
+      `${cyclesPath}/${derivedCycleId(START + 56)}`
+    ]);
+  });
+
+  it('should merge detected ovulation into a manual cycle', async () => {
+    const db = new FakeFirestore();
+    db.seed(`${cyclesPath}/manual-1`, { startDate: START, cycleLength: 28, notes: 'kept' });
+
+    await new CycleRepository(db.asFirestore()).saveOvulation(userId, createCycleOnDay(START, {
+      id: 'manual-1',
+      confirmedOvulationDate: epochDayToTimestamp(START + 14),
+      lutealPhaseLength: 13,
+      ovulationSignals: ['BBT', 'OPK']
+    }));
+
+    expect(db.read(`${cyclesPath}/manual-1`)).toEqual({
+      startDate: START,
+      cycleLength: 28,
+      notes: 'kept',
+      confirmedOvulationDate: START + 14,
+      lutealPhaseLength: 13,
+      ovulationSignals: ['BBT', 'OPK']
+    });
+    expect(decodeCycle(userId, 'manual-1', db.read(`${cyclesPath}/manual-1`)!)!.ovulationSignals).toEqual(['BBT', 'OPK']);
+  });
+});
@@ -0,0 +1,180 @@
+import { DailyLogRepository, decodeDailyLog } from '../data/dailyLogRepository';
+import { Mood, OPKResult, PeriodFlow } from '../types';
+import {
+  epochDayToIsoDate,
+  isoDateToEpochDay,
+  localDateTime,
+  resolveTimeZone,
+  subtractMonths
+} from '../utils/dateUtils';
+import { FakeFirestore } from './fakeFirestore';
+import * as admin from 'firebase-admin';
+
+describe('DailyLogRepository', () => {
+  const userId = 'test-user-123';
+  const DAY = 86400;
+  const todayEpochDay = Math.floor(Date.now() / (DAY * 1000));
+
+  const createMockTimestamp = (seconds: number) => ({
+    seconds,
+    nanoseconds: 0
+  } as admin.firestore.Timestamp);
+
+  const v1Doc = (epochDay: number, overrides: Record<string, unknown> = {}) => ({
+    logId: epochDayToIsoDate(epochDay),
+    dateEpochDays: epochDay,
+    createdAt: epochDay * DAY + 3600,
+    updatedAt: epochDay * DAY + 7200,
+    v: 1,
+    ...overrides
+  });
+
+  describe('decodeDailyLog', () => {
+    it('should decode v1 documents with epoch-day dates and epoch-second timestamps', () => {
+      const epochDay = todayEpochDay - 3;
+      const result = decodeDailyLog(userId, epochDayToIsoDate(epochDay), v1Doc(epochDay, {
+        periodFlow: 'HEAVY',
+        mood: 'CALM',
+        symptoms: ['CRAMPS', 'HEADACHE'],
+        bbt: 36.6,
+        opkResult: 'PEAK',
+        sexualActivity: { occurred: true, protection: 'CONDOM' }
+      }), 'dailyLogs');
+
+      expect(result.ok).toBe(true);
+      if (!result.ok) {return;}
+
+      expect(result.schema).toBe('v1');
+      expect(result.warnings).toEqual([]);
+      expect(result.log.date.seconds).toBe(epochDay * DAY);
+      expect(result.log.createdAt.seconds).toBe(epochDay * DAY + 3600);
+      expect(result.log.periodFlow).toBe(PeriodFlow.HEAVY);
+      expect(result.log.mood).toBe(Mood.CALM);
+      expect(result.log.opkResult).toBe(OPKResult.PEAK);
+      expect(result.log.symptoms).toEqual(['CRAMPS', 'HEADACHE']);
+      expect(result.log.sexualActivity).toEqual({ occurred: true, protection: ['CONDOM'] });
+    });
+
+    it('should decode legacy documents with Timestamp dates onto their calendar day', () => {
+      const dateSeconds = (todayEpochDay - 10) * DAY + 15 * 3600;
+      const result = decodeDailyLog(userId, 'legacy-1', {
+        date: createMockTimestamp(dateSeconds),
+        createdAt: createMockTimestamp(dateSeconds),
+        updatedAt: createMockTimestamp(dateSeconds),
+        mood: 'HAPPY'
+      }, 'legacyDailyLogs');
+
+      expect(result.ok).toBe(true);
+      if (!result.ok) {return;}
+
+      expect(result.schema).toBe('legacyTimestamp');
+      expect(result.log.date.seconds).toBe((todayEpochDay - 10) * DAY);
+      expect(result.log.mood).toBe(Mood.HAPPY);
+    });
+
+    it('should read legacy Timestamp dates on the calendar day of the user\'s time zone', () => {
+      const day = todayEpochDay - 10;
+      // Midnight in Tokyo (UTC+9) is 15:00 UTC the day before
+      const tokyoMidnight = decodeDailyLog(userId, 'legacy-1', {
+        date: createMockTimestamp(day * DAY - 9 * 3600)
+      }, 'legacyDailyLogs', 'Asia/Tokyo');
+      // 02:00 UTC is still the previous evening in New York
+      const newYorkEvening = decodeDailyLog(userId, 'legacy-2', {
+        date: createMockTimestamp(day * DAY + 2 * 3600)
+      }, 'legacyDailyLogs', 'America/New_York');
+
+      expect(tokyoMidnight.ok && tokyoMidnight.log.date.seconds).toBe(day * DAY);
+      expect(newYorkEvening.ok && newYorkEvening.log.date.seconds).toBe((day - 1) * DAY);
+    });
+
+    it('should drop unknown enum values and report them as warnings', () => {
+      const epochDay = todayEpochDay - 1;
+      const result = decodeDailyLog(userId, 'log-1', v1Doc(epochDay, {
+        mood: 'ECSTATIC',
+        symptoms: ['CRAMPS', 'TELEPATHY'],
+        bbt: 'warm'
+      }), 'dailyLogs');
+
+      expect(result.ok).toBe(true);
+      if (!result.ok) {return;}
+
+      expect(result.log.mood).toBeUndefined();
+      expect(result.log.symptoms).toEqual(['CRAMPS']);
+      expect(result.log.bbt).toBeUndefined();
+      expect(result.warnings.map(w => w.field)).toEqual(['mood', 'symptoms', 'bbt']);
+    });
+
+    it('should skip documents with unsupported schema versions or no date', () => {
+      const future = decodeDailyLog(userId, 'log-1', v1Doc(todayEpochDay, { v: 2 }), 'dailyLogs');
+      const undated = decodeDailyLog(userId, 'log-2', { mood: 'HAPPY' }, 'dailyLogs');
+
+      expect(future.ok).toBe(false);
+      expect(undated.ok).toBe(false);
+      if (!future.ok) {expect(future.issue.field).toBe('v');}
+      if (!undated.ok) {expect(undated.issue.field).toBe('date');}
+    });
+  });
+
+  describe('getLogsSince', () => {
+    it('should merge current and legacy paths, preferring the current path per day', async () => {
+      const recentDay = todayEpochDay - 2;
+      const olderDay = todayEpochDay - 5;
+
+      const db = new FakeFirestore();
+      db.seed(`users/${userId}/dailyLogs/${epochDayToIsoDate(recentDay)}`, v1Doc(recentDay, { mood: 'HAPPY' }));
+      db.seed(`users/${userId}/dailyLogs/broken`, v1Doc(recentDay - 1, { v: 7 }));
+      db.seed(`daily_logs/${userId}/logs/legacy-recent`, { date: createMockTimestamp(recentDay * DAY), mood: 'SAD' });
+      db.seed(`daily_logs/${userId}/logs/legacy-older`, { date: createMockTimestamp(olderDay * DAY), mood: 'CALM' });
+
+      const result = await new DailyLogRepository(db.asFirestore()).getLogsSince(
+        userId,
+        new Date((todayEpochDay - 30) * DAY * 1000)
+      );
+
+      expect(result.logs.map(log => log.id)).toEqual([epochDayToIsoDate(recentDay), 'legacy-older']);
+      expect(result.logs[0].mood).toBe(Mood.HAPPY);
+      expect(result.supersededCount).toBe(1);
+      expect(result.skipped).toHaveLength(1);
+      expect(result.skipped[0].logId).toBe('broken');
+      expect(result.schemaCounts).toEqual({ v1: 1, legacyTimestamp: 2 });
+    });
+
+    it('should include legacy logs dated at local midnight of the first day', async () => {
+      const sinceDay = todayEpochDay - 30;
+      const db = new FakeFirestore();
+      db.seed(`daily_logs/${userId}/logs/legacy-first`, { date: createMockTimestamp(sinceDay * DAY - 9 * 3600) });
+      db.seed(`daily_logs/${userId}/logs/legacy-before`, { date: createMockTimestamp((sinceDay - 1) * DAY - 9 * 3600) });
+
+      const result = await new DailyLogRepository(db.asFirestore()).getLogsSince(
+        userId,
+        new Date(sinceDay * DAY * 1000),
+        'Asia/Tokyo'
+      );
+
+      expect(result.logs.map(log => log.id)).toEqual(['legacy-first']);
+    });
+  });
+
+  describe('date helpers', () => {
+    it('should round-trip yyyy-MM-dd ids and reject invalid dates', () => {
+      expect(isoDateToEpochDay('1970-01-02')).toBe(1);
+      expect(epochDayToIsoDate(isoDateToEpochDay('2025-12-10') as number)).toBe('2025-12-10');
+      expect(isoDateToEpochDay('2025-02-30')).toBeNull();
+    });
+
+    it('should give local calendar days and hours and fall back to UTC for unknown zones', () => {
+      const instant = Date.UTC(2024, 2, 10, 22, 30);
+
+      expect(localDateTime(instant, 'Asia/Kolkata')).toEqual({ epochDay: isoDateToEpochDay('2024-03-11'), hour: 4 });
+      expect(localDateTime(instant, 'UTC')).toEqual({ epochDay: isoDateToEpochDay('2024-03-10'), hour: 22 });
+      expect(resolveTimeZone('Mars/Olympus_Mons')).toBe('UTC');
+      expect(resolveTimeZone(undefined)).toBe('UTC');
+      expect(resolveTimeZone('Europe/Berlin')).toBe('Europe/Berlin');
+    });
+
+    it('should subtract calendar months', () => {
+      expect(epochDayToIsoDate(subtractMonths(isoDateToEpochDay('2024-12-15') as number, 6))).toBe('2024-06-15');
+      expect(epochDayToIsoDate(subtractMonths(isoDateToEpochDay('2024-08-31') as number, 6))).toBe('2024-03-02');
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import * as admin from 'firebase-admin';
+import { CyclePhaseAnnotator } from '../cycles/cyclePhaseAnnotator';
+import { DataCoverageRepository } from '../data/dataCoverageRepository';
+import { DataCoverageAnalyzer } from '../insights/dataCoverage';
+import { createDefaultRuleRegistry } from '../insights/rules/defaultRules';
+import { LogField } from '../insights/rules/insightRule';
+import { buildRuleContext } from '../insights/rules/ruleEngine';
+import { Mood } from '../types';
+import { isoDateToEpochDay } from '../utils/dateUtils';
+import { FakeFirestore } from './fakeFirestore';
+import { createCycleOnDay, createLogOnDay, createPeriodLogs } from './testDataFactory';
+
+describe('data coverage', () => {
+  const userId = 'test-user-123';
+  const D0 = isoDateToEpochDay('2024-04-01') as number;
+  const rules = createDefaultRuleRegistry().enabledRules({ environment: 'production', disabledRuleIds: [] });
+  // Rules that need more than a few logs with the field
+  const ruleIds = (field: LogField) => rules
+    .filter(rule => rule.sufficiency.minFieldLogs?.[field] !== undefined)
+    .map(rule => rule.id);
+
+  // A completed 28-day cycle, ovulation projected on day 14, and an open one started on day 29
+  const cycles = [
+    createCycleOnDay(D0, { cycleLength: 28 }),
+    createCycleOnDay(D0 + 28)
+  ];
+  // Temperatures from day 9 to 17 except days 13 and 14; moods in the first week
+  const logs = [
+    ...createPeriodLogs(D0, [28]),
+    ...[8, 9, 10, 11, 14, 15, 16].map(offset => createLogOnDay(D0 + offset, { bbt: 36.5 })),
+    createLogOnDay(D0 + 5, { mood: Mood.CALM }),
+    createLogOnDay(D0 + 6, { mood: Mood.HAPPY })
+  ];
+
+  const analyze = (locale = 'en-US') => new DataCoverageAnalyzer().analyze(
+    buildRuleContext({ userId, dailyLogs: logs, cycles, locale, todayEpochDay: D0 + 30 }),
+    rules
+  );
+
+  it('should measure each field per cycle and the tracked signs missing around ovulation', () => {
+    const coverage = analyze();
+
+    expect(coverage).toMatchObject({ logs: 19, completedCycles: 1 });
+    expect(coverage.cycles).toEqual([
+      {
+        cycleId: `cycle-day-${D0 + 28}`,
+        startEpochDay: D0 + 28,
+        days: 3,
+        fields: { bbt: 0, cervicalMucus: 0, opkResult: 0, mood: 0, symptoms: 0 },
+        ovulationEpochDay: D0 + 41,
+        // The window has not started yet
+        ovulationGaps: {}
+      },
+      {
+        cycleId: `cycle-day-${D0}`,
+        startEpochDay: D0,
+        days: 28,
+        fields: { bbt: 0.25, cervicalMucus: 0, opkResult: 0, mood: 0.07, symptoms: 0 },
+        ovulationEpochDay: D0 + 13,
+        ovulationGaps: { bbt: [D0 + 12, D0 + 13] }
+      }
+    ]);
+  });
+
+  it('should leave out the ovulation day and its gaps for a cycle without a phase plan', () => {
+    const ovulationOf = jest.spyOn(CyclePhaseAnnotator.prototype, 'ovulationOf').mockReturnValue(undefined);
+    try {
+      const coverage = analyze();
+
+      coverage.cycles.forEach(cycle => {
+        expect(cycle).not.toHaveProperty('ovulationEpochDay');
+        expect(cycle.ovulationGaps).toEqual({});
+      });
+      expect(coverage.nudges.map(nudge => nudge.key)).not.toContain('coverage.gap.ovulation');
+    } finally {
+      ovulationOf.mockRestore();
+    }
+  });
+
+  it('should merge what the rules wait for into one requirement per kind of data', () => {
+    const { requirements } = analyze();
+    const byNeed = new Map(requirements.map(requirement => [requirement.need, requirement]));
+
+    // Rules for other goals than the default are left out
+    const goalRuleIds = rules.filter(rule => !rule.goals).map(rule => rule.id);
+    expect(byNeed.get('logs')).toEqual({ need: 'logs', have: 19, needed: 30, ruleIds: goalRuleIds });
+    expect(byNeed.get('bbt')).toEqual({ need: 'bbt', have: 7, needed: 20, ruleIds: ruleIds('bbt') });
+    expect(byNeed.get('mood')).toMatchObject({ have: 2, ruleIds: ruleIds('mood') });
+    expect(byNeed.get('completedCycles')).toMatchObject({ have: 1 });
+    // Every cycle has period logs
+    expect(byNeed.has('periodFlow')).toBe(false);
+  });
+
+  it('should word nudges in the user language with the rules they unlock', () => {
+    const nudges = analyze('es-ES').nudges;
+
+    expect(nudges.find(nudge => nudge.key === 'coverage.nudge.bbt')).toEqual({
+      key: 'coverage.nudge.bbt',
+      text: 'Registra tu temperatura 13 días más para ver observaciones sobre tu temperatura y tu ovulación.',
+      ruleIds: ruleIds('bbt')
+    });
+    expect(nudges[nudges.length - 1]).toEqual({
+      key: 'coverage.gap.ovulation',
+      text: expect.stringMatching(/^2 días cerca de tu ovulación prevista del .+ no tienen registro de temperatura\./),
+      ruleIds: rules.filter(rule => rule.requiredFields.includes('bbt')).map(rule => rule.id)
+    });
+    expect(analyze().nudges[0].text).toBe('Log 11 more days to start getting insights about your cycle.');
+  });
+
+  it('should replace the stored coverage of the user', async () => {
+    const db = new FakeFirestore();
+    const repository = new DataCoverageRepository(db.asFirestore());
+    const now = new Date(Date.UTC(2024, 4, 1));
+
+    await repository.save(userId, analyze(), now);
+    await repository.save(userId, { ...analyze(), requirements: [] }, now);
+
+    const stored = db.read(`users/${userId}/dataCoverage/current`);
+    expect(stored).toMatchObject({ logs: 19, requirements: [], updatedAt: admin.firestore.Timestamp.fromDate(now) });
+    expect(Array.from(db.store.keys())).toEqual([`users/${userId}/dataCoverage/current`]);
+  });
+});
@@ -0,0 +1,277 @@
+import * as admin from 'firebase-admin';
+import { PassThrough, Writable } from 'stream';
+import { inflateRawSync } from 'zlib';
+import { DataExportRepository } from '../data/dataExportRepository';
+import { DeviceTokenRepository } from '../data/deviceTokenRepository';
+import { DataExportStorage, dataExportPath } from '../data/dataExportStorage';
+import { StorageBucket } from '../data/storageLinks';
+import { csvLine } from '../export/csv';
+import { UserDataExporter } from '../export/userDataExporter';
+import { ZipWriter, crc32 } from '../export/zipWriter';
+import { PushNotifier } from '../notifications/pushNotifier';
+import { PushDeliveryStatus, PushMessage, PushTransport } from '../notifications/pushTransport';
+import { FakeFirestore } from './fakeFirestore';
+
+// Uploads kept in memory once their stream finishes; `failing` makes every upload error
+class FakeBucket {
+  readonly name = 'eunio-test.appspot.com';
+  readonly files = new Map<string, Buffer>();
+  failing = false;
+
+  file(path: string) {
+    return {
+      createWriteStream: () => {
+        const chunks: Buffer[] = [];
+        const stream = new PassThrough();
+        stream.on('data', (chunk: Buffer) => {
+          if (this.failing) {
+            stream.destroy(new Error('Upload failed'));
+            return;
+          }
+          chunks.push(chunk);
+        });
+        stream.on('finish', () => this.files.set(path, Buffer.concat(chunks)));
+        return stream;
+      },
+      getSignedUrl: async (options: { expires: number }) => [`https://storage.test/${path}?expires=${options.expires}`]
+    };
+  }
+
+  asBucket(): StorageBucket {
+    return this as unknown as StorageBucket;
+  }
+}
+
+class FakePushTransport implements PushTransport {
+  readonly sent: PushMessage[] = [];
+
+  async send(tokens: string[], message: PushMessage): Promise<PushDeliveryStatus[]> {
+    this.sent.push(message);
+    return tokens.map(() => 'delivered');
+  }
+}
+
+/**
+ * Read every file of a ZIP archive through its central directory, checking each CRC
+ */
+function readZip(archive: Buffer): Map<string, string> {
+  const end = archive.length - 22;
+  expect(archive.readUInt32LE(end)).toBe(0x06054b50);
+  const count = archive.readUInt16LE(end + 10);
+  let position = archive.readUInt32LE(end + 16);
+
+  const files = new Map<string, string>();
+  for (let i = 0; i < count; i++) {
+    expect(archive.readUInt32LE(position)).toBe(0x02014b50);
+    const crc = archive.readUInt32LE(position + 16);
+    const compressedSize = archive.readUInt32LE(position + 20);
+    const nameLength = archive.readUInt16LE(position + 28);
+    const offset = archive.readUInt32LE(position + 42);
+    const name = archive.toString('utf8', position + 46, position + 46 + nameLength);
+
+    expect(archive.readUInt32LE(offset)).toBe(0x04034b50);
+    const dataStart = offset + 30 + archive.readUInt16LE(offset + 26) + archive.readUInt16LE(offset + 28);
+    const data = inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize));
+    expect(crc32(data)).toBe(crc);
+    files.set(name, data.toString('utf8'));
+    position += 46 + nameLength;
+  }
+  return files;
+}
+
+function collect(): { stream: Writable; data: () => Buffer } {
+  const chunks: Buffer[] = [];
+  const stream = new PassThrough();
+  stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+  return { stream, data: () => Buffer.concat(chunks) };
+}
+
+describe('account data export', () => {
+  const userId = 'test-user-123';
+  const NOW = new Date(Date.UTC(2024, 4, 1, 12, 30));
+  // 2024-03-01
+  const DAY = 19783;
+
+  describe('ZipWriter', () => {
+    it('should write archives that unzip to the files added', async () => {
+      const output = collect();
+      const zip = new ZipWriter(output.stream, NOW);
+      const large = Array.from({ length: 5000 }, (_, i) => `line ${i} ${'x'.repeat(i % 80)}\n`);
+
+      expect(await zip.addFile('notas/día.txt', ['Día ', Buffer.from('uno ✓')])).toBe(Buffer.byteLength('Día uno ✓'));
+      await zip.addFile('empty.json', []);
+      await zip.addFile('large.txt', (async function* () { yield* large; })());
+      await zip.finish();
+
+      const files = readZip(output.data());
+      expect([...files.keys()]).toEqual(['notas/día.txt', 'empty.json', 'large.txt']);
+      expect(files.get('notas/día.txt')).toBe('Día uno ✓');
+      expect(files.get('empty.json')).toBe('');
+      expect(files.get('large.txt')).toBe(large.join(''));
+    });
+
+    it('should compute standard CRC-32 checksums', () => {
+      expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+      expect(crc32(Buffer.from('6789'), crc32(Buffer.from('12345')))).toBe(0xcbf43926);
+    });
+  });
+
+  describe('csvLine', () => {
+    it('should quote special characters and defuse formulas', () => {
+      expect(csvLine(['a,b', 'say "hi"', 'two\nlines', undefined, 36.5, ['CRAMPS', 'HEADACHE']]))
+        .toBe('"a,b","say ""hi""","two\nlines",,36.5,CRAMPS; HEADACHE\r\n');
+      expect(csvLine(['=HYPERLINK("x")', '-5', -5])).toBe('"\'=HYPERLINK(""x"")",\'-5,-5\r\n');
+    });
+  });
+
+  describe('UserDataExporter', () => {
+    let db: FakeFirestore;
+    let bucket: FakeBucket;
+    let exporter: UserDataExporter;
+
+    beforeEach(() => {
+      db = new FakeFirestore();
+      bucket = new FakeBucket();
+      // Small pages, so every collection takes several reads
+      exporter = new UserDataExporter(db.asFirestore(), new DataExportStorage(bucket.asBucket()), { pageSize: 2 });
+
+      db.seed(`users/${userId}`, { email: 'ana@example.com', timeZone: 'Europe/Madrid' });
+      db.seed(`user_settings/${userId}`, { locale: 'es-ES', updatedAt: admin.firestore.Timestamp.fromDate(NOW) });
+      for (let day = DAY; day < DAY + 5; day++) {
+        db.seed(`users/${userId}/dailyLogs/log-${day}`, {
+          dateEpochDays: day, v: 1, createdAt: day * 86400, updatedAt: day * 86400,
+          ...(day === DAY ? { periodFlow: 'HEAVY', symptoms: ['CRAMPS', 'HEADACHE'] } : { bbt: 36.5 })
+        });
+      }
+      db.seed(`users/${userId}/dailyLogs/broken`, { v: 1 });
+      db.seed(`daily_logs/${userId}/logs/old`, {
+        date: admin.firestore.Timestamp.fromMillis(Date.UTC(2023, 0, 9, 23)),
+        createdAt: admin.firestore.Timestamp.fromMillis(Date.UTC(2023, 0, 9, 23)),
+        updatedAt: admin.firestore.Timestamp.fromMillis(Date.UTC(2023, 0, 9, 23)),
+        notes: '=cmd|calc'
+      });
+      db.seed(`users/${userId}/cycles/c1`, { startDate: DAY, endDate: DAY + 27, cycleLength: 28 });
+      db.seed(`users/${userId}/insights/i1`, {
+        insightText: 'Tus ciclos son regulares', type: 'PATTERN_DETECTED', confidence: 0.8,
+        generatedDate: admin.firestore.Timestamp.fromDate(NOW), isRead: false
+      });
+      db.seed(`users/${userId}/healthReports/r1`, { reportType: 'MONTHLY', isShared: true });
+      db.seed('sharedReports/s1', {
+        userId, reportId: 'r1', createdAt: NOW.getTime(), expiresAt: NOW.getTime() + 1000, maxViews: 10, viewCount: 2
+      });
+      db.seed('sharedReports/s2', { userId: 'other-user', reportId: 'x', createdAt: 0, expiresAt: 0, maxViews: 1, viewCount: 0 });
+      db.seed(`temperature_data/${userId}/readings/t1`, { value: 36.4 });
+      db.seed('users/other-user/dailyLogs/log-1', { dateEpochDays: DAY, v: 1 });
+    });
+
+    it('should package every collection of the user as JSON and CSV', async () => {
+      const output = collect();
+      const counts = await exporter.writeArchive(userId, output.stream, NOW);
+
+      expect(counts).toEqual({
+        dailyLogs: 6,
+        'legacy/daily_logs': 1,
+        cycles: 1,
+        insights: 1,
+        healthReports: 1,
+        reportShares: 1,
+        'legacy/health_data': 0,
+        'legacy/cycle_tracking': 0,
+        'legacy/temperature_data': 1,
+        'legacy/symptoms': 0
+      });
+
+      const files = readZip(output.data());
+      expect(JSON.parse(files.get('profile.json') as string)).toEqual({ email: 'ana@example.com', timeZone: 'Europe/Madrid' });
+      expect(JSON.parse(files.get('settings.json') as string)).toEqual({ locale: 'es-ES', updatedAt: NOW.toISOString() });
+
+      const logs = JSON.parse(files.get('dailyLogs.json') as string);
+      expect(logs.map((log: { id: string }) => log.id)).toEqual([
+        'broken', 'log-19783', 'log-19784', 'log-19785', 'log-19786', 'log-19787'
+      ]);
+      const logLines = (files.get('dailyLogs.csv') as string).split('\r\n');
+      expect(logLines[0]).toBe('id,date,periodFlow,bbt,cervicalMucus,opkResult,mood,symptoms,sexualActivity,protection,notes,createdAt,updatedAt');
+      expect(logLines[1]).toBe('log-19783,2024-03-01,HEAVY,,,,,CRAMPS; HEADACHE,,,,2024-03-01T00:00:00.000Z,2024-03-01T00:00:00.000Z');
+      // The undecodable log is only in the JSON file
+      expect(logLines).toHaveLength(7);
+
+      // Legacy dates are instants, read as the day in the user's time zone
+      expect(files.get('legacy/daily_logs.csv')?.split('\r\n')[1])
+        .toBe("old,2023-01-10,,,,,,,,,'=cmd|calc,2023-01-09T23:00:00.000Z,2023-01-09T23:00:00.000Z");
+      expect(files.get('cycles.csv')?.split('\r\n')[1]).toBe('c1,2024-03-01,2024-03-28,28,,,,,manual');
+      expect(files.get('insights.csv')?.split('\r\n')[1])
+        .toBe(`i1,${NOW.toISOString()},PATTERN_DETECTED,active,Tus ciclos son regulares,0.8,false`);
+      expect(JSON.parse(files.get('reportShares.json') as string).map((share: { id: string }) => share.id)).toEqual(['s1']);
+      expect(files.has('healthReports.csv')).toBe(false);
+      expect(JSON.parse(files.get('legacy/temperature_data.json') as string)).toEqual([{ id: 't1', value: 36.4 }]);
+      expect(JSON.parse(files.get('legacy/symptoms.json') as string)).toEqual([]);
+      expect(JSON.parse(files.get('manifest.json') as string))
+        .toEqual({ userId, exportedAt: NOW.toISOString(), documentCounts: counts });
+    });
+
+    it('should reuse an unfinished request until it times out', async () => {
+      const first = await exporter.request(userId, NOW);
+      expect(first.status).toBe('requested');
+      expect(db.read(`users/${userId}/dataExports/${first.exportId}`)?.status).toBe('pending');
+
+      expect(await exporter.request(userId, new Date(NOW.getTime() + 60 * 1000)))
+        .toEqual({ status: 'inProgress', exportId: first.exportId });
+      const later = await exporter.request(userId, new Date(NOW.getTime() + 2 * 60 * 60 * 1000));
+      expect(later.status).toBe('requested');
+      expect(later.exportId).not.toBe(first.exportId);
+    });
+
+    it('should upload the archive and mark the request ready once', async () => {
+      const { exportId } = await exporter.request(userId, NOW);
+
+      expect(await exporter.process(userId, exportId, NOW)).toBe('ready');
+      expect(await exporter.process(userId, exportId, NOW)).toBe('skipped');
+
+      const path = dataExportPath(userId, exportId);
+      const expiresAt = NOW.getTime() + 7 * 86400 * 1000;
+      const exported = await new DataExportRepository(db.asFirestore()).get(userId, exportId);
+      expect(exported).toMatchObject({
+        status: 'ready',
+        downloadUrl: `https://storage.test/${path}?expires=${expiresAt}`,
+        documentCounts: expect.objectContaining({ dailyLogs: 6 })
+      });
+      expect(exported?.expiresAt?.toMillis()).toBe(expiresAt);
+      expect(readZip(bucket.files.get(path) as Buffer).has('dailyLogs.csv')).toBe(true);
+    });
+
+    it('should notify the user once the export is ready, even in quiet hours', async () => {
+      const transport = new FakePushTransport();
+      const notifying = new UserDataExporter(
+        db.asFirestore(),
+        new DataExportStorage(bucket.asBucket()),
+        { pageSize: 2 },
+        new PushNotifier(db.asFirestore(), transport)
+      );
+      await new DeviceTokenRepository(db.asFirestore()).register(userId, 'token-phone', 'android', NOW);
+      // 23:30 in Madrid
+      const night = new Date(Date.UTC(2024, 4, 1, 21, 30));
+
+      const { exportId } = await notifying.request(userId, night);
+      expect(await notifying.process(userId, exportId, night)).toBe('ready');
+      expect(transport.sent).toEqual([{
+        title: 'Eunio',
+        body: 'Tu exportación de datos está lista para descargar.',
+        data: { kind: 'dataExportReady' }
+      }]);
+
+      const failed = await notifying.request(userId, new Date(night.getTime() + 2 * 60 * 60 * 1000));
+      bucket.failing = true;
+      expect(await notifying.process(userId, failed.exportId, night)).toBe('failed');
+      expect(transport.sent).toHaveLength(1);
+    });
+
+    it('should mark the request failed when the upload fails', async () => {
+      const { exportId } = await exporter.request(userId, NOW);
+      bucket.failing = true;
+
+      expect(await exporter.process(userId, exportId, NOW)).toBe('failed');
+      expect(db.read(`users/${userId}/dataExports/${exportId}`)).toMatchObject({ status: 'failed' });
+      expect(bucket.files.size).toBe(0);
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { EarlyWarningDetector } from '../insights/earlyWarningDetector';
-import { DailyLog, Cycle, InsightType, PeriodFlow, Mood } from '../types';
+import { DailyLog, Cycle, InsightType, PeriodFlow, Mood, TemperatureUnit } from '../types';
 import * as admin from 'firebase-admin';
 
 describe('EarlyWarningDetector', () => {
@@ -248,6 +248,24 @@ describe('EarlyWarningDetector', () => {
       expect(highTempInsight?.actionable).toBe(true);
     });
 
+    it('should render temperature thresholds in the user\'s unit', async () => {
+      const dailyLogs = Array.from({ length: 30 }, (_, i) => 
+        createMockDailyLog({
+          bbt: i < 5 ? 37.5 : 36.5,
+          date: createMockTimestamp(new Date(Date.now() - i * 24 * 60 * 60 * 1000))
+        })
+      );
+
+      const celsiusInsights = await new EarlyWarningDetector(TemperatureUnit.CELSIUS).detectWarnings(userId, dailyLogs, []);
+      const fahrenheitInsights = await new EarlyWarningDetector(TemperatureUnit.FAHRENHEIT).detectWarnings(userId, dailyLogs, []);
+
+      const findHighTemp = (insights: typeof celsiusInsights) =>
+        insights.find(insight => insight.insightText.includes('unusually high temperatures'));
+
+      expect(findHighTemp(celsiusInsights)?.insightText).toContain('(above 37.4°C)');
+      expect(findHighTemp(fahrenheitInsights)?.insightText).toContain('(above 99.3°F)');
+    });
+
     it('should detect lack of temperature variation', async () => {
       const dailyLogs = Array.from({ length: 30 }, (_, i) => 
         createMockDailyLog({
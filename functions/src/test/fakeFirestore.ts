@@ -0,0 +1,369 @@
+// In-memory Firestore stand-in for repository and orchestration tests.
+// Supports the subset of the Admin SDK surface used by the functions.
+import * as admin from 'firebase-admin';
+
+type DocData = Record<string, unknown>;
+type WhereOp = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in' | 'array-contains';
+
+interface Filter {
+  field: string;
+  op: WhereOp;
+  value: unknown;
+}
+
+const comparable = (value: unknown): unknown => {
+  if (typeof value === 'object' && value !== null && typeof (value as { seconds?: unknown }).seconds === 'number') {
+    const timestamp = value as { seconds: number; nanoseconds?: number };
+    return timestamp.seconds * 1e9 + (timestamp.nanoseconds || 0);
+  }
+  return value;
+};
+
+const getField = (data: DocData, field: string): unknown =>
+  field.split('.').reduce<unknown>((value, key) =>
+    (value && typeof value === 'object' ? (value as DocData)[key] : undefined), data);
+
+const compare = (a: unknown, b: unknown): number | null => {
+  const left = comparable(a);
+  const right = comparable(b);
+  if (typeof left !== typeof right) {return null;}
+  if (left === right) {return 0;}
+  return (left as number) < (right as number) ? -1 : 1;
+};
+
+const matches = (data: DocData, filter: Filter): boolean => {
+  const value = getField(data, filter.field);
+  if (filter.op === 'in') {
+    return (filter.value as unknown[]).some(candidate => compare(value, candidate) === 0);
+  }
+  if (filter.op === 'array-contains') {
+    return Array.isArray(value) && value.some(item => compare(item, filter.value) === 0);
+  }
+  if (value === undefined) {return false;}
+
+  const result = compare(value, filter.value);
+  switch (filter.op) {
+    case '==': return result === 0;
+    case '!=': return result !== 0;
+    case '<': return result === -1;
+    case '<=': return result === -1 || result === 0;
+    case '>': return result === 1;
+    case '>=': return result === 1 || result === 0;
+  }
+  return false;
+};
+
+const applyMerge = (target: DocData, patch: DocData): DocData => {
+  const result: DocData = { ...target };
+  Object.entries(patch).forEach(([key, value]) => {
+    if (isDelete(value)) {
+      delete result[key];
+    } else if (isIncrement(value)) {
+      result[key] = ((result[key] as number) || 0) + value.increment;
+    } else if (isArrayUnion(value)) {
+      const current = Array.isArray(result[key]) ? result[key] as unknown[] : [];
+      result[key] = [...current, ...value.arrayUnion.filter(item => !current.some(existing => compare(existing, item) === 0))];
+    } else if (isArrayRemove(value)) {
+      const current = Array.isArray(result[key]) ? result[key] as unknown[] : [];
+      result[key] = current.filter(item => !value.arrayRemove.some(removed => compare(item, removed) === 0));
+    } else {
+      result[key] = value;
+    }
+  });
+  return result;
+};
+
+// update() reads dotted keys as paths into nested maps
+const applyUpdate = (target: DocData, patch: DocData): DocData =>
+  Object.entries(patch).reduce((result, [key, value]) => {
+    const dot = key.indexOf('.');
+    if (dot < 0) {return applyMerge(result, { [key]: value });}
+    const field = key.slice(0, dot);
+    const nested = typeof result[field] === 'object' && result[field] !== null ? result[field] as DocData : {};
+    return { ...result, [field]: applyUpdate(nested, { [key.slice(dot + 1)]: value }) };
+  }, target);
+
+// Same shapes as the FieldValue sentinels in setup.ts
+const isDelete = (value: unknown): boolean =>
+  typeof value === 'object' && value !== null && (value as { fakeFieldValue?: unknown }).fakeFieldValue === 'delete';
+const isIncrement = (value: unknown): value is { increment: number } =>
+  typeof value === 'object' && value !== null && typeof (value as { increment?: unknown }).increment === 'number';
+const isArrayUnion = (value: unknown): value is { arrayUnion: unknown[] } =>
+  typeof value === 'object' && value !== null && Array.isArray((value as { arrayUnion?: unknown }).arrayUnion);
+const isArrayRemove = (value: unknown): value is { arrayRemove: unknown[] } =>
+  typeof value === 'object' && value !== null && Array.isArray((value as { arrayRemove?: unknown }).arrayRemove);
+
+// Marks the path of a collection group query, which matches every collection with its id
+const COLLECTION_GROUP_PREFIX = '**/';
+
+export class FakeDocumentSnapshot {
+  constructor(
+    readonly ref: FakeDocumentReference,
+    private readonly stored: DocData | undefined
+  ) {}
+
+  get id(): string {
+    return this.ref.id;
+  }
+
+  get exists(): boolean {
+    return this.stored !== undefined;
+  }
+
+  data(): DocData | undefined {
+    return this.stored ? { ...this.stored } : undefined;
+  }
+
+  get(field: string): unknown {
+    return this.stored ? getField(this.stored, field) : undefined;
+  }
+}
+
+export class FakeDocumentReference {
+  constructor(readonly firestore: FakeFirestore, readonly path: string) {}
+
+  get id(): string {
+    return this.path.split('/').pop() as string;
+  }
+
+  collection(name: string): FakeQuery {
+    return this.firestore.collection(`${this.path}/${name}`);
+  }
+
+  /** Subcollections holding at least one document, at any depth */
+  async listCollections(): Promise<FakeQuery[]> {
+    const prefix = `${this.path}/`;
+    const ids = new Set(Array.from(this.firestore.store.keys())
+      .filter(path => path.startsWith(prefix))
+      .map(path => path.slice(prefix.length).split('/')[0]));
+    return Array.from(ids).map(id => this.collection(id));
+  }
+
+  async get(): Promise<FakeDocumentSnapshot> {
+    return new FakeDocumentSnapshot(this, this.firestore.store.get(this.path));
+  }
+
+  async set(data: DocData, options?: { merge?: boolean }): Promise<void> {
+    this.firestore.write(this.path, data, options?.merge === true);
+  }
+
+  async update(data: DocData): Promise<void> {
+    if (!this.firestore.store.has(this.path)) {
+      throw new Error(`No document to update: ${this.path}`);
+    }
+    this.firestore.update(this.path, data);
+  }
+
+  async create(data: DocData): Promise<void> {
+    if (this.firestore.store.has(this.path)) {
+      throw new Error(`Document already exists: ${this.path}`);
+    }
+    this.firestore.write(this.path, data, false);
+  }
+
+  async delete(): Promise<void> {
+    this.firestore.store.delete(this.path);
+  }
+}
+
+export class FakeQuery {
+  constructor(
+    readonly firestore: FakeFirestore,
+    readonly path: string,
+    private readonly filters: Filter[] = [],
+    private readonly order: Array<{ field: string; direction: 'asc' | 'desc' }> = [],
+    private readonly limitCount?: number,
+    private readonly cursor?: FakeDocumentSnapshot
+  ) {}
+
+  get id(): string {
+    return this.path.split('/').pop() as string;
+  }
+
+  doc(id?: string): FakeDocumentReference {
+    return new FakeDocumentReference(this.firestore, `${this.path}/${id ?? this.firestore.nextId()}`);
+  }
+
+  async add(data: DocData): Promise<FakeDocumentReference> {
+    const ref = this.doc();
+    await ref.set(data);
+    return ref;
+  }
+
+  where(field: string, op: WhereOp, value: unknown): FakeQuery {
+    return new FakeQuery(this.firestore, this.path, [...this.filters, { field, op, value }], this.order, this.limitCount, this.cursor);
+  }
+
+  orderBy(field: string, direction: 'asc' | 'desc' = 'asc'): FakeQuery {
+    return new FakeQuery(this.firestore, this.path, this.filters, [...this.order, { field, direction }], this.limitCount, this.cursor);
+  }
+
+  limit(count: number): FakeQuery {
+    return new FakeQuery(this.firestore, this.path, this.filters, this.order, count, this.cursor);
+  }
+
+  startAfter(snapshot: FakeDocumentSnapshot): FakeQuery {
+    return new FakeQuery(this.firestore, this.path, this.filters, this.order, this.limitCount, snapshot);
+  }
+
+  async listDocuments(): Promise<FakeDocumentReference[]> {
+    return this.matchingDocs().map(doc => doc.ref);
+  }
+
+  async get() {
+    let docs = this.matchingDocs()
+      .filter(doc => this.filters.every(filter => matches(doc.data() as DocData, filter)));
+
+    const order = this.order.length > 0 ? this.order : [{ field: '__name__', direction: 'asc' as const }];
+    docs.sort((a, b) => {
+      for (const { field, direction } of order) {
+        const left = field === '__name__' ? a.id : a.get(field);
+        const right = field === '__name__' ? b.id : b.get(field);
+        const result = compare(left, right) ?? 0;
+        if (result !== 0) {return direction === 'asc' ? result : -result;}
+      }
+      return 0;
+    });
+
+    if (this.cursor) {
+      const index = docs.findIndex(doc => doc.ref.path === this.cursor?.ref.path);
+      docs = docs.slice(index + 1);
+    }
+    if (this.limitCount !== undefined) {
+      docs = docs.slice(0, this.limitCount);
+    }
+
+    return { docs, size: docs.length, empty: docs.length === 0 };
+  }
+
+  private matchingDocs(): FakeDocumentSnapshot[] {
+    const prefix = `${this.path}/`;
+    const inCollection = this.path.startsWith(COLLECTION_GROUP_PREFIX)
+      ? (path: string) => path.split('/').slice(-2)[0] === this.id
+      : (path: string) => path.startsWith(prefix) && !path.slice(prefix.length).includes('/');
+    return Array.from(this.firestore.store.entries())
+      .filter(([path]) => inCollection(path))
+      .map(([path, data]) => new FakeDocumentSnapshot(new FakeDocumentReference(this.firestore, path), data));
+  }
+}
+
+export class FakeWriteBatch {
+  private readonly operations: Array<() => void> = [];
+
+  constructor(private readonly firestore: FakeFirestore) {}
+
+  set(ref: FakeDocumentReference, data: DocData, options?: { merge?: boolean }): FakeWriteBatch {
+    this.operations.push(() => this.firestore.write(ref.path, data, options?.merge === true));
+    return this;
+  }
+
+  update(ref: FakeDocumentReference, data: DocData): FakeWriteBatch {
+    this.operations.push(() => this.firestore.update(ref.path, data));
+    return this;
+  }
+
+  delete(ref: FakeDocumentReference): FakeWriteBatch {
+    this.operations.push(() => this.firestore.store.delete(ref.path));
+    return this;
+  }
+
+  async commit(): Promise<void> {
+    this.firestore.commits++;
+    this.operations.forEach(operation => operation());
+  }
+}
+
+export class FakeFirestore {
+  readonly store = new Map<string, DocData>();
+  commits = 0;
+  private idCounter = 0;
+  private transactions: Promise<unknown> = Promise.resolve();
+
+  collection(path: string): FakeQuery {
+    return new FakeQuery(this, path);
+  }
+
+  collectionGroup(collectionId: string): FakeQuery {
+    return new FakeQuery(this, `${COLLECTION_GROUP_PREFIX}${collectionId}`);
+  }
+
+  doc(path: string): FakeDocumentReference {
+    return new FakeDocumentReference(this, path);
+  }
+
+  batch(): FakeWriteBatch {
+    return new FakeWriteBatch(this);
+  }
+
+  /** Transactions run one at a time, the outcome Firestore reaches by retrying conflicts */
+  async runTransaction<T>(updateFunction: (transaction: FakeTransaction) => Promise<T>): Promise<T> {
+    const run = this.transactions.then(async () => {
+      const transaction = new FakeTransaction(this);
+      const result = await updateFunction(transaction);
+      transaction.commit();
+      return result;
+    });
+    this.transactions = run.catch(() => undefined);
+    return run;
+  }
+
+  /** Seed a document directly */
+  seed(path: string, data: DocData): void {
+    this.store.set(path, data);
+  }
+
+  /** Read a stored document directly */
+  read(path: string): DocData | undefined {
+    return this.store.get(path);
+  }
+
+  write(path: string, data: DocData, merge: boolean): void {
+    const existing = merge ? this.store.get(path) || {} : {};
+    this.store.set(path, applyMerge(existing, data));
+  }
+
+  update(path: string, data: DocData): void {
+    this.store.set(path, applyUpdate(this.store.get(path) || {}, data));
+  }
+
+  nextId(): string {
+    this.idCounter++;
+    return `auto-id-${this.idCounter}`;
+  }
+
+  /** The fake typed as the Admin SDK Firestore for code under test */
+  asFirestore(): admin.firestore.Firestore {
+    return this as unknown as admin.firestore.Firestore;
+  }
+}
+
+export class FakeTransaction {
+  private readonly batch: FakeWriteBatch;
+
+  constructor(firestore: FakeFirestore) {
+    this.batch = firestore.batch();
+  }
+
+  async get(ref: FakeDocumentReference | FakeQuery) {
+    return ref.get();
+  }
+
+  set(ref: FakeDocumentReference, data: DocData, options?: { merge?: boolean }): FakeTransaction {
+    this.batch.set(ref, data, options);
+    return this;
+  }
+
+  update(ref: FakeDocumentReference, data: DocData): FakeTransaction {
+    this.batch.update(ref, data);
+    return this;
+  }
+
+  delete(ref: FakeDocumentReference): FakeTransaction {
+    this.batch.delete(ref);
+    return this;
+  }
+
+  commit(): void {
+    void this.batch.commit();
+  }
+}
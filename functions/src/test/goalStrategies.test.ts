@@ -0,0 +1,116 @@
+import { CyclePrediction } from '../cycles/cyclePredictor';
+import { GOAL_STRATEGIES, goalPriority, resolveHealthGoal } from '../insights/goalStrategies';
+import { createDefaultRuleRegistry } from '../insights/rules/defaultRules';
+import { InsightRuleEngine, buildRuleContext } from '../insights/rules/ruleEngine';
+import { HealthGoal, InsightType } from '../types';
+import { epochDayToTimestamp, isoDateToEpochDay } from '../utils/dateUtils';
+import { createCycleOnDay, createLogOnDay } from './testDataFactory';
+
+describe('goal strategies', () => {
+  const userId = 'test-user-123';
+  const D0 = isoDateToEpochDay('2024-04-01') as number;
+  const engine = new InsightRuleEngine(createDefaultRuleRegistry(), {
+    environment: 'production',
+    disabledRuleIds: [],
+    thresholdOverrides: {}
+  });
+
+  // Ovulation confirmed on day 14 of the first cycle; the open cycle expects it on day 14 too
+  const cycles = [
+    createCycleOnDay(D0, { cycleLength: 28, confirmedOvulationDate: epochDayToTimestamp(D0 + 13) }),
+    createCycleOnDay(D0 + 28, {
+      predictedNextStartDate: epochDayToTimestamp(D0 + 56),
+      predictedOvulationDate: epochDayToTimestamp(D0 + 41)
+    })
+  ];
+  const sex = (offset: number, protection: string[]) =>
+    createLogOnDay(D0 + offset, { sexualActivity: { occurred: true, protection } });
+  const logs = [sex(10, ['NONE']), sex(12, ['CONDOM']), sex(20, []), sex(33, ['WITHDRAWAL'])];
+
+  const prediction: CyclePrediction = {
+    cycleId: cycles[1].id,
+    currentCycleStart: epochDayToTimestamp(D0 + 28),
+    predictedNextStartDate: epochDayToTimestamp(D0 + 56),
+    earliestNextStartDate: epochDayToTimestamp(D0 + 54),
+    latestNextStartDate: epochDayToTimestamp(D0 + 58),
+    uncertaintyDays: 2,
+    predictedOvulationDate: epochDayToTimestamp(D0 + 41),
+    expectedCycleLength: 28,
+    standardDeviation: 1,
+    cyclesUsed: 1,
+    outliersRejected: 0,
+    usedPreferences: true,
+    overdue: false,
+    confidence: 0.6
+  };
+
+  const run = (goal: HealthGoal) => engine.run(
+    buildRuleContext({ userId, dailyLogs: logs, cycles, prediction, goal, todayEpochDay: D0 + 35 })
+  );
+  const insightOf = (goal: HealthGoal, ruleId: string) => run(goal).insights.find(insight => insight.ruleId === ruleId);
+
+  it('should read the goal of a user, defaulting to cycle tracking', () => {
+    expect(resolveHealthGoal('CONTRACEPTION')).toBe(HealthGoal.CONTRACEPTION);
+    expect(resolveHealthGoal('conception')).toBe(HealthGoal.CYCLE_TRACKING);
+    expect(resolveHealthGoal(undefined)).toBe(HealthGoal.CYCLE_TRACKING);
+  });
+
+  it('should run goal-specific rules only for users with those goals', () => {
+    const conception = run(HealthGoal.CONCEPTION);
+    const fired = conception.insights.map(insight => insight.ruleId);
+
+    expect(fired).toEqual(expect.arrayContaining(['fertility.intercourseTiming', 'fertility.upcomingWindow']));
+    expect(fired).not.toContain('fertility.unprotectedSex');
+    expect(conception.decisions.find(decision => decision.ruleId === 'fertility.unprotectedSex'))
+      .toMatchObject({ outcome: 'disabled', reason: 'not for the CONCEPTION goal' });
+
+    const tracking = run(HealthGoal.CYCLE_TRACKING).insights.map(insight => insight.ruleId);
+    expect(tracking).not.toContain('fertility.upcomingWindow');
+    expect(tracking).toContain('fertility.window');
+  });
+
+  it('should count cycles with sex in the fertile window when trying to conceive', () => {
+    expect(insightOf(HealthGoal.CONCEPTION, 'fertility.intercourseTiming')).toMatchObject({
+      type: InsightType.FERTILITY_WINDOW,
+      insightText: 'You logged sex during your fertile window in 1 of 1 cycle with confirmed ovulation, and in the three days up to ovulation in 1. Those three days give the best chance of conceiving.',
+      relatedLogIds: [`log-day-${D0 + 10}`, `log-day-${D0 + 12}`],
+      evidence: { cycleIds: [cycles[0].id], series: { inFertileWindow: [1], inPeakDays: [1] } }
+    });
+  });
+
+  it('should warn about sex without reliable protection on likely fertile days', () => {
+    const warning = insightOf(HealthGoal.CONTRACEPTION, 'fertility.unprotectedSex');
+
+    // Day 11 is in the confirmed window; day 34 in the wider window around projected ovulation
+    expect(warning).toMatchObject({
+      type: InsightType.EARLY_WARNING,
+      relatedLogIds: [`log-day-${D0 + 10}`, `log-day-${D0 + 33}`],
+      evidence: { metrics: { unprotectedFertileDays: 2, withdrawalDays: 1, confirmedOvulationDays: 1 } },
+      confidence: 0.75
+    });
+    expect(warning?.insightText).toMatch(/^You logged sex without a condom or birth control on 2 days .+ On 1 of them you relied on withdrawal/);
+  });
+
+  it('should word the fertile window for the goal and widen it when avoiding pregnancy', () => {
+    const conception = insightOf(HealthGoal.CONCEPTION, 'fertility.upcomingWindow');
+    const contraception = insightOf(HealthGoal.CONTRACEPTION, 'fertility.upcomingWindow');
+
+    expect(conception?.insightText).toMatch(/^Your fertile window starts tomorrow: it is expected to run from /);
+    expect(conception?.evidence?.dateRange).toEqual({ start: '2024-05-07', end: '2024-05-12' });
+    expect(contraception?.insightText).toMatch(/^Your next fertile days are expected from .+ Use protection/);
+    expect(contraception?.evidence?.dateRange).toEqual({ start: '2024-05-05', end: '2024-05-15' });
+
+    expect(insightOf(HealthGoal.CONTRACEPTION, 'fertility.window')?.insightText)
+      .toContain('past cycles alone cannot tell you which days are safe');
+    expect(insightOf(HealthGoal.CONCEPTION, 'fertility.window')?.insightText).not.toContain('safe');
+  });
+
+  it('should rank insights by the rules the goal favours', () => {
+    const priorities = GOAL_STRATEGIES[HealthGoal.CONCEPTION].priorityRuleIds.length;
+
+    expect(insightOf(HealthGoal.CONCEPTION, 'fertility.upcomingWindow')?.priority).toBe(priorities);
+    expect(insightOf(HealthGoal.CONCEPTION, 'fertility.window')?.priority).toBe(priorities - 2);
+    expect(goalPriority(HealthGoal.CONCEPTION, 'mood.dominant')).toBe(0);
+    expect(goalPriority(HealthGoal.GENERAL_HEALTH, 'mood.dominant')).toBeGreaterThan(0);
+  });
+});
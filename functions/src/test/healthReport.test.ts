@@ -0,0 +1,287 @@
+import { DEFAULT_CYCLE_PREFERENCES } from '../data/userSettingsRepository';
+import { HealthReportBuilder, HealthReportInput, classifyRegularity } from '../reports/healthReportBuilder';
+import { HealthReportGenerator, parseHealthReportRequest } from '../reports/healthReportGenerator';
+import {
+  CyclePhase,
+  CycleRegularity,
+  DailyLog,
+  InsightType,
+  Mood,
+  PeriodFlow,
+  ReportType,
+  TemperatureUnit,
+  TrendDirection
+} from '../types';
+import { epochDayToTimestamp } from '../utils/dateUtils';
+import { FakeFirestore } from './fakeFirestore';
+import { createCycleOnDay, createLogOnDay } from './testDataFactory';
+import * as admin from 'firebase-admin';
+
+describe('health reports', () => {
+  const userId = 'test-user-123';
+  // 2024-01-01; cycles of 28, 28 and 30 days, then an open one
+  const C1 = 19723;
+  const C2 = C1 + 28;
+  const C3 = C2 + 28;
+  const C4 = C3 + 30;
+  const GENERATED_AT = new Date(Date.UTC(2024, 4, 1));
+
+  const CYCLES = [
+    createCycleOnDay(C1, { cycleLength: 28 }),
+    createCycleOnDay(C2, {
+      cycleLength: 28,
+      confirmedOvulationDate: epochDayToTimestamp(C2 + 13),
+      ovulationSignals: ['BBT'],
+      lutealPhaseLength: 14
+    }),
+    createCycleOnDay(C3, {
+      cycleLength: 30,
+      confirmedOvulationDate: epochDayToTimestamp(C3 + 9),
+      ovulationSignals: ['OPK', 'CERVICAL_MUCUS'],
+      lutealPhaseLength: 20
+    }),
+    createCycleOnDay(C4)
+  ];
+
+  // One log a day across cycles 2 and 3: cramps on the first three days of each cycle,
+  // headaches only in the last two weeks, irritable late in each cycle and BBT through cycle 2
+  const dayLog = (day: number): DailyLog => {
+    const cycleStart = day < C3 ? C2 : C3;
+    const symptoms = [
+      ...(day - cycleStart < 3 ? ['CRAMPS'] : []),
+      ...(day >= C4 - 14 ? ['HEADACHE'] : [])
+    ];
+    return createLogOnDay(day, {
+      mood: (day >= C2 + 19 && day < C3) || day >= C3 + 16 ? Mood.IRRITABLE : Mood.CALM,
+      ...(symptoms.length > 0 ? { symptoms } : {}),
+      ...(day < C3 ? { bbt: day <= C2 + 13 ? 36.4 : 36.8 } : {})
+    });
+  };
+  const LOGS = Array.from({ length: C4 - C2 }, (_, i) => dayLog(C2 + i));
+
+  const createInput = (overrides: Partial<HealthReportInput> = {}): HealthReportInput => ({
+    userId,
+    reportType: ReportType.CUSTOM,
+    startEpochDay: C2,
+    endEpochDay: C4 - 1,
+    dailyLogs: LOGS,
+    cycles: CYCLES,
+    cyclePreferences: DEFAULT_CYCLE_PREFERENCES,
+    insights: [],
+    locale: 'en',
+    temperatureUnit: TemperatureUnit.CELSIUS,
+    generatedAt: GENERATED_AT,
+    ...overrides
+  });
+
+  describe('parseHealthReportRequest', () => {
+    it('should accept a range of local days and a report type', () => {
+      expect(parseHealthReportRequest({ start: '2024-01-29', end: '2024-03-26', reportType: 'QUARTERLY' })).toEqual({
+        ok: true,
+        request: { reportType: ReportType.QUARTERLY, startEpochDay: C2, endEpochDay: C4 - 1 }
+      });
+    });
+
+    it('should reject malformed dates, unknown types and invalid ranges', () => {
+      const parse = (data: unknown) => {
+        const result = parseHealthReportRequest(data);
+        return result.ok ? 'ok' : result.message;
+      };
+
+      expect(parse({ start: '2024-02-30', end: '2024-03-26', reportType: 'MONTHLY' })).toContain('yyyy-MM-dd');
+      expect(parse(undefined)).toContain('yyyy-MM-dd');
+      expect(parse({ start: '2024-01-29', end: '2024-03-26', reportType: 'WEEKLY' })).toContain('reportType must be one of');
+      expect(parse({ start: '2024-03-26', end: '2024-03-26', reportType: 'CUSTOM' })).toBe('Start date must be before end date');
+      expect(parse({ start: '2023-01-01', end: '2024-01-02', reportType: 'YEARLY' }))
+        .toBe('Report date range cannot exceed 365 days');
+    });
+  });
+
+  describe('classifyRegularity', () => {
+    it('should classify by the spread of cycle lengths', () => {
+      expect(classifyRegularity([28, 29, 27, 28])).toBe(CycleRegularity.VERY_REGULAR);
+      expect(classifyRegularity([26, 30, 28])).toBe(CycleRegularity.REGULAR);
+      expect(classifyRegularity([24, 30, 33])).toBe(CycleRegularity.SOMEWHAT_IRREGULAR);
+      expect(classifyRegularity([24, 32, 40])).toBe(CycleRegularity.IRREGULAR);
+      expect(classifyRegularity([18, 45, 28])).toBe(CycleRegularity.VERY_IRREGULAR);
+      expect(classifyRegularity([28])).toBe(CycleRegularity.IRREGULAR);
+    });
+  });
+
+  describe('HealthReportBuilder', () => {
+    const builder = new HealthReportBuilder();
+
+    it('should summarize the cycles of the range and their ovulation', () => {
+      const report = builder.build(createInput());
+
+      expect(report).toMatchObject({
+        userId,
+        generatedDate: GENERATED_AT.getTime(),
+        reportType: ReportType.CUSTOM,
+        dateRange: { start: C2, end: C4 - 1 },
+        isShared: false
+      });
+      expect(report.cycleSummary).toEqual({
+        totalCycles: 2,
+        averageCycleLength: 29,
+        averageLutealPhase: 17,
+        // Judged on cycle 1 as well, the two cycles of the range being too few
+        cycleRegularity: CycleRegularity.VERY_REGULAR,
+        ovulationPatterns: {
+          averageOvulationDay: 12,
+          ovulationConfidenceRate: 1,
+          // Day 10 of cycle 3 is before the window a 14-day luteal phase predicts
+          fertilityWindowAccuracy: 0.5
+        }
+      });
+    });
+
+    it('should report symptom frequency by phase and trends', () => {
+      const { mostCommonSymptoms, symptomTrends } = builder.build(createInput()).symptomAnalysis;
+
+      expect(mostCommonSymptoms.map(symptom => symptom.symptom)).toEqual(['HEADACHE', 'CRAMPS']);
+      expect(mostCommonSymptoms[1]).toEqual({
+        symptom: 'CRAMPS',
+        frequency: 0.103,
+        cyclePhaseDistribution: {
+          [CyclePhase.MENSTRUAL]: 1,
+          [CyclePhase.FOLLICULAR]: 0,
+          [CyclePhase.OVULATORY]: 0,
+          [CyclePhase.LUTEAL]: 0
+        }
+      });
+      expect(symptomTrends.HEADACHE).toEqual({ trend: TrendDirection.INCREASING, changePercentage: 100, significance: 1 });
+      expect(symptomTrends.CRAMPS).toMatchObject({ trend: TrendDirection.STABLE, changePercentage: -50 });
+      expect(symptomTrends.CRAMPS.significance).toBeLessThan(0.95);
+    });
+
+    it('should find the dominant mood overall and per phase', () => {
+      const { moodPatterns } = builder.build(createInput()).symptomAnalysis;
+
+      expect(moodPatterns).toEqual({
+        dominantMood: Mood.CALM,
+        // Three switches between calm and irritable in 57 consecutive entries
+        moodVariability: 0.053,
+        cyclePhaseCorrelations: {
+          [CyclePhase.MENSTRUAL]: Mood.CALM,
+          [CyclePhase.FOLLICULAR]: Mood.CALM,
+          [CyclePhase.OVULATORY]: Mood.CALM,
+          [CyclePhase.LUTEAL]: Mood.IRRITABLE
+        }
+      });
+    });
+
+    it('should analyze BBT by phase with localized pattern descriptions', () => {
+      const { bbtAnalysis } = builder.build(createInput({ locale: 'es' })).symptomAnalysis;
+
+      expect(bbtAnalysis).toEqual({
+        averageTemperature: 36.6,
+        temperatureRange: { min: 36.4, max: 36.8, follicularAverage: 36.4, lutealAverage: 36.8 },
+        ovulationDetectionRate: 1,
+        temperaturePatterns: [{
+          pattern: 'BIPHASIC',
+          frequency: 1,
+          description: '1 de 1 ciclos registrados mostraron un aumento sostenido de la temperatura tras la ovulación.'
+        }]
+      });
+      const withoutBbt = LOGS.map(log => ({ ...log, bbt: undefined }));
+      expect(builder.build(createInput({ dailyLogs: withoutBbt })).symptomAnalysis.bbtAnalysis).toBeNull();
+    });
+
+    it('should list insights as the apps read them', () => {
+      const report = builder.build(createInput({
+        insights: [{
+          id: 'cycle_regular',
+          userId,
+          generatedDate: admin.firestore.Timestamp.fromMillis(Date.UTC(2024, 2, 1, 4, 0, 30)),
+          insightText: 'Your cycles are very regular.',
+          type: InsightType.PATTERN_RECOGNITION,
+          isRead: true,
+          relatedLogIds: [],
+          confidence: 0.8,
+          actionable: false,
+          ruleId: 'cycle.regular'
+        }]
+      }));
+
+      expect(report.insights).toEqual([{
+        generatedDate: Date.UTC(2024, 2, 1, 4, 0, 30) / 1000,
+        insightText: 'Your cycles are very regular.',
+        type: InsightType.PATTERN_RECOGNITION,
+        isRead: true,
+        relatedLogIds: [],
+        confidence: 0.8,
+        actionable: false
+      }]);
+    });
+  });
+
+  describe('HealthReportGenerator', () => {
+    let db: FakeFirestore;
+
+    beforeEach(() => {
+      db = new FakeFirestore();
+      db.seed(`users/${userId}`, { timeZone: 'Europe/Berlin' });
+      // Periods at the start of cycles 1 to 4, so every cycle is reconstructed from the logs
+      const periodStarts = [C1, C2, C3, C4];
+      for (let day = C1; day < C4 + 5; day++) {
+        const inPeriod = periodStarts.some(start => day >= start && day < start + 5);
+        db.seed(`users/${userId}/dailyLogs/log-${day}`, {
+          dateEpochDays: day,
+          v: 1,
+          ...(inPeriod ? { periodFlow: PeriodFlow.MEDIUM } : { symptoms: ['BLOATING'] })
+        });
+      }
+    });
+
+    it('should store the report in the shape HealthReportDto reads', async () => {
+      const atDay = (day: number) => admin.firestore.Timestamp.fromMillis(day * 86400 * 1000);
+      db.seed(`users/${userId}/insights/shown`, {
+        insightText: 'Shown during the range', type: InsightType.PATTERN_RECOGNITION, status: 'active',
+        confidence: 0.7, generatedDate: atDay(C3)
+      });
+      db.seed(`users/${userId}/insights/closedBefore`, {
+        insightText: 'Expired before the range', type: InsightType.EARLY_WARNING, status: 'expired',
+        confidence: 0.9, generatedDate: atDay(C1), closedAt: atDay(C2 - 3)
+      });
+      db.seed(`users/${userId}/insights/generatedAfter`, {
+        insightText: 'Generated after the range', type: InsightType.EARLY_WARNING, status: 'active',
+        confidence: 0.9, generatedDate: atDay(C4 + 2)
+      });
+
+      const result = await new HealthReportGenerator(db.asFirestore()).generate(
+        userId,
+        { reportType: ReportType.MONTHLY, startEpochDay: C2, endEpochDay: C4 - 1 },
+        GENERATED_AT
+      );
+
+      expect(result.status).toBe('generated');
+      if (result.status !== 'generated') {return;}
+      const stored = db.read(`users/${userId}/healthReports/${result.reportId}`) as Record<string, unknown>;
+
+      expect(Object.keys(stored).sort()).toEqual([
+        'cycleSummary', 'dateRange', 'generatedDate', 'insights', 'isShared', 'reportType', 'symptomAnalysis', 'userId'
+      ]);
+      expect(stored).toEqual(result.report);
+      expect(result.report.cycleSummary).toMatchObject({ totalCycles: 2, averageCycleLength: 29 });
+      expect(result.report.symptomAnalysis.mostCommonSymptoms[0]).toMatchObject({ symptom: 'BLOATING' });
+      expect(result.report.insights.map(insight => insight.insightText)).toEqual(['Shown during the range']);
+    });
+
+    it('should not store a report without enough data', async () => {
+      const result = await new HealthReportGenerator(db.asFirestore()).generate(
+        userId,
+        { reportType: ReportType.CUSTOM, startEpochDay: C1 - 60, endEpochDay: C1 - 1 },
+        GENERATED_AT
+      );
+
+      expect(result).toEqual({
+        status: 'insufficientData',
+        errors: [
+          'At least 2 complete cycles are required for a meaningful report',
+          'At least 10 daily logs are required for symptom analysis'
+        ]
+      });
+    });
+  });
+});
@@ -0,0 +1,287 @@
+import { DEFAULT_CYCLE_PREFERENCES, decodeUserSettings } from '../data/userSettingsRepository';
+import { ReportPdfStorage, reportPdfPath } from '../data/reportPdfStorage';
+import { StorageBucket } from '../data/storageLinks';
+import { HealthReportGenerator } from '../reports/healthReportGenerator';
+import { HealthReportPdfService } from '../reports/healthReportPdfService';
+import { HealthReportBuilder } from '../reports/healthReportBuilder';
+import { PdfDocument, textWidth, wrapText } from '../reports/pdf/pdfDocument';
+import { buildReportCharts } from '../reports/reportCharts';
+import { ReportData } from '../reports/reportData';
+import { Insight, InsightType, PeriodFlow, ReportType, TemperatureUnit } from '../types';
+import { epochDayToIsoDate } from '../utils/dateUtils';
+import { FakeFirestore } from './fakeFirestore';
+import { createCycleOnDay, createLogOnDay } from './testDataFactory';
+import * as admin from 'firebase-admin';
+
+// Uploads kept in memory, with signed URLs that show their expiry
+class FakeBucket {
+  readonly name = 'eunio-test.appspot.com';
+  readonly files = new Map<string, { data: Buffer; contentType?: string }>();
+
+  file(path: string) {
+    return {
+      save: async (data: Buffer, options?: { contentType?: string }) => {
+        this.files.set(path, { data, contentType: options?.contentType });
+      },
+      getSignedUrl: async (options: { expires: number }) => [`https://storage.test/${path}?expires=${options.expires}`]
+    };
+  }
+
+  asBucket(): StorageBucket {
+    return this as unknown as StorageBucket;
+  }
+}
+
+/**
+ * Check that every cross-reference entry points at its object and return the page count
+ */
+function checkPdfStructure(pdf: Buffer): number {
+  const text = pdf.toString('latin1');
+  expect(text.startsWith('%PDF-1.4\n')).toBe(true);
+  expect(text.endsWith('%%EOF\n')).toBe(true);
+
+  const xrefOffset = Number(/startxref\n(\d+)\n%%EOF\n$/.exec(text)?.[1]);
+  const [, countLine, ...entries] = text.slice(xrefOffset).split('\n');
+  const count = Number(countLine.split(' ')[1]);
+  entries.slice(1, count).forEach((entry, index) => {
+    const offset = Number(entry.slice(0, 10));
+    expect(text.slice(offset, offset + 20)).toMatch(new RegExp(`^${index + 1} 0 obj\\n`));
+  });
+  [...text.matchAll(/<< \/Length (\d+) >>\nstream\n/g)].forEach(match => {
+    const start = (match.index as number) + match[0].length;
+    expect(text.slice(start + Number(match[1]), start + Number(match[1]) + 10)).toBe('\nendstream');
+  });
+
+  return (text.match(/\/Type \/Page /g) ?? []).length;
+}
+
+describe('health report PDFs', () => {
+  const userId = 'test-user-123';
+  // 2024-01-01; cycles of 28, 28 and 30 days, then an open one
+  const C1 = 19723;
+  const C2 = C1 + 28;
+  const C3 = C2 + 28;
+  const C4 = C3 + 30;
+  const GENERATED_AT = new Date(Date.UTC(2024, 4, 1));
+  const atDay = (day: number) => admin.firestore.Timestamp.fromMillis(day * 86400 * 1000);
+
+  describe('PdfDocument', () => {
+    it('should write pages that viewers can open without repair', () => {
+      const document = new PdfDocument('Informe (beta)');
+      document.addPage().text('Día 14 — ovulación (confirmada) \\ ✓', 48, 60, { size: 12 });
+      const second = document.addPage();
+      second.rect(48, 48, 100, 20, { fill: [0.5, 0.5, 0.5], stroke: { width: 0.5, dash: [2, 2] } });
+      second.circle(100, 100, 2, { fill: [1, 0, 0] });
+      second.polyline([[48, 200], [60, 210], [72, 190]], { color: [0, 0, 1] });
+
+      const pdf = document.toBuffer();
+      const text = pdf.toString('latin1');
+
+      expect(checkPdfStructure(pdf)).toBe(2);
+      expect(text).toContain('/Count 2');
+      expect(text).toContain('/Title (Informe \\(beta\\))');
+      // WinAnsiEncoding: í is 0xED, the em dash 0x97; the check mark has no code
+      expect(pdf.includes(Buffer.from('(D\xeda 14 \x97 ovulaci\xf3n \\(confirmada\\) \\\\ ?) Tj', 'latin1'))).toBe(true);
+    });
+
+    it('should measure and wrap text in Helvetica', () => {
+      expect(textWidth('Hello', 'regular', 10)).toBeCloseTo(22.78, 2);
+      expect(textWidth('Hello', 'bold', 10)).toBeGreaterThan(textWidth('Hello', 'regular', 10));
+      expect(textWidth('é', 'regular', 10)).toBe(textWidth('e', 'regular', 10));
+
+      const lines = wrapText('Your luteal phase averages 14 days across your charted cycles', 'regular', 10, 120);
+      expect(lines.join(' ')).toBe('Your luteal phase averages 14 days across your charted cycles');
+      lines.forEach(line => expect(textWidth(line, 'regular', 10)).toBeLessThanOrEqual(120));
+      expect(wrapText('Supercalifragilisticexpialidocious', 'regular', 10, 60).length).toBeGreaterThan(1);
+    });
+  });
+
+  describe('buildReportCharts', () => {
+    it('should collect cycle lengths, coverlines and the symptom heatmap of the range', () => {
+      const cycles = [
+        createCycleOnDay(C1, { cycleLength: 28 }),
+        createCycleOnDay(C2, { cycleLength: 28 }),
+        createCycleOnDay(C3, { cycleLength: 30 }),
+        createCycleOnDay(C4)
+      ];
+      const dailyLogs = Array.from({ length: C4 - C2 }, (_, i) => {
+        const day = C2 + i;
+        const cycleDay = day - (day < C3 ? C2 : C3) + 1;
+        return createLogOnDay(day, {
+          ...(cycleDay <= 3 ? { symptoms: ['CRAMPS'] } : {}),
+          ...(day < C3 ? { bbt: 36.5 } : {})
+        });
+      });
+      const data: ReportData = {
+        timeZone: 'America/New_York',
+        dailyLogs,
+        cycles,
+        detections: cycles.map((cycle, index) => ({
+          cycleId: cycle.id,
+          status: index === 1 ? 'confirmed' : 'notDetected',
+          agreeingSignals: [],
+          ...(index === 1
+            ? { thermalShift: { shiftEpochDay: C2 + 14, coverlineCelsius: 36.45, ovulationEpochDay: C2 + 13, logIds: [] } }
+            : {})
+        })),
+        settings: decodeUserSettings(userId, undefined),
+        temperatureUnit: TemperatureUnit.CELSIUS,
+        locale: 'en'
+      };
+      const report = new HealthReportBuilder().build({
+        userId,
+        reportType: ReportType.CUSTOM,
+        startEpochDay: C2,
+        endEpochDay: C4 - 1,
+        dailyLogs,
+        cycles,
+        cyclePreferences: DEFAULT_CYCLE_PREFERENCES,
+        insights: [],
+        locale: 'en',
+        temperatureUnit: TemperatureUnit.CELSIUS,
+        generatedAt: GENERATED_AT
+      });
+      const warning = { insightText: 'Watch this', generatedDate: atDay(C3 + 1) } as Insight;
+
+      const charts = buildReportCharts(report, data, [warning]);
+
+      // Midnight UTC on May 1 is still April 30 in New York
+      expect(charts.generatedOn).toBe('2024-04-30');
+      expect(charts.cycleLengths).toEqual([{ startEpochDay: C2, length: 28 }, { startEpochDay: C3, length: 30 }]);
+      expect(charts.cycleStarts).toEqual([C2, C3]);
+      expect(charts.temperatures).toHaveLength(28);
+      expect(charts.coverlines).toEqual([{ startEpochDay: C2, endEpochDay: C3 - 1, celsius: 36.45 }]);
+      expect(charts.symptomHeatmap).toMatchObject({ cycleDays: 30, folded: false });
+      expect(charts.symptomHeatmap.loggedDays.slice(26)).toEqual([2, 2, 1, 1]);
+      expect(charts.symptomHeatmap.rows).toEqual([{ symptom: 'CRAMPS', counts: [2, 2, 2, ...new Array(27).fill(0)] }]);
+      expect(charts.earlyWarnings).toEqual([{ date: epochDayToIsoDate(C3), text: 'Watch this' }]);
+    });
+  });
+
+  describe('HealthReportPdfService', () => {
+    let db: FakeFirestore;
+    let bucket: FakeBucket;
+
+    beforeEach(() => {
+      db = new FakeFirestore();
+      bucket = new FakeBucket();
+      db.seed(`users/${userId}`, { timeZone: 'Europe/Madrid' });
+      db.seed(`user_settings/${userId}`, { locale: 'es-ES' });
+      // Periods at the start of cycles 1 to 4, BBT with a thermal shift through cycle 2
+      const periodStarts = [C1, C2, C3, C4];
+      for (let day = C1; day < C4 + 5; day++) {
+        const inPeriod = periodStarts.some(start => day >= start && day < start + 5);
+        db.seed(`users/${userId}/dailyLogs/log-${day}`, {
+          dateEpochDays: day,
+          v: 1,
+          ...(inPeriod ? { periodFlow: PeriodFlow.MEDIUM } : { symptoms: ['BLOATING'] }),
+          ...(day >= C2 && day < C3 ? { bbt: day <= C2 + 13 ? 36.4 : 36.8 } : {})
+        });
+      }
+      db.seed(`users/${userId}/insights/warning`, {
+        insightText: 'Tus ciclos se han acortado', type: InsightType.EARLY_WARNING, status: 'active',
+        confidence: 0.8, generatedDate: atDay(C4 + 2)
+      });
+      db.seed(`users/${userId}/insights/expiredWarning`, {
+        insightText: 'Ya no aplica', type: InsightType.EARLY_WARNING, status: 'expired',
+        confidence: 0.8, generatedDate: atDay(C3)
+      });
+    });
+
+    it('should upload the rendered report and store its URL on the report', async () => {
+      const generated = await new HealthReportGenerator(db.asFirestore()).generate(
+        userId,
+        { reportType: ReportType.QUARTERLY, startEpochDay: C2, endEpochDay: C4 - 1 },
+        GENERATED_AT
+      );
+      if (generated.status !== 'generated') {throw new Error('No report generated');}
+
+      const result = await new HealthReportPdfService(db.asFirestore(), new ReportPdfStorage(bucket.asBucket()))
+        .render(userId, generated.reportId, GENERATED_AT);
+
+      const path = `users/${userId}/reports/${generated.reportId}.pdf`;
+      const expires = GENERATED_AT.getTime() + 7 * 86400 * 1000;
+      expect(result).toEqual({ status: 'rendered', pdfUrl: `https://storage.test/${path}?expires=${expires}` });
+      expect(db.read(`users/${userId}/healthReports/${generated.reportId}`)?.pdfUrl).toBe(result.status === 'rendered' && result.pdfUrl);
+
+      const upload = bucket.files.get(path);
+      expect(upload?.contentType).toBe('application/pdf');
+      const pdf = upload?.data as Buffer;
+      const text = pdf.toString('latin1');
+      expect(checkPdfStructure(pdf)).toBe(3);
+      expect(text).toContain('(Informe trimestral) Tj');
+      expect(text).toContain('(L\xednea base) Tj');
+      expect(text).toContain('(hinchaz\xf3n) Tj');
+      expect(text).toContain('(Tus ciclos se han acortado) Tj');
+      expect(text).not.toContain('Ya no aplica');
+    });
+
+    it('should report a missing report without uploading', async () => {
+      const result = await new HealthReportPdfService(db.asFirestore(), new ReportPdfStorage(bucket.asBucket()))
+        .render(userId, 'missing');
+
+      expect(result).toEqual({ status: 'notFound' });
+      expect(bucket.files.size).toBe(0);
+    });
+  });
+
+  describe('ReportPdfStorage', () => {
+    const emulatorHost = process.env.FIREBASE_STORAGE_EMULATOR_HOST;
+
+    afterEach(() => {
+      if (emulatorHost === undefined) {
+        delete process.env.FIREBASE_STORAGE_EMULATOR_HOST;
+      } else {
+        process.env.FIREBASE_STORAGE_EMULATOR_HOST = emulatorHost;
+      }
+    });
+
+    it('should link to the emulator instead of signing URLs', async () => {
+      const storageEmulatorHost = process.env.STORAGE_EMULATOR_HOST;
+      delete process.env.STORAGE_EMULATOR_HOST;
+      process.env.FIREBASE_STORAGE_EMULATOR_HOST = '127.0.0.1:9199';
+      const bucket = new FakeBucket();
+
+      try {
+        const url = await new ReportPdfStorage(bucket.asBucket()).save(userId, 'report-1', Buffer.from('%PDF-1.4'));
+
+        expect(url).toBe(`http://127.0.0.1:9199/v0/b/eunio-test.appspot.com/o/users%2F${userId}%2Freports%2Freport-1.pdf?alt=media`);
+        expect(bucket.files.has(reportPdfPath(userId, 'report-1'))).toBe(true);
+      } finally {
+        if (storageEmulatorHost !== undefined) {process.env.STORAGE_EMULATOR_HOST = storageEmulatorHost;}
+      }
+    });
+  });
+
+  // Run with the Storage emulator: firebase emulators:exec --only storage "npm test"
+  const describeWithEmulator = process.env.FIREBASE_STORAGE_EMULATOR_HOST ? describe : describe.skip;
+
+  describeWithEmulator('ReportPdfStorage on the Storage emulator', () => {
+    const realAdmin = jest.requireActual('firebase-admin') as typeof admin;
+    let app: admin.app.App;
+
+    beforeAll(() => {
+      app = realAdmin.initializeApp(
+        { projectId: 'demo-eunio', storageBucket: 'demo-eunio.appspot.com' },
+        'storage-emulator'
+      );
+    });
+
+    afterAll(async () => {
+      await app.delete();
+    });
+
+    it('should store the PDF under the user\'s reports', async () => {
+      const bucket = app.storage().bucket();
+      const pdf = new PdfDocument('Health report').toBuffer();
+
+      const url = await new ReportPdfStorage(bucket).save(userId, 'emulated', pdf);
+      const [stored] = await bucket.file(reportPdfPath(userId, 'emulated')).download();
+      const [metadata] = await bucket.file(reportPdfPath(userId, 'emulated')).getMetadata();
+
+      expect(url).toContain(`/o/users%2F${userId}%2Freports%2Femulated.pdf?alt=media`);
+      expect(stored.equals(pdf)).toBe(true);
+      expect(metadata.contentType).toBe('application/pdf');
+    }, 15000);
+  });
+});
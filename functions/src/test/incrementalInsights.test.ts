@@ -0,0 +1,124 @@
+import {
+  InsightDebouncer,
+  changedLogFields,
+  processDailyLogWrite,
+  rulesAffectedBy
+} from '../insights/incrementalInsights';
+import { UserInsightResult } from '../insights/insightGenerator';
+import { AccountDeletionRepository } from '../data/accountDeletionRepository';
+import { FakeFirestore } from './fakeFirestore';
+
+describe('incremental insights', () => {
+  const userId = 'test-user-123';
+  const log = { dateEpochDays: 20000, periodFlow: 'MEDIUM', mood: 'CALM', symptoms: ['CRAMPS'], updatedAt: 1 };
+
+  describe('changedLogFields', () => {
+    it('should report only the fields that changed', () => {
+      expect(changedLogFields(log, { ...log, mood: 'SAD', updatedAt: 2 })).toEqual(['mood']);
+      expect(changedLogFields(log, { ...log, symptoms: ['CRAMPS'] })).toEqual([]);
+      expect(changedLogFields({ ...log, symptoms: [] }, { ...log, symptoms: undefined })).toEqual([]);
+    });
+
+    it('should count every recorded field of created, deleted and moved logs', () => {
+      const recorded = ['periodFlow', 'symptoms', 'mood'];
+
+      expect(changedLogFields(undefined, log)).toEqual(recorded);
+      expect(changedLogFields(log, undefined)).toEqual(recorded);
+      expect(changedLogFields(log, { ...log, dateEpochDays: 20001 })).toEqual(recorded);
+    });
+  });
+
+  describe('rulesAffectedBy', () => {
+    it('should limit mood edits to mood rules', () => {
+      expect(rulesAffectedBy(['mood']).map(rule => rule.id)).toEqual([
+        'mood.dominant',
+        'mood.cycleCorrelation',
+        'mood.negative',
+        'mood.swings'
+      ]);
+    });
+
+    it('should include every cycle-based rule when bleeding changes', () => {
+      const ruleIds = rulesAffectedBy(['periodFlow']).map(rule => rule.id);
+
+      expect(ruleIds).toEqual(expect.arrayContaining([
+        'bleeding.prolonged',
+        'cycle.short',
+        'symptom.premenstrual',
+        'fertility.window',
+        'cycle.nextPeriod'
+      ]));
+      expect(ruleIds).not.toContain('temperature.high');
+    });
+  });
+
+  describe('processDailyLogWrite', () => {
+    let db: FakeFirestore;
+    let debouncer: InsightDebouncer;
+    let deletions: AccountDeletionRepository;
+    let runs: Array<{ ruleIds?: string[]; persistDerivedCycles: boolean }>;
+
+    const runInsights = async (_userId: string, options: { ruleIds?: string[]; persistDerivedCycles: boolean }) => {
+      runs.push(options);
+      return { userId } as UserInsightResult;
+    };
+    const noWait = async () => undefined;
+
+    beforeEach(() => {
+      db = new FakeFirestore();
+      debouncer = new InsightDebouncer(db.asFirestore(), { windowMs: 1000 });
+      deletions = new AccountDeletionRepository(db.asFirestore());
+      runs = [];
+    });
+
+    it('should recompute once for a burst of edits, with the fields of every edit', async () => {
+      // A second edit lands while the first is waiting out the window
+      const secondEdit = async () => {
+        const second = await processDailyLogWrite(
+          userId, log, { ...log, bbt: 36.7 }, 'event-2', debouncer, deletions, runInsights, noWait
+        );
+        expect(second.outcome).toBe('generated');
+      };
+
+      const first = await processDailyLogWrite(
+        userId, log, { ...log, mood: 'SAD' }, 'event-1', debouncer, deletions, runInsights, secondEdit
+      );
+
+      expect(first.outcome).toBe('debounced');
+      expect(runs).toHaveLength(1);
+      expect(runs[0].persistDerivedCycles).toBe(true);
+      expect(runs[0].ruleIds).toEqual(expect.arrayContaining(['mood.negative', 'temperature.high']));
+      expect(db.read(`users/${userId}/insightJobs/incremental`)).toBeUndefined();
+    });
+
+    it('should skip writes that change no log fields', async () => {
+      const result = await processDailyLogWrite(
+        userId, log, { ...log, updatedAt: 2 }, 'event-1', debouncer, deletions, runInsights, noWait
+      );
+
+      expect(result.outcome).toBe('unchanged');
+      expect(runs).toHaveLength(0);
+    });
+
+    it('should neither schedule nor recompute while the account is being deleted', async () => {
+      db.seed(`accountDeletions/${userId}`, { trigger: 'request', completedSteps: [] });
+
+      const result = await processDailyLogWrite(userId, log, undefined, 'event-1', debouncer, deletions, runInsights, noWait);
+
+      expect(result.outcome).toBe('accountDeleted');
+      expect(runs).toHaveLength(0);
+      expect(db.read(`users/${userId}/insightJobs/incremental`)).toBeUndefined();
+    });
+
+    it('should not recompute when the deletion starts during the window', async () => {
+      const startDeletion = async () => {
+        db.seed(`accountDeletions/${userId}`, { trigger: 'request', completedSteps: [] });
+      };
+
+      const result = await processDailyLogWrite(userId, log, undefined, 'event-1', debouncer, deletions, runInsights, startDeletion);
+
+      expect(result.outcome).toBe('accountDeleted');
+      expect(runs).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { InsightAuditRecord, InsightAuditRepository, summarizeDecisions } from '../data/insightAuditRepository';
+import { InsightExplainer } from '../insights/insightExplainer';
+import { createDefaultRuleRegistry } from '../insights/rules/defaultRules';
+import { InsightRuleEngine, RuleDecision, buildRuleContext } from '../insights/rules/ruleEngine';
+import { InsightType } from '../types';
+import { IRREGULAR_CYCLES, createDailyLogArray } from './testDataFactory';
+import { FakeFirestore } from './fakeFirestore';
+import * as admin from 'firebase-admin';
+
+describe('insight run audit', () => {
+  const userId = 'test-user-123';
+  const DAY_MS = 86400 * 1000;
+  const STARTED_AT = new Date(Date.UTC(2024, 5, 1, 4));
+
+  const createRecord = (overrides: Partial<InsightAuditRecord> = {}): InsightAuditRecord => ({
+    runId: 'run-1',
+    trigger: 'scheduled',
+    status: 'completed',
+    startedAt: STARTED_AT,
+    durationMs: 120,
+    timeZone: 'Europe/Berlin',
+    inputs: {
+      dailyLogs: 64,
+      skippedLogs: 0,
+      storedCycles: 4,
+      derivedCycles: 0,
+      cycles: 4,
+      confirmedOvulations: 1,
+      activePrediction: false
+    },
+    sufficiency: { sufficient: true },
+    ...summarizeDecisions([]),
+    insightIds: [],
+    ...overrides
+  });
+
+  describe('InsightRuleEngine.run', () => {
+    it('should record why each rule in scope fired or was suppressed', () => {
+      const engine = new InsightRuleEngine(createDefaultRuleRegistry(), {
+        environment: 'production',
+        disabledRuleIds: ['cycle.long'],
+        thresholdOverrides: {}
+      });
+      const context = buildRuleContext({ userId, dailyLogs: createDailyLogArray(5), cycles: IRREGULAR_CYCLES });
+
+      const { insights, decisions } = engine.run(context, 'warning', ['cycle.short', 'cycle.long', 'bleeding.prolonged']);
+      const summary = summarizeDecisions(decisions);
+
+      expect(insights.map(insight => insight.ruleId)).toEqual(['cycle.short']);
+      expect(decisions.find(decision => decision.ruleId === 'cycle.short')).toMatchObject({
+        outcome: 'fired',
+        insights: 1,
+        thresholds: { shorterThanDays: 21, minCycles: 2 }
+      });
+      expect(summary.rulesFired).toEqual(['cycle.short']);
+      expect(summary.rulesEvaluated).toEqual(['cycle.short']);
+      expect(summary.rulesSuppressed).toEqual([
+        { ruleId: 'bleeding.prolonged', reason: 'insufficientData: no periodFlow logs' },
+        { ruleId: 'cycle.long', reason: 'disabled: disabled by configuration' }
+      ]);
+    });
+  });
+
+  describe('InsightAuditRepository', () => {
+    it('should store runs and prune those past the retention period', async () => {
+      const db = new FakeFirestore();
+      const repository = new InsightAuditRepository(db.asFirestore());
+      db.seed(`users/${userId}/insightRuns/old`, {
+        startedAt: admin.firestore.Timestamp.fromMillis(STARTED_AT.getTime() - 91 * DAY_MS)
+      });
+      db.seed(`users/${userId}/insightRuns/recent`, {
+        startedAt: admin.firestore.Timestamp.fromMillis(STARTED_AT.getTime() - 89 * DAY_MS)
+      });
+
+      await repository.recordRun(userId, createRecord({ status: 'failed', error: 'Firestore unavailable' }));
+
+      expect(db.read(`users/${userId}/insightRuns/old`)).toBeUndefined();
+      expect(db.read(`users/${userId}/insightRuns/recent`)).toBeDefined();
+      expect(db.read(`users/${userId}/insightRuns/run-1`)).not.toHaveProperty('scheduledRunId');
+      expect(await repository.getRun(userId, 'run-1')).toEqual(createRecord({ status: 'failed', error: 'Firestore unavailable' }));
+    });
+  });
+
+  describe('InsightExplainer', () => {
+    let db: FakeFirestore;
+
+    beforeEach(() => {
+      db = new FakeFirestore();
+      db.seed(`users/${userId}`, { timeZone: 'Europe/Berlin' });
+    });
+
+    it('should explain an insight with its rule, run and related logs', async () => {
+      const decision: RuleDecision = {
+        ruleId: 'bleeding.prolonged',
+        ruleVersion: 1,
+        category: 'warning',
+        outcome: 'fired',
+        insights: 1
+      };
+      await new InsightAuditRepository(db.asFirestore()).recordRun(userId, createRecord(summarizeDecisions([decision])));
+      const evidence = {
+        metrics: { days: 9 },
+        thresholds: { maxBleedingDays: 8 },
+        dateRange: { start: '2024-05-01', end: '2024-05-09' },
+        cycleIds: []
+      };
+      db.seed(`users/${userId}/insights/bleeding_prolonged_1`, {
+        insightText: "You've tracked 9 consecutive days of bleeding.",
+        type: InsightType.EARLY_WARNING,
+        status: 'active',
+        confidence: 0.8,
+        ruleId: 'bleeding.prolonged',
+        ruleVersion: 1,
+        runId: 'run-1',
+        relatedLogIds: ['2024-05-02', 'legacy-1', 'missing'],
+        evidence
+      });
+      db.seed(`users/${userId}/dailyLogs/2024-05-02`, { dateEpochDays: 19845, periodFlow: 'HEAVY', v: 1 });
+      db.seed(`daily_logs/${userId}/logs/legacy-1`, {
+        // Midnight in Berlin (UTC+2) on 2024-05-01
+        date: admin.firestore.Timestamp.fromMillis(Date.UTC(2024, 3, 30, 22)),
+        periodFlow: 'MEDIUM'
+      });
+
+      const explanation = await new InsightExplainer(db.asFirestore()).explain(userId, 'bleeding_prolonged_1');
+
+      expect(explanation?.insight.evidence).toEqual(evidence);
+      expect(explanation?.rule).toMatchObject({ id: 'bleeding.prolonged', category: 'warning' });
+      expect(explanation?.run).toMatchObject({
+        runId: 'run-1',
+        trigger: 'scheduled',
+        startedAt: STARTED_AT.toISOString(),
+        decision: { outcome: 'fired' }
+      });
+      expect(explanation?.relatedLogs).toEqual([
+        { id: 'legacy-1', date: '2024-05-01', periodFlow: 'MEDIUM' },
+        { id: '2024-05-02', date: '2024-05-02', periodFlow: 'HEAVY' }
+      ]);
+      expect(explanation?.omittedRelatedLogs).toBe(0);
+    });
+
+    it('should explain insights without a run record and return null for unknown ids', async () => {
+      db.seed(`users/${userId}/insights/legacy`, {
+        insightText: 'Old insight',
+        type: InsightType.PATTERN_RECOGNITION,
+        confidence: 0.5,
+        relatedLogIds: []
+      });
+      const explainer = new InsightExplainer(db.asFirestore());
+
+      expect(await explainer.explain(userId, 'legacy')).toMatchObject({ rule: null, run: null, relatedLogs: [] });
+      expect(await explainer.explain(userId, 'nope')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import { InsightRunRepository } from '../data/insightRunRepository';
+import {
+  FirestoreInsightJobQueue,
+  InProcessInsightJobQueue,
+  InsightJobWorker,
+  backoffMs,
+  fanOutInsightRun,
+  insightRunId
+} from '../insights/insightFanout';
+import { UserInsightResult } from '../insights/insightGenerator';
+import { INSIGHT_DUE_HOUR_FIELD, insightDueHourUtc, resolveInsightSchedule } from '../insights/insightSchedule';
+import { FakeFirestore } from './fakeFirestore';
+
+describe('insight fan-out', () => {
+  const RUN_ID = 'nightly-test';
+  const RETRY = { maxAttempts: 3, initialBackoffMs: 100, maxBackoffMs: 250, maxDeliveries: 2 };
+
+  let db: FakeFirestore;
+  let runs: InsightRunRepository;
+  let attempts: Map<string, number>;
+  let delays: number[];
+
+  const seedUsers = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      db.seed(`users/user-${String(i).padStart(3, '0')}`, { email: `user${i}@example.com` });
+    }
+  };
+
+  // user-000 has too few logs, user-001 fails once, user-002 always fails
+  const runInsights = async (userId: string) => {
+    const attempt = (attempts.get(userId) ?? 0) + 1;
+    attempts.set(userId, attempt);
+    if (userId === 'user-002' || (userId === 'user-001' && attempt === 1)) {
+      throw new Error('Firestore unavailable');
+    }
+    const insufficientData = userId === 'user-000';
+    return { userId, insufficientData, insightsGenerated: insufficientData ? 0 : 2 } as UserInsightResult;
+  };
+  const allUsers = () => db.asFirestore().collection('users');
+  const createWorker = () => new InsightJobWorker(runs, runInsights, RETRY, async ms => {
+    delays.push(ms);
+  });
+
+  beforeEach(() => {
+    db = new FakeFirestore();
+    runs = new InsightRunRepository(db.asFirestore());
+    attempts = new Map();
+    delays = [];
+  });
+
+  describe('fanOutInsightRun', () => {
+    it('should page through every user and record each outcome on the run', async () => {
+      seedUsers(7);
+      const queue = new InProcessInsightJobQueue(createWorker(), 2);
+
+      const summary = await fanOutInsightRun(allUsers(), RUN_ID, runs, queue, { pageSize: 3 });
+
+      expect(summary).toEqual({ runId: RUN_ID, totalUsers: 7, pages: 3 });
+      expect(await runs.getRun(RUN_ID)).toEqual({
+        id: RUN_ID,
+        status: 'completed',
+        totalUsers: 7,
+        succeeded: 5,
+        failed: 1,
+        skipped: 1,
+        insightsGenerated: 10,
+        failedUserIds: ['user-002']
+      });
+      expect(attempts.get('user-001')).toBe(2);
+      expect(attempts.get('user-002')).toBe(3);
+    });
+
+    it('should queue job documents and complete the run with its last job', async () => {
+      seedUsers(3);
+
+      await fanOutInsightRun(allUsers(), RUN_ID, runs, new FirestoreInsightJobQueue(runs), { pageSize: 2 });
+
+      expect((await runs.getRun(RUN_ID))?.status).toBe('running');
+      expect(db.read(`insightRuns/${RUN_ID}/jobs/user-001`)).toMatchObject({ userId: 'user-001', status: 'queued' });
+
+      const worker = createWorker();
+      await worker.process(RUN_ID, 'user-000');
+      await worker.process(RUN_ID, 'user-001');
+      expect((await runs.getRun(RUN_ID))?.status).toBe('running');
+
+      await worker.process(RUN_ID, 'user-002');
+      expect((await runs.getRun(RUN_ID))?.status).toBe('completed');
+      expect(db.read(`insightRuns/${RUN_ID}/jobs/user-001`)).toMatchObject({ status: 'succeeded', attempts: 2 });
+      expect(db.read(`insightRuns/${RUN_ID}/jobs/user-002`)).toMatchObject({
+        status: 'failed',
+        attempts: 3,
+        lastError: 'Firestore unavailable'
+      });
+    });
+
+    it('should count jobs finishing together and complete the run once none is queued', async () => {
+      seedUsers(5);
+      await fanOutInsightRun(allUsers(), RUN_ID, runs, new FirestoreInsightJobQueue(runs), { pageSize: 2 });
+
+      const worker = createWorker();
+      await Promise.all(['user-000', 'user-001', 'user-002', 'user-003'].map(userId => worker.process(RUN_ID, userId)));
+      expect(await runs.getRun(RUN_ID)).toMatchObject({ status: 'running', succeeded: 2, failed: 1, skipped: 1 });
+
+      await worker.process(RUN_ID, 'user-004');
+      expect(await runs.getRun(RUN_ID)).toMatchObject({
+        status: 'completed',
+        succeeded: 3,
+        insightsGenerated: 6,
+        failedUserIds: ['user-002']
+      });
+      expect(db.read(`insightRuns/${RUN_ID}`)?.completedAt).toBe('SERVER_TIMESTAMP');
+    });
+
+    it('should queue only the users the query matches', async () => {
+      seedUsers(3);
+      db.update('users/user-000', { [INSIGHT_DUE_HOUR_FIELD]: 19 });
+      db.update('users/user-001', { [INSIGHT_DUE_HOUR_FIELD]: 20 });
+      db.update('users/user-002', { [INSIGHT_DUE_HOUR_FIELD]: 19 });
+      const queue = new FirestoreInsightJobQueue(runs);
+
+      const summary = await fanOutInsightRun(
+        allUsers().where(INSIGHT_DUE_HOUR_FIELD, '==', 19), RUN_ID, runs, queue, { pageSize: 1 }
+      );
+
+      expect(summary).toMatchObject({ totalUsers: 2, pages: 2 });
+      expect(db.read(`insightRuns/${RUN_ID}/jobs/user-001`)).toBeUndefined();
+      expect((await runs.getRun(RUN_ID))?.totalUsers).toBe(2);
+    });
+
+    it('should complete an empty run', async () => {
+      const summary = await fanOutInsightRun(allUsers(), RUN_ID, runs, new FirestoreInsightJobQueue(runs));
+
+      expect(summary.totalUsers).toBe(0);
+      expect((await runs.getRun(RUN_ID))?.status).toBe('completed');
+    });
+  });
+
+  describe('InsightJobWorker', () => {
+    it('should not run or count a job again once it has an outcome', async () => {
+      seedUsers(1);
+      await fanOutInsightRun(allUsers(), RUN_ID, runs, new FirestoreInsightJobQueue(runs));
+
+      expect(await createWorker().process(RUN_ID, 'user-000')).toBe('skipped');
+      expect(await createWorker().process(RUN_ID, 'user-000')).toBeNull();
+
+      expect(attempts.get('user-000')).toBe(1);
+      expect(await runs.getRun(RUN_ID)).toMatchObject({ status: 'completed', skipped: 1 });
+    });
+
+    it('should record a job failed when its trigger keeps being delivered without finishing', async () => {
+      seedUsers(2);
+      await fanOutInsightRun(allUsers(), RUN_ID, runs, new FirestoreInsightJobQueue(runs));
+      await createWorker().process(RUN_ID, 'user-000');
+      // Two deliveries that timed out before recording an outcome
+      await runs.startJob(RUN_ID, 'user-001');
+      await runs.startJob(RUN_ID, 'user-001');
+      expect((await runs.getRun(RUN_ID))?.status).toBe('running');
+
+      expect(await createWorker().process(RUN_ID, 'user-001')).toBe('failed');
+
+      expect(attempts.has('user-001')).toBe(false);
+      expect(db.read(`insightRuns/${RUN_ID}/jobs/user-001`)).toMatchObject({
+        status: 'failed',
+        deliveries: 3,
+        lastError: 'Did not finish in 2 deliveries'
+      });
+      expect(await runs.getRun(RUN_ID)).toMatchObject({ status: 'completed', failed: 1, failedUserIds: ['user-001'] });
+    });
+
+    it('should back off exponentially between attempts', async () => {
+      await runs.createRun(RUN_ID);
+
+      expect(await createWorker().process(RUN_ID, 'user-002')).toBe('failed');
+      expect(delays).toEqual([100, 200]);
+      expect(backoffMs(3, RETRY)).toBe(250);
+    });
+  });
+
+  describe('InProcessInsightJobQueue', () => {
+    it('should run at most the configured number of jobs at once', async () => {
+      let running = 0;
+      let peak = 0;
+      const worker = {
+        process: async () => {
+          running++;
+          peak = Math.max(peak, running);
+          await new Promise(resolve => setImmediate(resolve));
+          running--;
+          return 'succeeded' as const;
+        }
+      } as unknown as InsightJobWorker;
+
+      await new InProcessInsightJobQueue(worker, 3).enqueue(RUN_ID, ['a', 'b', 'c', 'd', 'e', 'f', 'g']);
+
+      expect(peak).toBe(3);
+      expect(running).toBe(0);
+    });
+  });
+
+  describe('insightDueHourUtc', () => {
+    const NOW = new Date(Date.UTC(2024, 5, 1, 12, 30));
+
+    it('should find the UTC hour of the next run in the scheduled local hour', () => {
+      // 4 AM in Tokyo is 19:00 UTC, in New York (EDT) 08:00 UTC
+      expect(insightDueHourUtc('Asia/Tokyo', NOW)).toBe(19);
+      expect(insightDueHourUtc('America/New_York', NOW)).toBe(8);
+      // Half-hour offsets enter the hour at :30, 4:30 AM in Kolkata
+      expect(insightDueHourUtc('Asia/Kolkata', NOW)).toBe(23);
+      expect(insightDueHourUtc('UTC', NOW)).toBe(4);
+      expect(insightDueHourUtc('Asia/Tokyo', NOW, { localHour: 6 })).toBe(21);
+    });
+
+    it('should move with daylight saving changes', () => {
+      // Computed after the run of 9 March, before clocks go forward in New York
+      expect(insightDueHourUtc('America/New_York', new Date(Date.UTC(2024, 2, 9, 9, 5)))).toBe(8);
+      expect(insightDueHourUtc('America/New_York', new Date(Date.UTC(2024, 2, 8, 9, 5)))).toBe(9);
+    });
+
+    it('should read the scheduled hour from the environment', () => {
+      expect(resolveInsightSchedule({ INSIGHT_LOCAL_HOUR: '6' })).toEqual({ localHour: 6 });
+      expect(resolveInsightSchedule({ INSIGHT_LOCAL_HOUR: '24' })).toEqual({ localHour: 4 });
+      expect(resolveInsightSchedule({})).toEqual({ localHour: 4 });
+    });
+  });
+
+  it('should name runs by their start time', () => {
+    expect(insightRunId(new Date(Date.UTC(2024, 5, 1, 2)))).toBe('scheduled-2024-06-01T02-00-00-000Z');
+  });
+});
@@ -0,0 +1,185 @@
+import { InsightRepository } from '../data/insightRepository';
+import { insightFingerprint, planInsightSync } from '../insights/insightLifecycle';
+import { Insight, InsightType } from '../types';
+import { FakeFirestore } from './fakeFirestore';
+
+describe('insight lifecycle', () => {
+  const userId = 'test-user-123';
+  const insightsPath = `users/${userId}/insights`;
+  const DAY = new Date(Date.UTC(2024, 5, 1));
+  const nextDay = (days: number) => new Date(DAY.getTime() + days * 86400 * 1000);
+
+  const createInsight = (overrides: Partial<Insight> = {}): Insight => ({
+    id: '',
+    userId,
+    generatedDate: new Date(),
+    insightText: 'Your cycles are very regular with an average length of 28 days.',
+    type: InsightType.PATTERN_RECOGNITION,
+    isRead: false,
+    relatedLogIds: [],
+    confidence: 0.9,
+    actionable: false,
+    ruleId: 'cycle.regular',
+    ...overrides
+  });
+
+  describe('insightFingerprint', () => {
+    it('should depend on type, rule and parameters but not on the text', () => {
+      const regular = insightFingerprint(createInsight());
+
+      expect(insightFingerprint(createInsight({ insightText: 'average length of 29 days' }))).toBe(regular);
+      expect(insightFingerprint(createInsight({ ruleId: 'cycle.irregular' }))).not.toBe(regular);
+      expect(insightFingerprint(createInsight({ ruleParams: { symptom: 'CRAMPS' } })))
+        .not.toBe(insightFingerprint(createInsight({ ruleParams: { symptom: 'BLOATING' } })));
+      expect(insightFingerprint(createInsight({ ruleParams: { a: '1', b: '2' } })))
+        .toBe(insightFingerprint(createInsight({ ruleParams: { b: '2', a: '1' } })));
+      expect(regular).toMatch(/^cycle_regular_[0-9a-f]{20}$/);
+    });
+  });
+
+  describe('InsightRepository.syncInsights', () => {
+    let db: FakeFirestore;
+    let repository: InsightRepository;
+
+    beforeEach(() => {
+      db = new FakeFirestore();
+      repository = new InsightRepository(db.asFirestore());
+    });
+
+    it('should refresh a recurring insight instead of duplicating it and keep isRead', async () => {
+      const id = insightFingerprint(createInsight());
+
+      await repository.syncInsights(userId, [createInsight()], DAY);
+      db.write(`${insightsPath}/${id}`, { isRead: true }, true);
+      const result = await repository.syncInsights(userId, [createInsight({ insightText: 'updated text' })], nextDay(1));
+
+      expect(result).toMatchObject({ created: 0, refreshed: 1 });
+      expect([...db.store.keys()].filter(path => path.startsWith(insightsPath))).toEqual([`${insightsPath}/${id}`]);
+      expect(db.read(`${insightsPath}/${id}`)).toMatchObject({
+        insightText: 'updated text',
+        isRead: true,
+        status: 'active',
+        fingerprint: id
+      });
+    });
+
+    it('should expire an insight after it goes unconfirmed for two runs and reactivate it if it returns', async () => {
+      const id = insightFingerprint(createInsight());
+      await repository.syncInsights(userId, [createInsight()], DAY);
+
+      await repository.syncInsights(userId, [], nextDay(1));
+      expect(db.read(`${insightsPath}/${id}`)).toMatchObject({ status: 'active', missedRuns: 1 });
+
+      await repository.syncInsights(userId, [], nextDay(2));
+      expect(db.read(`${insightsPath}/${id}`)).toMatchObject({ status: 'expired', expiryReason: 'missing' });
+
+      await repository.syncInsights(userId, [createInsight()], nextDay(3));
+      expect(db.read(`${insightsPath}/${id}`)).toMatchObject({ status: 'active', missedRuns: 0 });
+      expect(db.read(`${insightsPath}/${id}`)!.expiryReason).toBeUndefined();
+    });
+
+    it('should supersede an insight when the same rule reports different parameters', async () => {
+      const cramps = createInsight({ ruleId: 'symptom.mostCommon', ruleParams: { symptom: 'CRAMPS' } });
+      const bloating = createInsight({ ruleId: 'symptom.mostCommon', ruleParams: { symptom: 'BLOATING' } });
+
+      await repository.syncInsights(userId, [cramps], DAY);
+      await repository.syncInsights(userId, [bloating], nextDay(1));
+
+      expect(db.read(`${insightsPath}/${insightFingerprint(cramps)}`)).toMatchObject({
+        status: 'superseded',
+        supersededBy: insightFingerprint(bloating)
+      });
+      expect(db.read(`${insightsPath}/${insightFingerprint(bloating)}`)!.status).toBe('active');
+    });
+
+    it('should only supersede insights about the same symptom', async () => {
+      const association = (symptom: string, phase: string) =>
+        createInsight({ ruleId: 'symptom.cycleCorrelation', ruleParams: { symptom, phase } });
+      const headache = association('HEADACHE', 'menstrual');
+      const bloating = association('BLOATING', 'late luteal');
+      const bloatingEarlier = association('BLOATING', 'early luteal');
+
+      await repository.syncInsights(userId, [headache, bloating], DAY);
+      await repository.syncInsights(userId, [bloatingEarlier], nextDay(1));
+
+      expect(db.read(`${insightsPath}/${insightFingerprint(bloating)}`)).toMatchObject({
+        status: 'superseded',
+        supersededBy: insightFingerprint(bloatingEarlier)
+      });
+      // Another symptom gets the grace period before it expires
+      expect(db.read(`${insightsPath}/${insightFingerprint(headache)}`)).toMatchObject({ status: 'active', missedRuns: 1 });
+
+      await repository.syncInsights(userId, [bloatingEarlier], nextDay(2));
+      expect(db.read(`${insightsPath}/${insightFingerprint(headache)}`)).toMatchObject({
+        status: 'expired',
+        expiryReason: 'missing'
+      });
+    });
+
+    it('should retire duplicates written before fingerprints existed', async () => {
+      db.seed(`${insightsPath}/legacy-1`, { type: InsightType.PATTERN_RECOGNITION, confidence: 0.9, isRead: false });
+      db.seed(`${insightsPath}/legacy-2`, { type: InsightType.PATTERN_RECOGNITION, confidence: 0.9, isRead: false });
+
+      const result = await repository.syncInsights(userId, [createInsight()], DAY);
+
+      expect(result.superseded).toBe(2);
+      expect(db.read(`${insightsPath}/legacy-1`)!.status).toBe('superseded');
+    });
+
+    it('should purge retired insights after the retention period', async () => {
+      const id = insightFingerprint(createInsight());
+      await repository.syncInsights(userId, [createInsight()], DAY);
+      await repository.syncInsights(userId, [], nextDay(1));
+      await repository.syncInsights(userId, [], nextDay(2));
+
+      const result = await repository.syncInsights(userId, [], nextDay(100));
+
+      expect(result.purged).toBe(1);
+      expect(db.read(`${insightsPath}/${id}`)).toBeUndefined();
+    });
+
+    it('should leave insights of other rules alone in a run limited to some rules', async () => {
+      const moodInsight = createInsight({ ruleId: 'mood.negative', type: InsightType.EARLY_WARNING });
+      await repository.syncInsights(userId, [createInsight(), moodInsight], DAY);
+
+      await repository.syncInsights(userId, [], nextDay(1), ['mood.negative']);
+
+      expect(db.read(`${insightsPath}/${insightFingerprint(createInsight())}`)).toMatchObject({ missedRuns: 0 });
+      expect(db.read(`${insightsPath}/${insightFingerprint(moodInsight)}`)).toMatchObject({ missedRuns: 1 });
+    });
+  });
+
+  describe('planInsightSync', () => {
+    it('should cap active insights, keeping early warnings and confident insights first', () => {
+      const generated = [
+        createInsight({ ruleId: 'a', confidence: 0.6 }),
+        createInsight({ ruleId: 'b', confidence: 0.8 }),
+        createInsight({ ruleId: 'c', confidence: 0.5, type: InsightType.EARLY_WARNING })
+      ];
+
+      const plan = planInsightSync([], generated, DAY.getTime() / 1000, {
+        expireAfterMissedRuns: 2,
+        maxActiveInsights: 2,
+        purgeAfterDays: 90
+      });
+
+      expect(plan.create.map(insight => insight.ruleId)).toEqual(['c', 'b']);
+    });
+
+    it('should keep insights the user goal favours ahead of more confident ones of the same type', () => {
+      const generated = [
+        createInsight({ ruleId: 'a', confidence: 0.9 }),
+        createInsight({ ruleId: 'b', confidence: 0.5, priority: 2 }),
+        createInsight({ ruleId: 'c', confidence: 0.4, priority: 1 })
+      ];
+
+      const plan = planInsightSync([], generated, DAY.getTime() / 1000, {
+        expireAfterMissedRuns: 2,
+        maxActiveInsights: 2,
+        purgeAfterDays: 90
+      });
+
+      expect(plan.create.map(insight => insight.ruleId)).toEqual(['b', 'c']);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { DEFAULT_MESSAGE_CATALOGS, MessageRenderer, resolveLocale } from '../insights/messages/messageCatalog';
+import { MessageFormatOptions, formatMessage } from '../insights/messages/messageFormat';
+import { DEFAULT_INSIGHT_RULES, createDefaultRuleRegistry } from '../insights/rules/defaultRules';
+import { insightMessageKey } from '../insights/rules/insightRule';
+import { InsightRuleEngine, buildRuleContext } from '../insights/rules/ruleEngine';
+import { Mood, TemperatureUnit } from '../types';
+import { REGULAR_CYCLES, createDailyLogArray } from './testDataFactory';
+
+describe('insight messages', () => {
+  const EN: MessageFormatOptions = {
+    locale: 'en',
+    temperatureUnit: TemperatureUnit.CELSIUS,
+    label: (group, value) => `${group}:${value}`
+  };
+
+  describe('formatMessage', () => {
+    it('should fill known arguments and leave unknown ones', () => {
+      expect(formatMessage('{count} of {total} ({missing})', { count: 3, total: 5 }, EN)).toBe('3 of 5 ({missing})');
+    });
+
+    it('should pick plural and select branches', () => {
+      const pattern = '{count, plural, =0 {none} one {# cycle} other {# cycles}}{kind, select, late {, late} other {}}';
+
+      expect(formatMessage(pattern, { count: 0, kind: 'early' }, EN)).toBe('none');
+      expect(formatMessage(pattern, { count: 1, kind: 'late' }, EN)).toBe('1 cycle, late');
+      expect(formatMessage(pattern, { count: 1200, kind: 'late' }, EN)).toBe('1,200 cycles, late');
+    });
+
+    it('should format numbers, days, temperatures and labels for the locale', () => {
+      const pattern = '{day, date}: {bbt, temperature} ± {spread, temperatureDelta, 2}, {share}, {symptom, label, symptom}';
+      const params = { day: '2024-06-05', bbt: 36.55, spread: 0.2, share: 12.5, symptom: 'CRAMPS' };
+
+      expect(formatMessage(pattern, params, EN)).toBe('Jun 5: 36.6°C ± 0.20°C, 12.5, symptom:CRAMPS');
+      expect(formatMessage(pattern, params, { ...EN, locale: 'es', temperatureUnit: TemperatureUnit.FAHRENHEIT }))
+        .toBe('5 jun: 97,8°F ± 0,36°F, 12,5, symptom:CRAMPS');
+    });
+
+    it('should reject malformed patterns', () => {
+      expect(() => formatMessage('{count, plural, one {# cycle}}', { count: 1 }, EN)).toThrow('no other branch');
+      expect(() => formatMessage('{count, currency}', { count: 1 }, EN)).toThrow('unknown argument type');
+      expect(() => formatMessage('{count', { count: 1 }, EN)).toThrow('Invalid message');
+    });
+  });
+
+  describe('resolveLocale', () => {
+    it('should keep supported tags and fall back to English', () => {
+      expect(resolveLocale('es-mx')).toBe('es-MX');
+      expect(resolveLocale('es')).toBe('es');
+      expect(resolveLocale('fr-FR')).toBe('en');
+      expect(resolveLocale('not a locale')).toBe('en');
+      expect(resolveLocale(undefined)).toBe('en');
+    });
+  });
+
+  describe('catalogs', () => {
+    const renderer = new MessageRenderer();
+
+    it('should have a valid message for every built-in rule in every language', () => {
+      const missing = DEFAULT_MESSAGE_CATALOGS.flatMap(catalog => DEFAULT_INSIGHT_RULES
+        .map(rule => insightMessageKey(rule.id))
+        .filter(key => catalog.messages[key] === undefined)
+        .map(key => `${catalog.language}:${key}`));
+
+      expect(missing).toEqual([]);
+      DEFAULT_MESSAGE_CATALOGS.forEach(catalog => {
+        Object.values(catalog.messages).forEach(pattern => expect(() => formatMessage(pattern, {}, EN)).not.toThrow());
+      });
+    });
+
+    it('should render labels in the requested language and fall back to English', () => {
+      const withoutSpanishMessage = new MessageRenderer([
+        DEFAULT_MESSAGE_CATALOGS[0],
+        { language: 'es', messages: {}, labels: {} }
+      ]);
+      const params = {
+        mood: Mood.IRRITABLE,
+        relativeRisk: 4.5,
+        firstCycleDay: 24,
+        lastCycleDay: 28,
+        phase: 'late_luteal',
+        segmentPercent: 100,
+        otherPercent: 20
+      };
+      const options = { locale: 'es', temperatureUnit: TemperatureUnit.CELSIUS };
+
+      expect(renderer.render('insight.mood.cycleCorrelation', params, options))
+        .toBe('Es 4,5 veces más probable que sientas irritabilidad en los días 24–28 del ciclo, en tu fase lútea tardía, que en otros días (100 % frente a 20 % de los días registrados).');
+      expect(withoutSpanishMessage.render('insight.mood.cycleCorrelation', params, options))
+        .toBe('You are 4.5× as likely to feel irritable on cycle days 24–28, in your late luteal phase, as on other days (100% vs 20% of logged days).');
+      expect(renderer.render('insight.symptom.mostCommon', { symptom: 'HOT_FLASHES', percent: 30 }, options))
+        .toBe('Tienes hot flashes el 30 % de los días registrados. Es tu síntoma más común.');
+      expect(() => renderer.render('insight.unknown', {}, options)).toThrow('No message insight.unknown');
+    });
+  });
+
+  describe('InsightRuleEngine', () => {
+    it('should render insights in the context locale and keep the message key and parameters', () => {
+      const engine = new InsightRuleEngine(createDefaultRuleRegistry(), {
+        environment: 'production',
+        disabledRuleIds: [],
+        thresholdOverrides: {}
+      });
+      const context = buildRuleContext({
+        userId: 'test-user-123',
+        dailyLogs: createDailyLogArray(25, () => ({ mood: Mood.SAD })),
+        cycles: REGULAR_CYCLES,
+        locale: 'es-ES'
+      });
+
+      const regular = engine.evaluate(context).find(insight => insight.ruleId === 'cycle.regular');
+
+      expect(regular).toMatchObject({
+        insightText: 'Tus ciclos son muy regulares, con una duración media de 28 días. Esta constancia indica un buen equilibrio hormonal.',
+        messageKey: 'insight.cycle.regular',
+        messageParams: { averageLength: 28 },
+        locale: 'es-ES'
+      });
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import {
+  InsightRuleConfigRepository,
+  decodeInsightRuleConfig,
+  resolveRuleConfigOptions
+} from '../data/insightRuleConfigRepository';
+import { InsightRuleEngine, buildRuleContext, ruleEngineOptions } from '../insights/rules/ruleEngine';
+import { createDefaultRuleRegistry } from '../insights/rules/defaultRules';
+import { IRREGULAR_CYCLES } from './testDataFactory';
+import { FakeFirestore } from './fakeFirestore';
+
+describe('insight rule configuration', () => {
+  const userId = 'test-user-123';
+  const CONFIG_PATH = 'config/insightRules';
+
+  describe('decodeInsightRuleConfig', () => {
+    it('should keep valid overrides and report everything else', () => {
+      const { config, issues } = decodeInsightRuleConfig({
+        disabledRules: ['mood.swings', 'no.such.rule'],
+        thresholds: {
+          'cycle.short': { shorterThanDays: 20, minCycles: 2.5 },
+          'symptom.concerning': { HEADACHE: 15, NAUSEA: '3' },
+          'temperature.lowVariation': { minStdDevCelsius: 1 },
+          'cycle.regular': { maxStdDevDays: 3 },
+          'no.such.rule': { limit: 1 }
+        }
+      });
+
+      expect(config).toEqual({
+        disabledRuleIds: ['mood.swings'],
+        thresholdOverrides: {
+          'cycle.short': { shorterThanDays: 20 },
+          'symptom.concerning': { HEADACHE: 15 }
+        }
+      });
+      expect(issues).toEqual([
+        'disabledRules: unknown rule no.such.rule',
+        'thresholds.cycle.short.minCycles: expected a whole number',
+        'thresholds.symptom.concerning.NAUSEA: expected a number',
+        'thresholds.temperature.lowVariation.minStdDevCelsius: expected 0.02-0.3',
+        'thresholds.cycle.regular.maxStdDevDays: not configurable',
+        'thresholds.no.such.rule: unknown rule'
+      ]);
+    });
+
+    it('should fall back to the defaults for a missing or malformed document', () => {
+      expect(decodeInsightRuleConfig(undefined)).toEqual({
+        config: { disabledRuleIds: [], thresholdOverrides: {} },
+        issues: []
+      });
+      expect(decodeInsightRuleConfig({ disabledRules: 'mood.swings', thresholds: [] }).issues).toEqual([
+        'disabledRules: expected a list of rule ids',
+        'thresholds: expected a map of rule ids'
+      ]);
+    });
+  });
+
+  describe('resolveRuleConfigOptions', () => {
+    it('should allow a test document and disable caching under the emulator', () => {
+      expect(resolveRuleConfigOptions({})).toEqual({ path: CONFIG_PATH, cacheTtlMs: 300000 });
+      expect(resolveRuleConfigOptions({ FUNCTIONS_EMULATOR: 'true', INSIGHT_RULES_CONFIG_PATH: 'config/insightRulesTest' }))
+        .toEqual({ path: 'config/insightRulesTest', cacheTtlMs: 0 });
+    });
+  });
+
+  describe('InsightRuleConfigRepository', () => {
+    let db: FakeFirestore;
+
+    beforeEach(() => {
+      db = new FakeFirestore();
+    });
+
+    it('should cache the configuration until the TTL passes', async () => {
+      const repository = new InsightRuleConfigRepository(db.asFirestore(), { path: CONFIG_PATH, cacheTtlMs: 1000 });
+      db.seed(CONFIG_PATH, { disabledRules: ['mood.swings'] });
+
+      expect((await repository.getConfig(0)).disabledRuleIds).toEqual(['mood.swings']);
+
+      db.seed(CONFIG_PATH, { disabledRules: ['cycle.long'] });
+      expect((await repository.getConfig(999)).disabledRuleIds).toEqual(['mood.swings']);
+      expect((await repository.getConfig(1000)).disabledRuleIds).toEqual(['cycle.long']);
+    });
+
+    it('should keep the last configuration when the document cannot be read', async () => {
+      const repository = new InsightRuleConfigRepository(db.asFirestore(), { path: CONFIG_PATH, cacheTtlMs: 0 });
+      db.seed(CONFIG_PATH, { disabledRules: ['mood.swings'] });
+      await repository.getConfig();
+
+      jest.spyOn(db, 'doc').mockImplementation(() => {
+        throw new Error('unavailable');
+      });
+
+      expect((await repository.getConfig()).disabledRuleIds).toEqual(['mood.swings']);
+    });
+  });
+
+  describe('ruleEngineOptions', () => {
+    it('should apply configured thresholds to the warning rules', async () => {
+      const db = new FakeFirestore();
+      db.seed(CONFIG_PATH, { thresholds: { 'cycle.short': { shorterThanDays: 19 } } });
+      const config = await new InsightRuleConfigRepository(db.asFirestore(), { path: CONFIG_PATH, cacheTtlMs: 0 })
+        .getConfig();
+
+      const engine = new InsightRuleEngine(
+        createDefaultRuleRegistry(),
+        ruleEngineOptions(config, { environment: 'production', disabledRuleIds: [] })
+      );
+      const insights = engine.evaluate(buildRuleContext({ userId, dailyLogs: [], cycles: IRREGULAR_CYCLES }), 'warning');
+
+      // Only the 18-day cycle is shorter than 19 days, one fewer than needed
+      expect(insights.map(insight => insight.ruleId)).not.toContain('cycle.short');
+    });
+  });
+});
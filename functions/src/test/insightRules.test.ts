@@ -0,0 +1,157 @@
+import { DEFAULT_INSIGHT_RULES, createDefaultRuleRegistry } from '../insights/rules/defaultRules';
+import { MessageRenderer } from '../insights/messages/messageCatalog';
+import { InsightRule, defineRule } from '../insights/rules/insightRule';
+import { InsightRuleEngine, buildRuleContext } from '../insights/rules/ruleEngine';
+import { InsightRuleRegistry, resolveRuleSelection } from '../insights/rules/ruleRegistry';
+import { InsightType, Mood } from '../types';
+import { REGULAR_CYCLES, createDailyLogArray } from './testDataFactory';
+
+describe('insight rules', () => {
+  const userId = 'test-user-123';
+  const PRODUCTION = { environment: 'production' as const, disabledRuleIds: [] };
+
+  const createRule = (overrides: Partial<InsightRule> = {}): InsightRule => defineRule({
+    id: 'test.rule',
+    version: 1,
+    category: 'pattern',
+    type: InsightType.PATTERN_RECOGNITION,
+    description: 'Test rule',
+    requiredFields: [],
+    sufficiency: {},
+    thresholds: { limit: 1 },
+    actionable: false,
+    evaluate: (_context, thresholds) => [{
+      values: { limit: thresholds.limit },
+      relatedLogIds: [],
+      evidence: { metrics: {} },
+      confidence: 0.5
+    }],
+    ...overrides
+  });
+
+  describe('InsightRuleRegistry', () => {
+    it('should register the built-in rules under unique ids with versions', () => {
+      const registry = createDefaultRuleRegistry();
+
+      expect(registry.list()).toHaveLength(DEFAULT_INSIGHT_RULES.length);
+      expect(registry.get('cycle.regular')?.version).toBeGreaterThanOrEqual(1);
+      expect(registry.list('prediction').map(rule => rule.id)).toEqual(['cycle.nextPeriod', 'fertility.upcomingWindow']);
+    });
+
+    it('should reject duplicate ids and invalid versions', () => {
+      const registry = new InsightRuleRegistry([createRule()]);
+
+      expect(() => registry.register(createRule())).toThrow('already registered');
+      expect(() => registry.register(createRule({ id: 'other.rule', version: 0 }))).toThrow('invalid version');
+    });
+
+    it('should enable rules by environment and skip disabled ids', () => {
+      const registry = new InsightRuleRegistry([
+        createRule(),
+        createRule({ id: 'beta.rule', environments: ['development', 'staging'] })
+      ]);
+
+      expect(registry.enabledRules(PRODUCTION).map(rule => rule.id)).toEqual(['test.rule']);
+      expect(registry.enabledRules({ environment: 'staging', disabledRuleIds: ['test.rule'] }).map(rule => rule.id))
+        .toEqual(['beta.rule']);
+    });
+  });
+
+  describe('resolveRuleSelection', () => {
+    it('should read the environment and disabled rules from the process environment', () => {
+      expect(resolveRuleSelection({})).toEqual(PRODUCTION);
+      expect(resolveRuleSelection({ FUNCTIONS_EMULATOR: 'true' }).environment).toBe('development');
+      expect(resolveRuleSelection({ FUNCTIONS_EMULATOR: 'true', INSIGHT_RULES_ENV: 'staging' }).environment).toBe('staging');
+      expect(resolveRuleSelection({ INSIGHT_RULES_ENV: 'unknown' }).environment).toBe('production');
+      expect(resolveRuleSelection({ INSIGHT_RULES_DISABLED: ' mood.swings, cycle.long ,' }).disabledRuleIds)
+        .toEqual(['mood.swings', 'cycle.long']);
+    });
+  });
+
+  describe('InsightRuleEngine', () => {
+    const context = (moodDays: number) => buildRuleContext({
+      userId,
+      dailyLogs: createDailyLogArray(moodDays, () => ({ mood: Mood.SAD })),
+      cycles: REGULAR_CYCLES
+    });
+
+    it('should stamp insights with the rule id and version', () => {
+      const engine = new InsightRuleEngine(createDefaultRuleRegistry(), { ...PRODUCTION, thresholdOverrides: {} });
+
+      const insights = engine.evaluate(context(25), 'warning');
+
+      expect(insights.find(insight => insight.ruleId === 'mood.negative')).toMatchObject({
+        type: InsightType.EARLY_WARNING,
+        ruleVersion: 1,
+        actionable: true
+      });
+      expect(insights.every(insight => !insight.insightText.includes('{'))).toBe(true);
+    });
+
+    it('should attach the data and thresholds behind each insight as evidence', () => {
+      const engine = new InsightRuleEngine(createDefaultRuleRegistry(), {
+        ...PRODUCTION,
+        thresholdOverrides: { 'mood.negative': { minPercentOfEntries: 60 } }
+      });
+
+      const insights = engine.evaluate(context(25));
+      const negative = insights.find(insight => insight.ruleId === 'mood.negative');
+      const regular = insights.find(insight => insight.ruleId === 'cycle.regular');
+
+      expect(negative?.relatedLogIds).toHaveLength(25);
+      expect(negative?.evidence).toEqual({
+        metrics: { percent: 100, negativeDays: 25, moodEntries: 25 },
+        thresholds: { minPercentOfEntries: 60 },
+        dateRange: { start: '2023-12-08', end: '2024-01-01' },
+        cycleIds: []
+      });
+      expect(regular?.evidence).toEqual({
+        metrics: { completedCycles: 4, averageLength: 28, stdDevDays: 0.7 },
+        thresholds: { maxStdDevDays: 2 },
+        dateRange: { start: '2024-01-01', end: '2024-01-29' },
+        cycleIds: ['cycle-1', 'cycle-2', 'cycle-3', 'cycle-4'],
+        series: { cycleLength: [28, 29, 27, 28] }
+      });
+    });
+
+    it('should skip rules without enough data', () => {
+      const engine = new InsightRuleEngine(createDefaultRuleRegistry(), { ...PRODUCTION, thresholdOverrides: {} });
+
+      const ruleIds = engine.evaluate(context(19)).map(insight => insight.ruleId);
+
+      expect(ruleIds).not.toContain('mood.negative');
+      expect(ruleIds).toContain('cycle.regular');
+    });
+
+    it('should apply threshold overrides and honour disabled rules', () => {
+      const overridden = new InsightRuleEngine(createDefaultRuleRegistry(), {
+        ...PRODUCTION,
+        thresholdOverrides: { 'mood.negative': { minPercentOfEntries: 100 } }
+      });
+      const disabled = new InsightRuleEngine(createDefaultRuleRegistry(), {
+        environment: 'production',
+        disabledRuleIds: ['cycle.regular'],
+        thresholdOverrides: {}
+      });
+
+      expect(overridden.evaluate(context(25)).map(insight => insight.ruleId)).not.toContain('mood.negative');
+      expect(disabled.evaluate(context(25)).map(insight => insight.ruleId)).not.toContain('cycle.regular');
+    });
+
+    it('should keep evaluating other rules when one throws', () => {
+      const registry = new InsightRuleRegistry([
+        createRule({ id: 'broken.rule', evaluate: () => { throw new Error('boom'); } }),
+        createRule()
+      ]);
+
+      const messages = new MessageRenderer([
+        { language: 'en', messages: { 'insight.test.rule': 'Limit is {limit}.' }, labels: {} }
+      ]);
+
+      const insights = new InsightRuleEngine(registry, { ...PRODUCTION, thresholdOverrides: {} }, messages)
+        .evaluate(context(1));
+
+      expect(insights.map(insight => insight.insightText)).toEqual(['Limit is 1.']);
+    });
+  });
+});
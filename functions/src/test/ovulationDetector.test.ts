@@ -0,0 +1,166 @@
+import { OvulationDetector } from '../cycles/ovulationDetector';
+import { CervicalMucus, DailyLog, OPKResult } from '../types';
+import { toEpochDay } from '../utils/dateUtils';
+import { createCycleOnDay, createLogOnDay } from './testDataFactory';
+
+describe('OvulationDetector', () => {
+  const START = 20000;
+  let detector: OvulationDetector;
+
+  beforeEach(() => {
+    detector = new OvulationDetector();
+  });
+
+  // Daily BBT (°C) for a cycle with the first high reading on `shiftDay` (cycle day index)
+  const createBiphasicChart = (shiftDay: number, length: number, low = 36.4, high = 36.8): DailyLog[] =>
+    Array.from({ length }, (_, day) =>
+      createLogOnDay(START + day, { bbt: day < shiftDay ? low + (day % 2) * 0.05 : high })
+    );
+
+  const mergeLogs = (...groups: DailyLog[][]): DailyLog[] => {
+    const byDay = new Map<number, DailyLog>();
+    groups.flat().forEach(log => {
+      const day = toEpochDay(log.date);
+      byDay.set(day, { ...byDay.get(day), ...log });
+    });
+    return [...byDay.values()];
+  };
+
+  describe('findThermalShift', () => {
+    it('should apply the 3-over-6 rule and place ovulation the day before the rise', () => {
+      const shift = detector.findThermalShift(createBiphasicChart(15, 28));
+
+      expect(shift).toBeDefined();
+      expect(shift!.shiftEpochDay).toBe(START + 15);
+      expect(shift!.ovulationEpochDay).toBe(START + 14);
+      expect(shift!.coverlineCelsius).toBeCloseTo(36.45);
+      expect(shift!.logIds).toHaveLength(3);
+    });
+
+    it('should ignore single high readings that do not stay above the coverline', () => {
+      const logs = Array.from({ length: 20 }, (_, day) =>
+        createLogOnDay(START + day, { bbt: day === 10 ? 37.0 : 36.4 + (day % 3) * 0.05 })
+      );
+
+      expect(detector.findThermalShift(logs)).toBeUndefined();
+    });
+
+    it('should require a fourth high reading when the third is less than 0.2°C above the coverline', () => {
+      const temps = [36.4, 36.4, 36.5, 36.4, 36.5, 36.4, 36.55, 36.6, 36.6];
+
+      const shallow = temps.map((bbt, day) => createLogOnDay(START + day, { bbt }));
+      expect(detector.findThermalShift(shallow)).toBeUndefined();
+
+      const confirmed = [...shallow, createLogOnDay(START + 9, { bbt: 36.6 })];
+      expect(detector.findThermalShift(confirmed)!.logIds).toHaveLength(4);
+    });
+
+    it('should handle Fahrenheit readings', () => {
+      const logs = createBiphasicChart(14, 28, 97.5, 98.3);
+
+      expect(detector.findThermalShift(logs)!.ovulationEpochDay).toBe(START + 13);
+    });
+  });
+
+  describe('detect', () => {
+    it('should confirm ovulation when BBT, OPK and mucus agree', () => {
+      const cycle = createCycleOnDay(START, { cycleLength: 28 });
+      const logs = mergeLogs(
+        createBiphasicChart(15, 28),
+        [
+          createLogOnDay(START + 12, { opkResult: OPKResult.POSITIVE }),
+          createLogOnDay(START + 13, { opkResult: OPKResult.PEAK }),
+          createLogOnDay(START + 14, { opkResult: OPKResult.NEGATIVE }),
+          createLogOnDay(START + 13, { cervicalMucus: CervicalMucus.EGG_WHITE }),
+          createLogOnDay(START + 14, { cervicalMucus: CervicalMucus.EGG_WHITE }),
+          createLogOnDay(START + 15, { cervicalMucus: CervicalMucus.STICKY })
+        ]
+      );
+
+      const detection = detector.detectAll([cycle], logs)[0];
+
+      expect(detection.status).toBe('confirmed');
+      expect(detection.agreeingSignals).toEqual(['BBT', 'OPK', 'CERVICAL_MUCUS']);
+      expect(detection.ovulationEpochDay).toBe(START + 14);
+      expect(detection.lutealPhaseLength).toBe(13);
+      expect(detection.lhSurge!.firstPositiveEpochDay).toBe(START + 12);
+      expect(detection.mucusPeak!.peakEpochDay).toBe(START + 14);
+    });
+
+    it('should leave out signals that disagree with the thermal shift', () => {
+      const cycle = createCycleOnDay(START, { cycleLength: 28 });
+      const logs = mergeLogs(
+        createBiphasicChart(15, 28),
+        [
+          createLogOnDay(START + 6, { cervicalMucus: CervicalMucus.EGG_WHITE }),
+          createLogOnDay(START + 7, { cervicalMucus: CervicalMucus.DRY })
+        ]
+      );
+
+      const detection = detector.detect(cycle, logs);
+
+      expect(detection.status).toBe('confirmed');
+      expect(detection.agreeingSignals).toEqual(['BBT']);
+      expect(detection.ovulationEpochDay).toBe(START + 14);
+    });
+
+    it('should pick the OPK surge that precedes the shift when there are several', () => {
+      const cycle = createCycleOnDay(START, { cycleLength: 32 });
+      const logs = mergeLogs(
+        createBiphasicChart(19, 32),
+        [
+          createLogOnDay(START + 9, { opkResult: OPKResult.POSITIVE }),
+          createLogOnDay(START + 10, { opkResult: OPKResult.NEGATIVE }),
+          createLogOnDay(START + 17, { opkResult: OPKResult.POSITIVE }),
+          createLogOnDay(START + 18, { opkResult: OPKResult.NEGATIVE })
+        ]
+      );
+
+      const detection = detector.detect(cycle, logs);
+
+      expect(detection.lhSurge!.firstPositiveEpochDay).toBe(START + 17);
+      expect(detection.agreeingSignals).toEqual(['BBT', 'OPK']);
+    });
+
+    it('should confirm from OPK and mucus together but only mark a single signal as probable', () => {
+      const cycle = createCycleOnDay(START);
+      const opk = [
+        createLogOnDay(START + 13, { opkResult: OPKResult.POSITIVE }),
+        createLogOnDay(START + 14, { opkResult: OPKResult.NEGATIVE })
+      ];
+      const mucus = [
+        createLogOnDay(START + 14, { cervicalMucus: CervicalMucus.WATERY }),
+        createLogOnDay(START + 15, { cervicalMucus: CervicalMucus.CREAMY })
+      ];
+
+      const both = detector.detect(cycle, mergeLogs(opk, mucus));
+      expect(both.status).toBe('confirmed');
+      expect(both.agreeingSignals).toEqual(['OPK', 'CERVICAL_MUCUS']);
+      expect(both.lutealPhaseLength).toBeUndefined();
+
+      const single = detector.detect(cycle, opk);
+      expect(single.status).toBe('probable');
+      expect(single.ovulationEpochDay).toBe(START + 14);
+      expect(detector.applyDetection(cycle, single)).toBe(cycle);
+    });
+
+    it('should only use logs inside the cycle', () => {
+      const cycle = createCycleOnDay(START + 28, { cycleLength: 28 });
+
+      expect(detector.detect(cycle, createBiphasicChart(15, 28)).status).toBe('notDetected');
+    });
+  });
+
+  describe('applyDetection', () => {
+    it('should set the confirmed ovulation date, luteal length and signals on the cycle', () => {
+      const cycle = createCycleOnDay(START, { cycleLength: 28, source: 'derived' });
+      const detection = detector.detect(cycle, createBiphasicChart(15, 28));
+
+      const updated = detector.applyDetection(cycle, detection);
+
+      expect(toEpochDay(updated.confirmedOvulationDate!)).toBe(START + 14);
+      expect(updated.lutealPhaseLength).toBe(13);
+      expect(updated.ovulationSignals).toEqual(['BBT']);
+    });
+  });
+});
@@ -1,10 +1,12 @@
 import { PatternAnalyzer } from '../insights/patternAnalyzer';
 import { DailyLog, Cycle, InsightType, PeriodFlow, Mood, CervicalMucus, OPKResult } from '../types';
 import * as admin from 'firebase-admin';
+import { createCycleOnDay, createLogOnDay } from './testDataFactory';
 
 describe('PatternAnalyzer', () => {
   let patternAnalyzer: PatternAnalyzer;
   const userId = 'test-user-123';
+  const START = 20000;
 
   beforeEach(() => {
     patternAnalyzer = new PatternAnalyzer();
@@ -129,6 +131,21 @@ describe('PatternAnalyzer', () => {
       expect(pmsInsight).toBeDefined();
       expect(pmsInsight?.actionable).toBe(true);
     });
+
+    it('should report symptoms significantly more likely in one cycle phase', async () => {
+      const cycles = [0, 28, 56].map(offset => createCycleOnDay(START + offset, { cycleLength: 28 }));
+      const dailyLogs = Array.from({ length: 84 }, (_, day) =>
+        createLogOnDay(START + day, { symptoms: (day % 28 >= 24 && day % 28 <= 26) || day % 28 === 9 ? ['HEADACHE'] : [] })
+      );
+
+      const insights = await patternAnalyzer.analyzePatterns(userId, dailyLogs, cycles);
+
+      const phaseInsight = insights.find(insight => insight.ruleId === 'symptom.cycleCorrelation');
+      expect(phaseInsight?.insightText).toBe(
+        'You are 11.9× as likely to log headache on cycle days 25–27, in your late luteal phase, as on other days (60% vs 4% of logged days). These are the days just before your period.'
+      );
+      expect(phaseInsight?.relatedLogIds).toHaveLength(9);
+    });
   });
 
   describe('analyzeMoodPatterns', () => {
@@ -149,16 +166,31 @@ describe('PatternAnalyzer', () => {
 
       expect(moodInsight).toBeDefined();
     });
+
+    it('should report moods specific to a cycle phase', async () => {
+      const cycles = [0, 28, 56].map(offset => createCycleOnDay(START + offset, { cycleLength: 28 }));
+      const dailyLogs = Array.from({ length: 84 }, (_, day) =>
+        createLogOnDay(START + day, { mood: day % 28 >= 23 || day % 28 === 9 ? Mood.IRRITABLE : Mood.CALM })
+      );
+
+      const insights = await patternAnalyzer.analyzePatterns(userId, dailyLogs, cycles);
+
+      const phaseInsights = insights.filter(insight => insight.ruleId === 'mood.cycleCorrelation');
+      expect(phaseInsights.map(insight => insight.insightText)).toEqual([
+        'You are 19.4× as likely to feel irritable on cycle days 24–28, in your late luteal phase, as on other days (100% vs 4% of logged days).'
+      ]);
+    });
   });
 
   describe('analyzeBBTPatterns', () => {
-    it('should detect temperature shifts indicating ovulation', async () => {
+    it('should report cycles where a thermal shift confirmed ovulation', async () => {
       const dailyLogs: DailyLog[] = [];
+      const cycleStart = new Date(Date.now() - 27 * 24 * 60 * 60 * 1000);
       
       // Create BBT pattern with temperature shift
       for (let i = 0; i < 28; i++) {
         const date = new Date(Date.now() - i * 24 * 60 * 60 * 1000);
-        const bbt = i < 14 ? 97.2 + Math.random() * 0.2 : 98.0 + Math.random() * 0.2;
+        const bbt = i < 14 ? 98.0 + Math.random() * 0.2 : 97.2 + Math.random() * 0.2;
         
         dailyLogs.push(createMockDailyLog({
           date: createMockTimestamp(date),
@@ -166,14 +198,35 @@ describe('PatternAnalyzer', () => {
         }));
       }
 
-      const insights = await patternAnalyzer.analyzePatterns(userId, dailyLogs, []);
+      const cycles = [createMockCycle({
+        startDate: createMockTimestamp(cycleStart),
+        cycleLength: undefined,
+        confirmedOvulationDate: createMockTimestamp(new Date(Date.now() - 14 * 24 * 60 * 60 * 1000)),
+        ovulationSignals: ['BBT']
+      })];
+
+      const insights = await patternAnalyzer.analyzePatterns(userId, dailyLogs, cycles);
       
       const bbtInsight = insights.find(insight => 
-        insight.insightText.includes('temperature shifts')
+        insight.insightText.includes('sustained temperature shift in 1 of 1 charted cycles')
       );
 
       expect(bbtInsight).toBeDefined();
       expect(bbtInsight?.confidence).toBeGreaterThan(0.7);
+      expect(bbtInsight?.relatedLogIds.length).toBeGreaterThan(0);
+    });
+
+    it('should not count day-to-day temperature noise as shifts', async () => {
+      const dailyLogs = Array.from({ length: 28 }, (_, i) => 
+        createMockDailyLog({
+          bbt: 97.5 + (i % 3) * 0.2,
+          date: createMockTimestamp(new Date(Date.now() - i * 24 * 60 * 60 * 1000))
+        })
+      );
+
+      const insights = await patternAnalyzer.analyzePatterns(userId, dailyLogs, []);
+
+      expect(insights.filter(insight => insight.insightText.includes('temperature shift'))).toHaveLength(0);
     });
 
     it('should handle insufficient BBT data gracefully', async () => {
@@ -195,42 +248,49 @@ describe('PatternAnalyzer', () => {
   });
 
   describe('analyzeFertilityPatterns', () => {
-    it('should detect fertile cervical mucus patterns', async () => {
+    it('should describe the fertile window from cycles with confirmed ovulation', async () => {
+      const dayMs = 24 * 60 * 60 * 1000;
+      const base = Date.UTC(2024, 0, 1);
+      const cycles = [0, 28, 56].map(offset => createMockCycle({
+        id: `cycle-${offset}`,
+        startDate: createMockTimestamp(new Date(base + offset * dayMs)),
+        confirmedOvulationDate: createMockTimestamp(new Date(base + (offset + 14) * dayMs)),
+        lutealPhaseLength: 13,
+        ovulationSignals: offset === 0 ? ['BBT'] : ['BBT', 'OPK']
+      }));
       const dailyLogs = Array.from({ length: 20 }, (_, i) => 
         createMockDailyLog({
+          id: `log-${i}`,
           cervicalMucus: i % 3 === 0 ? CervicalMucus.EGG_WHITE : CervicalMucus.DRY,
-          date: createMockTimestamp(new Date(Date.now() - i * 24 * 60 * 60 * 1000))
+          date: createMockTimestamp(new Date(base + i * dayMs))
         })
       );
 
-      const insights = await patternAnalyzer.analyzePatterns(userId, dailyLogs, []);
+      const insights = await patternAnalyzer.analyzePatterns(userId, dailyLogs, cycles);
       
-      const fertilityInsight = insights.find(insight => 
-        insight.insightText.includes('fertile-quality cervical mucus') &&
-        insight.type === InsightType.FERTILITY_WINDOW
-      );
+      const fertilityInsight = insights.find(insight => insight.type === InsightType.FERTILITY_WINDOW);
 
       expect(fertilityInsight).toBeDefined();
+      expect(fertilityInsight?.insightText).toContain('typically around cycle day 15');
+      expect(fertilityInsight?.insightText).toContain('from cycle day 10 to 15');
+      expect(fertilityInsight?.insightText).toContain('In 2 of these cycles');
+      expect(fertilityInsight?.insightText).toContain('luteal phase averages 13 days');
+      expect(fertilityInsight?.relatedLogIds).toEqual(['log-9', 'log-10', 'log-11', 'log-12', 'log-13', 'log-14', 'log-15']);
       expect(fertilityInsight?.actionable).toBe(true);
     });
 
-    it('should detect positive OPK patterns', async () => {
+    it('should not infer fertile windows from all-time OPK or mucus counts', async () => {
       const dailyLogs = Array.from({ length: 15 }, (_, i) => 
         createMockDailyLog({
           opkResult: i % 5 === 0 ? OPKResult.POSITIVE : OPKResult.NEGATIVE,
+          cervicalMucus: i % 3 === 0 ? CervicalMucus.EGG_WHITE : CervicalMucus.DRY,
           date: createMockTimestamp(new Date(Date.now() - i * 24 * 60 * 60 * 1000))
         })
       );
 
       const insights = await patternAnalyzer.analyzePatterns(userId, dailyLogs, []);
       
-      const opkInsight = insights.find(insight => 
-        insight.insightText.includes('positive ovulation tests') &&
-        insight.type === InsightType.FERTILITY_WINDOW
-      );
-
-      expect(opkInsight).toBeDefined();
-      expect(opkInsight?.confidence).toBeGreaterThan(0.8);
+      expect(insights.filter(insight => insight.type === InsightType.FERTILITY_WINDOW)).toHaveLength(0);
     });
   });
 
@@ -0,0 +1,156 @@
+import { DeviceTokenRepository, MAX_DEVICE_TOKENS } from '../data/deviceTokenRepository';
+import { decodeUserSettings } from '../data/userSettingsRepository';
+import { PushNotifier } from '../notifications/pushNotifier';
+import { PushDeliveryStatus, PushMessage, PushTransport } from '../notifications/pushTransport';
+import { InsightType } from '../types';
+import { FakeFirestore } from './fakeFirestore';
+
+// Stand-in for FCM: records messages; `statuses` sets the outcome per token
+class FakePushTransport implements PushTransport {
+  readonly sent: Array<{ tokens: string[]; message: PushMessage }> = [];
+  readonly statuses = new Map<string, PushDeliveryStatus>();
+
+  async send(tokens: string[], message: PushMessage): Promise<PushDeliveryStatus[]> {
+    this.sent.push({ tokens, message });
+    return tokens.map(token => this.statuses.get(token) ?? 'delivered');
+  }
+}
+
+describe('push notifications', () => {
+  const userId = 'test-user-123';
+  // 14:00 in Madrid
+  const NOW = new Date(Date.UTC(2024, 4, 1, 12));
+  const HOUR = 60 * 60 * 1000;
+
+  let db: FakeFirestore;
+  let transport: FakePushTransport;
+  let tokens: DeviceTokenRepository;
+  let notifier: PushNotifier;
+
+  const enabled = { enabled: true, daysInAdvance: 1 };
+
+  beforeEach(async () => {
+    db = new FakeFirestore();
+    transport = new FakePushTransport();
+    tokens = new DeviceTokenRepository(db.asFirestore());
+    notifier = new PushNotifier(db.asFirestore(), transport);
+
+    db.seed(`users/${userId}`, { timeZone: 'Europe/Madrid' });
+    db.seed(`user_settings/${userId}`, {
+      locale: 'es-ES',
+      notificationPreferences: { insightNotifications: enabled, periodPredictionAlert: enabled }
+    });
+    await tokens.register(userId, 'token-phone', 'android', NOW);
+    await tokens.register(userId, 'token-tablet', 'ios', new Date(NOW.getTime() - HOUR));
+  });
+
+  it('should send a generic message in the user language to every device', async () => {
+    expect(await notifier.notifyInsight(userId, InsightType.EARLY_WARNING, NOW))
+      .toEqual({ status: 'sent', delivered: 2, prunedTokens: 0 });
+
+    expect(transport.sent).toEqual([{
+      tokens: ['token-phone', 'token-tablet'],
+      message: { title: 'Eunio', body: 'Tienes una nueva observación para revisar.', data: { kind: 'earlyWarning' } }
+    }]);
+  });
+
+  it('should respect the global switch and the preference of each kind', async () => {
+    expect(await notifier.notifyInsight(userId, InsightType.FERTILITY_WINDOW, NOW)).toEqual({ status: 'disabled' });
+    expect(await notifier.notifyInsight(userId, InsightType.PATTERN_RECOGNITION, NOW)).toEqual({ status: 'notPushed' });
+
+    db.seed(`user_settings/${userId}`, {
+      notificationPreferences: { insightNotifications: enabled, globalNotificationsEnabled: false }
+    });
+    expect(await notifier.notifyInsight(userId, InsightType.EARLY_WARNING, NOW)).toEqual({ status: 'disabled' });
+    expect(transport.sent).toEqual([]);
+  });
+
+  it('should hold notifications during quiet hours in the user time zone', async () => {
+    // 23:30 and 01:00 in Madrid; quiet hours end at 08:00, 06:00 UTC
+    const night = new Date(Date.UTC(2024, 4, 1, 21, 30));
+    const morning = new Date(Date.UTC(2024, 4, 2, 6));
+    db.seed(`user_settings/${userId}`, {
+      notificationPreferences: {
+        insightNotifications: enabled,
+        periodPredictionAlert: enabled,
+        quietHours: { enabled: true, startHour: 22, startMinute: 0, endHour: 8, endMinute: 0 }
+      }
+    });
+    expect(await notifier.notifyInsight(userId, InsightType.EARLY_WARNING, night))
+      .toEqual({ status: 'deferred', sendAt: morning });
+    await notifier.notifyInsight(userId, InsightType.EARLY_WARNING, new Date(night.getTime() + 1.5 * HOUR));
+    await notifier.notifyInsight(userId, InsightType.CYCLE_PREDICTION, night);
+    expect(transport.sent).toEqual([]);
+
+    expect(await notifier.sendDue(new Date(morning.getTime() - 60 * 1000))).toMatchObject({ sent: 0 });
+    expect(await notifier.sendDue(morning)).toMatchObject({ sent: 2 });
+    expect(transport.sent.map(({ message }) => message.data.kind)).toEqual(['earlyWarning', 'periodPrediction']);
+    expect(Array.from(db.store.keys()).filter(path => path.startsWith('scheduledNotifications/'))).toEqual([]);
+  });
+
+  it('should send at night to users who have not turned quiet hours on', async () => {
+    const night = new Date(Date.UTC(2024, 4, 1, 21, 30));
+
+    expect(await notifier.notifyInsight(userId, InsightType.EARLY_WARNING, night)).toMatchObject({ status: 'sent' });
+  });
+
+  it('should honour custom quiet hours and drop held notifications turned off since', async () => {
+    db.seed(`user_settings/${userId}`, {
+      notificationPreferences: {
+        insightNotifications: enabled,
+        quietHours: { enabled: true, startHour: 13, startMinute: 30, endHour: 15, endMinute: 0 }
+      }
+    });
+    expect(await notifier.notifyInsight(userId, InsightType.EARLY_WARNING, NOW))
+      .toEqual({ status: 'deferred', sendAt: new Date(NOW.getTime() + HOUR) });
+
+    db.seed(`user_settings/${userId}`, { notificationPreferences: { insightNotifications: { enabled: false } } });
+    expect(await notifier.sendDue(new Date(NOW.getTime() + HOUR))).toMatchObject({ disabled: 1, sent: 0 });
+    expect(transport.sent).toEqual([]);
+  });
+
+  it('should send at most three notifications a day', async () => {
+    for (let i = 0; i < 3; i++) {
+      expect(await notifier.notifyInsight(userId, InsightType.EARLY_WARNING, new Date(NOW.getTime() + i * 1000)))
+        .toMatchObject({ status: 'sent' });
+    }
+    expect(await notifier.notifyInsight(userId, InsightType.CYCLE_PREDICTION, new Date(NOW.getTime() + 2 * HOUR)))
+      .toEqual({ status: 'rateLimited' });
+    expect(await notifier.notifyInsight(userId, InsightType.CYCLE_PREDICTION, new Date(NOW.getTime() + 24 * HOUR)))
+      .toMatchObject({ status: 'sent' });
+    expect(transport.sent).toHaveLength(4);
+  });
+
+  it('should remove tokens FCM no longer accepts', async () => {
+    transport.statuses.set('token-tablet', 'invalidToken');
+
+    expect(await notifier.notifyInsight(userId, InsightType.EARLY_WARNING, NOW))
+      .toEqual({ status: 'sent', delivered: 1, prunedTokens: 1 });
+    expect((await tokens.list(userId)).map(device => device.token)).toEqual(['token-phone']);
+
+    await tokens.remove(userId, ['token-phone']);
+    expect(await notifier.notifyInsight(userId, InsightType.EARLY_WARNING, NOW)).toEqual({ status: 'noDevices' });
+  });
+
+  it('should keep one document per token and only the most recent devices', async () => {
+    await tokens.register(userId, 'token-phone', 'android', new Date(NOW.getTime() + HOUR));
+    expect((await tokens.list(userId)).map(device => device.token)).toEqual(['token-phone', 'token-tablet']);
+
+    for (let i = 0; i < MAX_DEVICE_TOKENS; i++) {
+      await tokens.register(userId, `token-${i}`, 'ios', new Date(NOW.getTime() + (i + 2) * HOUR));
+    }
+    const devices = await tokens.list(userId);
+    expect(devices).toHaveLength(MAX_DEVICE_TOKENS);
+    expect(devices.map(device => device.token)).not.toContain('token-tablet');
+    expect(JSON.stringify(Array.from(db.store.keys()))).not.toContain('token-');
+  });
+
+  it('should decode quiet hours as off by default, with default times for missing or invalid ones', () => {
+    expect(decodeUserSettings(userId, {}).notificationPreferences.quietHours)
+      .toEqual({ enabled: false, startHour: 22, startMinute: 0, endHour: 8, endMinute: 0 });
+    expect(decodeUserSettings(userId, {
+      notificationPreferences: { quietHours: { enabled: true, startHour: 23, startMinute: 30, endHour: 25, endMinute: 0 } }
+    }).notificationPreferences.quietHours)
+      .toEqual({ enabled: true, startHour: 23, startMinute: 30, endHour: 8, endMinute: 0 });
+  });
+});
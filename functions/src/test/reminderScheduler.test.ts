@@ -0,0 +1,135 @@
+import * as admin from 'firebase-admin';
+import { DeviceTokenRepository } from '../data/deviceTokenRepository';
+import { decodeUserSettings } from '../data/userSettingsRepository';
+import { PushNotifier } from '../notifications/pushNotifier';
+import { PushDeliveryStatus, PushMessage, PushTransport } from '../notifications/pushTransport';
+import { ReminderScheduler, forecastChanged, planReminders } from '../notifications/reminderScheduler';
+import { isoDateToEpochDay } from '../utils/dateUtils';
+import { FakeFirestore } from './fakeFirestore';
+
+class FakePushTransport implements PushTransport {
+  readonly sent: PushMessage[] = [];
+
+  async send(tokens: string[], message: PushMessage): Promise<PushDeliveryStatus[]> {
+    this.sent.push(message);
+    return tokens.map(() => 'delivered');
+  }
+}
+
+describe('reminder scheduler', () => {
+  const userId = 'test-user-123';
+  const NOW = new Date(Date.UTC(2024, 4, 1, 12));
+  const day = (iso: string) => isoDateToEpochDay(iso) as number;
+  const at = (iso: string) => new Date(iso);
+
+  const preferences = (notificationPreferences: Record<string, unknown>) =>
+    decodeUserSettings(userId, { notificationPreferences }).notificationPreferences;
+
+  describe('planReminders', () => {
+    const forecast = { periodStartEpochDay: day('2024-05-18'), ovulationEpochDay: day('2024-05-04') };
+
+    it('should remind days in advance at the local time', () => {
+      const plan = planReminders(forecast, preferences({
+        periodPredictionAlert: { enabled: true, timeHour: 8, timeMinute: 30, daysInAdvance: 2 },
+        ovulationAlert: { enabled: true, daysInAdvance: 1 }
+      }), 'Europe/Madrid', NOW);
+
+      expect(plan).toEqual([
+        { kind: 'ovulationReminder', epochDay: day('2024-05-03'), sendAt: at('2024-05-03T18:00:00Z') },
+        { kind: 'periodReminder', epochDay: day('2024-05-16'), sendAt: at('2024-05-16T06:30:00Z') }
+      ]);
+    });
+
+    it('should leave out past times and disabled reminders', () => {
+      const enabled = { enabled: true, daysInAdvance: 7 };
+      // The ovulation reminder was due on 27 April
+      expect(planReminders(forecast, preferences({ periodPredictionAlert: enabled, ovulationAlert: enabled }), 'UTC', NOW))
+        .toEqual([
+          { kind: 'periodReminder', epochDay: day('2024-05-11'), sendAt: at('2024-05-11T20:00:00Z') }
+        ]);
+      expect(planReminders(forecast, preferences({ periodPredictionAlert: enabled, globalNotificationsEnabled: false }), 'UTC', NOW))
+        .toEqual([]);
+    });
+  });
+
+  it('should only see forecast changes in cycle writes', () => {
+    const cycle = { startDate: day('2024-04-20'), predictedNextStartDate: day('2024-05-18'), updatedAt: 1 };
+    expect(forecastChanged(cycle, { ...cycle, updatedAt: 2 })).toBe(false);
+    expect(forecastChanged(cycle, { ...cycle, predictedNextStartDate: day('2024-05-19') })).toBe(true);
+    expect(forecastChanged(cycle, undefined)).toBe(true);
+  });
+
+  describe('ReminderScheduler', () => {
+    let db: FakeFirestore;
+    let scheduler: ReminderScheduler;
+
+    const scheduled = () => Array.from(db.store.entries())
+      .filter(([path]) => path.startsWith('scheduledNotifications/'))
+      .map(([path, data]) => [path.split('/')[1], (data.sendAt as admin.firestore.Timestamp).toDate().toISOString()]);
+
+    beforeEach(() => {
+      db = new FakeFirestore();
+      scheduler = new ReminderScheduler(db.asFirestore());
+
+      db.seed(`users/${userId}`, { timeZone: 'Europe/Madrid' });
+      db.seed(`user_settings/${userId}`, {
+        notificationPreferences: {
+          periodPredictionAlert: { enabled: true, timeHour: 9, timeMinute: 0, daysInAdvance: 1 },
+          ovulationAlert: { enabled: true, timeHour: 9, timeMinute: 0, daysInAdvance: 0 }
+        }
+      });
+      db.seed(`users/${userId}/cycles/c1`, {
+        startDate: day('2024-03-22'), endDate: day('2024-04-19'), cycleLength: 28, source: 'manual'
+      });
+      db.seed(`users/${userId}/cycles/c2`, {
+        startDate: day('2024-04-20'), source: 'manual',
+        predictedNextStartDate: day('2024-05-18'), predictedOvulationDate: day('2024-05-04')
+      });
+      // Held back for quiet hours; not a reminder
+      db.seed(`scheduledNotifications/${userId}_earlyWarning`, {
+        userId, kind: 'earlyWarning', sendAt: admin.firestore.Timestamp.fromDate(NOW)
+      });
+    });
+
+    it('should store the reminders of the open cycle forecast', async () => {
+      expect(await scheduler.reschedule(userId, NOW)).toEqual({ scheduled: 2, removed: 0 });
+
+      expect(scheduled()).toEqual([
+        [`${userId}_earlyWarning`, NOW.toISOString()],
+        [`${userId}_ovulationReminder_2024-05-04`, '2024-05-04T07:00:00.000Z'],
+        [`${userId}_periodReminder_2024-05-17`, '2024-05-17T07:00:00.000Z']
+      ]);
+    });
+
+    it('should replace the reminders when the forecast changes', async () => {
+      await scheduler.reschedule(userId, NOW);
+      db.update(`users/${userId}/cycles/c2`, { predictedNextStartDate: day('2024-05-20'), confirmedOvulationDate: day('2024-05-03') });
+
+      expect(await scheduler.reschedule(userId, NOW)).toEqual({ scheduled: 1, removed: 2 });
+      expect(scheduled().map(([id]) => id)).toEqual([`${userId}_earlyWarning`, `${userId}_periodReminder_2024-05-19`]);
+
+      // A logged period closes the cycle; the next forecast comes with the next insight run
+      db.seed(`users/${userId}/cycles/c3`, { startDate: day('2024-05-19'), source: 'manual' });
+      expect(await scheduler.reschedule(userId, NOW)).toEqual({ scheduled: 0, removed: 1 });
+    });
+
+    it('should send due reminders outside the quiet hours and rate limit', async () => {
+      const transport = new FakePushTransport();
+      const notifier = new PushNotifier(db.asFirestore(), transport, { maxPerWindow: 0, rateWindowMs: 1000 });
+      await new DeviceTokenRepository(db.asFirestore()).register(userId, 'token-phone', 'ios', NOW);
+      db.update(`user_settings/${userId}`, {
+        'notificationPreferences.ovulationAlert.timeHour': 23,
+        'notificationPreferences.insightNotifications': { enabled: true },
+        'notificationPreferences.quietHours': { enabled: true, startHour: 22, startMinute: 0, endHour: 8, endMinute: 0 }
+      });
+      await scheduler.reschedule(userId, NOW);
+
+      // 23:00 in Madrid: the held back insight notification waits for the morning again
+      const counts = await notifier.sendDue(at('2024-05-04T21:00:00Z'));
+      expect(counts).toMatchObject({ sent: 1, deferred: 1 });
+      expect(transport.sent).toEqual([
+        { title: 'Eunio', body: 'You have a reminder in your calendar.', data: { kind: 'ovulationReminder' } }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,308 @@
+import * as functions from 'firebase-functions';
+import { HealthReportGenerator } from '../reports/healthReportGenerator';
+import {
+  ReportShareService,
+  isShareToken,
+  parseCreateShareRequest,
+  shareIdForToken
+} from '../reports/sharing/reportShareService';
+import { createShareRequestHandler } from '../reports/sharing/shareRequestHandler';
+import { escapeHtml } from '../reports/html/healthReportHtmlRenderer';
+import { PeriodFlow, ReportType } from '../types';
+import { FakeFirestore } from './fakeFirestore';
+
+// Just enough of an express response to record what the handler sends
+class FakeResponse {
+  statusCode = 200;
+  headers: Record<string, string> = {};
+  body: unknown;
+
+  status(code: number): this {
+    this.statusCode = code;
+    return this;
+  }
+
+  set(field: string | Record<string, string>, value?: string): this {
+    Object.assign(this.headers, typeof field === 'string' ? { [field]: value } : field);
+    return this;
+  }
+
+  type(contentType: string): this {
+    return this.set('Content-Type', contentType);
+  }
+
+  send(body: unknown): this {
+    this.body = body;
+    return this;
+  }
+
+  json(body: unknown): this {
+    return this.type('application/json').send(body);
+  }
+}
+
+function fakeRequest(options: {
+  method: string;
+  path?: string;
+  query?: Record<string, string>;
+  headers?: Record<string, string>;
+  body?: unknown;
+}): functions.https.Request {
+  const headers = Object.fromEntries(Object.entries(options.headers ?? {}).map(([key, value]) => [key.toLowerCase(), value]));
+  return {
+    method: options.method,
+    path: options.path ?? '/',
+    originalUrl: `/sharedReports${options.path ?? '/'}`,
+    query: options.query ?? {},
+    body: options.body,
+    ip: '203.0.113.7',
+    get: (name: string) => headers[name.toLowerCase()]
+  } as unknown as functions.https.Request;
+}
+
+describe('report sharing', () => {
+  const userId = 'test-user-123';
+  // 2024-01-01; cycles of 28, 28 and 30 days, then an open one
+  const C1 = 19723;
+  const C2 = C1 + 28;
+  const C3 = C2 + 28;
+  const C4 = C3 + 30;
+  const NOW = new Date(Date.UTC(2024, 4, 1));
+  const DAY_MS = 86400 * 1000;
+
+  let db: FakeFirestore;
+  let service: ReportShareService;
+  let reportId: string;
+
+  const accessLog = (shareId: string) => [...db.store.entries()]
+    .filter(([path]) => path.startsWith(`sharedReports/${shareId}/accessLog/`))
+    .map(([, data]) => data);
+
+  beforeEach(async () => {
+    db = new FakeFirestore();
+    service = new ReportShareService(db.asFirestore());
+    db.seed(`users/${userId}`, { timeZone: 'Europe/Madrid' });
+    const periodStarts = [C1, C2, C3, C4];
+    for (let day = C1; day < C4 + 5; day++) {
+      const inPeriod = periodStarts.some(start => day >= start && day < start + 5);
+      db.seed(`users/${userId}/dailyLogs/log-${day}`, {
+        dateEpochDays: day,
+        v: 1,
+        ...(inPeriod ? { periodFlow: PeriodFlow.MEDIUM } : { symptoms: ['BLOATING'] })
+      });
+    }
+
+    const generated = await new HealthReportGenerator(db.asFirestore()).generate(
+      userId,
+      { reportType: ReportType.QUARTERLY, startEpochDay: C2, endEpochDay: C4 - 1 },
+      NOW
+    );
+    if (generated.status !== 'generated') {throw new Error('No report generated');}
+    reportId = generated.reportId;
+  });
+
+  describe('parseCreateShareRequest', () => {
+    it('should default to 7 days and 10 views', () => {
+      expect(parseCreateShareRequest({ reportId: 'r1' }))
+        .toEqual({ ok: true, request: { reportId: 'r1', expirationDays: 7, maxViews: 10 } });
+    });
+
+    it('should reject missing report ids and out-of-range limits', () => {
+      expect(parseCreateShareRequest(undefined)).toEqual({ ok: false, message: 'reportId is required' });
+      expect(parseCreateShareRequest({ reportId: 'a/b' })).toEqual({ ok: false, message: 'reportId is required' });
+      expect(parseCreateShareRequest({ reportId: 'r1', expirationDays: 31 }))
+        .toEqual({ ok: false, message: 'Expiration days must be between 1 and 30' });
+      expect(parseCreateShareRequest({ reportId: 'r1', maxViews: 1.5 }))
+        .toEqual({ ok: false, message: 'maxViews must be between 1 and 100' });
+    });
+  });
+
+  describe('ReportShareService', () => {
+    it('should store only the hash of the token and mark the report shared', async () => {
+      const result = await service.create(userId, { reportId, expirationDays: 3, maxViews: 5 }, NOW);
+      if (result.status !== 'created') {throw new Error('No share created');}
+
+      expect(isShareToken(result.token)).toBe(true);
+      expect(result.share.id).toBe(shareIdForToken(result.token));
+      expect(db.read(`sharedReports/${result.share.id}`)).toEqual({
+        userId,
+        reportId,
+        createdAt: NOW.getTime(),
+        expiresAt: NOW.getTime() + 3 * DAY_MS,
+        maxViews: 5,
+        viewCount: 0
+      });
+      expect(JSON.stringify([...db.store.values()])).not.toContain(result.token);
+      expect(db.read(`users/${userId}/healthReports/${reportId}`)?.isShared).toBe(true);
+    });
+
+    it('should not share reports the user does not have', async () => {
+      expect(await service.create('other-user', { reportId, expirationDays: 7, maxViews: 10 }, NOW))
+        .toEqual({ status: 'notFound' });
+      expect([...db.store.keys()].some(path => path.startsWith('sharedReports/'))).toBe(false);
+    });
+
+    it('should serve the report as HTML and PDF until the view limit, logging every access', async () => {
+      const created = await service.create(userId, { reportId, expirationDays: 7, maxViews: 2 }, NOW);
+      if (created.status !== 'created') {throw new Error('No share created');}
+
+      const html = await service.open(created.token, { format: 'html', ip: '203.0.113.7', userAgent: 'Browser' }, NOW);
+      expect(html.status).toBe('served');
+      if (html.status !== 'served') {return;}
+      expect(html.contentType).toBe('text/html; charset=utf-8');
+      expect(html.body).toContain('<meta name="robots" content="noindex, nofollow">');
+      expect(html.body).toContain('Quarterly report');
+      expect(html.body).toContain('href="?format=pdf"');
+
+      const pdf = await service.open(created.token, { format: 'pdf' }, NOW);
+      expect(pdf.status).toBe('served');
+      if (pdf.status !== 'served') {return;}
+      expect(pdf.contentType).toBe('application/pdf');
+      expect((pdf.body as Buffer).toString('latin1').startsWith('%PDF-1.4')).toBe(true);
+
+      expect(await service.open(created.token, { format: 'html' }, NOW)).toEqual({ status: 'viewLimitReached' });
+      expect(db.read(`sharedReports/${created.share.id}`)).toMatchObject({ viewCount: 2, lastViewedAt: NOW.getTime() });
+
+      const log = accessLog(created.share.id);
+      expect(log.map(entry => [entry.format, entry.outcome])).toEqual([
+        ['html', 'served'], ['pdf', 'served'], ['html', 'viewLimitReached']
+      ]);
+      expect(log[0]).toMatchObject({ ip: '203.0.113.7', userAgent: 'Browser' });
+    });
+
+    it('should refuse expired and revoked links and unknown tokens', async () => {
+      const created = await service.create(userId, { reportId, expirationDays: 1, maxViews: 10 }, NOW);
+      if (created.status !== 'created') {throw new Error('No share created');}
+
+      expect(await service.open(created.token, { format: 'html' }, new Date(NOW.getTime() + DAY_MS)))
+        .toEqual({ status: 'expired' });
+      expect(await service.revoke(userId, created.share.id, NOW)).toBe(true);
+      expect(await service.open(created.token, { format: 'html' }, NOW)).toEqual({ status: 'revoked' });
+      expect(await service.open('x'.repeat(43), { format: 'html' }, NOW)).toEqual({ status: 'notFound' });
+      expect(await service.open('not a token', { format: 'html' }, NOW)).toEqual({ status: 'notFound' });
+      expect(db.read(`sharedReports/${created.share.id}`)?.viewCount).toBe(0);
+    });
+
+    it('should list active shares and keep the report shared until its last one is revoked', async () => {
+      const first = await service.create(userId, { reportId, expirationDays: 7, maxViews: 10 }, NOW);
+      const second = await service.create(userId, { reportId, expirationDays: 7, maxViews: 10 }, new Date(NOW.getTime() + 1000));
+      const expired = await service.create(userId, { reportId, expirationDays: 1, maxViews: 10 }, new Date(NOW.getTime() - 2 * DAY_MS));
+      if (first.status !== 'created' || second.status !== 'created' || expired.status !== 'created') {
+        throw new Error('No share created');
+      }
+
+      expect((await service.listActive(userId, NOW)).map(share => share.id)).toEqual([second.share.id, first.share.id]);
+      expect(await service.revoke('other-user', first.share.id, NOW)).toBe(false);
+      expect(await service.revoke(userId, 'unknown', NOW)).toBe(false);
+
+      await service.revoke(userId, first.share.id, NOW);
+      expect(db.read(`users/${userId}/healthReports/${reportId}`)?.isShared).toBe(true);
+      await service.revoke(userId, second.share.id, NOW);
+      expect(db.read(`users/${userId}/healthReports/${reportId}`)?.isShared).toBe(false);
+      expect(await service.listActive(userId, NOW)).toEqual([]);
+    });
+  });
+
+  describe('createShareRequestHandler', () => {
+    const verifyIdToken = async (idToken: string) => {
+      if (idToken !== 'valid-id-token') {throw new Error('Invalid ID token');}
+      return { uid: userId };
+    };
+
+    it('should create a link for the authenticated owner', async () => {
+      const handler = createShareRequestHandler(service, verifyIdToken);
+      const res = new FakeResponse();
+
+      await handler(fakeRequest({
+        method: 'POST',
+        headers: { Authorization: 'Bearer valid-id-token', Host: 'europe-west1-eunio.cloudfunctions.net' },
+        body: { reportId, maxViews: 3 }
+      }), res as unknown as functions.Response);
+
+      expect(res.statusCode).toBe(201);
+      const body = res.body as { shareId: string; url: string; maxViews: number };
+      expect(body.maxViews).toBe(3);
+      const token = body.url.replace('https://europe-west1-eunio.cloudfunctions.net/sharedReports/', '');
+      expect(isShareToken(token)).toBe(true);
+      expect(body.shareId).toBe(shareIdForToken(token));
+    });
+
+    it('should use the configured base URL for links', async () => {
+      const handler = createShareRequestHandler(service, verifyIdToken, 'https://share.eunio.app/r');
+      const res = new FakeResponse();
+
+      await handler(fakeRequest({
+        method: 'POST', headers: { Authorization: 'Bearer valid-id-token' }, body: { reportId }
+      }), res as unknown as functions.Response);
+
+      expect((res.body as { url: string }).url).toMatch(/^https:\/\/share\.eunio\.app\/r\/[A-Za-z0-9_-]{43}$/);
+    });
+
+    it('should reject unauthenticated and invalid share requests', async () => {
+      const handler = createShareRequestHandler(service, verifyIdToken);
+
+      const anonymous = new FakeResponse();
+      await handler(fakeRequest({ method: 'POST', body: { reportId } }), anonymous as unknown as functions.Response);
+      expect(anonymous.statusCode).toBe(401);
+
+      const badToken = new FakeResponse();
+      await handler(fakeRequest({
+        method: 'POST', headers: { Authorization: 'Bearer forged' }, body: { reportId }
+      }), badToken as unknown as functions.Response);
+      expect(badToken.statusCode).toBe(401);
+
+      const invalid = new FakeResponse();
+      await handler(fakeRequest({
+        method: 'POST', headers: { Authorization: 'Bearer valid-id-token' }, body: { reportId, expirationDays: 90 }
+      }), invalid as unknown as functions.Response);
+      expect(invalid.statusCode).toBe(400);
+      expect(invalid.body).toEqual({ error: 'Expiration days must be between 1 and 30' });
+
+      const missing = new FakeResponse();
+      await handler(fakeRequest({
+        method: 'POST', headers: { Authorization: 'Bearer valid-id-token' }, body: { reportId: 'missing' }
+      }), missing as unknown as functions.Response);
+      expect(missing.statusCode).toBe(404);
+    });
+
+    it('should serve shared reports privately and explain links that stopped working', async () => {
+      const created = await service.create(userId, { reportId, expirationDays: 7, maxViews: 1 }, new Date());
+      if (created.status !== 'created') {throw new Error('No share created');}
+      const handler = createShareRequestHandler(service, verifyIdToken);
+
+      const page = new FakeResponse();
+      await handler(fakeRequest({
+        method: 'GET', path: `/${created.token}`, headers: { 'User-Agent': 'Browser' }
+      }), page as unknown as functions.Response);
+      expect(page.statusCode).toBe(200);
+      expect(page.headers).toMatchObject({
+        'Content-Type': 'text/html; charset=utf-8',
+        'Cache-Control': 'no-store',
+        'Referrer-Policy': 'no-referrer',
+        'X-Robots-Tag': 'noindex, nofollow'
+      });
+      expect(page.headers['Content-Security-Policy']).toContain("default-src 'none'");
+      expect(accessLog(created.share.id)[0]).toMatchObject({ ip: '203.0.113.7', userAgent: 'Browser', outcome: 'served' });
+
+      const used = new FakeResponse();
+      await handler(fakeRequest({
+        method: 'GET', path: `/${created.token}`, query: { format: 'pdf' }
+      }), used as unknown as functions.Response);
+      expect(used.statusCode).toBe(410);
+      expect(used.body).toBe('This link has reached its view limit.');
+
+      const unknown = new FakeResponse();
+      await handler(fakeRequest({ method: 'GET', path: '/nope' }), unknown as unknown as functions.Response);
+      expect(unknown.statusCode).toBe(404);
+
+      const deleted = new FakeResponse();
+      await handler(fakeRequest({ method: 'DELETE', path: `/${created.token}` }), deleted as unknown as functions.Response);
+      expect(deleted.statusCode).toBe(405);
+      expect(deleted.headers.Allow).toBe('GET, POST');
+    });
+  });
+
+  it('should escape text for HTML', () => {
+    expect(escapeHtml('<b>"Tom & Jerry\'s"</b>')).toBe('&lt;b&gt;&quot;Tom &amp; Jerry&#39;s&quot;&lt;/b&gt;');
+  });
+});
@@ -1,9 +1,33 @@
 // Minimal mocks for maximum performance
 
 // Simplified Firebase Admin mock
-jest.mock('firebase-admin', () => ({
-  initializeApp: jest.fn(),
-  firestore: jest.fn(() => ({
+jest.mock('firebase-admin', () => {
+  // Plain class (not jest.fn) so resetMocks does not strip its behaviour
+  class MockTimestamp {
+    constructor(public seconds: number, public nanoseconds: number) {}
+
+    static fromMillis(millis: number) {
+      return new MockTimestamp(Math.floor(millis / 1000), (millis % 1000) * 1e6);
+    }
+
+    static fromDate(date: Date) {
+      return MockTimestamp.fromMillis(date.getTime());
+    }
+
+    static now() {
+      return MockTimestamp.fromMillis(Date.now());
+    }
+
+    toMillis() {
+      return this.seconds * 1000 + Math.floor(this.nanoseconds / 1e6);
+    }
+
+    toDate() {
+      return new Date(this.toMillis());
+    }
+  }
+
+  const firestore = Object.assign(jest.fn(() => ({
     collection: jest.fn(() => ({
       doc: jest.fn(() => ({
         get: jest.fn().mockResolvedValue({ exists: false }),
@@ -24,9 +48,23 @@ jest.mock('firebase-admin', () => ({
       delete: jest.fn(),
       commit: jest.fn().mockResolvedValue(undefined)
     }))
-  })),
-  apps: []
-}));
+  })), {
+    Timestamp: MockTimestamp,
+    FieldValue: {
+      serverTimestamp: () => 'SERVER_TIMESTAMP',
+      delete: () => ({ fakeFieldValue: 'delete' }),
+      increment: (increment: number) => ({ increment }),
+      arrayUnion: (...elements: unknown[]) => ({ arrayUnion: elements }),
+      arrayRemove: (...elements: unknown[]) => ({ arrayRemove: elements })
+    }
+  });
+
+  return {
+    initializeApp: jest.fn(),
+    firestore,
+    apps: []
+  };
+});
 
 // Simplified Firebase Functions mock
 jest.mock('firebase-functions', () => ({
@@ -0,0 +1,80 @@
+import { TemperatureUnit, UnitPreferences } from '../types';
+import {
+  detectReadingUnit,
+  formatTemperature,
+  formatTemperatureDelta,
+  normalizeBbtReadings,
+  resolveTemperatureUnit
+} from '../utils/temperature';
+import { createLogOnDay } from './testDataFactory';
+
+describe('temperature utils', () => {
+  const START = 20000;
+
+  const createPreferences = (overrides: Partial<UnitPreferences> = {}): UnitPreferences => ({
+    temperatureUnit: TemperatureUnit.CELSIUS,
+    weightUnit: 'KILOGRAMS',
+    isManuallySet: false,
+    ...overrides
+  });
+
+  describe('detectReadingUnit', () => {
+    it('should classify readings by their plausible range', () => {
+      expect(detectReadingUnit(36.5)).toBe(TemperatureUnit.CELSIUS);
+      expect(detectReadingUnit(97.9)).toBe(TemperatureUnit.FAHRENHEIT);
+      expect(detectReadingUnit(60)).toBeNull();
+      expect(detectReadingUnit(3.65)).toBeNull();
+    });
+  });
+
+  describe('normalizeBbtReadings', () => {
+    it('should convert a mixed-unit history to Celsius', () => {
+      const logs = [
+        createLogOnDay(START, { bbt: 36.5 }),
+        createLogOnDay(START + 1, { bbt: 97.9 }),
+        createLogOnDay(START + 2, { bbt: 98.6 }),
+        createLogOnDay(START + 3)
+      ];
+
+      const result = normalizeBbtReadings(logs);
+
+      expect(result.logs.map(log => log.bbt && Math.round(log.bbt * 100) / 100)).toEqual([36.5, 36.61, 37, undefined]);
+      expect(result.unitCounts).toEqual({ CELSIUS: 1, FAHRENHEIT: 2 });
+    });
+
+    it('should rescale readings typed without a decimal point and drop implausible ones', () => {
+      const logs = [
+        createLogOnDay(START, { bbt: 365 }),
+        createLogOnDay(START + 1, { bbt: 55 })
+      ];
+
+      const result = normalizeBbtReadings(logs);
+
+      expect(result.logs[0].bbt).toBe(36.5);
+      expect(result.rescaledLogIds).toEqual([`log-day-${START}`]);
+      expect(result.logs[1].bbt).toBeUndefined();
+      expect(result.droppedLogIds).toEqual([`log-day-${START + 1}`]);
+    });
+  });
+
+  describe('resolveTemperatureUnit', () => {
+    it('should prefer an explicit setting, then the unit most readings were typed in', () => {
+      const counts = { [TemperatureUnit.CELSIUS]: 2, [TemperatureUnit.FAHRENHEIT]: 10 };
+
+      expect(resolveTemperatureUnit(createPreferences({ isManuallySet: true }), counts)).toBe(TemperatureUnit.CELSIUS);
+      expect(resolveTemperatureUnit(createPreferences(), counts)).toBe(TemperatureUnit.FAHRENHEIT);
+      expect(resolveTemperatureUnit(
+        createPreferences({ temperatureUnit: TemperatureUnit.FAHRENHEIT }),
+        { [TemperatureUnit.CELSIUS]: 0, [TemperatureUnit.FAHRENHEIT]: 0 }
+      )).toBe(TemperatureUnit.FAHRENHEIT);
+    });
+  });
+
+  describe('formatting', () => {
+    it('should render temperatures and differences in the requested unit', () => {
+      expect(formatTemperature(36.5, TemperatureUnit.CELSIUS)).toBe('36.5°C');
+      expect(formatTemperature(37, TemperatureUnit.FAHRENHEIT)).toBe('98.6°F');
+      expect(formatTemperatureDelta(0.2, TemperatureUnit.FAHRENHEIT, 2)).toBe('0.36°F');
+    });
+  });
+});
@@ -79,4 +79,31 @@ export const COMPREHENSIVE_PATTERN = (i: number) => ({
   mood: i % 3 === 0 ? Mood.HAPPY : Mood.NEUTRAL,
   bbt: 98.0 + ((i % 10) * 0.05),
   periodFlow: i % 28 < 5 ? PeriodFlow.MEDIUM : undefined
-});
\ No newline at end of file
+});
+// Logs and cycles pinned to calendar days (epoch days, midnight UTC) for cycle-level tests
+export const createLogOnDay = (epochDay: number, overrides: Partial<DailyLog> = {}): DailyLog => ({
+  ...MOCK_DAILY_LOG_BASE,
+  id: `log-day-${epochDay}`,
+  date: createMockTimestamp(epochDay * 86400),
+  ...overrides
+});
+
+export const createCycleOnDay = (epochDay: number, overrides: Partial<Cycle> = {}): Cycle => ({
+  userId: 'test-user-123',
+  id: `cycle-day-${epochDay}`,
+  startDate: createMockTimestamp(epochDay * 86400),
+  ...overrides
+});
+
+// Period logs for consecutive cycles: `periodDays` of MEDIUM flow at the start of each cycle
+export const createPeriodLogs = (startEpochDay: number, cycleLengths: number[], periodDays = 5): DailyLog[] => {
+  const logs: DailyLog[] = [];
+  let cycleStart = startEpochDay;
+  [...cycleLengths, 0].forEach(length => {
+    for (let day = 0; day < periodDays; day++) {
+      logs.push(createLogOnDay(cycleStart + day, { periodFlow: PeriodFlow.MEDIUM }));
+    }
+    cycleStart += length;
+  });
+  return logs;
+};
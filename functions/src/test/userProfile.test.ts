@@ -0,0 +1,53 @@
+import { UserProfileRepository } from '../data/userProfileRepository';
+import { FakeFirestore } from './fakeFirestore';
+
+describe('UserProfileRepository', () => {
+  const userId = 'test-user-123';
+  const NOW = new Date(Date.UTC(2024, 5, 1, 12, 30));
+
+  let db: FakeFirestore;
+  let profiles: UserProfileRepository;
+
+  beforeEach(() => {
+    db = new FakeFirestore();
+    profiles = new UserProfileRepository(db.asFirestore(), { localHour: 4 });
+    db.seed(`users/${userId}`, { email: 'ana@example.com' });
+  });
+
+  it('should store a known time zone and the hour of the scheduled run next to the profile fields the apps write', async () => {
+    expect(await profiles.setTimeZone(userId, 'Asia/Tokyo', NOW)).toBe('updated');
+    expect(await profiles.setTimeZone(userId, 'Asia/Tokyo', NOW)).toBe('unchanged');
+
+    // 4 AM in Tokyo is 19:00 UTC
+    expect(db.read(`users/${userId}`)).toEqual({ email: 'ana@example.com', timeZone: 'Asia/Tokyo', insightDueHourUtc: 19 });
+  });
+
+  it('should keep the scheduled run in the local hour across daylight saving changes', async () => {
+    await profiles.setTimeZone(userId, 'America/New_York', new Date(Date.UTC(2024, 2, 8, 9, 5)));
+    expect(db.read(`users/${userId}`)?.insightDueHourUtc).toBe(9);
+
+    // The run of 9 March moves the next one to 4 AM EDT
+    await profiles.updateInsightDueHour(userId, db.read(`users/${userId}`) ?? {}, new Date(Date.UTC(2024, 2, 9, 9, 5)));
+    expect(db.read(`users/${userId}`)?.insightDueHourUtc).toBe(8);
+  });
+
+  it('should give users without a scheduled hour the one of their time zone', async () => {
+    db.seed('users/tokyo', { timeZone: 'Asia/Tokyo' });
+    db.seed('users/scheduled', { timeZone: 'Asia/Tokyo', insightDueHourUtc: 7 });
+
+    expect(await profiles.backfillInsightDueHours(NOW, 1)).toBe(2);
+
+    expect(db.read(`users/${userId}`)?.insightDueHourUtc).toBe(4);
+    expect(db.read('users/tokyo')?.insightDueHourUtc).toBe(19);
+    expect(db.read('users/scheduled')?.insightDueHourUtc).toBe(7);
+  });
+
+  it('should reject zones the runtime does not know', async () => {
+    await profiles.setTimeZone(userId, 'Europe/Madrid');
+
+    expect(await profiles.setTimeZone(userId, 'Mars/Olympus_Mons')).toBe('invalid');
+    expect(await profiles.setTimeZone(userId, '')).toBe('invalid');
+    expect(await profiles.setTimeZone(userId, 2)).toBe('invalid');
+    expect(db.read(`users/${userId}`)?.timeZone).toBe('Europe/Madrid');
+  });
+});
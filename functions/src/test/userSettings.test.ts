@@ -0,0 +1,42 @@
+import { UserSettingsRepository } from '../data/userSettingsRepository';
+import { FakeFirestore } from './fakeFirestore';
+
+describe('UserSettingsRepository', () => {
+  const userId = 'test-user-123';
+
+  let db: FakeFirestore;
+  let settings: UserSettingsRepository;
+
+  beforeEach(() => {
+    db = new FakeFirestore();
+    settings = new UserSettingsRepository(db.asFirestore());
+    db.seed(`user_settings/${userId}`, { unitPreferences: { temperatureUnit: 'FAHRENHEIT' } });
+  });
+
+  it('should store a supported locale in canonical form next to the settings the apps write', async () => {
+    expect(await settings.setLocale(userId, ' es-mx ')).toBe('updated');
+    expect(await settings.setLocale(userId, 'es-MX')).toBe('unchanged');
+
+    expect(db.read(`user_settings/${userId}`)).toEqual({
+      unitPreferences: { temperatureUnit: 'FAHRENHEIT' },
+      locale: 'es-MX'
+    });
+    expect((await settings.getSettings(userId)).locale).toBe('es-MX');
+  });
+
+  it('should reject languages without a message catalog and malformed tags', async () => {
+    await settings.setLocale(userId, 'en-GB');
+
+    expect(await settings.setLocale(userId, 'fr-FR')).toBe('invalid');
+    expect(await settings.setLocale(userId, 'not a locale')).toBe('invalid');
+    expect(await settings.setLocale(userId, '')).toBe('invalid');
+    expect(await settings.setLocale(userId, 7)).toBe('invalid');
+    expect(db.read(`user_settings/${userId}`)?.locale).toBe('en-GB');
+  });
+
+  it('should create the settings document of users the apps have not synced yet', async () => {
+    expect(await settings.setLocale('new-user', 'es')).toBe('updated');
+
+    expect(db.read('user_settings/new-user')).toEqual({ locale: 'es' });
+  });
+});
@@ -45,19 +45,39 @@ export enum CervicalMucus {
 export enum OPKResult {
   NEGATIVE = 'NEGATIVE',
   POSITIVE = 'POSITIVE',
+  PEAK = 'PEAK',
   INVALID = 'INVALID'
 }
 
+export enum CyclePhase {
+  MENSTRUAL = 'MENSTRUAL',
+  FOLLICULAR = 'FOLLICULAR',
+  OVULATORY = 'OVULATORY',
+  LUTEAL = 'LUTEAL'
+}
+
 export interface User {
   id: string;
   email: string;
   name: string;
   onboardingComplete: boolean;
   primaryGoal: HealthGoal;
+  /** IANA time zone, e.g. Europe/Berlin; UTC when missing */
+  timeZone?: string;
   createdAt: admin.firestore.Timestamp;
   updatedAt: admin.firestore.Timestamp;
 }
 
+/**
+ * Origin of a cycle document: entered by the user/apps, or reconstructed from period-flow logs
+ */
+export type CycleSource = 'manual' | 'derived';
+
+/**
+ * Fertility signals that can pin down the ovulation day of a cycle
+ */
+export type OvulationSignal = 'BBT' | 'OPK' | 'CERVICAL_MUCUS';
+
 export interface Cycle {
   id: string;
   userId: string;
@@ -67,6 +87,68 @@ export interface Cycle {
   confirmedOvulationDate?: admin.firestore.Timestamp;
   cycleLength?: number;
   lutealPhaseLength?: number;
+  periodLength?: number;
+  predictedNextStartDate?: admin.firestore.Timestamp;
+  /** Half-width of the next-start prediction interval, in days */
+  predictionUncertaintyDays?: number;
+  /** Signals that agreed on confirmedOvulationDate */
+  ovulationSignals?: OvulationSignal[];
+  source?: CycleSource;
+}
+
+export enum TemperatureUnit {
+  CELSIUS = 'CELSIUS',
+  FAHRENHEIT = 'FAHRENHEIT'
+}
+
+// Mirrors UserSettingsDto as stored in user_settings/{userId}
+export interface NotificationSetting {
+  enabled: boolean;
+  timeHour?: number;
+  timeMinute?: number;
+  daysInAdvance: number;
+}
+
+/**
+ * Local times of day during which push notifications wait; the range may cross midnight
+ */
+export interface QuietHours {
+  enabled: boolean;
+  startHour: number;
+  startMinute: number;
+  endHour: number;
+  endMinute: number;
+}
+
+export interface NotificationPreferences {
+  dailyLoggingReminder: NotificationSetting;
+  periodPredictionAlert: NotificationSetting;
+  ovulationAlert: NotificationSetting;
+  insightNotifications: NotificationSetting;
+  globalNotificationsEnabled: boolean;
+  quietHours: QuietHours;
+}
+
+export interface CyclePreferences {
+  averageCycleLength: number;
+  averageLutealPhaseLength: number;
+  periodDuration: number;
+  isCustomized: boolean;
+}
+
+export interface UnitPreferences {
+  temperatureUnit: TemperatureUnit;
+  weightUnit: string;
+  isManuallySet: boolean;
+}
+
+export interface UserSettings {
+  userId: string;
+  unitPreferences: UnitPreferences;
+  notificationPreferences: NotificationPreferences;
+  cyclePreferences: CyclePreferences;
+  /** App language as a BCP 47 tag, e.g. es-MX */
+  locale?: string;
 }
 
 export interface DailyLog {
@@ -88,6 +170,12 @@ export interface DailyLog {
   updatedAt: admin.firestore.Timestamp;
 }
 
+/**
+ * active: shown to the user; expired: the pattern disappeared (or the active cap was hit);
+ * superseded: replaced by a newer insight from the same rule
+ */
+export type InsightStatus = 'active' | 'expired' | 'superseded';
+
 export interface Insight {
   id: string;
   userId: string;
@@ -97,24 +185,142 @@ export interface Insight {
   isRead: boolean;
   relatedLogIds: string[];
   confidence: number;
+  /** Rank for the user's goal among insights of the same type; higher first */
+  priority?: number;
   actionable: boolean;
+  /** Rule that produced the insight */
+  ruleId?: string;
+  /** Version of the rule when it produced the insight */
+  ruleVersion?: number;
+  /** Parameters that tell insights of one rule apart (e.g. the symptom), part of the fingerprint */
+  ruleParams?: Record<string, string>;
+  fingerprint?: string;
+  status?: InsightStatus;
+  /** Generation run that last produced the insight, in users/{uid}/insightRuns */
+  runId?: string;
+  /** Typed data behind insightText */
+  evidence?: InsightEvidence;
+  /** Catalog message insightText was rendered from, for clients that render it themselves */
+  messageKey?: string;
+  messageParams?: Record<string, string | number>;
+  /** Locale of insightText */
+  locale?: string;
 }
 
+/**
+ * The numbers an insight is derived from, so clients can chart them rather than parse text
+ */
+export interface InsightEvidence {
+  /** Computed values such as counts, percentages and averages */
+  metrics: Record<string, number>;
+  /** Thresholds in effect when the rule fired */
+  thresholds: Record<string, number>;
+  /** Local calendar days (yyyy-MM-dd) the insight covers; for predictions, the expected window */
+  dateRange?: { start: string; end: string };
+  cycleIds: string[];
+  /** Per-item values; series of cycle rules line up with cycleIds */
+  series?: Record<string, number[]>;
+}
+
+export enum ReportType {
+  MONTHLY = 'MONTHLY',
+  QUARTERLY = 'QUARTERLY',
+  YEARLY = 'YEARLY',
+  CUSTOM = 'CUSTOM'
+}
+
+export enum CycleRegularity {
+  VERY_REGULAR = 'VERY_REGULAR',
+  REGULAR = 'REGULAR',
+  SOMEWHAT_IRREGULAR = 'SOMEWHAT_IRREGULAR',
+  IRREGULAR = 'IRREGULAR',
+  VERY_IRREGULAR = 'VERY_IRREGULAR'
+}
+
+export enum TrendDirection {
+  INCREASING = 'INCREASING',
+  DECREASING = 'DECREASING',
+  STABLE = 'STABLE',
+  FLUCTUATING = 'FLUCTUATING'
+}
+
+// Mirrors HealthReportDto as stored in users/{userId}/healthReports
 export interface HealthReport {
-  id: string;
   userId: string;
-  generatedDate: admin.firestore.Timestamp;
-  reportType: string;
-  dateRange: {
-    start: admin.firestore.Timestamp;
-    end: admin.firestore.Timestamp;
-  };
-  data: {
-    cycleSummary: Record<string, unknown>;
-    symptomAnalysis: Record<string, unknown>;
-    insights: Insight[];
-  };
+  /** Epoch milliseconds */
+  generatedDate: number;
+  reportType: ReportType;
+  /** Local calendar days as epoch days, both inclusive */
+  dateRange: { start: number; end: number };
+  cycleSummary: CycleSummary;
+  symptomAnalysis: SymptomAnalysis;
+  insights: ReportInsight[];
   pdfUrl?: string;
+  isShared: boolean;
+}
+
+export interface CycleSummary {
+  totalCycles: number;
+  averageCycleLength: number;
+  averageLutealPhase: number;
+  cycleRegularity: CycleRegularity;
+  ovulationPatterns: OvulationPatterns;
+}
+
+export interface OvulationPatterns {
+  /** Cycle day */
+  averageOvulationDay: number;
+  /** Shares from 0 to 1 */
+  ovulationConfidenceRate: number;
+  fertilityWindowAccuracy: number;
+}
+
+export interface SymptomAnalysis {
+  mostCommonSymptoms: SymptomFrequency[];
+  symptomTrends: Record<string, TrendData>;
+  moodPatterns: MoodPatterns;
+  bbtAnalysis: BBTAnalysis | null;
+}
+
+export interface SymptomFrequency {
+  symptom: string;
+  /** Share of logged days, 0 to 1 */
+  frequency: number;
+  /** Share of the symptom's days in each phase */
+  cyclePhaseDistribution: Partial<Record<CyclePhase, number>>;
+}
+
+export interface TrendData {
+  trend: TrendDirection;
+  changePercentage: number;
+  /** 1 minus the p-value of the change, 0 to 1 */
+  significance: number;
+}
+
+export interface MoodPatterns {
+  dominantMood: string;
+  moodVariability: number;
+  /** Most common mood in each phase */
+  cyclePhaseCorrelations: Partial<Record<CyclePhase, string>>;
+}
+
+/** Temperatures in Celsius */
+export interface BBTAnalysis {
+  averageTemperature: number;
+  temperatureRange: { min: number; max: number; follicularAverage: number; lutealAverage: number };
+  ovulationDetectionRate: number;
+  temperaturePatterns: Array<{ pattern: string; frequency: number; description: string }>;
+}
+
+// Mirrors InsightDto, whose generatedDate is in epoch seconds
+export interface ReportInsight {
+  generatedDate: number;
+  insightText: string;
+  type: InsightType;
+  isRead: boolean;
+  relatedLogIds: string[];
+  confidence: number;
+  actionable: boolean;
 }
 
 // Common symptom types
@@ -0,0 +1,158 @@
+import * as admin from 'firebase-admin';
+
+export const SECONDS_PER_DAY = 86400;
+export const MS_PER_DAY = SECONDS_PER_DAY * 1000;
+
+/**
+ * Time zone used for users whose profile has none
+ */
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Minimal shape shared by Firestore Timestamps and the plain objects used in tests
+ */
+export interface TimestampLike {
+  seconds: number;
+  nanoseconds: number;
+}
+
+/**
+ * Check whether a raw Firestore value looks like a Timestamp
+ */
+export function isTimestampLike(value: unknown): value is TimestampLike {
+  return typeof value === 'object' &&
+    value !== null &&
+    typeof (value as TimestampLike).seconds === 'number' &&
+    Number.isFinite((value as TimestampLike).seconds);
+}
+
+/**
+ * Convert a timestamp to its calendar day, expressed as epoch days
+ */
+export function toEpochDay(timestamp: { seconds: number }): number {
+  return Math.floor(timestamp.seconds / SECONDS_PER_DAY);
+}
+
+/**
+ * Convert an instant to the calendar day it falls on in a time zone, expressed as epoch days
+ */
+export function toLocalEpochDay(timestamp: { seconds: number }, timeZone: string): number {
+  return localDateTime(timestamp.seconds * 1000, timeZone).epochDay;
+}
+
+/**
+ * Local calendar day (as epoch days) and hour of an instant in a time zone
+ */
+export function localDateTime(millis: number, timeZone: string): { epochDay: number; hour: number } {
+  const parts = localDateTimeFormat(timeZone).formatToParts(new Date(millis));
+  const part = (type: Intl.DateTimeFormatPartTypes): number =>
+    Number(parts.find(candidate => candidate.type === type)?.value);
+
+  return {
+    epochDay: Date.UTC(part('year'), part('month') - 1, part('day')) / MS_PER_DAY,
+    hour: part('hour')
+  };
+}
+
+/**
+ * Minutes since local midnight of an instant in a time zone
+ */
+export function localMinuteOfDay(millis: number, timeZone: string): number {
+  const parts = localDateTimeFormat(timeZone).formatToParts(new Date(millis));
+  const part = (type: Intl.DateTimeFormatPartTypes): number =>
+    Number(parts.find(candidate => candidate.type === type)?.value);
+
+  return part('hour') * 60 + part('minute');
+}
+
+/**
+ * The instant a local calendar day reaches a time of day (minutes since midnight) in a time
+ * zone. A time skipped by a daylight saving change falls an hour later.
+ */
+export function zonedTimeToMillis(epochDay: number, minuteOfDay: number, timeZone: string): number {
+  const wallClock = epochDay * MS_PER_DAY + minuteOfDay * 60000;
+  const offsetAt = (millis: number) =>
+    localDateTime(millis, timeZone).epochDay * MS_PER_DAY + localMinuteOfDay(millis, timeZone) * 60000 - millis;
+
+  const guess = wallClock - offsetAt(wallClock);
+  return wallClock - offsetAt(guess);
+}
+
+/**
+ * The calendar day `months` months before an epoch day. A day missing from the target month
+ * rolls into the next one, as with Date#setMonth.
+ */
+export function subtractMonths(epochDay: number, months: number): number {
+  const date = new Date(epochDay * MS_PER_DAY);
+  date.setUTCMonth(date.getUTCMonth() - months);
+  return date.getTime() / MS_PER_DAY;
+}
+
+/**
+ * Whether a value is an IANA time zone name the runtime knows, e.g. Europe/Berlin
+ */
+export function isValidTimeZone(value: unknown): value is string {
+  if (typeof value !== 'string' || value.length === 0) {return false;}
+  try {
+    localDateTimeFormat(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * A profile's time zone, or the default when it is missing or unknown
+ */
+export function resolveTimeZone(value: unknown): string {
+  return isValidTimeZone(value) ? value : DEFAULT_TIME_ZONE;
+}
+
+/**
+ * Convert epoch days to a Firestore Timestamp at midnight UTC of that day
+ */
+export function epochDayToTimestamp(epochDay: number): admin.firestore.Timestamp {
+  return admin.firestore.Timestamp.fromMillis(epochDay * MS_PER_DAY);
+}
+
+/**
+ * Format epoch days as yyyy-MM-dd (the document id format used by the apps)
+ */
+export function epochDayToIsoDate(epochDay: number): string {
+  return new Date(epochDay * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+/**
+ * Parse a yyyy-MM-dd string into epoch days, or null if it is not a valid date
+ */
+export function isoDateToEpochDay(value: string): number | null {
+  const match = ISO_DATE_PATTERN.exec(value);
+  if (!match) {return null;}
+
+  const millis = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  if (epochDayToIsoDate(millis / MS_PER_DAY) !== value) {return null;}
+
+  return millis / MS_PER_DAY;
+}
+
+// Creating formatters is slow; a run formats many dates in few zones
+const localDateTimeFormats = new Map<string, Intl.DateTimeFormat>();
+
+function localDateTimeFormat(timeZone: string): Intl.DateTimeFormat {
+  let format = localDateTimeFormats.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      hourCycle: 'h23'
+    });
+    localDateTimeFormats.set(timeZone, format);
+  }
+  return format;
+}
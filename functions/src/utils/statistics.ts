@@ -0,0 +1,144 @@
+/**
+ * Small statistics helpers shared by the cycle and insight engines
+ */
+
+export function mean(values: number[]): number {
+  if (values.length === 0) {return 0;}
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+export function median(values: number[]): number {
+  if (values.length === 0) {return 0;}
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Population standard deviation (matches the existing cycle regularity rules)
+ */
+export function standardDeviation(values: number[]): number {
+  if (values.length === 0) {return 0;}
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + Math.pow(value - avg, 2), 0) / values.length);
+}
+
+/**
+ * Median absolute deviation, scaled to be comparable with a standard deviation
+ */
+export function scaledMedianAbsoluteDeviation(values: number[]): number {
+  const center = median(values);
+  return 1.4826 * median(values.map(value => Math.abs(value - center)));
+}
+
+export function weightedMean(values: number[], weights: number[]): number {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (totalWeight === 0) {return 0;}
+  return values.reduce((sum, value, index) => sum + value * weights[index], 0) / totalWeight;
+}
+
+export function weightedStandardDeviation(values: number[], weights: number[]): number {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (totalWeight === 0) {return 0;}
+  const avg = weightedMean(values, weights);
+  const variance = values.reduce((sum, value, index) =>
+    sum + weights[index] * Math.pow(value - avg, 2), 0) / totalWeight;
+  return Math.sqrt(variance);
+}
+
+export function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+export function roundTo(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Standard normal cumulative distribution (Abramowitz and Stegun 7.1.26, error below 1.5e-7)
+ */
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const polynomial = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - polynomial * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+const logFactorials: number[] = [0];
+
+function logFactorial(n: number): number {
+  for (let k = logFactorials.length; k <= n; k++) {
+    logFactorials[k] = logFactorials[k - 1] + Math.log(k);
+  }
+  return logFactorials[n];
+}
+
+/**
+ * One-sided Fisher exact test of a 2x2 table [[a, b], [c, d]]: the probability, with the
+ * margins fixed, of at least `a` in the top-left cell. Exact, so valid for small counts.
+ */
+export function fisherExactGreater(a: number, b: number, c: number, d: number): number {
+  const rowTotal = a + b;
+  const columnTotal = a + c;
+  const total = a + b + c + d;
+  const logDenominator = logFactorial(total) - logFactorial(rowTotal) - logFactorial(total - rowTotal) -
+    logFactorial(columnTotal) - logFactorial(total - columnTotal);
+
+  let p = 0;
+  for (let x = a; x <= Math.min(rowTotal, columnTotal); x++) {
+    p += Math.exp(-logDenominator - logFactorial(x) - logFactorial(rowTotal - x) -
+      logFactorial(columnTotal - x) - logFactorial(total - rowTotal - columnTotal + x));
+  }
+  return Math.min(1, p);
+}
+
+/**
+ * Two-sided Mann-Whitney U test, normal approximation with tie and continuity corrections
+ */
+export function mannWhitneyU(first: number[], second: number[]): { u: number; pValue: number } {
+  const ranked = [...first.map(value => ({ value, first: true })), ...second.map(value => ({ value, first: false }))]
+    .sort((a, b) => a.value - b.value);
+
+  let firstRankSum = 0;
+  let tieTerm = 0;
+  for (let start = 0; start < ranked.length;) {
+    let end = start;
+    while (end + 1 < ranked.length && ranked[end + 1].value === ranked[start].value) {end++;}
+    const ties = end - start + 1;
+    const rank = (start + end) / 2 + 1;
+    for (let i = start; i <= end; i++) {
+      if (ranked[i].first) {firstRankSum += rank;}
+    }
+    tieTerm += ties * ties * ties - ties;
+    start = end + 1;
+  }
+
+  const n1 = first.length;
+  const n2 = second.length;
+  const total = n1 + n2;
+  const u = firstRankSum - n1 * (n1 + 1) / 2;
+  const variance = n1 * n2 / 12 * (total + 1 - tieTerm / (total * (total - 1)));
+  if (variance <= 0) {return { u, pValue: 1 };}
+
+  const z = Math.max(0, Math.abs(u - n1 * n2 / 2) - 0.5) / Math.sqrt(variance);
+  return { u, pValue: Math.min(1, 2 * (1 - normalCdf(z))) };
+}
+
+/**
+ * Benjamini-Hochberg adjusted p-values (q-values), in the order given: accepting every test
+ * with q at or below a level keeps the expected share of false discoveries under it
+ */
+export function benjaminiHochberg(pValues: number[]): number[] {
+  const order = pValues.map((p, index) => ({ p, index })).sort((a, b) => a.p - b.p);
+  const adjusted = new Array<number>(pValues.length);
+
+  let running = 1;
+  for (let rank = order.length; rank >= 1; rank--) {
+    const { p, index } = order[rank - 1];
+    running = Math.min(running, p * order.length / rank);
+    adjusted[index] = running;
+  }
+  return adjusted;
+}
@@ -0,0 +1,130 @@
+import { DailyLog, TemperatureUnit, UnitPreferences } from '../types';
+
+/**
+ * Basal body temperature helpers. BBT is handled internally in Celsius and converted to
+ * the user's unit only for display.
+ */
+
+// Plausible BBT readings; the two ranges do not overlap, so each reading reveals its unit
+const CELSIUS_READING_RANGE = { min: 34, max: 43 };
+const FAHRENHEIT_READING_RANGE = { min: 93, max: 109.5 };
+
+export interface BbtNormalizationResult {
+  /** Logs with bbt in Celsius; implausible readings are removed from the log */
+  logs: DailyLog[];
+  unitCounts: Record<TemperatureUnit, number>;
+  /** Readings typed without the decimal point (e.g. 365 for 36.5) */
+  rescaledLogIds: string[];
+  droppedLogIds: string[];
+}
+
+/**
+ * Unit a reading was typed in, or null if it is not a plausible body temperature
+ */
+export function detectReadingUnit(value: number): TemperatureUnit | null {
+  if (value >= CELSIUS_READING_RANGE.min && value <= CELSIUS_READING_RANGE.max) {
+    return TemperatureUnit.CELSIUS;
+  }
+  if (value >= FAHRENHEIT_READING_RANGE.min && value <= FAHRENHEIT_READING_RANGE.max) {
+    return TemperatureUnit.FAHRENHEIT;
+  }
+  return null;
+}
+
+/**
+ * Convert a BBT reading to Celsius, treating implausibly high values as Fahrenheit
+ */
+export function toCelsius(value: number): number {
+  return value > CELSIUS_READING_RANGE.max ? fahrenheitToCelsius(value) : value;
+}
+
+export function fahrenheitToCelsius(fahrenheit: number): number {
+  return (fahrenheit - 32) * 5 / 9;
+}
+
+/**
+ * Convert a Celsius temperature to the given unit
+ */
+export function convertTemperature(celsius: number, unit: TemperatureUnit): number {
+  return unit === TemperatureUnit.FAHRENHEIT ? celsius * 9 / 5 + 32 : celsius;
+}
+
+/**
+ * Convert a Celsius difference (shift, deviation) to the given unit
+ */
+export function convertTemperatureDelta(celsiusDelta: number, unit: TemperatureUnit): number {
+  return unit === TemperatureUnit.FAHRENHEIT ? celsiusDelta * 9 / 5 : celsiusDelta;
+}
+
+export function formatTemperature(celsius: number, unit: TemperatureUnit, decimals = 1): string {
+  return `${convertTemperature(celsius, unit).toFixed(decimals)}${unitSymbol(unit)}`;
+}
+
+export function formatTemperatureDelta(celsiusDelta: number, unit: TemperatureUnit, decimals = 1): string {
+  return `${convertTemperatureDelta(celsiusDelta, unit).toFixed(decimals)}${unitSymbol(unit)}`;
+}
+
+/**
+ * Bring every BBT reading to Celsius. Histories may mix units (a user switching apps or
+ * settings), so each reading is classified on its own.
+ */
+export function normalizeBbtReadings(dailyLogs: DailyLog[]): BbtNormalizationResult {
+  const result: BbtNormalizationResult = {
+    logs: [],
+    unitCounts: { [TemperatureUnit.CELSIUS]: 0, [TemperatureUnit.FAHRENHEIT]: 0 },
+    rescaledLogIds: [],
+    droppedLogIds: []
+  };
+
+  for (const log of dailyLogs) {
+    if (log.bbt === undefined) {
+      result.logs.push(log);
+      continue;
+    }
+
+    let value = log.bbt;
+    let unit = detectReadingUnit(value);
+    if (!unit && detectReadingUnit(value / 10)) {
+      value = value / 10;
+      unit = detectReadingUnit(value);
+      result.rescaledLogIds.push(log.id);
+    }
+
+    if (!unit) {
+      const withoutBbt = { ...log };
+      delete withoutBbt.bbt;
+      result.logs.push(withoutBbt);
+      result.droppedLogIds.push(log.id);
+      continue;
+    }
+
+    result.unitCounts[unit]++;
+    result.logs.push({
+      ...log,
+      bbt: unit === TemperatureUnit.FAHRENHEIT ? fahrenheitToCelsius(value) : value
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Unit for insight text: an explicit choice in the apps wins; otherwise the unit most
+ * readings were typed in, falling back to the stored (default) preference
+ */
+export function resolveTemperatureUnit(
+  preferences: UnitPreferences,
+  unitCounts: Record<TemperatureUnit, number>
+): TemperatureUnit {
+  if (preferences.isManuallySet) {return preferences.temperatureUnit;}
+
+  const celsius = unitCounts[TemperatureUnit.CELSIUS];
+  const fahrenheit = unitCounts[TemperatureUnit.FAHRENHEIT];
+  if (celsius === fahrenheit) {return preferences.temperatureUnit;}
+
+  return fahrenheit > celsius ? TemperatureUnit.FAHRENHEIT : TemperatureUnit.CELSIUS;
+}
+
+export function unitSymbol(unit: TemperatureUnit): string {
+  return unit === TemperatureUnit.FAHRENHEIT ? '°F' : '°C';
+}